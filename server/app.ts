@@ -0,0 +1,137 @@
+/**
+ * ============================================================================
+ * REST SERVER
+ * ============================================================================
+ *
+ * Node HTTP front-end for the FinGuide API. Parses each request, hands it to
+ * the shared backend router (the same one the in-app mock backend uses) and
+ * writes the JSON response. All routes live under `/api`, e.g.
+ * `GET /api/transactions`.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { HttpError } from "@/api/backend/errors";
+import { handleRequest } from "@/api/backend/router";
+import type { BackendStore } from "@/api/backend/store";
+
+/**
+ * Path prefix every API route is served under
+ */
+export const API_PREFIX = "/api";
+
+/**
+ * Largest request body accepted, in bytes
+ */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Larger limits for routes that carry a whole ledger: a backup snapshot or
+ * a statement import of up to 5000 entries
+ */
+const ROUTE_BODY_LIMITS: Record<string, number> = {
+  "/backup/restore": 50 * 1024 * 1024,
+  "/transactions/import": 10 * 1024 * 1024,
+};
+
+/**
+ * Headers that let the Vite dev server (another origin) call the API
+ */
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Reads and parses a JSON request body
+ *
+ * @param limit - Largest body accepted, in bytes
+ * @returns The parsed body, or undefined when the request has none
+ * @throws HttpError 413 payload_too_large for an oversized body, or
+ *         400 bad_request for malformed JSON
+ */
+async function readJsonBody(request: IncomingMessage, limit: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > limit) throw new HttpError(413, "payload_too_large", "Request body is too large");
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf8");
+  if (!raw.trim()) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "bad_request", "Request body is not valid JSON");
+  }
+}
+
+/**
+ * Writes a status and optional JSON body; nothing is written once the
+ * client has gone
+ */
+function send(response: ServerResponse, status: number, body?: unknown): void {
+  if (response.headersSent || response.destroyed) return;
+  response.writeHead(status, {
+    ...CORS_HEADERS,
+    ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+// ============================================================================
+// SERVER FACTORY
+// ============================================================================
+
+/**
+ * Creates (but does not start) the API server
+ *
+ * @param store - Repositories to serve data from
+ */
+export function createApiServer(store: BackendStore): Server {
+  return createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+
+    if (request.method === "OPTIONS") {
+      send(response, 204);
+      return;
+    }
+
+    if (url.pathname !== API_PREFIX && !url.pathname.startsWith(`${API_PREFIX}/`)) {
+      send(response, 404, { error: { code: "not_found", message: `No route for ${url.pathname}` } });
+      return;
+    }
+
+    const path = url.pathname.slice(API_PREFIX.length) || "/";
+    let body: unknown;
+    try {
+      body = await readJsonBody(request, ROUTE_BODY_LIMITS[path] ?? MAX_BODY_BYTES);
+    } catch (error) {
+      // A client that aborts mid-upload fails the read with a stream error
+      const { status, code, message } =
+        error instanceof HttpError ? error : new HttpError(500, "internal_error", "Could not read the request body");
+      // Part of the body may be left unread, so the connection is not reused
+      response.setHeader("Connection", "close");
+      send(response, status, { error: { code, message } });
+      return;
+    }
+
+    const result = await handleRequest(store, {
+      method: request.method ?? "GET",
+      path,
+      query: url.searchParams,
+      body,
+    });
+    send(response, result.status, result.body);
+  });
+}
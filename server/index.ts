@@ -0,0 +1,23 @@
+/**
+ * ============================================================================
+ * SERVER ENTRY POINT
+ * ============================================================================
+ *
+ * Starts the FinGuide REST API with an in-memory store. Data lasts for the
+ * lifetime of the process, which is all local development and integration
+ * tests need.
+ *
+ *   npm run server              # http://localhost:3001/api
+ *   PORT=4000 npm run server
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { createMemoryStore } from "@/api/backend/store";
+import { createApiServer } from "./app";
+
+const port = Number(process.env.PORT ?? 3001);
+
+createApiServer(createMemoryStore()).listen(port);
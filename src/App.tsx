@@ -3,11 +3,26 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BaseCurrencyGate } from "@/components/currency/BaseCurrencyGate";
+import { RecurringPoster } from "@/components/recurring/RecurringPoster";
 import Index from "./pages/Index";
 import Analytics from "./pages/Analytics";
 import AddTransaction from "./pages/AddTransaction";
 import Budget from "./pages/Budget";
 import Profile from "./pages/Profile";
+import Transactions from "./pages/Transactions";
+import Categories from "./pages/Categories";
+import Rules from "./pages/Rules";
+import Recurring from "./pages/Recurring";
+import Accounts from "./pages/Accounts";
+import AccountDetail from "./pages/AccountDetail";
+import Reconcile from "./pages/Reconcile";
+import Import from "./pages/Import";
+import SmsImport from "./pages/SmsImport";
+import Duplicates from "./pages/Duplicates";
+import Export from "./pages/Export";
+import AppSettings from "./pages/AppSettings";
+import Currency from "./pages/Currency";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,17 +32,34 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner position="top-center" />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/analytics" element={<Analytics />} />
-          <Route path="/add" element={<AddTransaction />} />
-          <Route path="/budget" element={<Budget />} />
-          <Route path="/profile" element={<Profile />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <RecurringPoster />
+      <BaseCurrencyGate>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/analytics" element={<Analytics />} />
+            <Route path="/add" element={<AddTransaction />} />
+            <Route path="/budget" element={<Budget />} />
+            <Route path="/profile" element={<Profile />} />
+            <Route path="/transactions" element={<Transactions />} />
+            <Route path="/transactions/:id/edit" element={<AddTransaction />} />
+            <Route path="/categories" element={<Categories />} />
+            <Route path="/rules" element={<Rules />} />
+            <Route path="/recurring" element={<Recurring />} />
+            <Route path="/accounts" element={<Accounts />} />
+            <Route path="/accounts/:id" element={<AccountDetail />} />
+            <Route path="/accounts/:id/reconcile" element={<Reconcile />} />
+            <Route path="/import" element={<Import />} />
+            <Route path="/import/sms" element={<SmsImport />} />
+            <Route path="/duplicates" element={<Duplicates />} />
+            <Route path="/export" element={<Export />} />
+            <Route path="/settings" element={<AppSettings />} />
+            <Route path="/settings/currency" element={<Currency />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </BaseCurrencyGate>
     </TooltipProvider>
   </QueryClientProvider>
 );
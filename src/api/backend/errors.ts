@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * BACKEND ERRORS
+ * ============================================================================
+ *
+ * Error type thrown by route handlers. The router turns it into the JSON
+ * error body every endpoint uses:
+ *
+ *   { "error": { "code": "not_found", "message": "Transaction not found" } }
+ *
+ * Validation failures add a `details` list naming each offending field.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { ZodError } from "zod";
+
+/**
+ * Machine-readable error codes returned by the API
+ */
+export type ErrorCode =
+  | "bad_request"
+  | "validation_error"
+  | "not_found"
+  | "conflict"
+  | "payload_too_large"
+  | "internal_error";
+
+/**
+ * A single invalid field in a request body
+ */
+export interface FieldError {
+  path: string;      // Dotted field path (e.g., "amount")
+  message: string;   // What is wrong with the value
+}
+
+/**
+ * An error with an HTTP status and a stable error code
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: FieldError[]
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Shorthand for a 404 about a missing entity
+ *
+ * @param entity - Human readable entity name (e.g., "Transaction")
+ */
+export const notFound = (entity: string): HttpError =>
+  new HttpError(404, "not_found", `${entity} not found`);
+
+/**
+ * Converts a failed schema parse into a 400 listing every invalid field
+ *
+ * @param error - The Zod error from `safeParse`
+ */
+export const validationFailed = (error: ZodError): HttpError =>
+  new HttpError(
+    400,
+    "validation_error",
+    "Request body is invalid",
+    error.issues.map((issue) => ({ path: issue.path.join(".") || "(body)", message: issue.message }))
+  );
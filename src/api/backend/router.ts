@@ -0,0 +1,1038 @@
+/**
+ * ============================================================================
+ * BACKEND ROUTER
+ * ============================================================================
+ *
+ * Transport-independent implementation of the FinGuide REST API. Requests
+ * are plain objects and responses are status + JSON body pairs, so the same
+ * routes can be served in-process (mock backend) or over HTTP.
+ *
+ * Endpoints:
+ * - GET/POST           /transactions, /budgets, /goals, /accounts
+ * - GET/PATCH/DELETE   /transactions/:id, /budgets/:id, /goals/:id, /accounts/:id
+ *                      (an account with transactions cannot be deleted; a
+ *                      reconciled transaction cannot be changed or deleted)
+ * - POST               /transactions/:id/unlock (allows changes to a reconciled entry again)
+ * - POST               /accounts/:id/reconcile  (locks the entries cleared on a statement)
+ * - POST               /transactions/import   (many at once; known bank ids are skipped)
+ * - GET                /duplicates            (possible duplicate pairs for review)
+ * - POST               /duplicates/resolve    (merge, keep both or discard a pair)
+ * - GET/POST           /bank-profiles
+ * - GET/PATCH/DELETE   /bank-profiles/:id
+ * - GET/POST           /categories
+ * - GET/PATCH          /categories/:id   (renames rewrite transactions, budgets and rules)
+ * - POST               /categories/:id/merge
+ * - GET/POST           /rules            (new transactions run through enabled rules)
+ * - GET/PATCH/DELETE   /rules/:id
+ * - POST               /rules/reorder    (body: every rule id in the new order)
+ * - GET/POST           /recurring        (recurring transaction templates)
+ * - GET/PATCH/DELETE   /recurring/:id    (resuming skips the periods missed while paused)
+ * - POST               /recurring/post-due (body: the device's date; posts every missed occurrence)
+ * - GET/PATCH          /settings/base-currency (currency every total is converted into)
+ * - GET/POST           /exchange-rates   (the user's date-stamped rate table, newest first)
+ * - GET/PATCH/DELETE   /exchange-rates/:id
+ * - GET                /insights
+ * - GET                /summary?period=week|month|year (balance with a per-account breakdown)
+ * - GET                /backup           (every record of every store)
+ * - POST               /backup/restore   (replace or merge; snapshot must be at the current schema)
+ *
+ * POST and PATCH bodies are validated against the schemas in
+ * `@/api/schemas`; PATCH accepts any subset of the fields. Budgets are
+ * returned with `spent` computed from this month's transactions. Budgets,
+ * insights and the summary are worked out in the base currency.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { format, subDays } from "date-fns";
+import type { AnyZodObject, z } from "zod";
+import {
+  accountInputSchema,
+  backupRestoreSchema,
+  backupStoresSchema,
+  bankProfileInputSchema,
+  baseCurrencySchema,
+  budgetInputSchema,
+  categoryInputSchema,
+  categoryMergeSchema,
+  categoryUpdateSchema,
+  duplicateResolveSchema,
+  exchangeRateInputSchema,
+  goalInputSchema,
+  reconcileSchema,
+  recurringInputSchema,
+  recurringPostSchema,
+  ruleInputSchema,
+  ruleReorderSchema,
+  summaryQuerySchema,
+  transactionImportSchema,
+  transactionInputSchema,
+} from "@/api/schemas";
+import type { Repository } from "@/lib/db/repository";
+import { SCHEMA_VERSION } from "@/lib/db/migrations";
+import type { StoreName, StoreRecords } from "@/lib/db/schema";
+import { TRANSFER_CATEGORY } from "@/lib/accounts";
+import { withSpending } from "@/lib/budgets";
+import { categoryKey } from "@/lib/categories";
+import { DEFAULT_CURRENCY, convertAmount, currencyOf, toBase } from "@/lib/currency";
+import { findDuplicatePairs, mergeDuplicate } from "@/lib/duplicates";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { generateInsights } from "@/lib/insights";
+import { clearedBalance, isBalanced, reconcileCandidates } from "@/lib/reconcile";
+import { dueOccurrences } from "@/lib/recurrence";
+import { FALLBACK_CATEGORY, applyRules, byPriority } from "@/lib/rules";
+import { splitsBalance } from "@/lib/splits";
+import { computeSummary } from "@/lib/summary";
+import type { Account, ReconcileResult } from "@/types/Account";
+import type { BackupSnapshot, BackupStores, RestoreMode, RestoreResult } from "@/types/Backup";
+import type { BudgetRecord } from "@/types/Budget";
+import type { Category } from "@/types/Category";
+import type { BaseCurrency, CurrencyContext, ExchangeRate } from "@/types/Currency";
+import type { Goal } from "@/types/Goal";
+import type { BankProfile } from "@/types/Import";
+import type { RecurringPostResult, RecurringTransaction } from "@/types/Recurring";
+import type { Rule } from "@/types/Rule";
+import type { Transaction, TransactionInput } from "@/types/Transaction";
+import { HttpError, notFound, validationFailed } from "./errors";
+import type { BackendStore } from "./store";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * An incoming API request
+ */
+export interface BackendRequest {
+  method: string;             // HTTP method (GET, POST, PATCH, DELETE)
+  path: string;               // Path relative to the API root (e.g., "/goals/1")
+  query?: URLSearchParams;    // Parsed query string
+  body?: unknown;             // Parsed JSON body
+}
+
+/**
+ * The response to an API request
+ */
+export interface BackendResponse {
+  status: number;   // HTTP status code
+  body?: unknown;   // JSON-serializable body (omitted for 204)
+}
+
+/**
+ * Data available to a route handler
+ */
+interface RouteContext {
+  store: BackendStore;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+/**
+ * A single method + path pattern and its handler
+ */
+interface Route {
+  method: string;
+  pattern: string;   // Path with ":name" placeholders
+  handler: (context: RouteContext) => Promise<BackendResponse>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const ok = (body: unknown, status = 200): BackendResponse => ({ status, body });
+const noContent = (): BackendResponse => ({ status: 204 });
+
+/**
+ * Validates a request body or query against a schema
+ *
+ * @returns The parsed input with unknown fields removed
+ * @throws HttpError 400 validation_error listing the invalid fields
+ */
+function parseInput<S extends AnyZodObject>(schema: S, input: unknown): z.infer<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) throw validationFailed(result.error);
+  return result.data;
+}
+
+/**
+ * Builds list/get/create/update/delete routes for a resource
+ *
+ * @param resource - URL segment (e.g., "goals")
+ * @param entity - Name used in error messages (e.g., "Goal")
+ * @param repositoryOf - Picks the resource's repository from the store
+ * @param options - Input schema, hooks for stamping new/updated records
+ *                  (`create` may read the store), list order and derived
+ *                  response fields
+ */
+function crudRoutes<T extends { id: string }>(
+  resource: string,
+  entity: string,
+  repositoryOf: (store: BackendStore) => Repository<T>,
+  options: {
+    schema: AnyZodObject;
+    create: (input: Record<string, unknown>, store: BackendStore) => T | Promise<T>;
+    update?: (existing: T, changes: Record<string, unknown>) => T;
+    sort?: (a: T, b: T) => number;
+    present?: (records: T[], store: BackendStore) => Promise<unknown[]>;
+  }
+): Route[] {
+  const update = options.update ?? ((existing, changes) => ({ ...existing, ...changes, id: existing.id }));
+  const patchSchema = options.schema.partial();
+  const present = options.present ?? (async (records: T[]) => records);
+  const presentOne = async (store: BackendStore, record: T) => (await present([record], store))[0];
+
+  /**
+   * Loads a record or throws a 404
+   */
+  const find = async (store: BackendStore, id: string): Promise<T> => {
+    const record = await repositoryOf(store).get(id);
+    if (!record) throw notFound(entity);
+    return record;
+  };
+
+  return [
+    {
+      method: "GET",
+      pattern: `/${resource}`,
+      handler: async ({ store }) => {
+        const records = await repositoryOf(store).getAll();
+        return ok(await present(options.sort ? records.sort(options.sort) : records, store));
+      },
+    },
+    {
+      method: "GET",
+      pattern: `/${resource}/:id`,
+      handler: async ({ store, params }) => ok(await presentOne(store, await find(store, params.id))),
+    },
+    {
+      method: "POST",
+      pattern: `/${resource}`,
+      handler: async ({ store, body }) => {
+        const record = await options.create(parseInput(options.schema, body), store);
+        return ok(await presentOne(store, await repositoryOf(store).put(record)), 201);
+      },
+    },
+    {
+      method: "PATCH",
+      pattern: `/${resource}/:id`,
+      handler: async ({ store, params, body }) => {
+        const changes = parseInput(patchSchema, body);
+        const existing = await find(store, params.id);
+        const record = update(existing, changes);
+        return ok(await presentOne(store, await repositoryOf(store).put(record)));
+      },
+    },
+    {
+      method: "DELETE",
+      pattern: `/${resource}/:id`,
+      handler: async ({ store, params }) => {
+        await find(store, params.id);
+        await repositoryOf(store).delete(params.id);
+        return noContent();
+      },
+    },
+  ];
+}
+
+// ============================================================================
+// CURRENCIES
+// ============================================================================
+
+/**
+ * Settings key holding the base currency code
+ */
+const BASE_CURRENCY_KEY = "baseCurrency";
+
+/**
+ * The stored base currency, INR until the user picks another
+ */
+async function baseCurrency(store: BackendStore): Promise<string> {
+  const setting = await store.settings.get(BASE_CURRENCY_KEY);
+  return typeof setting?.value === "string" ? setting.value : DEFAULT_CURRENCY;
+}
+
+/**
+ * Base currency and rate table, for converting amounts into the base
+ */
+async function currencyContext(store: BackendStore): Promise<CurrencyContext> {
+  const [base, rates] = await Promise.all([baseCurrency(store), store.exchangeRates.getAll()]);
+  return { base, rates };
+}
+
+/**
+ * Converts budget limits and goal figures, which are kept in the base
+ * currency, from the old base to the new one at today's rate
+ *
+ * @param from - Base currency being replaced
+ * @param to - New base currency
+ */
+async function convertBaseFigures(store: BackendStore, from: string, to: string): Promise<void> {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const rates = await store.exchangeRates.getAll();
+  const convert = (amount: number) => convertAmount(amount, from, to, today, rates);
+
+  const budgets = (await store.budgets.getAll()).map((b) => ({ ...b, limit: convert(b.limit) }));
+  await store.budgets.putMany(budgets);
+
+  const goals = (await store.goals.getAll()).map((g) => ({ ...g, saved: convert(g.saved), target: convert(g.target) }));
+  await store.goals.putMany(goals);
+}
+
+/**
+ * Checks that a rate links two different currencies
+ */
+function settleRate(rate: ExchangeRate): ExchangeRate {
+  if (rate.from === rate.to) {
+    throw new HttpError(400, "validation_error", "An exchange rate needs two different currencies");
+  }
+  return rate;
+}
+
+// ============================================================================
+// TRANSACTIONS
+// ============================================================================
+
+/**
+ * Checks that split lines add up to the amount and files a split entry
+ * under its first line's category; an empty list removes the split
+ */
+function settleSplits<T extends TransactionInput>(t: T): T {
+  if (!t.splits) return t;
+  if (t.splits.length === 0) return { ...t, splits: undefined };
+  if (!splitsBalance(t.splits, t.amount)) {
+    throw new HttpError(400, "validation_error", "Split lines must add up to the transaction amount");
+  }
+  return { ...t, category: t.splits[0].category };
+}
+
+/**
+ * Refuses changes to an entry already matched to a bank statement
+ */
+function assertUnlocked(t: Transaction): void {
+  if (t.reconciledAt) {
+    throw new HttpError(409, "conflict", "This transaction is reconciled; unlock it before changing it");
+  }
+}
+
+/**
+ * Checks that a transfer names two different accounts and files it under
+ * the transfer category; other entries lose any destination account
+ */
+function settleTransfer<T extends TransactionInput>(t: T): T {
+  if (t.type !== "transfer") return t.toAccountId === undefined ? t : { ...t, toAccountId: undefined };
+  if (!t.accountId || !t.toAccountId) {
+    throw new HttpError(400, "validation_error", "A transfer needs both a from and a to account");
+  }
+  if (t.accountId === t.toAccountId) {
+    throw new HttpError(400, "validation_error", "A transfer needs two different accounts");
+  }
+  if (t.splits?.length) throw new HttpError(400, "validation_error", "A transfer cannot be split");
+  return { ...t, category: TRANSFER_CATEGORY, splits: undefined };
+}
+
+/**
+ * Builds new ledger entries, running each through the categorization rules;
+ * transfers skip the rules as they have no category to pick. An entry
+ * without a currency is in its account's currency, or the base currency.
+ *
+ * @param store - Source of the rules, accounts and base currency
+ * @param inputs - Validated transaction inputs
+ */
+async function newTransactions(store: BackendStore, inputs: TransactionInput[]): Promise<Transaction[]> {
+  const [rules, accounts, base] = await Promise.all([store.rules.getAll(), store.accounts.getAll(), baseCurrency(store)]);
+  const accountCurrency = new Map(accounts.map((a) => [a.id, currencyOf(a)]));
+  const now = new Date().toISOString();
+  return inputs.map((input) => {
+    const settled = settleSplits(settleTransfer(input));
+    const categorized = settled.type === "transfer" ? settled : applyRules(rules, settled);
+    return {
+      ...categorized,
+      currency: categorized.currency ?? accountCurrency.get(categorized.accountId) ?? base,
+      category: categorized.category ?? FALLBACK_CATEGORY,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+  });
+}
+
+// ============================================================================
+// CATEGORY CATALOG
+// ============================================================================
+
+/**
+ * Loads a category or throws a 404
+ */
+async function findCategoryById(store: BackendStore, id: string): Promise<Category> {
+  const category = await store.categories.get(id);
+  if (!category) throw notFound("Category");
+  return category;
+}
+
+/**
+ * Rejects a name already used by another category of the same type
+ */
+function assertUniqueName(catalog: Category[], candidate: Pick<Category, "id" | "name" | "type">): void {
+  const clash = catalog.find(
+    (c) => c.id !== candidate.id && c.type === candidate.type && categoryKey(c.name) === categoryKey(candidate.name)
+  );
+  if (clash) throw new HttpError(409, "conflict", `A ${candidate.type} category named "${clash.name}" already exists`);
+}
+
+/**
+ * Checks that a category may be placed under `parentId`: the parent must
+ * exist, share the type and be top-level, and the category must not have
+ * children of its own (subcategories are one level deep)
+ */
+function assertValidParent(catalog: Category[], category: Pick<Category, "id" | "type">, parentId: string): void {
+  const parent = catalog.find((c) => c.id === parentId);
+  if (!parent) throw new HttpError(400, "validation_error", "Parent category not found");
+  if (parent.id === category.id || parent.parentId || parent.type !== category.type) {
+    throw new HttpError(400, "validation_error", "Parent must be a different top-level category of the same type");
+  }
+  if (catalog.some((c) => c.parentId === category.id)) {
+    throw new HttpError(400, "validation_error", "A category with subcategories cannot become a subcategory");
+  }
+}
+
+/**
+ * Replaces a category name on every transaction, budget and rule that uses it
+ *
+ * @param from - Category whose name is being replaced
+ * @param to - New name
+ */
+async function rewriteCategoryName(store: BackendStore, from: Category, to: string): Promise<void> {
+  const key = categoryKey(from.name);
+  const now = new Date().toISOString();
+
+  const renamed = (name: string) => (categoryKey(name) === key ? to : name);
+  const transactions = (await store.transactions.getAll())
+    .filter((t) => t.type === from.type)
+    .filter((t) => categoryKey(t.category) === key || t.splits?.some((line) => categoryKey(line.category) === key))
+    .map((t) => ({
+      ...t,
+      category: renamed(t.category),
+      splits: t.splits?.map((line) => ({ ...line, category: renamed(line.category) })),
+      updatedAt: now,
+    }));
+  await store.transactions.putMany(transactions);
+
+  if (from.type === "expense") {
+    const budgets = (await store.budgets.getAll())
+      .filter((b) => categoryKey(b.category) === key)
+      .map((b) => ({ ...b, category: to }));
+    await store.budgets.putMany(budgets);
+  }
+
+  // Rules limited to the other type cannot assign this category
+  const rules = (await store.rules.getAll())
+    .filter((r) => r.actions.category && categoryKey(r.actions.category) === key)
+    .filter((r) => !r.conditions.type || r.conditions.type === from.type)
+    .map((r) => ({ ...r, actions: { ...r.actions, category: to } }));
+  await store.rules.putMany(rules);
+}
+
+const categoryRoutes: Route[] = [
+  {
+    method: "GET",
+    pattern: "/categories",
+    handler: async ({ store }) => {
+      const catalog = await store.categories.getAll();
+      return ok(catalog.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id)));
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/categories/:id",
+    handler: async ({ store, params }) => ok(await findCategoryById(store, params.id)),
+  },
+  {
+    method: "POST",
+    pattern: "/categories",
+    handler: async ({ store, body }) => {
+      const input = parseInput(categoryInputSchema, body);
+      const category = { ...input, id: crypto.randomUUID(), createdAt: new Date().toISOString() } as Category;
+      const catalog = await store.categories.getAll();
+
+      assertUniqueName(catalog, category);
+      if (category.parentId) assertValidParent(catalog, category, category.parentId);
+      return ok(await store.categories.put(category), 201);
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: "/categories/:id",
+    handler: async ({ store, params, body }) => {
+      const { parentId, ...changes } = parseInput(categoryUpdateSchema, body);
+      const existing = await findCategoryById(store, params.id);
+      const catalog = await store.categories.getAll();
+
+      const updated: Category = { ...existing, ...changes, id: existing.id, type: existing.type };
+      if (parentId === null) delete updated.parentId;
+      else if (parentId !== undefined) {
+        assertValidParent(catalog, existing, parentId);
+        updated.parentId = parentId;
+      }
+
+      assertUniqueName(catalog, updated);
+      if (updated.name !== existing.name) await rewriteCategoryName(store, existing, updated.name);
+      return ok(await store.categories.put(updated));
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/categories/:id/merge",
+    handler: async ({ store, params, body }) => {
+      const { targetId } = parseInput(categoryMergeSchema, body);
+      const source = await findCategoryById(store, params.id);
+      const target = await findCategoryById(store, targetId);
+      if (source.id === target.id || source.type !== target.type) {
+        throw new HttpError(400, "validation_error", "Categories can only be merged into another category of the same type");
+      }
+
+      // A budget already on the target wins; otherwise the source's moves over
+      if (source.type === "expense") {
+        const budgets = await store.budgets.getAll();
+        const targetHasBudget = budgets.some((b) => categoryKey(b.category) === categoryKey(target.name));
+        const sourceBudgets = budgets.filter((b) => categoryKey(b.category) === categoryKey(source.name));
+        if (targetHasBudget) await Promise.all(sourceBudgets.map((b) => store.budgets.delete(b.id)));
+      }
+      await rewriteCategoryName(store, source, target.name);
+
+      // Subcategories of the source move under the target's top-level category
+      let merged = target;
+      if (target.parentId === source.id) {
+        merged = { ...target };
+        delete merged.parentId;
+        await store.categories.put(merged);
+      }
+      const newParentId = merged.parentId ?? merged.id;
+      const children = (await store.categories.getAll()).filter((c) => c.parentId === source.id && c.id !== merged.id);
+      await store.categories.putMany(children.map((c) => ({ ...c, parentId: newParentId })));
+
+      await store.categories.delete(source.id);
+      return ok(merged);
+    },
+  },
+];
+
+// ============================================================================
+// RECURRING TRANSACTIONS
+// ============================================================================
+
+/**
+ * Bank-id style key of one posted occurrence; re-posting the same date is skipped
+ */
+const occurrenceId = (template: RecurringTransaction, date: string): string => `recurring:${template.id}:${date}`;
+
+/**
+ * Posts every occurrence due on or before `today` that has not been
+ * posted yet, catching up on periods missed while the app was closed
+ *
+ * @param store - Repositories to read templates from and write entries to
+ * @param today - The device's date (YYYY-MM-DD)
+ */
+async function postDueRecurring(store: BackendStore, today: string): Promise<RecurringPostResult> {
+  const [templates, ledger] = await Promise.all([store.recurring.getAll(), store.transactions.getAll()]);
+  const seen = new Set(ledger.map((t) => t.externalId).filter(Boolean));
+  const inputs: TransactionInput[] = [];
+  const advanced: RecurringTransaction[] = [];
+
+  for (const template of templates) {
+    const dates = dueOccurrences(template, today);
+    if (dates.length === 0) continue;
+    const { type, title, amount, currency, category, note, tags, accountId } = template;
+    for (const date of dates) {
+      const externalId = occurrenceId(template, date);
+      if (!seen.has(externalId)) inputs.push({ type, title, amount, currency, category, note, tags, accountId, date, externalId });
+    }
+    advanced.push({ ...template, lastPostedDate: dates[dates.length - 1] });
+  }
+
+  const posted = await newTransactions(store, inputs);
+  await store.transactions.putMany(posted);
+  await store.recurring.putMany(advanced);
+  return { posted };
+}
+
+/**
+ * Applies changes to a template. Resuming a paused template moves its
+ * last posted date up to yesterday, so the paused periods are not posted.
+ */
+function updateRecurring(existing: RecurringTransaction, changes: Record<string, unknown>): RecurringTransaction {
+  const updated = { ...existing, ...changes, id: existing.id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() };
+  if (existing.paused && changes.paused === false) {
+    const yesterday = format(subDays(new Date(), 1), "yyyy-MM-dd");
+    if (!existing.lastPostedDate || existing.lastPostedDate < yesterday) updated.lastPostedDate = yesterday;
+  }
+  return updated;
+}
+
+// ============================================================================
+// BACKUP
+// ============================================================================
+
+/**
+ * A record of any store
+ */
+type StoredRecord = StoreRecords[StoreName];
+
+/**
+ * Primary key of a record (settings are keyed by name, everything else by id)
+ */
+const recordKey = (record: StoredRecord): string => ("key" in record ? record.key : record.id);
+
+/**
+ * Key that makes two records the same thing even with different ids:
+ * a bank id for transactions, type and name for categories, the category
+ * for budgets. Used when merging so a restore does not add near copies.
+ */
+const NATURAL_KEYS: { [S in StoreName]?: (record: StoreRecords[S]) => string | undefined } = {
+  transactions: (t) => t.externalId,
+  categories: (c) => `${c.type}:${categoryKey(c.name)}`,
+  budgets: (b) => categoryKey(b.category),
+};
+
+/**
+ * Every record of every store
+ */
+async function takeSnapshot(store: BackendStore): Promise<BackupSnapshot> {
+  const names = Object.keys(store) as StoreName[];
+  const records = await Promise.all(names.map((name) => store[name].getAll()));
+  return {
+    app: "FinGuide",
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    stores: Object.fromEntries(names.map((name, i) => [name, records[i]])) as BackupStores,
+  };
+}
+
+/**
+ * Writes one store's records from a backup
+ *
+ * @returns How many records were written
+ */
+async function restoreStore<S extends StoreName>(
+  name: S,
+  repository: Repository<StoreRecords[S]>,
+  backup: StoreRecords[S][],
+  mode: RestoreMode
+): Promise<number> {
+  let records = backup;
+  if (mode === "replace") {
+    await repository.clear();
+  } else {
+    const naturalKey = NATURAL_KEYS[name] ?? (() => undefined);
+    const existing = await repository.getAll();
+    const keys = new Set(existing.map(recordKey));
+    const natural = new Set(existing.map(naturalKey).filter(Boolean));
+    records = records.filter((record) => {
+      const key = naturalKey(record);
+      if (keys.has(recordKey(record)) || (key && natural.has(key))) return false;
+      if (key) natural.add(key);
+      return true;
+    });
+  }
+
+  await repository.putMany(records);
+  return records.length;
+}
+
+/**
+ * Writes a snapshot into the store
+ *
+ * @param stores - Records already checked against backupStoresSchema
+ * @param mode - "replace" empties every store first; "merge" keeps existing
+ *               records and skips backup records with the same key (or the
+ *               same natural key, see NATURAL_KEYS)
+ * @returns How many records were written per store
+ */
+async function restoreSnapshot(store: BackendStore, stores: BackupStores, mode: RestoreMode): Promise<RestoreResult> {
+  const restored: RestoreResult["restored"] = {};
+  for (const name of Object.keys(store) as StoreName[]) {
+    restored[name] = await restoreStore(name, store[name], stores[name] ?? [], mode);
+  }
+  return { mode, restored };
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const routes: Route[] = [
+  {
+    method: "POST",
+    pattern: "/transactions/import",
+    handler: async ({ store, body }) => {
+      const { transactions } = parseInput(transactionImportSchema, body);
+
+      // Entries whose bank id is already stored (or repeated in the batch) are skipped
+      const seen = new Set((await store.transactions.getAll()).map((t) => t.externalId).filter(Boolean));
+      const fresh = (transactions as TransactionInput[]).filter((input) => {
+        if (!input.externalId) return true;
+        if (seen.has(input.externalId)) return false;
+        seen.add(input.externalId);
+        return true;
+      });
+
+      const imported = await newTransactions(store, fresh);
+      await store.transactions.putMany(imported);
+      return ok({ imported, skipped: transactions.length - fresh.length }, 201);
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/duplicates",
+    handler: async ({ store }) => ok(findDuplicatePairs(await store.transactions.getAll())),
+  },
+  {
+    method: "POST",
+    pattern: "/duplicates/resolve",
+    handler: async ({ store, body }) => {
+      const { originalId, duplicateId, action } = parseInput(duplicateResolveSchema, body);
+      const [original, duplicate] = await Promise.all([
+        store.transactions.get(originalId),
+        store.transactions.get(duplicateId),
+      ]);
+      if (!original || !duplicate) throw notFound("Transaction");
+      if (original.id === duplicate.id) {
+        throw new HttpError(400, "validation_error", "A transaction cannot duplicate itself");
+      }
+      if (action !== "keep_both") assertUnlocked(duplicate);
+      // Merging rewrites the original too
+      if (action === "merge") assertUnlocked(original);
+
+      if (action === "keep_both") {
+        const mark = (t: Transaction, other: string) => ({
+          ...t,
+          notDuplicateOf: [...new Set([...(t.notDuplicateOf ?? []), other])],
+        });
+        const kept = mark(original, duplicate.id);
+        await store.transactions.putMany([kept, mark(duplicate, original.id)]);
+        return ok(kept);
+      }
+
+      // Either way the duplicate's bank id moves over, so a re-import does not bring it back
+      const kept = action === "merge"
+        ? mergeDuplicate(original, duplicate)
+        : { ...original, externalId: original.externalId ?? duplicate.externalId };
+      await store.transactions.put(kept);
+      await store.transactions.delete(duplicate.id);
+      return ok(kept);
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/transactions/:id/unlock",
+    handler: async ({ store, params }) => {
+      const existing = await store.transactions.get(params.id);
+      if (!existing) throw notFound("Transaction");
+      return ok(await store.transactions.put({ ...existing, reconciledAt: undefined, updatedAt: new Date().toISOString() }));
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/transactions/:id",
+    handler: async ({ store, params }) => {
+      const existing = await store.transactions.get(params.id);
+      if (!existing) throw notFound("Transaction");
+      assertUnlocked(existing);
+      await store.transactions.delete(params.id);
+      return noContent();
+    },
+  },
+  ...crudRoutes<Transaction>("transactions", "Transaction", (s) => s.transactions, {
+    schema: transactionInputSchema,
+    create: async (input, store) => (await newTransactions(store, [input as TransactionInput]))[0],
+    update: (existing, changes) => {
+      assertUnlocked(existing);
+      const merged = { ...existing, ...changes };
+      // A transfer turned into income or expense drops the transfer category
+      if (existing.type === "transfer" && merged.type !== "transfer" && !changes.category) {
+        merged.category = FALLBACK_CATEGORY;
+      }
+      return {
+        ...settleSplits(settleTransfer(merged)),
+        id: existing.id,
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+    },
+    // Newest first by date, then by creation time
+    sort: (a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt),
+  }),
+  ...crudRoutes<BudgetRecord>("budgets", "Budget", (s) => s.budgets, {
+    schema: budgetInputSchema,
+    create: (input) => ({ ...input, id: crypto.randomUUID() }) as BudgetRecord,
+    present: async (budgets, store) => {
+      const [transactions, catalog, currency] = await Promise.all([
+        store.transactions.getAll(),
+        store.categories.getAll(),
+        currencyContext(store),
+      ]);
+      return withSpending(budgets, toBase(transactions, currency), catalog);
+    },
+  }),
+  ...categoryRoutes,
+  {
+    method: "POST",
+    pattern: "/rules/reorder",
+    handler: async ({ store, body }) => {
+      const { ids } = parseInput(ruleReorderSchema, body);
+      const rules = await store.rules.getAll();
+      if (ids.length !== rules.length || !rules.every((r) => ids.includes(r.id))) {
+        throw new HttpError(400, "validation_error", "Reorder must list every rule exactly once");
+      }
+      const reordered = rules.map((rule) => ({ ...rule, priority: ids.indexOf(rule.id) }));
+      await store.rules.putMany(reordered);
+      return ok(reordered.sort(byPriority));
+    },
+  },
+  ...crudRoutes<Rule>("rules", "Rule", (s) => s.rules, {
+    schema: ruleInputSchema,
+    // New rules run after every existing rule unless a priority is given
+    create: async (input, store) => {
+      const rules = await store.rules.getAll();
+      const priority = input.priority ?? Math.max(-1, ...rules.map((r) => r.priority)) + 1;
+      return { ...input, priority, id: crypto.randomUUID(), createdAt: new Date().toISOString() } as Rule;
+    },
+    update: (existing, changes) => ({ ...existing, ...changes, id: existing.id, createdAt: existing.createdAt }),
+    sort: byPriority,
+  }),
+  {
+    method: "POST",
+    pattern: "/recurring/post-due",
+    handler: async ({ store, body }) => {
+      const { today } = parseInput(recurringPostSchema, body);
+      return ok(await postDueRecurring(store, today));
+    },
+  },
+  ...crudRoutes<RecurringTransaction>("recurring", "Recurring transaction", (s) => s.recurring, {
+    schema: recurringInputSchema,
+    create: (input) => {
+      const now = new Date().toISOString();
+      return { ...input, id: crypto.randomUUID(), createdAt: now, updatedAt: now } as RecurringTransaction;
+    },
+    update: updateRecurring,
+    sort: (a, b) => a.title.localeCompare(b.title),
+  }),
+  ...crudRoutes<Goal>("goals", "Goal", (s) => s.goals, {
+    schema: goalInputSchema,
+    create: (input) => ({ ...input, id: crypto.randomUUID() }) as Goal,
+  }),
+  {
+    // Deleting an account with history would silently move its entries
+    // out of every account balance, so it is refused until they are moved
+    method: "DELETE",
+    pattern: "/accounts/:id",
+    handler: async ({ store, params }) => {
+      if (!(await store.accounts.get(params.id))) throw notFound("Account");
+      const used = (await store.transactions.getAll()).filter(
+        (t) => t.accountId === params.id || t.toAccountId === params.id
+      ).length;
+      if (used > 0) {
+        throw new HttpError(409, "conflict", `This account has ${used} transaction${used === 1 ? "" : "s"}; move or delete them first`);
+      }
+      await store.accounts.delete(params.id);
+      return noContent();
+    },
+  },
+  {
+    // Locks the ticked entries, but only once they bring the account to
+    // the statement's closing balance
+    method: "POST",
+    pattern: "/accounts/:id/reconcile",
+    handler: async ({ store, params, body }) => {
+      const account = await store.accounts.get(params.id);
+      if (!account) throw notFound("Account");
+      const { statementDate, statementBalance, transactionIds } = parseInput(reconcileSchema, body);
+      const transactions = await store.transactions.getAll();
+      const ids = new Set(transactionIds);
+      const cleared = reconcileCandidates(account, transactions, statementDate).filter((t) => ids.has(t.id));
+      if (cleared.length !== ids.size) {
+        throw new HttpError(400, "validation_error", "Only this account's unreconciled entries up to the statement date can be cleared");
+      }
+      const balance = clearedBalance(account, transactions, ids, await store.exchangeRates.getAll());
+      if (!isBalanced(statementBalance, balance)) {
+        const gap = formatCurrency(Math.abs(statementBalance - balance), currencyOf(account));
+        throw new HttpError(409, "conflict", `The cleared balance is off from the statement by ${gap}`);
+      }
+
+      const now = new Date().toISOString();
+      await store.transactions.putMany(cleared.map((t) => ({ ...t, reconciledAt: now, updatedAt: now })));
+      const reconciled = await store.accounts.put({
+        ...account,
+        lastReconciliation: { statementDate, statementBalance, reconciledAt: now },
+      });
+      const result: ReconcileResult = { account: reconciled, reconciled: cleared.length };
+      return ok(result);
+    },
+  },
+  ...crudRoutes<Account>("accounts", "Account", (s) => s.accounts, {
+    schema: accountInputSchema,
+    create: (input) => ({ ...input, id: crypto.randomUUID(), createdAt: new Date().toISOString() }) as Account,
+    update: (existing, changes) => ({ ...existing, ...changes, id: existing.id, createdAt: existing.createdAt }),
+    sort: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  }),
+  {
+    method: "GET",
+    pattern: "/settings/base-currency",
+    handler: async ({ store }) => {
+      const result: BaseCurrency = { currency: await baseCurrency(store) };
+      return ok(result);
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: "/settings/base-currency",
+    handler: async ({ store, body }) => {
+      const { currency } = parseInput(baseCurrencySchema, body);
+      const previous = await baseCurrency(store);
+      if (previous !== currency) await convertBaseFigures(store, previous, currency);
+      await store.settings.put({ key: BASE_CURRENCY_KEY, value: currency });
+      const result: BaseCurrency = { currency };
+      return ok(result);
+    },
+  },
+  ...crudRoutes<ExchangeRate>("exchange-rates", "Exchange rate", (s) => s.exchangeRates, {
+    schema: exchangeRateInputSchema,
+    create: (input) => settleRate({ ...input, id: crypto.randomUUID(), createdAt: new Date().toISOString() } as ExchangeRate),
+    update: (existing, changes) => settleRate({ ...existing, ...changes, id: existing.id, createdAt: existing.createdAt }),
+    // Newest first, then by pair
+    sort: (a, b) => b.date.localeCompare(a.date) || `${a.from}${a.to}`.localeCompare(`${b.from}${b.to}`),
+  }),
+  ...crudRoutes<BankProfile>("bank-profiles", "Bank profile", (s) => s.bankProfiles, {
+    schema: bankProfileInputSchema,
+    create: (input) => ({ ...input, id: crypto.randomUUID(), createdAt: new Date().toISOString() }) as BankProfile,
+    update: (existing, changes) => ({ ...existing, ...changes, id: existing.id, createdAt: existing.createdAt }),
+    sort: (a, b) => a.name.localeCompare(b.name),
+  }),
+  {
+    method: "GET",
+    pattern: "/insights",
+    handler: async ({ store }) => {
+      const [ledger, budgets, catalog, currency] = await Promise.all([
+        store.transactions.getAll(),
+        store.budgets.getAll(),
+        store.categories.getAll(),
+        currencyContext(store),
+      ]);
+      const transactions = toBase(ledger, currency);
+      return ok(generateInsights(transactions, withSpending(budgets, transactions, catalog), catalog, new Date(), currency.base));
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/backup",
+    handler: async ({ store }) => ok(await takeSnapshot(store)),
+  },
+  {
+    method: "POST",
+    pattern: "/backup/restore",
+    handler: async ({ store, body }) => {
+      const { mode, snapshot } = parseInput(backupRestoreSchema, body);
+      // Older backups are migrated on the device before they are sent
+      if (snapshot.schemaVersion !== SCHEMA_VERSION) {
+        throw new HttpError(
+          409,
+          "conflict",
+          `The backup is at schema version ${snapshot.schemaVersion}; this app expects version ${SCHEMA_VERSION}`
+        );
+      }
+      const stores = parseInput(backupStoresSchema, snapshot.stores);
+      return ok(await restoreSnapshot(store, stores as BackupStores, mode));
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/summary",
+    handler: async ({ store, query }) => {
+      const { period } = parseInput(summaryQuerySchema, Object.fromEntries(query));
+      const [transactions, accounts, currency] = await Promise.all([
+        store.transactions.getAll(),
+        store.accounts.getAll(),
+        currencyContext(store),
+      ]);
+      return ok(computeSummary(transactions, accounts, period, new Date(), currency));
+    },
+  },
+];
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Decodes a path segment
+ *
+ * @throws HttpError 400 bad_request for a malformed escape (e.g., "%E0%A4%A")
+ */
+function decodeParam(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, "bad_request", "Malformed path segment");
+  }
+}
+
+/**
+ * Matches a path against a route pattern
+ *
+ * @returns The extracted ":name" parameters, or null if it does not match
+ */
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split("/").filter(Boolean);
+  const pathParts = path.split("/").filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(":")) {
+      params[patternParts[i].slice(1)] = decodeParam(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Routes a request to its handler and converts failures into the
+ * standard error body
+ *
+ * @param store - Repositories to serve data from
+ * @param request - The incoming request
+ */
+export async function handleRequest(
+  store: BackendStore,
+  request: BackendRequest
+): Promise<BackendResponse> {
+  const method = request.method.toUpperCase();
+
+  try {
+    for (const route of routes) {
+      if (route.method !== method) continue;
+      const params = matchPath(route.pattern, request.path);
+      if (params) {
+        return await route.handler({
+          store,
+          params,
+          query: request.query ?? new URLSearchParams(),
+          body: request.body,
+        });
+      }
+    }
+    throw new HttpError(404, "not_found", `No route for ${method} ${request.path}`);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      const { status, code, message, details } = error;
+      return { status, body: { error: details ? { code, message, details } : { code, message } } };
+    }
+    console.error("Unhandled API error", error);
+    return { status: 500, body: { error: { code: "internal_error", message: "Something went wrong" } } };
+  }
+}
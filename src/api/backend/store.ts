@@ -0,0 +1,100 @@
+/**
+ * ============================================================================
+ * BACKEND STORE
+ * ============================================================================
+ *
+ * The set of repositories a backend reads and writes. The in-app mock
+ * backend plugs in the IndexedDB repositories; the Node REST server and
+ * integration tests use the in-memory store.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { DEFAULT_CATEGORIES } from "@/lib/categories";
+import { createMemoryRepository } from "@/lib/db/memoryRepository";
+import {
+  Repository,
+  accountsRepository,
+  bankProfilesRepository,
+  budgetsRepository,
+  categoriesRepository,
+  exchangeRatesRepository,
+  goalsRepository,
+  recurringRepository,
+  rulesRepository,
+  settingsRepository,
+  transactionsRepository,
+} from "@/lib/db/repository";
+import type { Account } from "@/types/Account";
+import type { BudgetRecord } from "@/types/Budget";
+import type { Category } from "@/types/Category";
+import type { ExchangeRate } from "@/types/Currency";
+import type { Goal } from "@/types/Goal";
+import type { BankProfile } from "@/types/Import";
+import type { RecurringTransaction } from "@/types/Recurring";
+import type { Rule } from "@/types/Rule";
+import type { Setting } from "@/types/Setting";
+import type { Transaction } from "@/types/Transaction";
+
+/**
+ * Repositories available to route handlers
+ */
+export interface BackendStore {
+  transactions: Repository<Transaction>;
+  budgets: Repository<BudgetRecord>;
+  goals: Repository<Goal>;
+  accounts: Repository<Account>;
+  categories: Repository<Category>;
+  rules: Repository<Rule>;
+  bankProfiles: Repository<BankProfile>;
+  recurring: Repository<RecurringTransaction>;
+  settings: Repository<Setting>;
+  exchangeRates: Repository<ExchangeRate>;
+}
+
+/**
+ * Initial records for an in-memory store
+ */
+export type StoreSeed = {
+  [K in keyof BackendStore]?: BackendStore[K] extends Repository<infer T> ? T[] : never;
+};
+
+/**
+ * Backend store persisted in the on-device IndexedDB database
+ */
+export const indexedDbStore: BackendStore = {
+  transactions: transactionsRepository,
+  budgets: budgetsRepository,
+  goals: goalsRepository,
+  accounts: accountsRepository,
+  categories: categoriesRepository,
+  rules: rulesRepository,
+  bankProfiles: bankProfilesRepository,
+  recurring: recurringRepository,
+  settings: settingsRepository,
+  exchangeRates: exchangeRatesRepository,
+};
+
+/**
+ * Creates a backend store that lives only in memory
+ *
+ * @param seed - Records to start each repository with; the category
+ *               catalog starts with the built-in categories unless given
+ */
+export function createMemoryStore(seed: StoreSeed = {}): BackendStore {
+  const byId = (record: { id: string }) => record.id;
+  return {
+    transactions: createMemoryRepository<Transaction>(byId, seed.transactions),
+    budgets: createMemoryRepository<BudgetRecord>(byId, seed.budgets),
+    goals: createMemoryRepository<Goal>(byId, seed.goals),
+    accounts: createMemoryRepository<Account>(byId, seed.accounts),
+    categories: createMemoryRepository<Category>(byId, seed.categories ?? DEFAULT_CATEGORIES),
+    rules: createMemoryRepository<Rule>(byId, seed.rules),
+    bankProfiles: createMemoryRepository<BankProfile>(byId, seed.bankProfiles),
+    recurring: createMemoryRepository<RecurringTransaction>(byId, seed.recurring),
+    settings: createMemoryRepository<Setting>((setting) => setting.key, seed.settings),
+    exchangeRates: createMemoryRepository<ExchangeRate>(byId, seed.exchangeRates),
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * ============================================================================
+ * API CLIENT
+ * ============================================================================
+ *
+ * Typed client for the FinGuide REST API. All requests go through a
+ * fetch-style transport, so the same client talks to the in-process mock
+ * backend during local use and to a real server once `VITE_API_URL` is set.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Account, AccountInput, ReconcileInput, ReconcileResult } from "@/types/Account";
+import type { BackupSnapshot, RestoreMode, RestoreResult } from "@/types/Backup";
+import type { Budget, BudgetInput } from "@/types/Budget";
+import type { Category, CategoryChanges, CategoryInput } from "@/types/Category";
+import type { BaseCurrency, ExchangeRate, ExchangeRateInput } from "@/types/Currency";
+import type { DuplicatePair, DuplicateResolution } from "@/types/Duplicate";
+import type { Goal, GoalInput } from "@/types/Goal";
+import type { BankProfile, BankProfileInput } from "@/types/Import";
+import type { Insight } from "@/types/Insight";
+import type { RecurringInput, RecurringPostResult, RecurringTransaction } from "@/types/Recurring";
+import type { Rule, RuleInput } from "@/types/Rule";
+import type { DashboardSummary, SummaryPeriod } from "@/types/Summary";
+import type { Transaction, TransactionInput } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Sends a request to the API; same signature as `fetch` with a path
+ * relative to the API root
+ */
+export type Transport = (path: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Standard operations for a REST resource
+ */
+export interface ResourceClient<T, TInput> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T>;
+  create(input: TInput): Promise<T>;
+  update(id: string, changes: Partial<TInput>): Promise<T>;
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Typed FinGuide API surface
+ */
+export interface ApiClient {
+  transactions: ResourceClient<Transaction, TransactionInput> & {
+    import(transactions: TransactionInput[]): Promise<{ imported: Transaction[]; skipped: number }>;
+    unlock(id: string): Promise<Transaction>;   // Allows changes to a reconciled entry again
+  };
+  duplicates: {
+    list(): Promise<DuplicatePair[]>;
+    resolve(resolution: DuplicateResolution): Promise<Transaction>;   // Returns the entry kept
+  };
+  budgets: ResourceClient<Budget, BudgetInput>;
+  goals: ResourceClient<Goal, GoalInput>;
+  accounts: ResourceClient<Account, AccountInput> & {
+    reconcile(id: string, input: ReconcileInput): Promise<ReconcileResult>;
+  };
+  categories: {
+    list(): Promise<Category[]>;
+    get(id: string): Promise<Category>;
+    create(input: CategoryInput): Promise<Category>;
+    update(id: string, changes: CategoryChanges): Promise<Category>;
+    merge(id: string, targetId: string): Promise<Category>;
+  };
+  bankProfiles: ResourceClient<BankProfile, BankProfileInput>;
+  rules: ResourceClient<Rule, RuleInput> & {
+    reorder(ids: string[]): Promise<Rule[]>;
+  };
+  recurring: ResourceClient<RecurringTransaction, RecurringInput> & {
+    postDue(today: string): Promise<RecurringPostResult>;   // Posts occurrences due on or before the device's date
+  };
+  settings: {
+    getBaseCurrency(): Promise<BaseCurrency>;
+    setBaseCurrency(currency: string): Promise<BaseCurrency>;
+  };
+  exchangeRates: ResourceClient<ExchangeRate, ExchangeRateInput>;
+  insights: {
+    list(): Promise<Insight[]>;
+  };
+  summary: {
+    get(period?: SummaryPeriod): Promise<DashboardSummary>;
+  };
+  backup: {
+    get(): Promise<BackupSnapshot>;
+    restore(snapshot: BackupSnapshot, mode: RestoreMode): Promise<RestoreResult>;
+  };
+}
+
+/**
+ * A single invalid field reported by a validation_error response
+ */
+export interface ApiFieldError {
+  path: string;      // Dotted field path (e.g., "amount")
+  message: string;   // What is wrong with the value
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Error raised for any non-2xx API response
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,   // HTTP status code
+    public readonly code: string,     // Machine-readable error code
+    message: string,
+    public readonly details?: ApiFieldError[]  // Invalid fields, for validation errors
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Message for a failed request, preferring the server's explanation
+ *
+ * @param error - Whatever the request rejected with
+ * @param fallback - Shown for anything other than an API error
+ */
+export function errorMessage(error: unknown, fallback = "Something went wrong. Please try again."): string {
+  return error instanceof ApiError ? error.message : fallback;
+}
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+/**
+ * Creates a transport that sends requests to a real HTTP server
+ *
+ * @param baseUrl - API root (e.g., "http://localhost:3001/api")
+ */
+export function createHttpTransport(baseUrl: string): Transport {
+  const root = baseUrl.replace(/\/$/, "");
+  return (path, init) => fetch(`${root}${path}`, init);
+}
+
+// ============================================================================
+// CLIENT FACTORY
+// ============================================================================
+
+/**
+ * Creates an API client on top of a transport
+ *
+ * @param transport - Where requests are sent
+ */
+export function createApiClient(transport: Transport): ApiClient {
+  /**
+   * Sends a JSON request and parses the JSON response
+   * Throws ApiError with the server's error code on failure
+   */
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const response = await transport(path, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (response.status === 204) return undefined as T;
+
+    const payload = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      throw new ApiError(
+        response.status,
+        payload?.error?.code ?? "unknown_error",
+        payload?.error?.message ?? `Request failed with status ${response.status}`,
+        payload?.error?.details
+      );
+    }
+    return payload as T;
+  };
+
+  /**
+   * Builds the standard client for a REST resource
+   */
+  const resource = <T, TInput>(name: string): ResourceClient<T, TInput> => ({
+    list: () => request<T[]>("GET", `/${name}`),
+    get: (id) => request<T>("GET", `/${name}/${encodeURIComponent(id)}`),
+    create: (input) => request<T>("POST", `/${name}`, input),
+    update: (id, changes) => request<T>("PATCH", `/${name}/${encodeURIComponent(id)}`, changes),
+    remove: (id) => request<void>("DELETE", `/${name}/${encodeURIComponent(id)}`),
+  });
+
+  return {
+    transactions: {
+      ...resource<Transaction, TransactionInput>("transactions"),
+      import: (transactions) =>
+        request<{ imported: Transaction[]; skipped: number }>("POST", "/transactions/import", { transactions }),
+      unlock: (id) => request<Transaction>("POST", `/transactions/${encodeURIComponent(id)}/unlock`),
+    },
+    duplicates: {
+      list: () => request<DuplicatePair[]>("GET", "/duplicates"),
+      resolve: (resolution) => request<Transaction>("POST", "/duplicates/resolve", resolution),
+    },
+    budgets: resource<Budget, BudgetInput>("budgets"),
+    goals: resource<Goal, GoalInput>("goals"),
+    accounts: {
+      ...resource<Account, AccountInput>("accounts"),
+      reconcile: (id, input) =>
+        request<ReconcileResult>("POST", `/accounts/${encodeURIComponent(id)}/reconcile`, input),
+    },
+    categories: {
+      list: () => request<Category[]>("GET", "/categories"),
+      get: (id) => request<Category>("GET", `/categories/${encodeURIComponent(id)}`),
+      create: (input) => request<Category>("POST", "/categories", input),
+      update: (id, changes) => request<Category>("PATCH", `/categories/${encodeURIComponent(id)}`, changes),
+      merge: (id, targetId) =>
+        request<Category>("POST", `/categories/${encodeURIComponent(id)}/merge`, { targetId }),
+    },
+    bankProfiles: resource<BankProfile, BankProfileInput>("bank-profiles"),
+    rules: {
+      ...resource<Rule, RuleInput>("rules"),
+      reorder: (ids) => request<Rule[]>("POST", "/rules/reorder", { ids }),
+    },
+    recurring: {
+      ...resource<RecurringTransaction, RecurringInput>("recurring"),
+      postDue: (today) => request<RecurringPostResult>("POST", "/recurring/post-due", { today }),
+    },
+    settings: {
+      getBaseCurrency: () => request<BaseCurrency>("GET", "/settings/base-currency"),
+      setBaseCurrency: (currency) => request<BaseCurrency>("PATCH", "/settings/base-currency", { currency }),
+    },
+    exchangeRates: resource<ExchangeRate, ExchangeRateInput>("exchange-rates"),
+    insights: {
+      list: () => request<Insight[]>("GET", "/insights"),
+    },
+    summary: {
+      get: (period = "month") => request<DashboardSummary>("GET", `/summary?period=${period}`),
+    },
+    backup: {
+      get: () => request<BackupSnapshot>("GET", "/backup"),
+      restore: (snapshot, mode) => request<RestoreResult>("POST", "/backup/restore", { mode, snapshot }),
+    },
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * ============================================================================
+ * API ENTRY POINT
+ * ============================================================================
+ *
+ * The app-wide API client. Uses the real server when `VITE_API_URL` is
+ * configured and the in-process mock backend otherwise.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { createApiClient, createHttpTransport } from "./client";
+import { createMockTransport } from "./mockBackend";
+
+const apiUrl = import.meta.env.VITE_API_URL as string | undefined;
+
+export const api = createApiClient(apiUrl ? createHttpTransport(apiUrl) : createMockTransport());
+
+export { ApiError } from "./client";
+export type { ApiClient } from "./client";
@@ -0,0 +1,52 @@
+/**
+ * ============================================================================
+ * MOCK BACKEND
+ * ============================================================================
+ *
+ * In-process stand-in for the FinGuide REST server. Exposes a fetch-style
+ * transport that hands each request to the shared backend router, so the
+ * API client exercises exactly the same contract it would against a real
+ * server - only the data lives in the browser's IndexedDB.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { handleRequest } from "./backend/router";
+import { BackendStore, indexedDbStore } from "./backend/store";
+import type { Transport } from "./client";
+
+/**
+ * Wraps a status and optional JSON body in a fetch Response
+ */
+const json = (status: number, body?: unknown): Response =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Creates a transport that serves requests from a backend store
+ *
+ * @param store - Repositories to serve data from (defaults to IndexedDB)
+ */
+export function createMockTransport(store: BackendStore = indexedDbStore): Transport {
+  return async (path, init = {}) => {
+    const url = new URL(path, "http://finguide.local");
+    let body: unknown;
+    try {
+      body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+    } catch {
+      return json(400, { error: { code: "bad_request", message: "Request body is not valid JSON" } });
+    }
+
+    const response = await handleRequest(store, {
+      method: init.method ?? "GET",
+      path: url.pathname,
+      query: url.searchParams,
+      body,
+    });
+    return json(response.status, response.body);
+  };
+}
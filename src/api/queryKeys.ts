@@ -0,0 +1,19 @@
+/**
+ * React Query cache keys for every API resource.
+ * Mutations invalidate these so dependent screens refetch.
+ */
+export const queryKeys = {
+  transactions: ["transactions"] as const,
+  budgets: ["budgets"] as const,
+  goals: ["goals"] as const,
+  accounts: ["accounts"] as const,
+  categories: ["categories"] as const,
+  rules: ["rules"] as const,
+  bankProfiles: ["bankProfiles"] as const,
+  recurring: ["recurring"] as const,
+  exchangeRates: ["exchangeRates"] as const,
+  baseCurrency: ["baseCurrency"] as const,
+  duplicates: ["duplicates"] as const,
+  insights: ["insights"] as const,
+  summary: ["summary"] as const,
+};
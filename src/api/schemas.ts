@@ -0,0 +1,302 @@
+/**
+ * ============================================================================
+ * REQUEST SCHEMAS
+ * ============================================================================
+ *
+ * Zod schemas for every request body the API accepts. The backend router
+ * validates against these before touching storage, so the mock backend and
+ * the REST server reject bad input in exactly the same way. Unknown fields
+ * are stripped, which keeps clients from overwriting ids or timestamps.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { isValid, parseISO } from "date-fns";
+import { z } from "zod";
+
+/**
+ * Calendar date in the YYYY-MM-DD form used by transactions; days that do
+ * not exist (e.g., 2026-02-31) are refused
+ */
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format")
+  .refine((date) => isValid(parseISO(date)), "Expected a date that exists");
+
+/**
+ * Three-letter ISO 4217 currency code, upper-cased
+ */
+const currencyCode = z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, "Expected a three-letter currency code");
+
+/**
+ * Non-empty, trimmed text
+ */
+const text = z.string().trim().min(1, "Required");
+
+/**
+ * One line of a split transaction
+ */
+const transactionSplitSchema = z.object({
+  category: text,
+  amount: z.number().positive(),
+  note: z.string().optional(),
+});
+
+export const transactionInputSchema = z.object({
+  type: z.enum(["income", "expense", "transfer"]),
+  title: text,
+  amount: z.number().positive(),
+  currency: currencyCode.optional(),
+  category: text.optional(),
+  // An empty list removes the split; the lines' total is checked by the router
+  splits: z.array(transactionSplitSchema).refine((lines) => lines.length !== 1, "A split needs at least two lines").optional(),
+  date: isoDate,
+  note: z.string().optional(),
+  tags: z.array(text.toLowerCase()).optional(),
+  accountId: z.string().optional(),
+  // Transfers only; the router checks both accounts are set and differ
+  toAccountId: z.string().optional(),
+  externalId: z.string().optional(),
+});
+
+export const budgetInputSchema = z.object({
+  category: text,
+  limit: z.number().positive(),
+});
+
+export const goalInputSchema = z.object({
+  title: text,
+  emoji: z.string(),
+  saved: z.number().nonnegative(),
+  target: z.number().positive(),
+  deadline: z.string(),
+});
+
+export const categoryInputSchema = z.object({
+  name: text,
+  type: z.enum(["income", "expense"]),
+  emoji: text,
+  color: z.enum(["warning", "info", "emerald", "purple-accent", "destructive", "teal", "muted"]),
+  parentId: z.string().optional(),
+  archived: z.boolean().default(false),
+});
+
+/**
+ * Changes to an existing category; the type cannot change and a null
+ * parentId makes a subcategory top-level again
+ */
+export const categoryUpdateSchema = categoryInputSchema
+  .omit({ type: true, parentId: true, archived: true })
+  .extend({ parentId: z.string().nullable(), archived: z.boolean() })
+  .partial();
+
+export const categoryMergeSchema = z.object({
+  targetId: text,
+});
+
+/**
+ * Rule conditions; at least one must be set so a rule never matches
+ * every transaction
+ */
+const ruleConditionsSchema = z
+  .object({
+    titleContains: text.optional(),
+    noteContains: text.optional(),
+    minAmount: z.number().nonnegative().optional(),
+    maxAmount: z.number().nonnegative().optional(),
+    accountId: text.optional(),
+    type: z.enum(["income", "expense"]).optional(),
+  })
+  .refine((c) => Object.values(c).some((v) => v !== undefined), "Add at least one condition")
+  .refine(
+    (c) => c.minAmount === undefined || c.maxAmount === undefined || c.minAmount <= c.maxAmount,
+    { message: "Minimum amount must not exceed the maximum", path: ["maxAmount"] }
+  );
+
+/**
+ * Rule actions; at least one must be set
+ */
+const ruleActionsSchema = z
+  .object({
+    category: text.optional(),
+    tags: z.array(text.toLowerCase()).optional(),
+    note: text.optional(),
+  })
+  .refine(
+    (a) => Boolean(a.category || a.note || (a.tags && a.tags.length > 0)),
+    "Add at least one action"
+  );
+
+export const ruleInputSchema = z.object({
+  name: text,
+  conditions: ruleConditionsSchema,
+  actions: ruleActionsSchema,
+  priority: z.number().int().optional(),
+  enabled: z.boolean().default(true),
+});
+
+export const ruleReorderSchema = z.object({
+  ids: z.array(text).min(1),
+});
+
+/**
+ * When a recurring template repeats; the end date may not precede the start
+ */
+const recurrenceScheduleSchema = z
+  .object({
+    frequency: z.enum(["daily", "weekly", "monthly", "yearly"]),
+    interval: z.number().int().min(1).max(365),
+    startDate: isoDate,
+    endDate: isoDate.optional(),
+    lastWorkingDay: z.boolean().optional(),
+  })
+  .refine((s) => !s.endDate || s.endDate >= s.startDate, {
+    message: "End date must not be before the start date",
+    path: ["endDate"],
+  });
+
+export const recurringInputSchema = z.object({
+  type: z.enum(["income", "expense"]),
+  title: text,
+  amount: z.number().positive(),
+  currency: currencyCode.optional(),
+  category: text,
+  note: z.string().optional(),
+  tags: z.array(text.toLowerCase()).optional(),
+  accountId: z.string().optional(),
+  schedule: recurrenceScheduleSchema,
+  paused: z.boolean().default(false),
+});
+
+/**
+ * Posts every occurrence due on or before the device's date
+ */
+export const recurringPostSchema = z.object({
+  today: isoDate,
+});
+
+/**
+ * Transactions to create in one request (statement imports)
+ */
+export const transactionImportSchema = z.object({
+  transactions: z.array(transactionInputSchema).min(1).max(5000),
+});
+
+export const duplicateResolveSchema = z.object({
+  originalId: text,
+  duplicateId: text,
+  action: z.enum(["merge", "keep_both", "discard"]),
+});
+
+const columnIndex = z.number().int().nonnegative();
+
+export const bankProfileInputSchema = z.object({
+  name: text,
+  headers: z.array(z.string()),
+  headerRow: columnIndex,
+  mapping: z
+    .object({
+      date: columnIndex,
+      description: columnIndex,
+      debit: columnIndex.optional(),
+      credit: columnIndex.optional(),
+      balance: columnIndex.optional(),
+    })
+    .refine((m) => m.debit !== undefined || m.credit !== undefined, {
+      message: "Map a debit or credit column",
+      path: ["debit"],
+    }),
+  dateFormat: z.enum([
+    "DD/MM/YYYY", "DD-MM-YYYY", "DD.MM.YYYY", "DD/MM/YY", "DD-MM-YY",
+    "DD-MMM-YYYY", "DD MMM YYYY", "DD-MMM-YY", "YYYY-MM-DD", "MM/DD/YYYY",
+  ]),
+});
+
+export const summaryQuerySchema = z.object({
+  period: z.enum(["week", "month", "year"]).default("month"),
+});
+
+export const accountInputSchema = z.object({
+  name: text,
+  type: z.enum(["bank", "cash", "credit_card", "wallet"]),
+  currency: currencyCode.optional(),
+  openingBalance: z.number(),
+});
+
+// The router checks that the two currencies differ
+export const exchangeRateInputSchema = z.object({
+  from: currencyCode,
+  to: currencyCode,
+  rate: z.number().positive(),
+  date: isoDate,
+});
+
+export const baseCurrencySchema = z.object({
+  currency: currencyCode,
+});
+
+export const reconcileSchema = z.object({
+  statementDate: isoDate,
+  statementBalance: z.number(),
+  transactionIds: z.array(z.string()).max(5000),
+});
+
+// The stores are checked against backupStoresSchema once the router knows
+// the backup is at the current schema version
+export const backupRestoreSchema = z.object({
+  mode: z.enum(["replace", "merge"]),
+  snapshot: z.object({
+    app: z.literal("FinGuide"),
+    schemaVersion: z.number().int().positive(),
+    createdAt: z.string(),
+    stores: z.record(z.array(z.unknown())),
+  }),
+});
+
+// ============================================================================
+// STORED RECORDS
+// ============================================================================
+
+/**
+ * Records as the backend stores them: the input fields plus the ids,
+ * timestamps and state it adds. Used to check a backup before restoring it.
+ */
+const storedTransactionSchema = transactionInputSchema.extend({
+  id: text,
+  category: text,
+  notDuplicateOf: z.array(z.string()).optional(),
+  reconciledAt: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const storedAccountSchema = accountInputSchema.extend({
+  id: text,
+  lastReconciliation: z
+    .object({ statementDate: isoDate, statementBalance: z.number(), reconciledAt: z.string() })
+    .optional(),
+  createdAt: z.string(),
+});
+
+const storedRecurringSchema = recurringInputSchema.extend({
+  id: text,
+  lastPostedDate: isoDate.optional(),
+  paused: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const backupStoresSchema = z.object({
+  transactions: z.array(storedTransactionSchema).optional(),
+  budgets: z.array(budgetInputSchema.extend({ id: text })).optional(),
+  goals: z.array(goalInputSchema.extend({ id: text })).optional(),
+  accounts: z.array(storedAccountSchema).optional(),
+  settings: z.array(z.object({ key: text, value: z.unknown() })).optional(),
+  categories: z.array(categoryInputSchema.extend({ id: text, archived: z.boolean(), createdAt: z.string() })).optional(),
+  rules: z.array(ruleInputSchema.extend({ id: text, priority: z.number().int(), enabled: z.boolean(), createdAt: z.string() })).optional(),
+  bankProfiles: z.array(bankProfileInputSchema.extend({ id: text, createdAt: z.string() })).optional(),
+  recurring: z.array(storedRecurringSchema).optional(),
+  exchangeRates: z.array(exchangeRateInputSchema.extend({ id: text, createdAt: z.string() })).optional(),
+});
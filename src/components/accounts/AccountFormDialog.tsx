@@ -0,0 +1,188 @@
+/**
+ * ============================================================================
+ * ACCOUNT FORM DIALOG COMPONENT
+ * ============================================================================
+ *
+ * A modal dialog for adding and editing money accounts.
+ *
+ * Features:
+ * - Name and type (bank, cash, credit card, wallet)
+ * - Currency the account is held in (the base currency for a new one)
+ * - Opening balance; for a credit card, the amount owed at the start
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AccountIcon } from "@/components/accounts/AccountIcon";
+import { CurrencySelect } from "@/components/currency/CurrencySelect";
+import { useBaseCurrency } from "@/hooks/useCurrency";
+import { ACCOUNT_TYPE_LABELS } from "@/lib/accounts";
+import { DEFAULT_CURRENCY, currencyOf } from "@/lib/currency";
+import { currencySymbol } from "@/lib/formatCurrency";
+import { cn } from "@/lib/utils";
+import type { Account, AccountInput, AccountType } from "@/types/Account";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the AccountFormDialog component
+ */
+interface AccountFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account?: Account | null;   // Account being edited; a new one otherwise
+  onSave: (input: AccountInput) => void;
+}
+
+/**
+ * Account types in picker order
+ */
+const ACCOUNT_TYPES: AccountType[] = ["bank", "cash", "credit_card", "wallet"];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Account Form Dialog Component
+ *
+ * @param props - Component props including open state and save handler
+ * @returns JSX.Element - The account form dialog
+ */
+export function AccountFormDialog({ open, onOpenChange, account, onSave }: AccountFormDialogProps) {
+  const { data: base } = useBaseCurrency();
+  const baseCurrency = base?.currency ?? DEFAULT_CURRENCY;
+
+  // Form state; a credit card's opening balance is entered as the amount owed
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("bank");
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [opening, setOpening] = useState("");
+
+  /**
+   * Initialize form when the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    setName(account?.name ?? "");
+    setType(account?.type ?? "bank");
+    setCurrency(account ? currencyOf(account) : baseCurrency);
+    if (!account) setOpening("");
+    else setOpening(String(account.type === "credit_card" ? -account.openingBalance : account.openingBalance));
+  }, [account, open, baseCurrency]);
+
+  const isCard = type === "credit_card";
+  const openingValue = opening.trim() === "" ? 0 : Number(opening);
+  const canSave = Boolean(name.trim()) && Number.isFinite(openingValue);
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onSave({
+      name: name.trim(),
+      type,
+      currency,
+      openingBalance: isCard ? -openingValue : openingValue,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>{account ? "Edit Account" : "Add Account"}</DialogTitle>
+          <DialogDescription>
+            Record transactions against an account to see its balance.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="account-name">Name</Label>
+            <Input
+              id="account-name"
+              placeholder="e.g., HDFC Savings"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-muted border-border"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <div className="grid grid-cols-4 gap-2">
+              {ACCOUNT_TYPES.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setType(option)}
+                  className={cn(
+                    "flex flex-col items-center gap-1 rounded-xl p-2 text-xs font-medium transition-colors",
+                    type === option ? "bg-accent/15 ring-1 ring-accent" : "bg-muted hover:bg-muted/80"
+                  )}
+                  aria-pressed={type === option}
+                >
+                  <AccountIcon type={option} className="h-8 w-8 bg-transparent" />
+                  {ACCOUNT_TYPE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="account-currency">Currency</Label>
+            <CurrencySelect id="account-currency" value={currency} onValueChange={setCurrency} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="account-opening">
+              {isCard ? "Amount owed at the start" : "Opening balance"} ({currencySymbol(currency)})
+            </Label>
+            <Input
+              id="account-opening"
+              type="number"
+              step="0.01"
+              placeholder="0"
+              value={opening}
+              onChange={(e) => setOpening(e.target.value)}
+              className="bg-muted border-border"
+            />
+            <p className="text-xs text-muted-foreground">
+              {isCard
+                ? "Spending on the card adds to what you owe; payments into it reduce it."
+                : "The balance before the first transaction you record here."}
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-gradient-emerald" disabled={!canSave}>
+              {account ? "Save Changes" : "Add Account"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
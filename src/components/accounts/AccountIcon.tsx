@@ -0,0 +1,49 @@
+/**
+ * ============================================================================
+ * ACCOUNT ICON COMPONENT
+ * ============================================================================
+ *
+ * Rounded tile with the icon for an account type (bank, cash, credit card,
+ * wallet), used in the accounts list, the account picker and the dashboard.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { Banknote, CreditCard, Landmark, Smartphone, type LucideIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AccountType } from "@/types/Account";
+
+/**
+ * Icon per account type
+ */
+const ICONS: Record<AccountType, LucideIcon> = {
+  bank: Landmark,
+  cash: Banknote,
+  credit_card: CreditCard,
+  wallet: Smartphone,
+};
+
+/**
+ * Props for the AccountIcon component
+ */
+interface AccountIconProps {
+  type: AccountType;
+  className?: string;
+}
+
+/**
+ * Account Icon Component
+ *
+ * @param props - Account type and optional classes for the tile
+ * @returns JSX.Element - Icon tile for the account type
+ */
+export function AccountIcon({ type, className }: AccountIconProps) {
+  const Icon = ICONS[type] ?? Landmark;
+  return (
+    <div className={cn("flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-accent/10", className)}>
+      <Icon className="h-5 w-5 text-accent" />
+    </div>
+  );
+}
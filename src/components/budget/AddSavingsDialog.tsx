@@ -29,8 +29,9 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { currencySymbol, formatCurrency } from "@/lib/formatCurrency";
 import { cn } from "@/lib/utils";
-import { Goal } from "./GoalFormDialog";
+import type { Goal } from "@/types/Goal";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -51,7 +52,7 @@ interface AddSavingsDialogProps {
 // ============================================================================
 
 /**
- * Quick add amount options in INR
+ * Quick add amount options, in the base currency
  */
 const QUICK_AMOUNTS = [1000, 2500, 5000, 10000];
 
@@ -84,17 +85,6 @@ export function AddSavingsDialog({
     }
   }, [open]);
 
-  /**
-   * Formats a number as Indian Rupee currency
-   */
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
   /**
    * Handles form submission
    */
@@ -148,7 +138,7 @@ export function AddSavingsDialog({
                     amount === quickAmount.toString() && "ring-2 ring-primary"
                   )}
                 >
-                  ₹{quickAmount.toLocaleString("en-IN")}
+                  {formatCurrency(quickAmount)}
                 </Button>
               ))}
             </div>
@@ -156,7 +146,7 @@ export function AddSavingsDialog({
 
           {/* Custom Amount Input */}
           <div className="space-y-2">
-            <Label htmlFor="amount">Custom Amount (₹)</Label>
+            <Label htmlFor="amount">Custom Amount ({currencySymbol()})</Label>
             <Input
               id="amount"
               type="number"
@@ -203,7 +193,7 @@ export function AddSavingsDialog({
               className="bg-gradient-emerald"
               disabled={!amount || currentAmount <= 0}
             >
-              Add ₹{currentAmount.toLocaleString("en-IN")}
+              Add {formatCurrency(currentAmount)}
             </Button>
           </DialogFooter>
         </form>
@@ -4,13 +4,13 @@
  * ============================================================================
  * 
  * A modal dialog for adding and editing budget categories.
- * Provides form inputs for category name, emoji, spending limit, and color.
+ * Provides a category picker and the monthly spending limit; the emoji and
+ * progress bar color come from the category catalog.
  * 
  * Features:
  * - Add new budget category
  * - Edit existing budget category
- * - Emoji picker for visual representation
- * - Color selection for progress bar
+ * - Picker of top-level expense categories (subcategory spending rolls up)
  * - Form validation
  * 
  * @author FinGuide Development Team
@@ -30,24 +30,16 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useCategories } from "@/hooks/useCategories";
+import { categoryKey, categoryTree } from "@/lib/categories";
+import { currencySymbol, formatCurrency } from "@/lib/formatCurrency";
 import { cn } from "@/lib/utils";
+import type { Budget, BudgetInput } from "@/types/Budget";
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-/**
- * Budget interface for category-wise spending limits
- */
-export interface Budget {
-  id: string;
-  category: string;
-  emoji: string;
-  spent: number;
-  limit: number;
-  color: string;
-}
-
 /**
  * Props for the BudgetFormDialog component
  */
@@ -55,29 +47,9 @@ interface BudgetFormDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   budget?: Budget | null;
-  onSave: (budget: Budget) => void;
+  onSave: (budget: BudgetInput & { id?: string }) => void;
 }
 
-// ============================================================================
-// CONSTANTS
-// ============================================================================
-
-/**
- * Available emoji options for budget categories
- */
-const EMOJI_OPTIONS = ["🍔", "🚗", "🛍️", "🎬", "💊", "🏠", "📚", "💡", "🎮", "✈️", "💪", "🎵"];
-
-/**
- * Available color options for progress bars
- */
-const COLOR_OPTIONS = [
-  { name: "Warning", value: "bg-warning" },
-  { name: "Info", value: "bg-info" },
-  { name: "Purple", value: "bg-purple-accent" },
-  { name: "Emerald", value: "bg-emerald" },
-  { name: "Destructive", value: "bg-destructive" },
-];
-
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -99,9 +71,11 @@ export function BudgetFormDialog({
 }: BudgetFormDialogProps) {
   // Form state
   const [category, setCategory] = useState("");
-  const [emoji, setEmoji] = useState("🍔");
   const [limit, setLimit] = useState("");
-  const [color, setColor] = useState("bg-warning");
+
+  // Budgetable categories: active top-level expense categories
+  const { data: catalog = [] } = useCategories();
+  const options = categoryTree(catalog, "expense").map(({ category }) => category);
 
   /**
    * Initialize form with budget data when editing
@@ -109,15 +83,11 @@ export function BudgetFormDialog({
   useEffect(() => {
     if (budget) {
       setCategory(budget.category);
-      setEmoji(budget.emoji);
       setLimit(budget.limit.toString());
-      setColor(budget.color);
     } else {
       // Reset form for new budget
       setCategory("");
-      setEmoji("🍔");
       setLimit("");
-      setColor("bg-warning");
     }
   }, [budget, open]);
 
@@ -128,30 +98,17 @@ export function BudgetFormDialog({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    const budgetData: Budget = {
-      id: budget?.id || crypto.randomUUID(),
+    // Spending is derived from transactions, so only the settings are saved
+    const budgetData = {
+      id: budget?.id,
       category,
-      emoji,
-      spent: budget?.spent || 0,
       limit: parseFloat(limit) || 0,
-      color,
     };
 
     onSave(budgetData);
     onOpenChange(false);
   };
 
-  /**
-   * Formats a number as Indian Rupee currency
-   */
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[425px] bg-card border-border">
@@ -167,44 +124,35 @@ export function BudgetFormDialog({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6 py-4">
-          {/* Category Name Input */}
+          {/* Category Selection */}
           <div className="space-y-2">
-            <Label htmlFor="category">Category Name</Label>
-            <Input
-              id="category"
-              placeholder="e.g., Food & Dining"
-              value={category}
-              onChange={(e) => setCategory(e.target.value)}
-              required
-              className="bg-muted border-border"
-            />
-          </div>
-
-          {/* Emoji Selection */}
-          <div className="space-y-2">
-            <Label>Select Icon</Label>
+            <Label>Category</Label>
             <div className="flex flex-wrap gap-2">
-              {EMOJI_OPTIONS.map((e) => (
+              {options.map((option) => (
                 <button
-                  key={e}
+                  key={option.id}
                   type="button"
-                  onClick={() => setEmoji(e)}
+                  onClick={() => setCategory(option.name)}
                   className={cn(
-                    "h-10 w-10 rounded-lg text-xl transition-all duration-200",
-                    emoji === e
-                      ? "bg-primary/20 ring-2 ring-primary scale-110"
+                    "rounded-full px-3 py-1.5 text-sm font-medium transition-all duration-200",
+                    categoryKey(category) === categoryKey(option.name)
+                      ? "bg-primary/20 ring-2 ring-primary"
                       : "bg-muted hover:bg-muted/80"
                   )}
+                  aria-pressed={categoryKey(category) === categoryKey(option.name)}
                 >
-                  {e}
+                  {option.emoji} {option.name}
                 </button>
               ))}
             </div>
+            <p className="text-xs text-muted-foreground">
+              Manage categories from Profile → Categories.
+            </p>
           </div>
 
           {/* Budget Limit Input */}
           <div className="space-y-2">
-            <Label htmlFor="limit">Monthly Limit (₹)</Label>
+            <Label htmlFor="limit">Monthly Limit ({currencySymbol()})</Label>
             <Input
               id="limit"
               type="number"
@@ -222,28 +170,6 @@ export function BudgetFormDialog({
             )}
           </div>
 
-          {/* Color Selection */}
-          <div className="space-y-2">
-            <Label>Progress Bar Color</Label>
-            <div className="flex flex-wrap gap-2">
-              {COLOR_OPTIONS.map((c) => (
-                <button
-                  key={c.value}
-                  type="button"
-                  onClick={() => setColor(c.value)}
-                  className={cn(
-                    "h-8 w-8 rounded-full transition-all duration-200",
-                    c.value,
-                    color === c.value
-                      ? "ring-2 ring-primary ring-offset-2 ring-offset-background scale-110"
-                      : "opacity-60 hover:opacity-100"
-                  )}
-                  title={c.name}
-                />
-              ))}
-            </div>
-          </div>
-
           <DialogFooter>
             <Button
               type="button"
@@ -3,7 +3,8 @@
  * DELETE CONFIRM DIALOG COMPONENT
  * ============================================================================
  * 
- * A confirmation dialog for deleting budget categories or savings goals.
+ * A confirmation dialog for deleting budget categories, savings goals or
+ * transactions.
  * Provides a warning message and confirmation buttons.
  * 
  * Features:
@@ -39,10 +40,40 @@ interface DeleteConfirmDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   itemName: string;
-  itemType: "budget" | "goal";
+  itemType: "budget" | "goal" | "transaction" | "rule" | "recurring" | "account" | "rate";
   onConfirm: () => void;
 }
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Dialog title wording for each kind of item
+ */
+const ITEM_LABELS: Record<DeleteConfirmDialogProps["itemType"], string> = {
+  budget: "Budget Category",
+  goal: "Savings Goal",
+  transaction: "Transaction",
+  rule: "Rule",
+  recurring: "Recurring Transaction",
+  account: "Account",
+  rate: "Exchange Rate",
+};
+
+/**
+ * What the user loses, per kind of item
+ */
+const ITEM_WARNINGS: Record<DeleteConfirmDialogProps["itemType"], string> = {
+  budget: " All spending data for this category will be removed.",
+  goal: " Your savings progress will be lost.",
+  transaction: " It will no longer count towards your balance, budgets or reports.",
+  rule: " Transactions it already categorized keep their category.",
+  recurring: " Entries it already posted stay in your history.",
+  account: " Only an account with no transactions can be deleted.",
+  rate: " Amounts it converted use the next closest rate instead.",
+};
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -50,7 +81,8 @@ interface DeleteConfirmDialogProps {
 /**
  * Delete Confirm Dialog Component
  * 
- * Renders an alert dialog for confirming deletion of budgets or goals.
+ * Renders an alert dialog for confirming deletion of budgets, goals or
+ * transactions.
  * 
  * @param props - Component props including item details and handlers
  * @returns JSX.Element - The delete confirmation dialog
@@ -67,13 +99,11 @@ export function DeleteConfirmDialog({
       <AlertDialogContent className="bg-card border-border">
         <AlertDialogHeader>
           <AlertDialogTitle>
-            Delete {itemType === "budget" ? "Budget Category" : "Savings Goal"}?
+            Delete {ITEM_LABELS[itemType]}?
           </AlertDialogTitle>
           <AlertDialogDescription>
             Are you sure you want to delete <strong>"{itemName}"</strong>? 
-            {itemType === "budget" 
-              ? " All spending data for this category will be removed."
-              : " Your savings progress will be lost."}
+            {ITEM_WARNINGS[itemType]}
             <br /><br />
             This action cannot be undone.
           </AlertDialogDescription>
@@ -30,24 +30,14 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { currencySymbol, formatCurrency } from "@/lib/formatCurrency";
 import { cn } from "@/lib/utils";
+import type { Goal } from "@/types/Goal";
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-/**
- * Goal interface for long-term savings targets
- */
-export interface Goal {
-  id: string;
-  title: string;
-  emoji: string;
-  saved: number;
-  target: number;
-  deadline: string;
-}
-
 /**
  * Props for the GoalFormDialog component
  */
@@ -133,17 +123,6 @@ export function GoalFormDialog({
     onOpenChange(false);
   };
 
-  /**
-   * Formats a number as Indian Rupee currency
-   */
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[425px] bg-card border-border">
@@ -196,7 +175,7 @@ export function GoalFormDialog({
 
           {/* Target Amount Input */}
           <div className="space-y-2">
-            <Label htmlFor="target">Target Amount (₹)</Label>
+            <Label htmlFor="target">Target Amount ({currencySymbol()})</Label>
             <Input
               id="target"
               type="number"
@@ -217,7 +196,7 @@ export function GoalFormDialog({
           {/* Amount Saved Input (only for editing) */}
           {goal && (
             <div className="space-y-2">
-              <Label htmlFor="saved">Amount Saved (₹)</Label>
+              <Label htmlFor="saved">Amount Saved ({currencySymbol()})</Label>
               <Input
                 id="saved"
                 type="number"
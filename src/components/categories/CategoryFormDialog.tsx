@@ -0,0 +1,233 @@
+/**
+ * ============================================================================
+ * CATEGORY FORM DIALOG COMPONENT
+ * ============================================================================
+ * 
+ * A modal dialog for adding and editing catalog categories.
+ * Provides form inputs for name, emoji, color and an optional parent.
+ * 
+ * Features:
+ * - Add a top-level category or a subcategory
+ * - Rename an existing category (entries using it are updated)
+ * - Emoji and color pickers
+ * - Parent selection among top-level categories of the same type
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CATEGORY_COLORS, CATEGORY_EMOJI } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+import type { Category, CategoryColor } from "@/types/Category";
+import type { CategoryType } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Values submitted by the form; `parentId: null` means top-level
+ */
+export interface CategoryFormValues {
+  name: string;
+  emoji: string;
+  color: CategoryColor;
+  parentId: string | null;
+}
+
+/**
+ * Props for the CategoryFormDialog component
+ */
+interface CategoryFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  type: CategoryType;          // Type of new categories
+  category?: Category | null;     // Category being edited; creates one when absent
+  parents: Category[];            // Top-level categories that can be chosen as parent
+  hasChildren?: boolean;          // The edited category has subcategories, so it must stay top-level
+  onSave: (values: CategoryFormValues) => void;
+}
+
+/**
+ * Select value used for "no parent"
+ */
+const NO_PARENT = "none";
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Category Form Dialog Component
+ * 
+ * @param props - Component props including open state and save handler
+ * @returns JSX.Element - The category form dialog
+ */
+export function CategoryFormDialog({
+  open,
+  onOpenChange,
+  type,
+  category,
+  parents,
+  hasChildren = false,
+  onSave,
+}: CategoryFormDialogProps) {
+  // Form state
+  const [name, setName] = useState("");
+  const [emoji, setEmoji] = useState(CATEGORY_EMOJI[0]);
+  const [color, setColor] = useState<CategoryColor>("warning");
+  const [parentId, setParentId] = useState(NO_PARENT);
+
+  /**
+   * Initialize form with category data when editing
+   */
+  useEffect(() => {
+    setName(category?.name ?? "");
+    setEmoji(category?.emoji ?? CATEGORY_EMOJI[0]);
+    setColor(category?.color ?? "warning");
+    setParentId(category?.parentId ?? NO_PARENT);
+  }, [category, open]);
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      name: name.trim(),
+      emoji,
+      color,
+      parentId: parentId === NO_PARENT ? null : parentId,
+    });
+  };
+
+  // A category cannot be its own parent
+  const parentOptions = parents.filter((p) => p.id !== category?.id);
+  const typeLabel = type === "income" ? "income" : "expense";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>{category ? "Edit Category" : "Add Category"}</DialogTitle>
+          <DialogDescription>
+            {category
+              ? "Renaming updates every transaction and budget that uses this category."
+              : `Create a new ${typeLabel} category or subcategory.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6 py-4">
+          {/* Name Input */}
+          <div className="space-y-2">
+            <Label htmlFor="category-name">Name</Label>
+            <Input
+              id="category-name"
+              placeholder="e.g., Groceries"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              className="bg-muted border-border"
+            />
+          </div>
+
+          {/* Parent Selection */}
+          <div className="space-y-2">
+            <Label>Parent Category</Label>
+            <Select value={parentId} onValueChange={setParentId} disabled={hasChildren}>
+              <SelectTrigger className="bg-muted border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>None (top-level)</SelectItem>
+                {parentOptions.map((parent) => (
+                  <SelectItem key={parent.id} value={parent.id}>
+                    {parent.emoji} {parent.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasChildren && (
+              <p className="text-xs text-muted-foreground">
+                Categories with subcategories stay top-level.
+              </p>
+            )}
+          </div>
+
+          {/* Emoji Selection */}
+          <div className="space-y-2">
+            <Label>Select Icon</Label>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_EMOJI.map((e) => (
+                <button
+                  key={e}
+                  type="button"
+                  onClick={() => setEmoji(e)}
+                  className={cn(
+                    "h-10 w-10 rounded-lg text-xl transition-all duration-200",
+                    emoji === e
+                      ? "bg-primary/20 ring-2 ring-primary scale-110"
+                      : "bg-muted hover:bg-muted/80"
+                  )}
+                >
+                  {e}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Color Selection */}
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(CATEGORY_COLORS) as CategoryColor[]).map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setColor(key)}
+                  className={cn(
+                    "h-8 w-8 rounded-full transition-all duration-200",
+                    CATEGORY_COLORS[key].bar,
+                    color === key
+                      ? "ring-2 ring-primary ring-offset-2 ring-offset-background scale-110"
+                      : "opacity-60 hover:opacity-100"
+                  )}
+                  title={CATEGORY_COLORS[key].label}
+                />
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-gradient-emerald" disabled={!name.trim()}>
+              {category ? "Save Changes" : "Add Category"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * ============================================================================
+ * MERGE CATEGORY DIALOG COMPONENT
+ * ============================================================================
+ * 
+ * Asks which category another one should be merged into. Merging moves
+ * every transaction, the budget and any subcategories to the target and
+ * then removes the merged category.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import type { Category } from "@/types/Category";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the MergeCategoryDialog component
+ */
+interface MergeCategoryDialogProps {
+  source: Category | null;        // Category being merged away; closed when null
+  targets: Category[];            // Categories of the same type it can merge into
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (targetId: string) => void;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Merge Category Dialog Component
+ * 
+ * @param props - The source category, candidate targets and confirm handler
+ * @returns JSX.Element - The merge dialog
+ */
+export function MergeCategoryDialog({ source, targets, onOpenChange, onConfirm }: MergeCategoryDialogProps) {
+  const [targetId, setTargetId] = useState("");
+
+  /**
+   * Clears the previous choice whenever a new source is picked
+   */
+  useEffect(() => setTargetId(""), [source]);
+
+  return (
+    <Dialog open={source !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Merge "{source?.name}"</DialogTitle>
+          <DialogDescription>
+            Its transactions, budget and subcategories move to the category you pick,
+            and "{source?.name}" is removed. This cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4">
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger className="bg-muted border-border" aria-label="Merge into">
+              <SelectValue placeholder="Merge into…" />
+            </SelectTrigger>
+            <SelectContent>
+              {targets.map((target) => (
+                <SelectItem key={target.id} value={target.id}>
+                  {target.emoji} {target.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            disabled={!targetId}
+            onClick={() => onConfirm(targetId)}
+          >
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * ============================================================================
+ * BASE CURRENCY GATE COMPONENT
+ * ============================================================================
+ *
+ * Holds back the screens until the base currency setting has loaded, so
+ * amounts are never first shown in the wrong currency. If the setting
+ * cannot be read the app carries on in INR.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { ReactNode } from "react";
+import { useBaseCurrency } from "@/hooks/useCurrency";
+
+/**
+ * Base Currency Gate Component
+ *
+ * @param children - The app's screens
+ * @returns JSX.Element | null - The screens once the setting is known
+ */
+export function BaseCurrencyGate({ children }: { children: ReactNode }) {
+  const { isPending } = useBaseCurrency();
+  return isPending ? null : <>{children}</>;
+}
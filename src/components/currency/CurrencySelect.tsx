@@ -0,0 +1,66 @@
+/**
+ * ============================================================================
+ * CURRENCY SELECT COMPONENT
+ * ============================================================================
+ *
+ * Picker for an ISO 4217 currency, listing the common currencies by code
+ * and name.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CURRENCIES } from "@/lib/currency";
+import { cn } from "@/lib/utils";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the CurrencySelect component
+ */
+interface CurrencySelectProps {
+  value: string;                         // Selected currency code
+  onValueChange: (currency: string) => void;
+  id?: string;                           // Id for an associated label
+  compact?: boolean;                     // Show codes only, for use beside an input
+  className?: string;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Currency Select Component
+ *
+ * @param props - Component props including the selected code
+ * @returns JSX.Element - The currency picker
+ */
+export function CurrencySelect({ value, onValueChange, id, compact = false, className }: CurrencySelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className={cn("bg-muted border-border", className)} aria-label="Currency">
+        <SelectValue placeholder="Currency" />
+      </SelectTrigger>
+      <SelectContent>
+        {/* Keeps a currency outside the list selectable */}
+        {value && !CURRENCIES.some((c) => c.code === value) && <SelectItem value={value}>{value}</SelectItem>}
+        {CURRENCIES.map((currency) => (
+          <SelectItem key={currency.code} value={currency.code}>
+            {compact ? currency.code : `${currency.code} - ${currency.name}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
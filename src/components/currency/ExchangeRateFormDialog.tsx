@@ -0,0 +1,150 @@
+/**
+ * ============================================================================
+ * EXCHANGE RATE FORM DIALOG COMPONENT
+ * ============================================================================
+ *
+ * A modal dialog for adding and editing a rate in the exchange-rate table.
+ *
+ * Features:
+ * - Pair of currencies, read as "1 <from> = <rate> <to>"
+ * - Date the rate applies from (today for a new one)
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CurrencySelect } from "@/components/currency/CurrencySelect";
+import type { ExchangeRate, ExchangeRateInput } from "@/types/Currency";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the ExchangeRateFormDialog component
+ */
+interface ExchangeRateFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rate?: ExchangeRate | null;   // Rate being edited; a new one otherwise
+  base: string;                 // Base currency, the default "to" side
+  onSave: (input: ExchangeRateInput) => void;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Exchange Rate Form Dialog Component
+ *
+ * @param props - Component props including open state and save handler
+ * @returns JSX.Element - The exchange rate form dialog
+ */
+export function ExchangeRateFormDialog({ open, onOpenChange, rate, base, onSave }: ExchangeRateFormDialogProps) {
+  // Form state
+  const [from, setFrom] = useState("USD");
+  const [to, setTo] = useState(base);
+  const [value, setValue] = useState("");
+  const [date, setDate] = useState("");
+
+  /**
+   * Initialize form when the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    setFrom(rate?.from ?? (base === "USD" ? "EUR" : "USD"));
+    setTo(rate?.to ?? base);
+    setValue(rate ? String(rate.rate) : "");
+    setDate(rate?.date ?? format(new Date(), "yyyy-MM-dd"));
+  }, [rate, open, base]);
+
+  const parsed = Number(value);
+  const canSave = from !== to && value.trim() !== "" && Number.isFinite(parsed) && parsed > 0 && Boolean(date);
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onSave({ from, to, rate: parsed, date });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>{rate ? "Edit Rate" : "Add Rate"}</DialogTitle>
+          <DialogDescription>
+            Used for amounts dated on or after this day, until a newer rate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6 py-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rate-from">From</Label>
+              <CurrencySelect id="rate-from" value={from} onValueChange={setFrom} compact />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-to">To</Label>
+              <CurrencySelect id="rate-to" value={to} onValueChange={setTo} compact />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rate-value">
+              1 {from} = ? {to}
+            </Label>
+            <Input
+              id="rate-value"
+              type="number"
+              step="any"
+              min="0"
+              placeholder="e.g., 83.25"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="bg-muted border-border"
+            />
+            {from === to && <p className="text-xs text-destructive">Pick two different currencies.</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rate-date">Applies from</Label>
+            <Input
+              id="rate-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="bg-muted border-border"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-gradient-emerald" disabled={!canSave}>
+              {rate ? "Save Changes" : "Add Rate"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
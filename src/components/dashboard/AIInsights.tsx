@@ -28,76 +28,33 @@ import { Sparkles, TrendingUp, AlertTriangle, Lightbulb, ArrowRight } from "luci
 import { cn } from "@/lib/utils";
 import { Link } from "react-router-dom";
 import { toast } from "sonner";
-
-// ============================================================================
-// TYPE DEFINITIONS
-// ============================================================================
-
-/**
- * Insight interface for AI-generated recommendations
- */
-interface Insight {
-  id: string;                                    // Unique insight identifier
-  type: "tip" | "warning" | "achievement";       // Insight category
-  title: string;                                 // Brief insight headline
-  description: string;                           // Detailed insight message
-  icon: typeof Sparkles;                         // Icon component for the insight
-}
-
-// ============================================================================
-// MOCK DATA - Replace with AI service in production
-// ============================================================================
-
-/**
- * Sample AI-generated insights
- * In production, these would come from the ML/AI backend service
- */
-const insights: Insight[] = [
-  {
-    id: "1",
-    type: "achievement",
-    title: "Great savings this week!",
-    description: "You've saved 15% more than your usual weekly average. Keep it up!",
-    icon: TrendingUp,
-  },
-  {
-    id: "2",
-    type: "warning",
-    title: "Food expenses trending high",
-    description: "You've spent ₹4,200 on food this week, 30% above your budget.",
-    icon: AlertTriangle,
-  },
-  {
-    id: "3",
-    type: "tip",
-    title: "Smart tip for you",
-    description: "Consider switching to a monthly transport pass. Could save ₹2,000/month.",
-    icon: Lightbulb,
-  },
-];
+import { useInsights } from "@/hooks/useInsights";
 
 // ============================================================================
 // STYLING CONFIGURATION
 // ============================================================================
 
 /**
- * Color and style configurations for each insight type
+ * Icon, color and style configurations for each insight type
  * Uses semantic colors from the design system
  */
 const typeStyles = {
   achievement: {
+    icon: TrendingUp,
     bg: "bg-emerald/10",
     border: "border-emerald/20",
     iconBg: "bg-emerald/20",
     iconColor: "text-emerald",
   },
   warning: {
+    icon: AlertTriangle,
     bg: "bg-warning/10",
     border: "border-warning/20",
     iconBg: "bg-warning/20",
     iconColor: "text-warning",
   },
   tip: {
+    icon: Lightbulb,
     bg: "bg-info/10",
     border: "border-info/20",
     iconBg: "bg-info/20",
@@ -118,6 +75,9 @@ const typeStyles = {
  * @returns JSX.Element - The AI insights section
  */
 export function AIInsights() {
+  // Insights generated by the backend from the ledger and budgets
+  const { data: insights = [] } = useInsights();
+
   /**
    * Handles click on "View All" link
    * Shows a toast since the insights page is not implemented yet
@@ -156,9 +116,9 @@ export function AIInsights() {
           Color-coded insight cards with staggered animation
           ================================================================ */}
       <div className="space-y-3">
-        {insights.map((insight, index) => {
-          const Icon = insight.icon;
+        {insights.slice(0, 3).map((insight, index) => {
           const styles = typeStyles[insight.type];
+          const Icon = styles.icon;
 
           return (
             <div
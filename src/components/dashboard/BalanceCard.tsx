@@ -9,8 +9,10 @@
  * Features:
  * - Toggle visibility for sensitive balance information
  * - Total balance display with currency formatting
- * - Monthly savings rate indicator with trend arrow
- * - Income and expenses breakdown cards
+ * - Week / month / year period selector
+ * - Savings rate indicator with trend arrow
+ * - Income and expenses breakdown cards with change vs the previous period
+ * - Per-account balances that make up the total, each in its own currency
  * - Decorative elements for premium aesthetic
  * 
  * @author FinGuide Development Team
@@ -20,7 +22,12 @@
 
 import { Eye, EyeOff, TrendingUp, TrendingDown, Sparkles } from "lucide-react";
 import { useState } from "react";
+import { formatAccountBalance } from "@/lib/accounts";
+import { currencySymbol, formatCurrency } from "@/lib/formatCurrency";
+import { SUMMARY_PERIODS } from "@/lib/summary";
 import { cn } from "@/lib/utils";
+import type { AccountBalance } from "@/types/Account";
+import type { PeriodChange, SummaryPeriod } from "@/types/Summary";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -30,10 +37,51 @@ import { cn } from "@/lib/utils";
  * Props interface for BalanceCard component
  */
 interface BalanceCardProps {
-  balance: number;     // Total current balance in INR
+  balance: number;     // Total current balance in the base currency
+  currency?: string;   // Base currency of the totals (defaults to the display currency)
   income: number;      // Total income for current period
   expenses: number;    // Total expenses for current period
   savingsRate: number; // Savings rate percentage (can be negative)
+  period: SummaryPeriod;                            // Period the figures cover
+  change?: PeriodChange;                            // Movement vs the previous period
+  accounts?: AccountBalance[];                      // Per-account share of the balance
+  unassigned?: number;                              // Share from entries with no account
+  onPeriodChange: (period: SummaryPeriod) => void;  // Called when another period is picked
+}
+
+/**
+ * Short labels for the period selector
+ */
+const PERIOD_LABELS: Record<SummaryPeriod, string> = {
+  week: "Week",
+  month: "Month",
+  year: "Year",
+};
+
+// ============================================================================
+// HELPER COMPONENTS
+// ============================================================================
+
+/**
+ * Percent change against the previous period
+ * Rising income and falling expenses are shown as good news
+ */
+function ChangeLabel({ value, goodWhenUp, period }: {
+  value: number | null | undefined;
+  goodWhenUp: boolean;
+  period: SummaryPeriod;
+}) {
+  if (value === undefined) return null;
+  if (value === null) {
+    return <p className="mt-1 text-xs text-white/60">No data last {period}</p>;
+  }
+
+  const good = value === 0 || (value > 0) === goodWhenUp;
+  return (
+    <p className={cn("mt-1 text-xs", good ? "text-emerald-light" : "text-red-300")}>
+      {value > 0 ? "+" : ""}{value}% vs last {period}
+    </p>
+  );
 }
 
 // ============================================================================
@@ -47,29 +95,37 @@ interface BalanceCardProps {
  * Includes privacy toggle to hide/show sensitive balance information.
  * 
  * @param balance - Total current balance
+ * @param currency - Base currency of the totals
  * @param income - Total income for the period
  * @param expenses - Total expenses for the period
  * @param savingsRate - Percentage savings rate
+ * @param period - Period the figures cover
+ * @param change - Movement against the previous period
+ * @param accounts - Balance of each account
+ * @param unassigned - Balance of entries recorded without an account
+ * @param onPeriodChange - Period selector callback
  * @returns JSX.Element - The balance overview card
  */
-export function BalanceCard({ balance, income, expenses, savingsRate }: BalanceCardProps) {
+export function BalanceCard({
+  balance,
+  currency,
+  income,
+  expenses,
+  savingsRate,
+  period,
+  change,
+  accounts = [],
+  unassigned = 0,
+  onPeriodChange,
+}: BalanceCardProps) {
   // State to toggle balance visibility (privacy feature)
   const [showBalance, setShowBalance] = useState<boolean>(true);
 
   /**
-   * Formats a number as Indian Rupee currency
-   * Uses the 'en-IN' locale for proper Indian number formatting
-   * 
-   * @param amount - The numeric amount to format
-   * @returns Formatted currency string (e.g., "₹1,52,840")
+   * Formats a total, or masks it while balances are hidden
    */
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  const money = (amount: number, mask = "••••"): string =>
+    showBalance ? formatCurrency(amount, currency) : `${currencySymbol(currency)} ${mask}`;
 
   /**
    * Toggles the balance visibility state
@@ -102,18 +158,37 @@ export function BalanceCard({ balance, income, expenses, savingsRate }: BalanceC
           <span className="text-sm font-medium text-white/80">Total Balance</span>
         </div>
         
-        {/* Privacy toggle button */}
-        <button
-          onClick={toggleBalanceVisibility}
-          className="rounded-full p-2 transition-colors hover:bg-white/10"
-          aria-label={showBalance ? "Hide balance" : "Show balance"}
-        >
-          {showBalance ? (
-            <Eye className="h-5 w-5 text-white/80" />
-          ) : (
-            <EyeOff className="h-5 w-5 text-white/80" />
-          )}
-        </button>
+        <div className="flex items-center gap-1">
+          {/* Period selector */}
+          <div className="flex rounded-full bg-white/10 p-0.5" role="group" aria-label="Summary period">
+            {SUMMARY_PERIODS.map((p) => (
+              <button
+                key={p}
+                onClick={() => onPeriodChange(p)}
+                aria-pressed={p === period}
+                className={cn(
+                  "rounded-full px-2.5 py-1 text-xs font-medium transition-colors",
+                  p === period ? "bg-white text-primary" : "text-white/70 hover:text-white"
+                )}
+              >
+                {PERIOD_LABELS[p]}
+              </button>
+            ))}
+          </div>
+
+          {/* Privacy toggle button */}
+          <button
+            onClick={toggleBalanceVisibility}
+            className="rounded-full p-2 transition-colors hover:bg-white/10"
+            aria-label={showBalance ? "Hide balance" : "Show balance"}
+          >
+            {showBalance ? (
+              <Eye className="h-5 w-5 text-white/80" />
+            ) : (
+              <EyeOff className="h-5 w-5 text-white/80" />
+            )}
+          </button>
+        </div>
       </div>
 
       {/* ================================================================
@@ -123,7 +198,7 @@ export function BalanceCard({ balance, income, expenses, savingsRate }: BalanceC
       <div className="relative mt-4">
         {/* Balance amount - shows masked value when hidden */}
         <p className="font-display text-4xl font-bold tracking-tight">
-          {showBalance ? formatCurrency(balance) : "₹ ••••••"}
+          {money(balance, "••••••")}
         </p>
         
         {/* Savings rate badge with trend indicator */}
@@ -140,7 +215,7 @@ export function BalanceCard({ balance, income, expenses, savingsRate }: BalanceC
             ) : (
               <TrendingDown className="h-3 w-3" />
             )}
-            {Math.abs(savingsRate)}% this month
+            {Math.abs(savingsRate)}% {savingsRate >= 0 ? "saved" : "overspent"} this {period}
           </span>
         </div>
       </div>
@@ -161,8 +236,9 @@ export function BalanceCard({ balance, income, expenses, savingsRate }: BalanceC
           </div>
           {/* Income amount - respects visibility toggle */}
           <p className="mt-2 text-lg font-semibold">
-            {showBalance ? formatCurrency(income) : "₹ ••••"}
+            {money(income)}
           </p>
+          <ChangeLabel value={change?.income} goodWhenUp period={period} />
         </div>
         
         {/* Expenses Card */}
@@ -176,10 +252,39 @@ export function BalanceCard({ balance, income, expenses, savingsRate }: BalanceC
           </div>
           {/* Expenses amount - respects visibility toggle */}
           <p className="mt-2 text-lg font-semibold">
-            {showBalance ? formatCurrency(expenses) : "₹ ••••"}
+            {money(expenses)}
           </p>
+          <ChangeLabel value={change?.expenses} goodWhenUp={false} period={period} />
         </div>
       </div>
+
+      {/* ================================================================
+          ACCOUNT BREAKDOWN
+          What each account holds; together they make up the total
+          ================================================================ */}
+      {accounts.length > 0 && (
+        <div className="relative mt-4 space-y-1.5 rounded-2xl bg-white/10 p-4 backdrop-blur-sm">
+          {accounts.map((account) => (
+            <div key={account.accountId} className="flex items-center justify-between gap-3 text-sm">
+              <span className="truncate text-white/70">{account.name}</span>
+              <span className="text-right font-medium">
+                {showBalance
+                  ? formatAccountBalance(account.type, account.balance, account.currency)
+                  : `${currencySymbol(account.currency)} ••••`}
+                {showBalance && currency && account.currency !== currency && (
+                  <span className="block text-xs font-normal text-white/60">≈ {formatCurrency(account.baseBalance, currency)}</span>
+                )}
+              </span>
+            </div>
+          ))}
+          {unassigned !== 0 && (
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span className="truncate text-white/50">No account</span>
+              <span className="font-medium text-white/70">{money(unassigned)}</span>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
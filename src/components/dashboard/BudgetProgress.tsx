@@ -13,43 +13,28 @@
  * - Amount spent vs budget limit display
  * - Over-budget warnings with excess amount
  * - Animated progress bars
+ * - Budgets shared with the Budget page through the API
  * 
  * @author FinGuide Development Team
  * @version 1.0.0
  * ============================================================================
  */
 
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/formatCurrency";
 import { cn } from "@/lib/utils";
+import { useBudgets } from "@/hooks/useBudgets";
+import { useCategories } from "@/hooks/useCategories";
+import { categoryColor } from "@/lib/categories";
 
 // ============================================================================
-// TYPE DEFINITIONS
+// CONSTANTS
 // ============================================================================
 
 /**
- * Budget category interface
- * Represents a single budget category with spending data
+ * Number of budget categories shown on the dashboard
  */
-interface BudgetCategory {
-  name: string;    // Category name (e.g., "Food & Dining")
-  spent: number;   // Amount spent in INR
-  budget: number;  // Budget limit in INR
-  color: string;   // Tailwind color class for progress bar
-}
-
-// ============================================================================
-// MOCK DATA - Replace with API calls in production
-// ============================================================================
-
-/**
- * Sample budget categories with spending data
- * In production, this would be fetched from the user's database
- */
-const budgetCategories: BudgetCategory[] = [
-  { name: "Food & Dining", spent: 12500, budget: 15000, color: "bg-warning" },
-  { name: "Transport", spent: 5500, budget: 6000, color: "bg-info" },
-  { name: "Entertainment", spent: 4500, budget: 4000, color: "bg-destructive" },  // Over budget
-  { name: "Shopping", spent: 8000, budget: 12000, color: "bg-emerald" },
-];
+const DASHBOARD_LIMIT = 4;
 
 // ============================================================================
 // MAIN COMPONENT
@@ -64,19 +49,10 @@ const budgetCategories: BudgetCategory[] = [
  * @returns JSX.Element - The budget overview card
  */
 export function BudgetProgress() {
-  /**
-   * Formats a number as Indian Rupee currency
-   * 
-   * @param amount - The numeric amount to format
-   * @returns Formatted currency string (e.g., "₹12,500")
-   */
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  // First few budget categories from the API
+  const { data = [] } = useBudgets();
+  const { data: catalog = [] } = useCategories();
+  const budgets = data.slice(0, DASHBOARD_LIMIT);
 
   return (
     <div className="premium-card">
@@ -86,7 +62,7 @@ export function BudgetProgress() {
           ================================================================ */}
       <div className="mb-5 flex items-center justify-between">
         <h2 className="text-lg font-semibold">Budget Overview</h2>
-        <span className="text-sm text-muted-foreground">January 2026</span>
+        <span className="text-sm text-muted-foreground">{format(new Date(), "MMMM yyyy")}</span>
       </div>
 
       {/* ================================================================
@@ -94,15 +70,19 @@ export function BudgetProgress() {
           Individual category progress bars with amounts
           ================================================================ */}
       <div className="space-y-5">
-        {budgetCategories.map((category, index) => {
+        {budgets.length === 0 && (
+          <p className="text-sm text-muted-foreground">No budgets set up yet.</p>
+        )}
+
+        {budgets.map((budget, index) => {
           // Calculate spending percentage (capped at 100% for progress bar)
-          const percentage = Math.min((category.spent / category.budget) * 100, 100);
+          const percentage = budget.limit > 0 ? Math.min((budget.spent / budget.limit) * 100, 100) : 100;
           // Check if spending exceeds the budget
-          const isOverBudget = category.spent > category.budget;
+          const isOverBudget = budget.spent > budget.limit;
 
           return (
             <div
-              key={category.name}
+              key={budget.id}
               className={cn(
                 // Staggered animation for sequential appearance
                 "animate-slide-up opacity-0",
@@ -112,7 +92,7 @@ export function BudgetProgress() {
             >
               {/* Category header with name and amounts */}
               <div className="mb-2 flex items-center justify-between">
-                <span className="text-sm font-medium">{category.name}</span>
+                <span className="text-sm font-medium">{budget.category}</span>
                 <span
                   className={cn(
                     "text-sm",
@@ -122,7 +102,7 @@ export function BudgetProgress() {
                       : "text-muted-foreground"
                   )}
                 >
-                  {formatCurrency(category.spent)} / {formatCurrency(category.budget)}
+                  {formatCurrency(budget.spent)} / {formatCurrency(budget.limit)}
                 </span>
               </div>
               
@@ -132,7 +112,7 @@ export function BudgetProgress() {
                   className={cn(
                     "progress-fill",
                     // Use destructive color if over budget, otherwise use category color
-                    isOverBudget ? "!bg-destructive" : category.color
+                    isOverBudget ? "!bg-destructive" : categoryColor(catalog, budget.category, "expense").bar
                   )}
                   style={{
                     width: `${percentage}%`,
@@ -143,7 +123,7 @@ export function BudgetProgress() {
               {/* Over budget warning message */}
               {isOverBudget && (
                 <p className="mt-1 text-xs text-destructive">
-                  Over budget by {formatCurrency(category.spent - category.budget)}
+                  Over budget by {formatCurrency(budget.spent - budget.limit)}
                 </p>
               )}
             </div>
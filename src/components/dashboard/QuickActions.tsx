@@ -8,7 +8,7 @@
  * and color coding for easy identification.
  * 
  * Features:
- * - Four main action buttons: Income, Expense, Goals, Budget
+ * - Five main action buttons: Income, Expense, Transfer, Goals, Budget
  * - Color-coded icons for visual distinction
  * - Animated appearance with staggered timing
  * - Interactive hover and tap feedback
@@ -19,7 +19,7 @@
  * ============================================================================
  */
 
-import { ArrowUpRight, ArrowDownLeft, Target, Wallet, LucideIcon } from "lucide-react";
+import { ArrowUpRight, ArrowDownLeft, ArrowLeftRight, Target, Wallet, LucideIcon } from "lucide-react";
 import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
 
@@ -62,6 +62,13 @@ const actions: QuickAction[] = [
     color: "text-destructive",       // Red for expenses
     bgColor: "bg-destructive/10",
   },
+  {
+    icon: ArrowLeftRight,
+    label: "Transfer",
+    path: "/add?type=transfer",      // Opens the add page in transfer mode
+    color: "text-teal",              // Teal for money moving between accounts
+    bgColor: "bg-teal/10",
+  },
   {
     icon: Target,
     label: "Goals",
@@ -93,7 +100,7 @@ const actions: QuickAction[] = [
  */
 export function QuickActions() {
   return (
-    <div className="grid grid-cols-4 gap-3">
+    <div className="grid grid-cols-5 gap-2">
       {actions.map((action, index) => {
         const Icon = action.icon;
         
@@ -103,7 +110,7 @@ export function QuickActions() {
             to={action.path}
             className={cn(
               // Base styles for action button
-              "flex flex-col items-center gap-2 rounded-2xl p-4",
+              "flex flex-col items-center gap-2 rounded-2xl py-4",
               // Interactive states
               "transition-all duration-200 hover:scale-105 active:scale-95",
               // Staggered animation - each item appears slightly after the previous
@@ -13,13 +13,24 @@
  * - Legend with category percentages
  * - Custom tooltip with currency formatting
  * - Responsive design
+ * - Live data from the current month's expenses
  * 
  * @author FinGuide Development Team
  * @version 1.0.0
  * ============================================================================
  */
 
+import { useMemo } from "react";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from "recharts";
+import { endOfMonth, startOfMonth } from "date-fns";
+import { useTransactions } from "@/hooks/useTransactions";
+import { useCategories } from "@/hooks/useCategories";
+import { useCurrencyContext } from "@/hooks/useCurrency";
+import { buildCategoryBreakdown, filterByDate } from "@/lib/analytics";
+import { categoryColor, rollUpCategories } from "@/lib/categories";
+import { toBase } from "@/lib/currency";
+import { expandSplits } from "@/lib/splits";
+import { formatCurrency } from "@/lib/formatCurrency";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -31,32 +42,10 @@ import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from "recharts";
  */
 interface SpendingDataPoint {
   name: string;   // Category name
-  value: number;  // Amount spent in INR
+  value: number;  // Amount spent, in the base currency
   color: string;  // HSL color for the chart segment
 }
 
-// ============================================================================
-// CHART DATA - Replace with API calls in production
-// ============================================================================
-
-/**
- * Sample spending data by category
- * Colors use HSL format for consistency with the design system
- */
-const data: SpendingDataPoint[] = [
-  { name: "Food", value: 12500, color: "hsl(38, 92%, 50%)" },       // Orange/Warning
-  { name: "Transport", value: 5500, color: "hsl(199, 89%, 48%)" },  // Blue/Info
-  { name: "Housing", value: 25000, color: "hsl(260, 60%, 55%)" },   // Purple
-  { name: "Entertainment", value: 4500, color: "hsl(0, 72%, 51%)" }, // Red/Destructive
-  { name: "Shopping", value: 8000, color: "hsl(160, 84%, 39%)" },   // Emerald
-  { name: "Others", value: 3500, color: "hsl(220, 15%, 55%)" },     // Gray
-];
-
-/**
- * Calculate total spending for percentage calculations
- */
-const total = data.reduce((sum, item) => sum + item.value, 0);
-
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -70,19 +59,27 @@ const total = data.reduce((sum, item) => sum + item.value, 0);
  * @returns JSX.Element - The spending breakdown chart section
  */
 export function SpendingChart() {
+  const { data: transactions = [] } = useTransactions();
+  const { data: catalog = [] } = useCategories();
+  const currency = useCurrencyContext();
+
   /**
-   * Formats a number as Indian Rupee currency
-   * 
-   * @param amount - The numeric amount to format
-   * @returns Formatted currency string (e.g., "₹12,500")
+   * This month's expenses grouped by top-level category, largest first,
+   * colored from the catalog, in the base currency
    */
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  const data: SpendingDataPoint[] = useMemo(() => {
+    const now = new Date();
+    const thisMonth = filterByDate(toBase(transactions, currency), startOfMonth(now), endOfMonth(now));
+    return buildCategoryBreakdown(rollUpCategories(expandSplits(thisMonth), catalog))
+      .map((category) => ({
+        name: category.name,
+        value: category.amount,
+        color: categoryColor(catalog, category.name, "expense").chart,
+      }));
+  }, [transactions, catalog, currency]);
+
+  // Total spending for the center label and percentage calculations
+  const total = data.reduce((sum, item) => sum + item.value, 0);
 
   return (
     <div className="premium-card">
@@ -144,6 +141,11 @@ export function SpendingChart() {
             Shows top 4 categories with colors and percentages
             ================================================================ */}
         <div className="flex flex-1 flex-col gap-2">
+          {/* Empty state before any expense is recorded this month */}
+          {data.length === 0 && (
+            <p className="text-sm text-muted-foreground">No expenses recorded this month.</p>
+          )}
+
           {/* Only show top 4 categories to keep legend compact */}
           {data.slice(0, 4).map((item) => (
             <div key={item.name} className="flex items-center justify-between">
@@ -0,0 +1,234 @@
+/**
+ * ============================================================================
+ * CSV MAPPING STEP COMPONENT
+ * ============================================================================
+ *
+ * Second step of the CSV import. Shows the first rows of the file and lets
+ * the user say which row holds the headers, which column holds each field
+ * and how dates are written. The layout can be saved as a named bank
+ * profile so the bank's next statement skips this step.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { detectHeaderRow, guessMapping } from "@/lib/import/csv";
+import { STATEMENT_DATE_FORMATS, detectDateFormat } from "@/lib/import/values";
+import type { ColumnMapping, StatementDateFormat } from "@/types/Import";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Layout chosen in this step
+ */
+export interface CsvLayout {
+  headerRow: number;
+  mapping: ColumnMapping;
+  dateFormat: StatementDateFormat;
+  profileName: string;    // Save as a bank profile under this name; empty to skip
+}
+
+/**
+ * Props for the CsvMappingStep component
+ */
+interface CsvMappingStepProps {
+  rows: string[][];                     // All rows of the file
+  initial?: Omit<CsvLayout, "profileName"> & { profileName?: string };
+  onBack: () => void;
+  onContinue: (layout: CsvLayout) => void;
+}
+
+/**
+ * Fields the user maps, in display order
+ */
+const FIELDS: { key: keyof ColumnMapping; label: string; required: boolean }[] = [
+  { key: "date", label: "Date", required: true },
+  { key: "description", label: "Description", required: true },
+  { key: "debit", label: "Debit (money out)", required: false },
+  { key: "credit", label: "Credit (money in)", required: false },
+  { key: "balance", label: "Balance", required: false },
+];
+
+/**
+ * Select value for an unmapped column
+ */
+const UNMAPPED = "none";
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * CSV Mapping Step Component
+ *
+ * @param props - File rows, an optional starting layout and navigation handlers
+ * @returns JSX.Element - The column mapping form
+ */
+export function CsvMappingStep({ rows, initial, onBack, onContinue }: CsvMappingStepProps) {
+  const [headerRow, setHeaderRow] = useState(initial?.headerRow ?? detectHeaderRow(rows));
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>(initial?.mapping ?? {});
+  const [dateFormat, setDateFormat] = useState<StatementDateFormat | "">(initial?.dateFormat ?? "");
+  const [profileName, setProfileName] = useState(initial?.profileName ?? "");
+
+  const headers = rows[headerRow] ?? [];
+  const sample = rows.slice(headerRow + 1, headerRow + 4);
+
+  /**
+   * Re-guesses columns and the date layout when the header row changes
+   * (unless a saved layout was supplied)
+   */
+  useEffect(() => {
+    if (initial) return;
+    const guess = guessMapping(rows[headerRow] ?? []);
+    setMapping(guess);
+    if (guess.date !== undefined) {
+      const dates = rows.slice(headerRow + 1, headerRow + 21).map((r) => r[guess.date] ?? "");
+      setDateFormat(detectDateFormat(dates) ?? "");
+    }
+  }, [rows, headerRow, initial]);
+
+  const complete =
+    mapping.date !== undefined &&
+    mapping.description !== undefined &&
+    (mapping.debit !== undefined || mapping.credit !== undefined) &&
+    dateFormat !== "";
+
+  /**
+   * Sets or clears the column for a field
+   */
+  const setColumn = (field: keyof ColumnMapping, value: string) => {
+    setMapping((current) => ({ ...current, [field]: value === UNMAPPED ? undefined : Number(value) }));
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Header row */}
+      <div className="space-y-2">
+        <Label htmlFor="header-row">Header row</Label>
+        <Input
+          id="header-row"
+          type="number"
+          min={1}
+          max={rows.length}
+          value={headerRow + 1}
+          onChange={(e) => setHeaderRow(Math.min(Math.max(Number(e.target.value) - 1, 0), rows.length - 1))}
+          className="bg-muted border-border"
+        />
+        <p className="text-xs text-muted-foreground">
+          Rows above it (account details and the like) are skipped.
+        </p>
+      </div>
+
+      {/* Sample of the data below the header */}
+      <div className="premium-card !p-0 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-border/50 text-left">
+              {headers.map((header, index) => (
+                <th key={index} className="whitespace-nowrap px-3 py-2 font-semibold">{header || `Column ${index + 1}`}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sample.map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-b border-border/50 last:border-0">
+                {headers.map((_, index) => (
+                  <td key={index} className="whitespace-nowrap px-3 py-2 text-muted-foreground">{row[index]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Column for each field */}
+      <div className="grid grid-cols-2 gap-3">
+        {FIELDS.map((field) => (
+          <div key={field.key} className="space-y-2">
+            <Label>{field.label}{field.required && " *"}</Label>
+            <Select
+              value={mapping[field.key] === undefined ? UNMAPPED : String(mapping[field.key])}
+              onValueChange={(value) => setColumn(field.key, value)}
+            >
+              <SelectTrigger className="bg-muted border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                {headers.map((header, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {header || `Column ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+
+        {/* Date layout */}
+        <div className="space-y-2">
+          <Label>Date format *</Label>
+          <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as StatementDateFormat)}>
+            <SelectTrigger className="bg-muted border-border">
+              <SelectValue placeholder="Choose…" />
+            </SelectTrigger>
+            <SelectContent>
+              {STATEMENT_DATE_FORMATS.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        If the file has one amount column with signed or Dr/Cr values, map it as both debit and credit.
+      </p>
+
+      {/* Save as profile */}
+      <div className="space-y-2">
+        <Label htmlFor="profile-name">Save as bank profile (optional)</Label>
+        <Input
+          id="profile-name"
+          placeholder="e.g., HDFC Savings"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          className="bg-muted border-border"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={onBack}>
+          Back
+        </Button>
+        <Button
+          className="flex-1 bg-gradient-emerald"
+          disabled={!complete}
+          onClick={() =>
+            onContinue({
+              headerRow,
+              mapping: mapping as ColumnMapping,
+              dateFormat: dateFormat as StatementDateFormat,
+              profileName: profileName.trim(),
+            })
+          }
+        >
+          Preview
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+/**
+ * ============================================================================
+ * IMPORT PREVIEW COMPONENT
+ * ============================================================================
+ *
+ * Final step of every statement import. Lists the parsed rows so the user
+ * can untick anything they do not want, choose the account the money moved
+ * through (pre-selected when the file names it), and confirm. Lines that
+ * could not be read are listed below. Rows that look like entries already in
+ * the ledger are flagged; if imported they go to the duplicate review queue.
+ * A transfer is only imported when both of its accounts match the user's.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, Copy } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useAccounts } from "@/hooks/useAccounts";
+import { useTransactions } from "@/hooks/useTransactions";
+import { findDuplicates } from "@/lib/duplicates";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { matchAccount } from "@/lib/import/statement";
+import { cn } from "@/lib/utils";
+import type { StatementError, StatementRow } from "@/types/Import";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the ImportPreview component
+ */
+interface ImportPreviewProps {
+  rows: StatementRow[];
+  errors: StatementError[];
+  account?: string;                                                // Account number or name from the file
+  isImporting?: boolean;                                           // Disables the confirm button
+  onBack: () => void;
+  onConfirm: (rows: StatementRow[], accountId: string | undefined) => void;
+}
+
+/**
+ * Select value for "no account"
+ */
+const NO_ACCOUNT = "none";
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Import Preview Component
+ *
+ * @param props - Parsed rows, unreadable lines and navigation handlers
+ * @returns JSX.Element - The preview-and-confirm step
+ */
+export function ImportPreview({ rows, errors, account, isImporting = false, onBack, onConfirm }: ImportPreviewProps) {
+  const { data: accounts = [] } = useAccounts();
+  const { data: ledger = [] } = useTransactions();
+  const [accountId, setAccountId] = useState(NO_ACCOUNT);
+
+  // Pre-select the account the file names, when one matches
+  useEffect(() => {
+    const match = matchAccount(accounts, account);
+    if (match) setAccountId(match.id);
+  }, [accounts, account]);
+
+  // Lines the user left ticked; everything starts selected
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  useEffect(() => setSelected(new Set(rows.map((r) => r.line))), [rows]);
+
+  // Existing entry each row may duplicate, by line
+  const duplicates = useMemo(() => {
+    const found = new Map<number, string>();
+    for (const row of rows) {
+      const [match] = findDuplicates({ ...row, title: row.description }, ledger);
+      if (match) found.set(row.line, match.title);
+    }
+    return found;
+  }, [rows, ledger]);
+
+  // Transfers whose two accounts are not both among the user's
+  const unmatched = useMemo(() => {
+    const lines = new Set<number>();
+    for (const row of rows.filter((r) => r.type === "transfer")) {
+      const from = matchAccount(accounts, row.account);
+      const into = matchAccount(accounts, row.toAccount);
+      if (!from || !into || from.id === into.id) lines.add(row.line);
+    }
+    return lines;
+  }, [rows, accounts]);
+
+  const importable = useMemo(() => rows.filter((r) => !unmatched.has(r.line)), [rows, unmatched]);
+  const chosen = useMemo(() => importable.filter((r) => selected.has(r.line)), [importable, selected]);
+  const income = chosen.filter((r) => r.type === "income").reduce((sum, r) => sum + r.amount, 0);
+  const expense = chosen.filter((r) => r.type === "expense").reduce((sum, r) => sum + r.amount, 0);
+
+  /**
+   * Ticks or unticks a single row
+   */
+  const toggle = (line: number, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(line);
+      else next.delete(line);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Totals for the rows that will be imported */}
+      <div className="premium-card !p-4 grid grid-cols-3 gap-2 text-center">
+        <div>
+          <p className="text-lg font-bold">{chosen.length}</p>
+          <p className="text-xs text-muted-foreground">of {rows.length} rows</p>
+        </div>
+        <div>
+          <p className="text-lg font-bold text-emerald">+{formatCurrency(income)}</p>
+          <p className="text-xs text-muted-foreground">Income</p>
+        </div>
+        <div>
+          <p className="text-lg font-bold">-{formatCurrency(expense)}</p>
+          <p className="text-xs text-muted-foreground">Expenses</p>
+        </div>
+      </div>
+
+      {/* Account the statement belongs to */}
+      {accounts.length > 0 && (
+        <div className="space-y-2">
+          <Label>Account</Label>
+          <Select value={accountId} onValueChange={setAccountId}>
+            <SelectTrigger className="bg-muted border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {account && <p className="text-xs text-muted-foreground">Statement account: {account}</p>}
+          {rows.some((r) => r.account) && (
+            <p className="text-xs text-muted-foreground">Rows naming one of your accounts are recorded against it.</p>
+          )}
+        </div>
+      )}
+
+      {duplicates.size > 0 && (
+        <p className="px-1 text-xs text-muted-foreground">
+          {duplicates.size} {duplicates.size === 1 ? "row looks" : "rows look"} like transactions you already
+          have. Untick them, or import them and review the pairs afterwards.
+        </p>
+      )}
+
+      {/* Select all / none */}
+      <div className="flex items-center justify-between px-1 text-sm">
+        <span className="font-medium">Transactions</span>
+        <button
+          className="text-accent"
+          onClick={() => setSelected(chosen.length === importable.length ? new Set() : new Set(importable.map((r) => r.line)))}
+        >
+          {chosen.length === importable.length ? "Select none" : "Select all"}
+        </button>
+      </div>
+
+      {/* Parsed rows */}
+      <div className="premium-card !p-0 max-h-[50vh] divide-y divide-border/50 overflow-y-auto">
+        {rows.map((row) => (
+          <label
+            key={row.line}
+            className={cn(
+              "flex cursor-pointer items-center gap-3 px-4 py-3",
+              (!selected.has(row.line) || unmatched.has(row.line)) && "opacity-50"
+            )}
+          >
+            <Checkbox
+              checked={selected.has(row.line) && !unmatched.has(row.line)}
+              disabled={unmatched.has(row.line)}
+              onCheckedChange={(checked) => toggle(row.line, checked === true)}
+              aria-label={`Import ${row.description}`}
+            />
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">{row.description}</p>
+              <p className="text-xs text-muted-foreground">
+                {format(parseISO(row.date), "d MMM yyyy")}
+                {row.splits ? ` • Split • ${row.splits.length} categories` : row.category && ` • ${row.category}`}
+                {row.type === "transfer"
+                  ? ` • ${row.account ?? "?"} → ${row.toAccount ?? "?"}`
+                  : row.account && ` • ${row.account}`}
+                {row.balance !== undefined && ` • Bal ${formatCurrency(row.balance)}`}
+              </p>
+              {unmatched.has(row.line) && (
+                <p className="flex items-center gap-1 truncate text-xs text-warning">
+                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                  Add both accounts to import this transfer
+                </p>
+              )}
+              {duplicates.has(row.line) && (
+                <p className="flex items-center gap-1 truncate text-xs text-warning">
+                  <Copy className="h-3 w-3 shrink-0" />
+                  Possible duplicate of "{duplicates.get(row.line)}"
+                </p>
+              )}
+            </div>
+            <span className={cn("text-sm font-semibold", row.type === "income" && "text-emerald")}>
+              {row.type === "income" ? "+" : row.type === "expense" ? "-" : ""}
+              {formatCurrency(row.amount, row.currency)}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {/* Lines that could not be read */}
+      {errors.length > 0 && (
+        <div className="rounded-xl bg-warning/10 p-3 text-sm">
+          <p className="mb-1 flex items-center gap-2 font-medium text-warning">
+            <AlertTriangle className="h-4 w-4" />
+            {errors.length} {errors.length === 1 ? "line was" : "lines were"} skipped
+          </p>
+          <ul className="max-h-32 space-y-0.5 overflow-y-auto text-xs text-muted-foreground">
+            {errors.map((error) => (
+              <li key={error.line}>Line {error.line}: {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={onBack}>
+          Back
+        </Button>
+        <Button
+          className="flex-1 bg-gradient-emerald"
+          disabled={chosen.length === 0 || isImporting}
+          onClick={() => onConfirm(chosen, accountId === NO_ACCOUNT ? undefined : accountId)}
+        >
+          Import {chosen.length}
+        </Button>
+      </div>
+    </div>
+  );
+}
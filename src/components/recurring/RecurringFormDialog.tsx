@@ -0,0 +1,213 @@
+/**
+ * ============================================================================
+ * RECURRING FORM DIALOG COMPONENT
+ * ============================================================================
+ *
+ * A modal dialog for editing a recurring template. Templates are created
+ * from the "Repeat" section of the add transaction form; this dialog
+ * changes what they post and when.
+ *
+ * Features:
+ * - Title, amount and currency, category and note of each posted entry
+ * - Start date and schedule, with a plain-language summary
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CurrencySelect } from "@/components/currency/CurrencySelect";
+import { ScheduleFields } from "@/components/recurring/ScheduleFields";
+import { useCategories } from "@/hooks/useCategories";
+import { categoryTree } from "@/lib/categories";
+import { DEFAULT_CURRENCY, currencyOf } from "@/lib/currency";
+import { DEFAULT_SCHEDULE, toSchedule, toScheduleDraft, type ScheduleDraft } from "@/lib/recurrence";
+import type { RecurringInput, RecurringTransaction } from "@/types/Recurring";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the RecurringFormDialog component
+ */
+interface RecurringFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template: RecurringTransaction | null;    // Template being edited
+  onSave: (changes: Partial<RecurringInput>) => void;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Recurring Form Dialog Component
+ *
+ * @param props - Component props including open state and save handler
+ * @returns JSX.Element - The recurring template form dialog
+ */
+export function RecurringFormDialog({ open, onOpenChange, template, onSave }: RecurringFormDialogProps) {
+  const { data: catalog = [] } = useCategories();
+
+  // Form state
+  const [title, setTitle] = useState("");
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [category, setCategory] = useState("");
+  const [note, setNote] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [schedule, setSchedule] = useState<ScheduleDraft>(DEFAULT_SCHEDULE);
+
+  /**
+   * Initialize form from the template whenever the dialog opens
+   */
+  useEffect(() => {
+    if (!template) return;
+    setTitle(template.title);
+    setAmount(template.amount.toString());
+    setCurrency(currencyOf(template));
+    setCategory(template.category);
+    setNote(template.note ?? "");
+    setStartDate(template.schedule.startDate);
+    setSchedule(toScheduleDraft(template.schedule));
+  }, [template, open]);
+
+  // Categories of the template's type, subcategories included
+  const categoryOptions = template
+    ? categoryTree(catalog, template.type).flatMap(({ category: parent, children }) => [parent, ...children])
+    : [];
+
+  const amountValue = parseFloat(amount);
+  const validSchedule = startDate ? toSchedule(schedule, startDate) : null;
+  const canSave = Boolean(title.trim() && amountValue > 0 && category && validSchedule);
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validSchedule) return;
+    onSave({
+      title: title.trim(),
+      amount: amountValue,
+      currency,
+      category,
+      note: note.trim() || undefined,
+      schedule: validSchedule,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[425px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Edit Recurring</DialogTitle>
+          <DialogDescription>
+            Changes apply to entries posted from now on; entries already posted stay as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="recurring-title">Title</Label>
+            <Input
+              id="recurring-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="bg-muted border-border"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-amount">Amount</Label>
+            <div className="flex gap-2">
+              <Input
+                id="recurring-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="bg-muted border-border"
+              />
+              <CurrencySelect value={currency} onValueChange={setCurrency} compact className="w-24" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="bg-muted border-border">
+                <SelectValue placeholder="Choose a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {/* Keeps an archived or deleted category selectable */}
+                {category && !categoryOptions.some((c) => c.name === category) && (
+                  <SelectItem value={category}>{category}</SelectItem>
+                )}
+                {categoryOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.name}>
+                    {option.emoji} {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-start">Starts</Label>
+            <Input
+              id="recurring-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="bg-muted border-border"
+            />
+          </div>
+
+          <ScheduleFields value={schedule} startDate={startDate} onChange={setSchedule} />
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-note">Note</Label>
+            <Input
+              id="recurring-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="bg-muted border-border"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-gradient-emerald" disabled={!canSave}>
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * ============================================================================
+ * RECURRING POSTER COMPONENT
+ * ============================================================================
+ *
+ * Posts the recurring transactions that fell due since the app was last
+ * opened, once per launch. Renders nothing; a toast reports what was posted.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { usePostDueRecurring } from "@/hooks/useRecurring";
+
+/**
+ * Recurring Poster Component
+ *
+ * @returns null - Runs the catch-up on mount
+ */
+export function RecurringPoster() {
+  const { mutate } = usePostDueRecurring();
+
+  // Guards against the effect running twice for the same launch
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    mutate(undefined, {
+      onSuccess: ({ posted }) => {
+        if (posted.length === 0) return;
+        toast.success(
+          posted.length === 1
+            ? `Posted recurring "${posted[0].title}"`
+            : `Posted ${posted.length} recurring transactions`
+        );
+      },
+    });
+  }, [mutate]);
+
+  return null;
+}
@@ -0,0 +1,138 @@
+/**
+ * ============================================================================
+ * SCHEDULE FIELDS COMPONENT
+ * ============================================================================
+ *
+ * Form fields for a recurrence schedule, shared by the "Repeat" section of
+ * the add transaction form and the recurring template editor. The start
+ * date comes from the surrounding form.
+ *
+ * Features:
+ * - Daily, weekly, monthly or yearly, every N units
+ * - "Last working day" option for monthly and yearly schedules
+ * - Optional end date
+ * - Plain-language summary of the schedule
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { describeSchedule, toSchedule, type ScheduleDraft } from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+import type { RecurrenceFrequency } from "@/types/Recurring";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the ScheduleFields component
+ */
+interface ScheduleFieldsProps {
+  value: ScheduleDraft;
+  startDate: string;         // First occurrence, for the summary
+  onChange: (value: ScheduleDraft) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Frequency chips with the unit shown after the interval input
+ */
+const FREQUENCIES: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: "daily", label: "Daily", unit: "day(s)" },
+  { value: "weekly", label: "Weekly", unit: "week(s)" },
+  { value: "monthly", label: "Monthly", unit: "month(s)" },
+  { value: "yearly", label: "Yearly", unit: "year(s)" },
+];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Schedule Fields Component
+ *
+ * @param props - Draft schedule, start date and change handler
+ * @returns JSX.Element - Frequency, interval, last working day and end date fields
+ */
+export function ScheduleFields({ value, startDate, onChange }: ScheduleFieldsProps) {
+  const unit = FREQUENCIES.find((f) => f.value === value.frequency)?.unit;
+  const schedule = startDate ? toSchedule(value, startDate) : null;
+  const update = (changes: Partial<ScheduleDraft>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-4">
+      {/* Frequency */}
+      <div className="flex flex-wrap gap-2">
+        {FREQUENCIES.map((frequency) => (
+          <button
+            key={frequency.value}
+            type="button"
+            onClick={() => update({ frequency: frequency.value })}
+            className={cn(
+              "rounded-full px-3 py-1.5 text-xs font-medium transition-colors",
+              value.frequency === frequency.value ? "bg-accent text-white" : "bg-muted hover:bg-muted/80"
+            )}
+            aria-pressed={value.frequency === frequency.value}
+          >
+            {frequency.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Every N units */}
+      <div className="flex items-center gap-2 text-sm">
+        <Label htmlFor="schedule-interval" className="font-normal">Every</Label>
+        <Input
+          id="schedule-interval"
+          type="number"
+          min="1"
+          max="365"
+          step="1"
+          value={value.interval}
+          onChange={(e) => update({ interval: e.target.value })}
+          className="h-9 w-20 bg-muted border-border"
+        />
+        <span className="text-muted-foreground">{unit}</span>
+      </div>
+
+      {/* Last working day (monthly and yearly only) */}
+      {(value.frequency === "monthly" || value.frequency === "yearly") && (
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="schedule-last-working-day" className="font-normal">
+            On the last working day of the month
+          </Label>
+          <Switch
+            id="schedule-last-working-day"
+            checked={value.lastWorkingDay}
+            onCheckedChange={(checked) => update({ lastWorkingDay: checked })}
+          />
+        </div>
+      )}
+
+      {/* End date */}
+      <div className="space-y-2">
+        <Label htmlFor="schedule-end">Ends (optional)</Label>
+        <Input
+          id="schedule-end"
+          type="date"
+          min={startDate}
+          value={value.endDate}
+          onChange={(e) => update({ endDate: e.target.value })}
+          className="bg-muted border-border"
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {schedule ? describeSchedule(schedule) : "Enter how often it repeats and an end date after the start."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+/**
+ * ============================================================================
+ * RULE FORM DIALOG COMPONENT
+ * ============================================================================
+ *
+ * A modal dialog for adding and editing auto-categorization rules.
+ * The "When" section holds the conditions a transaction must meet and the
+ * "Then" section the category, tags and note to apply.
+ *
+ * Features:
+ * - Title and note text conditions
+ * - Amount range, account and type conditions
+ * - Category, tags and note actions
+ * - Prefill from a draft (e.g., "Create rule" on a transaction)
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAccounts } from "@/hooks/useAccounts";
+import { useCategories } from "@/hooks/useCategories";
+import { categoryTree } from "@/lib/categories";
+import { currencySymbol } from "@/lib/formatCurrency";
+import type { RuleInput } from "@/types/Rule";
+import type { CategoryType } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the RuleFormDialog component
+ */
+interface RuleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initial?: RuleInput | null;       // Rule being edited or draft to start from
+  isEditing?: boolean;              // Changes the title and submit label
+  onSave: (rule: RuleInput) => void;
+}
+
+/**
+ * Select value meaning "no restriction"
+ */
+const ANY = "any";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parses an optional amount field
+ */
+const parseAmount = (value: string): number | undefined =>
+  value.trim() === "" ? undefined : Number(value);
+
+/**
+ * Splits a comma-separated tags field into unique, lowercase tags
+ */
+const parseTags = (value: string): string[] | undefined => {
+  const tags = [...new Set(value.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean))];
+  return tags.length > 0 ? tags : undefined;
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Rule Form Dialog Component
+ *
+ * @param props - Component props including open state and save handler
+ * @returns JSX.Element - The rule form dialog
+ */
+export function RuleFormDialog({ open, onOpenChange, initial, isEditing = false, onSave }: RuleFormDialogProps) {
+  const { data: catalog = [] } = useCategories();
+  const { data: accounts = [] } = useAccounts();
+
+  // Form state - conditions
+  const [name, setName] = useState("");
+  const [type, setType] = useState<CategoryType | typeof ANY>(ANY);
+  const [titleContains, setTitleContains] = useState("");
+  const [noteContains, setNoteContains] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [accountId, setAccountId] = useState(ANY);
+
+  // Form state - actions
+  const [category, setCategory] = useState(ANY);
+  const [tags, setTags] = useState("");
+  const [note, setNote] = useState("");
+
+  /**
+   * Initialize form from the rule or draft whenever the dialog opens
+   */
+  useEffect(() => {
+    const conditions = initial?.conditions ?? {};
+    const actions = initial?.actions ?? {};
+    setName(initial?.name ?? "");
+    setType(conditions.type ?? ANY);
+    setTitleContains(conditions.titleContains ?? "");
+    setNoteContains(conditions.noteContains ?? "");
+    setMinAmount(conditions.minAmount?.toString() ?? "");
+    setMaxAmount(conditions.maxAmount?.toString() ?? "");
+    setAccountId(conditions.accountId ?? ANY);
+    setCategory(actions.category ?? ANY);
+    setTags((actions.tags ?? []).join(", "));
+    setNote(actions.note ?? "");
+  }, [initial, open]);
+
+  // Categories offered for the action, limited to the chosen type
+  const categoryOptions = (["expense", "income"] as const)
+    .filter((t) => type === ANY || type === t)
+    .flatMap((t) => categoryTree(catalog, t))
+    .flatMap(({ category: parent, children }) => [parent, ...children])
+    .filter((option, index, all) => all.findIndex((o) => o.name === option.name) === index);
+
+  const min = parseAmount(minAmount);
+  const max = parseAmount(maxAmount);
+  const hasCondition = Boolean(
+    titleContains.trim() || noteContains.trim() || min !== undefined || max !== undefined ||
+    accountId !== ANY || type !== ANY
+  );
+  const hasAction = Boolean(category !== ANY || parseTags(tags) || note.trim());
+  const rangeInvalid = min !== undefined && max !== undefined && min > max;
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      name: name.trim() || titleContains.trim() || "Untitled rule",
+      conditions: {
+        titleContains: titleContains.trim() || undefined,
+        noteContains: noteContains.trim() || undefined,
+        minAmount: min,
+        maxAmount: max,
+        accountId: accountId === ANY ? undefined : accountId,
+        type: type === ANY ? undefined : type,
+      },
+      actions: {
+        category: category === ANY ? undefined : category,
+        tags: parseTags(tags),
+        note: note.trim() || undefined,
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[425px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Rule" : "Add Rule"}</DialogTitle>
+          <DialogDescription>
+            Runs on new and imported transactions. Every condition you fill in must match.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6 py-4">
+          {/* Rule name */}
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              placeholder="e.g., Swiggy orders"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-muted border-border"
+            />
+          </div>
+
+          {/* ================================================================
+              WHEN - conditions
+              ================================================================ */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold">When</h3>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-title">Title contains</Label>
+              <Input
+                id="rule-title"
+                placeholder="e.g., swiggy"
+                value={titleContains}
+                onChange={(e) => setTitleContains(e.target.value)}
+                className="bg-muted border-border"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-note">Note contains</Label>
+              <Input
+                id="rule-note"
+                value={noteContains}
+                onChange={(e) => setNoteContains(e.target.value)}
+                className="bg-muted border-border"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="rule-min">Min amount ({currencySymbol()})</Label>
+                <Input
+                  id="rule-min"
+                  type="number"
+                  min="0"
+                  value={minAmount}
+                  onChange={(e) => setMinAmount(e.target.value)}
+                  className="bg-muted border-border"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-max">Max amount ({currencySymbol()})</Label>
+                <Input
+                  id="rule-max"
+                  type="number"
+                  min="0"
+                  value={maxAmount}
+                  onChange={(e) => setMaxAmount(e.target.value)}
+                  className="bg-muted border-border"
+                />
+              </div>
+            </div>
+            {rangeInvalid && (
+              <p className="text-xs text-destructive">Minimum amount must not exceed the maximum.</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={type}
+                  onValueChange={(value) => {
+                    setType(value as CategoryType | typeof ANY);
+                    setCategory(ANY);
+                  }}
+                >
+                  <SelectTrigger className="bg-muted border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Account</Label>
+                <Select value={accountId} onValueChange={setAccountId} disabled={accounts.length === 0}>
+                  <SelectTrigger className="bg-muted border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {/* ================================================================
+              THEN - actions
+              ================================================================ */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold">Then</h3>
+
+            <div className="space-y-2">
+              <Label>Set category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger className="bg-muted border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Don't change</SelectItem>
+                  {categoryOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.name}>
+                      {option.parentId ? "　" : ""}{option.emoji} {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-tags">Add tags</Label>
+              <Input
+                id="rule-tags"
+                placeholder="e.g., food, delivery"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                className="bg-muted border-border"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-set-note">Set note</Label>
+              <Input
+                id="rule-set-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="bg-muted border-border"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-gradient-emerald"
+              disabled={!hasCondition || !hasAction || rangeInvalid}
+            >
+              {isEditing ? "Save Changes" : "Add Rule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * ============================================================================
+ * CATEGORY ICON COMPONENT
+ * ============================================================================
+ * 
+ * The category's emoji on a tile tinted with its catalog color. Shared by
+ * every list that shows transaction rows so a category looks the same
+ * everywhere.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useCategories } from "@/hooks/useCategories";
+import { CATEGORY_COLORS, findCategory } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+import type { TransactionType } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the CategoryIcon component
+ */
+interface CategoryIconProps {
+  category: string;          // Category name as stored on the entry
+  type?: TransactionType;    // Picks the right entry when both types share a name
+  size?: "md" | "lg";        // Row size (default) or detail-sheet size
+  className?: string;
+}
+
+/**
+ * Tile and emoji classes per size
+ */
+const SIZES = {
+  md: "h-11 w-11 rounded-xl text-xl",
+  lg: "h-14 w-14 rounded-2xl text-3xl",
+};
+
+/**
+ * Tile for transfers, which have no category in the catalog
+ */
+const TRANSFER_TILE = { emoji: "🔁", color: "info" as const };
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Category Icon Component
+ * 
+ * @param props - Category name and size
+ * @returns JSX.Element - The emoji tile; unknown categories get a gray 📦
+ */
+export function CategoryIcon({ category, type, size = "md", className }: CategoryIconProps) {
+  const { data: catalog = [] } = useCategories();
+  const entry = type === "transfer" ? TRANSFER_TILE : findCategory(catalog, category, type);
+  const color = CATEGORY_COLORS[entry?.color ?? "muted"] ?? CATEGORY_COLORS.muted;
+
+  return (
+    <div className={cn("flex shrink-0 items-center justify-center", SIZES[size], color.iconBg, className)}>
+      <span aria-hidden="true">{entry?.emoji ?? "📦"}</span>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * ============================================================================
+ * SPLIT LINES EDITOR COMPONENT
+ * ============================================================================
+ *
+ * Edits the lines of a split transaction in the add transaction form: each
+ * line has its own category, amount and note, and the lines must add up to
+ * the transaction amount before it can be saved.
+ *
+ * Features:
+ * - Category picker per line, subcategories included
+ * - Add and remove lines (at least two are kept)
+ * - New lines start with the amount still left to assign
+ * - Running check of the lines against the total
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import { categoryTree } from "@/lib/categories";
+import { currencySymbol, formatCurrency } from "@/lib/formatCurrency";
+import type { SplitDraft } from "@/lib/splits";
+import { cn } from "@/lib/utils";
+import type { CategoryType } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the SplitLinesEditor component
+ */
+interface SplitLinesEditorProps {
+  lines: SplitDraft[];
+  onChange: (lines: SplitDraft[]) => void;
+  type: CategoryType;     // Categories offered are of this type
+  total: number;             // Transaction amount the lines must add up to
+  currency?: string;         // Currency of the transaction (defaults to the base currency)
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Split Lines Editor Component
+ *
+ * @param props - Lines, change handler, transaction type, total and currency
+ * @returns JSX.Element - One row per split line with a running remainder
+ */
+export function SplitLinesEditor({ lines, onChange, type, total, currency }: SplitLinesEditorProps) {
+  const { data: catalog = [] } = useCategories();
+  const options = categoryTree(catalog, type).flatMap(({ category, children }) => [category, ...children]);
+
+  // Amount not yet assigned to a line (negative when the lines exceed the total)
+  const assigned = lines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0);
+  const remaining = Math.round((total - assigned) * 100) / 100;
+
+  const updateLine = (index: number, changes: Partial<SplitDraft>) =>
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const addLine = () =>
+    onChange([...lines, { category: "", amount: remaining > 0 ? remaining.toString() : "", note: "" }]);
+
+  const removeLine = (index: number) => onChange(lines.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-3">
+      {lines.map((line, index) => (
+        <div key={index} className="space-y-2 rounded-xl bg-muted/50 p-3">
+          <div className="flex items-center gap-2">
+            <Select value={line.category} onValueChange={(category) => updateLine(index, { category })}>
+              <SelectTrigger className="flex-1 bg-muted border-border" aria-label={`Line ${index + 1} category`}>
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                {/* Keeps an archived or deleted category selectable */}
+                {line.category && !options.some((c) => c.name === line.category) && (
+                  <SelectItem value={line.category}>{line.category}</SelectItem>
+                )}
+                {options.map((option) => (
+                  <SelectItem key={option.id} value={option.name}>
+                    {option.emoji} {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.01"
+              placeholder={`${currencySymbol(currency)}0`}
+              value={line.amount}
+              onChange={(e) => updateLine(index, { amount: e.target.value })}
+              className="w-28 bg-muted border-border"
+              aria-label={`Line ${index + 1} amount`}
+            />
+            {lines.length > 2 && (
+              <button
+                type="button"
+                onClick={() => removeLine(index)}
+                className="rounded-lg p-2 transition-colors hover:bg-destructive/10"
+                aria-label={`Remove line ${index + 1}`}
+              >
+                <X className="h-4 w-4 text-destructive" />
+              </button>
+            )}
+          </div>
+          <Input
+            placeholder="Note for this line (optional)"
+            value={line.note}
+            onChange={(e) => updateLine(index, { note: e.target.value })}
+            className="bg-muted border-border"
+            aria-label={`Line ${index + 1} note`}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-3">
+        <Button type="button" variant="outline" size="sm" onClick={addLine}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add line
+        </Button>
+        <p className={cn("text-xs font-medium", remaining === 0 ? "text-emerald" : "text-warning")}>
+          {remaining === 0
+            ? "Adds up to the total"
+            : remaining > 0
+              ? `${formatCurrency(remaining, currency)} left to assign`
+              : `${formatCurrency(-remaining, currency)} over the total`}
+        </p>
+      </div>
+    </div>
+  );
+}
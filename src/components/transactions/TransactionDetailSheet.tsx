@@ -0,0 +1,174 @@
+/**
+ * ============================================================================
+ * TRANSACTION DETAIL SHEET COMPONENT
+ * ============================================================================
+ * 
+ * Bottom sheet that opens when a transaction row is tapped. Shows every
+ * field of the entry and offers edit, delete and "create rule" actions.
+ * A transfer shows the accounts it moved money between instead of a category,
+ * and a reconciled entry is marked as locked. An entry in a currency other
+ * than the base one shows its original amount with the converted one below.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { format, parseISO } from "date-fns";
+import { Lock, Pencil, Trash2, Wand2 } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { useAccounts } from "@/hooks/useAccounts";
+import { useCurrencyContext } from "@/hooks/useCurrency";
+import { convertAmount, currencyOf } from "@/lib/currency";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { isSplit } from "@/lib/splits";
+import { cn } from "@/lib/utils";
+import type { Transaction } from "@/types/Transaction";
+import { CategoryIcon } from "./CategoryIcon";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the TransactionDetailSheet component
+ */
+interface TransactionDetailSheetProps {
+  transaction: Transaction | null;   // Entry to show; the sheet is closed when null
+  onOpenChange: (open: boolean) => void;
+  onEdit: (transaction: Transaction) => void;
+  onDelete: (transaction: Transaction) => void;
+  onCreateRule?: (transaction: Transaction) => void;   // Drafts a rule matching this entry
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Transaction Detail Sheet Component
+ * 
+ * @param props - The selected transaction and action handlers
+ * @returns JSX.Element - The detail bottom sheet
+ */
+export function TransactionDetailSheet({
+  transaction,
+  onOpenChange,
+  onEdit,
+  onDelete,
+  onCreateRule,
+}: TransactionDetailSheetProps) {
+  const { data: accounts = [] } = useAccounts();
+  const accountName = (id: string | undefined) => accounts.find((a) => a.id === id)?.name ?? "Unknown account";
+  const { base, rates } = useCurrencyContext();
+  const currency = transaction ? currencyOf(transaction) : base;
+
+  return (
+    <Sheet open={transaction !== null} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl bg-card border-border">
+        {transaction && (
+          <>
+            <SheetHeader className="items-center text-center sm:text-center">
+              {/* Category icon */}
+              <CategoryIcon category={transaction.category} type={transaction.type} size="lg" />
+              <SheetTitle>{transaction.title}</SheetTitle>
+              <SheetDescription>
+                {transaction.type === "transfer"
+                  ? `${accountName(transaction.accountId)} → ${accountName(transaction.toAccountId)}`
+                  : isSplit(transaction)
+                    ? "Split"
+                    : transaction.category}{" "}
+                • {format(parseISO(transaction.date), "EEEE, d MMMM yyyy")}
+              </SheetDescription>
+              <p
+                className={cn(
+                  "font-display text-3xl font-bold",
+                  transaction.type === "income" ? "text-emerald" : "text-foreground"
+                )}
+              >
+                {transaction.type === "income" ? "+" : transaction.type === "expense" ? "-" : ""}
+                {formatCurrency(transaction.amount, currency)}
+              </p>
+              {currency !== base && (
+                <p className="text-sm text-muted-foreground">
+                  ≈ {formatCurrency(convertAmount(transaction.amount, currency, base, transaction.date, rates))}
+                </p>
+              )}
+              {transaction.reconciledAt && (
+                <span className="flex items-center gap-1 rounded-full bg-info/10 px-3 py-1 text-xs font-medium text-info">
+                  <Lock className="h-3 w-3" />
+                  Reconciled
+                </span>
+              )}
+            </SheetHeader>
+
+            {/* Split lines, each with its own category */}
+            {isSplit(transaction) && (
+              <ul className="mt-4 divide-y divide-border/50 rounded-xl bg-muted px-3">
+                {transaction.splits.map((line, index) => (
+                  <li key={index} className="flex items-center gap-3 py-2">
+                    <CategoryIcon category={line.category} type={transaction.type} />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium">{line.category}</p>
+                      {line.note && <p className="truncate text-xs text-muted-foreground">{line.note}</p>}
+                    </div>
+                    <span className="text-sm font-semibold">{formatCurrency(line.amount, currency)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Tags */}
+            {transaction.tags && transaction.tags.length > 0 && (
+              <div className="mt-4 flex flex-wrap justify-center gap-2">
+                {transaction.tags.map((tag) => (
+                  <span key={tag} className="rounded-full bg-accent/10 px-3 py-1 text-xs font-medium text-accent">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {/* Optional note */}
+            {transaction.note && (
+              <p className="mt-4 rounded-xl bg-muted p-3 text-sm text-muted-foreground">
+                {transaction.note}
+              </p>
+            )}
+
+            <SheetFooter className="mt-6 flex-row gap-2 sm:justify-center">
+              <Button variant="outline" className="flex-1" onClick={() => onEdit(transaction)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1 text-destructive hover:text-destructive"
+                onClick={() => onDelete(transaction)}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            </SheetFooter>
+
+            {/* Shortcut for categorizing similar entries automatically */}
+            {onCreateRule && transaction.type !== "transfer" && (
+              <Button variant="ghost" className="mt-2 w-full" onClick={() => onCreateRule(transaction)}>
+                <Wand2 className="mr-2 h-4 w-4" />
+                Create rule from this transaction
+              </Button>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
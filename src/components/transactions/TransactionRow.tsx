@@ -0,0 +1,116 @@
+/**
+ * ============================================================================
+ * TRANSACTION ROW COMPONENT
+ * ============================================================================
+ * 
+ * A single transaction card: category icon, title, category/date metadata
+ * and the signed amount (unsigned for transfers between accounts). Used by the dashboard's recent list and the full
+ * transaction history.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { CSSProperties } from "react";
+import { format, isToday, isYesterday, parseISO } from "date-fns";
+import { currencyOf } from "@/lib/currency";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { isSplit } from "@/lib/splits";
+import { cn } from "@/lib/utils";
+import type { Transaction } from "@/types/Transaction";
+import { CategoryIcon } from "./CategoryIcon";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props for the TransactionRow component
+ */
+interface TransactionRowProps {
+  transaction: Transaction;
+  showDate?: boolean;          // Append the date to the metadata line (default true)
+  onClick?: () => void;        // Makes the row a button when provided
+  className?: string;
+  style?: CSSProperties;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Formats an ISO date as a short, human friendly label
+ * 
+ * @param date - ISO date string (YYYY-MM-DD)
+ * @returns "Today", "Yesterday" or a short date (e.g., "Jan 28")
+ */
+const formatDate = (date: string): string => {
+  const parsed = parseISO(date);
+  if (isToday(parsed)) return "Today";
+  if (isYesterday(parsed)) return "Yesterday";
+  return format(parsed, "MMM d");
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Transaction Row Component
+ * 
+ * @param props - The transaction and optional click handler
+ * @returns JSX.Element - The transaction card
+ */
+export function TransactionRow({
+  transaction,
+  showDate = true,
+  onClick,
+  className,
+  style,
+}: TransactionRowProps) {
+  const Element = onClick ? "button" : "div";
+
+  return (
+    <Element
+      onClick={onClick}
+      className={cn(
+        "transaction-item premium-card w-full p-4 text-left",
+        onClick && "cursor-pointer",
+        className
+      )}
+      style={style}
+    >
+      {/* Transaction info section */}
+      <div className="flex items-center gap-3">
+        {/* Category icon with colored background */}
+        <CategoryIcon category={transaction.category} type={transaction.type} />
+        
+        {/* Transaction details */}
+        <div>
+          <p className="font-medium">{transaction.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {isSplit(transaction) ? `Split • ${transaction.splits.length} categories` : transaction.category}
+            {showDate && ` • ${formatDate(transaction.date)}`}
+          </p>
+        </div>
+      </div>
+      
+      {/* Transaction amount with +/- prefix based on type */}
+      <p
+        className={cn(
+          "font-semibold",
+          // Green color for income, default for expenses
+          transaction.type === "income"
+            ? "text-emerald"
+            : "text-foreground"
+        )}
+      >
+        {/* Add + or - prefix based on transaction type; transfers have neither */}
+        {transaction.type === "income" ? "+" : transaction.type === "expense" ? "-" : ""}
+        {formatCurrency(transaction.amount, currencyOf(transaction))}
+      </p>
+    </Element>
+  );
+}
@@ -0,0 +1,75 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import { useInvalidateLedger } from "@/hooks/useTransactions";
+import type { AccountInput, ReconcileInput } from "@/types/Account";
+
+/**
+ * Fetches the user's money accounts
+ */
+export function useAccounts() {
+  return useQuery({
+    queryKey: queryKeys.accounts,
+    queryFn: () => api.accounts.list(),
+  });
+}
+
+/**
+ * Refreshes the accounts and the dashboard balance after a change
+ */
+function useInvalidateAccounts() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+    queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+  };
+}
+
+/**
+ * Adds an account
+ */
+export function useCreateAccount() {
+  const invalidate = useInvalidateAccounts();
+  return useMutation({
+    mutationFn: (input: AccountInput) => api.accounts.create(input),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Renames an account or changes its type or opening balance
+ */
+export function useUpdateAccount() {
+  const invalidate = useInvalidateAccounts();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<AccountInput> }) =>
+      api.accounts.update(id, changes),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Deletes an account; refused while transactions are recorded against it
+ */
+export function useDeleteAccount() {
+  const invalidate = useInvalidateAccounts();
+  return useMutation({
+    mutationFn: (id: string) => api.accounts.remove(id),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Reconciles an account against a statement, locking the cleared entries
+ */
+export function useReconcileAccount() {
+  const invalidateAccounts = useInvalidateAccounts();
+  const invalidateLedger = useInvalidateLedger();
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: ReconcileInput }) => api.accounts.reconcile(id, input),
+    onSuccess: () => {
+      invalidateAccounts();
+      invalidateLedger();
+    },
+  });
+}
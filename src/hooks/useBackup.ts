@@ -0,0 +1,30 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { decryptBackup, encryptBackup } from "@/lib/backup/crypto";
+import { migrateSnapshot } from "@/lib/backup/migrate";
+import type { RestoreMode } from "@/types/Backup";
+
+/**
+ * Takes a snapshot of everything and encrypts it with the passphrase;
+ * resolves to the text of the backup file
+ */
+export function useCreateBackup() {
+  return useMutation({
+    mutationFn: async (passphrase: string) => encryptBackup(await api.backup.get(), passphrase),
+  });
+}
+
+/**
+ * Decrypts a backup file, migrates it to the current schema and restores
+ * it; every cached query is refetched afterwards
+ */
+export function useRestoreBackup() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ file, passphrase, mode }: { file: string; passphrase: string; mode: RestoreMode }) => {
+      const snapshot = await migrateSnapshot(await decryptBackup(file, passphrase));
+      return api.backup.restore(snapshot, mode);
+    },
+    onSuccess: () => queryClient.invalidateQueries(),
+  });
+}
@@ -0,0 +1,37 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import type { BankProfileInput } from "@/types/Import";
+
+/**
+ * Fetches the saved CSV import profiles
+ */
+export function useBankProfiles() {
+  return useQuery({
+    queryKey: queryKeys.bankProfiles,
+    queryFn: () => api.bankProfiles.list(),
+  });
+}
+
+/**
+ * Saves a new CSV import profile
+ */
+export function useCreateBankProfile() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: BankProfileInput) => api.bankProfiles.create(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bankProfiles }),
+  });
+}
+
+/**
+ * Replaces the mapping of an existing profile
+ */
+export function useUpdateBankProfile() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<BankProfileInput> }) =>
+      api.bankProfiles.update(id, changes),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bankProfiles }),
+  });
+}
@@ -0,0 +1,59 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import type { BudgetInput } from "@/types/Budget";
+
+/**
+ * Fetches the user's budget categories
+ */
+export function useBudgets() {
+  return useQuery({
+    queryKey: queryKeys.budgets,
+    queryFn: () => api.budgets.list(),
+  });
+}
+
+/**
+ * Refreshes budgets and the insights derived from them
+ */
+function useInvalidateBudgets() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.budgets });
+    queryClient.invalidateQueries({ queryKey: queryKeys.insights });
+  };
+}
+
+/**
+ * Creates a budget category
+ */
+export function useCreateBudget() {
+  const invalidate = useInvalidateBudgets();
+  return useMutation({
+    mutationFn: (input: BudgetInput) => api.budgets.create(input),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Updates a budget category
+ */
+export function useUpdateBudget() {
+  const invalidate = useInvalidateBudgets();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<BudgetInput> }) =>
+      api.budgets.update(id, changes),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Deletes a budget category
+ */
+export function useDeleteBudget() {
+  const invalidate = useInvalidateBudgets();
+  return useMutation({
+    mutationFn: (id: string) => api.budgets.remove(id),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import { DEFAULT_CATEGORIES } from "@/lib/categories";
+import type { CategoryChanges, CategoryInput } from "@/types/Category";
+
+/**
+ * Fetches the category catalog, archived categories included.
+ * Built-in categories stand in until the first response arrives.
+ */
+export function useCategories() {
+  return useQuery({
+    queryKey: queryKeys.categories,
+    queryFn: () => api.categories.list(),
+    placeholderData: DEFAULT_CATEGORIES,
+  });
+}
+
+/**
+ * Refreshes the catalog and everything that shows category names.
+ * Renames and merges rewrite transactions and budgets, so every query
+ * is invalidated rather than picking individual keys.
+ */
+function useInvalidateCatalog() {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries();
+}
+
+/**
+ * Adds a category or subcategory
+ */
+export function useCreateCategory() {
+  const invalidate = useInvalidateCatalog();
+  return useMutation({
+    mutationFn: (input: CategoryInput) => api.categories.create(input),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Renames, recolors, moves or archives a category
+ */
+export function useUpdateCategory() {
+  const invalidate = useInvalidateCatalog();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: CategoryChanges }) =>
+      api.categories.update(id, changes),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Merges one category into another, moving its entries and budget across
+ */
+export function useMergeCategory() {
+  const invalidate = useInvalidateCatalog();
+  return useMutation({
+    mutationFn: ({ id, targetId }: { id: string; targetId: string }) =>
+      api.categories.merge(id, targetId),
+    onSuccess: invalidate,
+  });
+}
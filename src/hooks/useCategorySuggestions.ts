@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+import { useTransactions } from "@/hooks/useTransactions";
+import {
+  CategorySuggestion,
+  SuggestionInput,
+  createModel,
+  suggestCategories,
+  syncModel,
+} from "@/lib/categorizer";
+import type { TransactionType } from "@/types/Transaction";
+
+/**
+ * Categorizer shared by every screen. It lives only in memory on this
+ * device and is kept in step with the ledger, so saving or correcting a
+ * transaction retrains it in place.
+ */
+const model = createModel();
+
+/**
+ * Suggests categories for a transaction being entered
+ *
+ * @param input - Title, note and amount typed so far
+ * @param type - Income or expense
+ * @param enabled - Skip the work (e.g., while editing an existing entry)
+ * @returns Up to three suggestions, most likely first
+ */
+export function useCategorySuggestions(
+  input: SuggestionInput,
+  type: TransactionType,
+  enabled = true
+): CategorySuggestion[] {
+  const { data: transactions = [] } = useTransactions();
+  const { title, note, amount } = input;
+
+  return useMemo(() => {
+    if (!enabled) return [];
+    syncModel(model, transactions);
+    return suggestCategories(model, { title, note, amount }, type);
+  }, [transactions, title, note, amount, type, enabled]);
+}
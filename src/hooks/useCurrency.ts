@@ -0,0 +1,109 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import { useInvalidateLedger } from "@/hooks/useTransactions";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { setDisplayCurrency } from "@/lib/formatCurrency";
+import type { CurrencyContext, ExchangeRate, ExchangeRateInput } from "@/types/Currency";
+
+/**
+ * Rate table used until the rates have loaded
+ */
+const NO_RATES: ExchangeRate[] = [];
+
+/**
+ * Fetches the base currency and makes it the default for formatted amounts
+ */
+export function useBaseCurrency() {
+  return useQuery({
+    queryKey: queryKeys.baseCurrency,
+    queryFn: async () => {
+      const base = await api.settings.getBaseCurrency();
+      setDisplayCurrency(base.currency);
+      return base;
+    },
+  });
+}
+
+/**
+ * Changes the base currency. Every total is converted again, so all
+ * cached data is refreshed.
+ */
+export function useSetBaseCurrency() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (currency: string) => api.settings.setBaseCurrency(currency),
+    onSuccess: ({ currency }) => {
+      setDisplayCurrency(currency);
+      queryClient.invalidateQueries();
+    },
+  });
+}
+
+/**
+ * Fetches the exchange-rate table, newest first
+ */
+export function useExchangeRates() {
+  return useQuery({
+    queryKey: queryKeys.exchangeRates,
+    queryFn: () => api.exchangeRates.list(),
+  });
+}
+
+/**
+ * Base currency and rates for converting amounts on the client; the same
+ * object until either changes, so it can be a memo dependency
+ */
+export function useCurrencyContext(): CurrencyContext {
+  const { data: base } = useBaseCurrency();
+  const { data: rates = NO_RATES } = useExchangeRates();
+  const code = base?.currency ?? DEFAULT_CURRENCY;
+  return useMemo(() => ({ base: code, rates }), [code, rates]);
+}
+
+/**
+ * Refreshes the rate table and every figure converted with it
+ */
+function useInvalidateRates() {
+  const queryClient = useQueryClient();
+  const invalidateLedger = useInvalidateLedger();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.exchangeRates });
+    invalidateLedger();
+  };
+}
+
+/**
+ * Adds a rate to the table
+ */
+export function useCreateExchangeRate() {
+  const invalidate = useInvalidateRates();
+  return useMutation({
+    mutationFn: (input: ExchangeRateInput) => api.exchangeRates.create(input),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Updates a rate
+ */
+export function useUpdateExchangeRate() {
+  const invalidate = useInvalidateRates();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<ExchangeRateInput> }) =>
+      api.exchangeRates.update(id, changes),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Deletes a rate
+ */
+export function useDeleteExchangeRate() {
+  const invalidate = useInvalidateRates();
+  return useMutation({
+    mutationFn: (id: string) => api.exchangeRates.remove(id),
+    onSuccess: invalidate,
+  });
+}
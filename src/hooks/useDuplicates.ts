@@ -0,0 +1,26 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import { useInvalidateLedger } from "@/hooks/useTransactions";
+import type { DuplicateResolution } from "@/types/Duplicate";
+
+/**
+ * Fetches the pairs of transactions waiting in the duplicate review queue
+ */
+export function useDuplicates() {
+  return useQuery({
+    queryKey: queryKeys.duplicates,
+    queryFn: () => api.duplicates.list(),
+  });
+}
+
+/**
+ * Merges, keeps or discards one pair
+ */
+export function useResolveDuplicate() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: (resolution: DuplicateResolution) => api.duplicates.resolve(resolution),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import type { GoalInput } from "@/types/Goal";
+
+/**
+ * Fetches the user's savings goals
+ */
+export function useGoals() {
+  return useQuery({
+    queryKey: queryKeys.goals,
+    queryFn: () => api.goals.list(),
+  });
+}
+
+/**
+ * Refreshes the goals list after a change
+ */
+function useInvalidateGoals() {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: queryKeys.goals });
+}
+
+/**
+ * Creates a savings goal
+ */
+export function useCreateGoal() {
+  const invalidate = useInvalidateGoals();
+  return useMutation({
+    mutationFn: (input: GoalInput) => api.goals.create(input),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Updates a savings goal
+ */
+export function useUpdateGoal() {
+  const invalidate = useInvalidateGoals();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<GoalInput> }) =>
+      api.goals.update(id, changes),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Deletes a savings goal
+ */
+export function useDeleteGoal() {
+  const invalidate = useInvalidateGoals();
+  return useMutation({
+    mutationFn: (id: string) => api.goals.remove(id),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+
+/**
+ * Fetches insights generated from the user's ledger and budgets
+ */
+export function useInsights() {
+  return useQuery({
+    queryKey: queryKeys.insights,
+    queryFn: () => api.insights.list(),
+  });
+}
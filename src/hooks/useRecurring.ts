@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import { useInvalidateLedger } from "@/hooks/useTransactions";
+import type { RecurringInput } from "@/types/Recurring";
+
+/**
+ * Fetches the recurring transaction templates
+ */
+export function useRecurring() {
+  return useQuery({
+    queryKey: queryKeys.recurring,
+    queryFn: () => api.recurring.list(),
+  });
+}
+
+/**
+ * Refreshes the templates list after a change
+ */
+function useInvalidateRecurring() {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: queryKeys.recurring });
+}
+
+/**
+ * Creates a recurring template
+ */
+export function useCreateRecurring() {
+  const invalidate = useInvalidateRecurring();
+  return useMutation({
+    mutationFn: (input: RecurringInput) => api.recurring.create(input),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Updates a template, including pausing and resuming it
+ */
+export function useUpdateRecurring() {
+  const invalidate = useInvalidateRecurring();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<RecurringInput> }) =>
+      api.recurring.update(id, changes),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Deletes a template; entries it already posted stay in the ledger
+ */
+export function useDeleteRecurring() {
+  const invalidate = useInvalidateRecurring();
+  return useMutation({
+    mutationFn: (id: string) => api.recurring.remove(id),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Posts every occurrence due up to today on this device
+ */
+export function usePostDueRecurring() {
+  const invalidateRecurring = useInvalidateRecurring();
+  const invalidateLedger = useInvalidateLedger();
+  return useMutation({
+    mutationFn: () => api.recurring.postDue(format(new Date(), "yyyy-MM-dd")),
+    onSuccess: ({ posted }) => {
+      invalidateRecurring();
+      if (posted.length > 0) invalidateLedger();
+    },
+  });
+}
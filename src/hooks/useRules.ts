@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import type { RuleInput } from "@/types/Rule";
+
+/**
+ * Fetches the categorization rules in the order they run
+ */
+export function useRules() {
+  return useQuery({
+    queryKey: queryKeys.rules,
+    queryFn: () => api.rules.list(),
+  });
+}
+
+/**
+ * Refreshes the rules list after a change
+ */
+function useInvalidateRules() {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: queryKeys.rules });
+}
+
+/**
+ * Creates a rule; it runs after every existing rule
+ */
+export function useCreateRule() {
+  const invalidate = useInvalidateRules();
+  return useMutation({
+    mutationFn: (input: RuleInput) => api.rules.create(input),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Updates a rule's conditions, actions or enabled state
+ */
+export function useUpdateRule() {
+  const invalidate = useInvalidateRules();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<RuleInput> }) =>
+      api.rules.update(id, changes),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Saves a new running order
+ */
+export function useReorderRules() {
+  const invalidate = useInvalidateRules();
+  return useMutation({
+    mutationFn: (ids: string[]) => api.rules.reorder(ids),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Deletes a rule
+ */
+export function useDeleteRule() {
+  const invalidate = useInvalidateRules();
+  return useMutation({
+    mutationFn: (id: string) => api.rules.remove(id),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,17 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import type { SummaryPeriod } from "@/types/Summary";
+
+/**
+ * Fetches the dashboard balance overview for a calendar period
+ *
+ * @param period - Week, month or year containing today
+ */
+export function useSummary(period: SummaryPeriod) {
+  return useQuery({
+    queryKey: [...queryKeys.summary, period],
+    queryFn: () => api.summary.get(period),
+    placeholderData: keepPreviousData, // Keep the old figures on screen while switching periods
+  });
+}
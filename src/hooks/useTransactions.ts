@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { queryKeys } from "@/api/queryKeys";
+import type { TransactionInput } from "@/types/Transaction";
+
+/**
+ * Fetches the user's transactions, newest first
+ */
+export function useTransactions() {
+  return useQuery({
+    queryKey: queryKeys.transactions,
+    queryFn: () => api.transactions.list(),
+  });
+}
+
+/**
+ * Fetches a single transaction
+ *
+ * @param id - Transaction id; the query is idle while undefined
+ */
+export function useTransaction(id: string | undefined) {
+  return useQuery({
+    queryKey: [...queryKeys.transactions, id],
+    queryFn: () => api.transactions.get(id),
+    enabled: Boolean(id),
+  });
+}
+
+/**
+ * Refreshes everything derived from the ledger after a change
+ */
+export function useInvalidateLedger() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+    queryClient.invalidateQueries({ queryKey: queryKeys.duplicates });
+    queryClient.invalidateQueries({ queryKey: queryKeys.budgets });
+    queryClient.invalidateQueries({ queryKey: queryKeys.insights });
+    queryClient.invalidateQueries({ queryKey: queryKeys.summary });
+  };
+}
+
+/**
+ * Records a new transaction
+ */
+export function useCreateTransaction() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: (input: TransactionInput) => api.transactions.create(input),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Records many transactions at once (statement imports)
+ */
+export function useImportTransactions() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: (inputs: TransactionInput[]) => api.transactions.import(inputs),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Updates fields of an existing transaction
+ */
+export function useUpdateTransaction() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<TransactionInput> }) =>
+      api.transactions.update(id, changes),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Deletes a transaction
+ */
+export function useDeleteTransaction() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: (id: string) => api.transactions.remove(id),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Unlocks a reconciled transaction so it can be edited or deleted
+ */
+export function useUnlockTransaction() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: (id: string) => api.transactions.unlock(id),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * ============================================================================
+ * ACCOUNT BALANCES
+ * ============================================================================
+ *
+ * Works out how much is held in each money account (bank, cash, credit
+ * card, wallet) from its opening balance and the transactions recorded
+ * against it. Balances are always recomputed from the ledger, so they stay
+ * right after edits, imports and deletions.
+ *
+ * A credit card's balance goes negative as it is spent on: the amount
+ * shown below zero is what is owed. A transfer moves money from one
+ * account to another, so it changes both balances but not the total.
+ *
+ * Each account is kept in its own currency; an entry in another currency
+ * is converted at the rate for its date. Alongside, every balance is also
+ * worked out in the base currency so they can be added up.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { DEFAULT_CURRENCY_CONTEXT, convertAmount, currencyOf } from "@/lib/currency";
+import { formatCurrency } from "@/lib/formatCurrency";
+import type { Account, AccountBalance, AccountType } from "@/types/Account";
+import type { CurrencyContext, ExchangeRate } from "@/types/Currency";
+import type { Transaction } from "@/types/Transaction";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Readable labels for account types
+ */
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  bank: "Bank",
+  cash: "Cash",
+  credit_card: "Credit card",
+  wallet: "Wallet",
+};
+
+/**
+ * Category recorded on every transfer, which never has one of its own
+ */
+export const TRANSFER_CATEGORY = "Transfer";
+
+// ============================================================================
+// BALANCES
+// ============================================================================
+
+/**
+ * Money a transaction moves into (+) or out of (-) each account it touches.
+ * A transfer debits its source and credits its destination; anything else
+ * has a single leg on its own account, which may be unknown.
+ */
+export function accountLegs(
+  t: Pick<Transaction, "type" | "amount" | "accountId" | "toAccountId">
+): { accountId?: string; amount: number }[] {
+  if (t.type === "transfer") {
+    return [
+      { accountId: t.accountId, amount: -t.amount },
+      { accountId: t.toAccountId, amount: t.amount },
+    ];
+  }
+  return [{ accountId: t.accountId, amount: t.type === "income" ? t.amount : -t.amount }];
+}
+
+/**
+ * Whether a transaction moves money into or out of an account
+ */
+export const touchesAccount = (t: Pick<Transaction, "type" | "accountId" | "toAccountId">, accountId: string): boolean =>
+  t.accountId === accountId || (t.type === "transfer" && t.toAccountId === accountId);
+
+/**
+ * Net effect of a transaction on one account's balance, in the account's
+ * currency
+ *
+ * @param rates - Exchange rates for entries in another currency
+ */
+export const accountChange = (
+  t: Pick<Transaction, "type" | "amount" | "currency" | "date" | "accountId" | "toAccountId">,
+  account: Pick<Account, "id" | "currency">,
+  rates: ExchangeRate[] = []
+): number =>
+  convertAmount(
+    accountLegs(t).reduce((sum, leg) => (leg.accountId === account.id ? sum + leg.amount : sum), 0),
+    currencyOf(t),
+    currencyOf(account),
+    t.date,
+    rates
+  );
+
+/**
+ * Balance of every account, plus the net of entries recorded without a
+ * known account (in the base currency). The base-currency balances and the
+ * unassigned share add up to the overall balance.
+ *
+ * @param accounts - Accounts in display order
+ * @param transactions - The user's full ledger
+ * @param currency - Base currency and the rates used to convert into it
+ */
+export function accountBalances(
+  accounts: Account[],
+  transactions: Transaction[],
+  { base, rates }: CurrencyContext = DEFAULT_CURRENCY_CONTEXT
+): { accounts: AccountBalance[]; unassigned: number } {
+  const byId = new Map(accounts.map((a) => [a.id, a]));
+  const own = new Map(accounts.map((a) => [a.id, a.openingBalance]));
+  const inBase = new Map(
+    accounts.map((a) => [a.id, convertAmount(a.openingBalance, currencyOf(a), base, a.createdAt.slice(0, 10), rates)])
+  );
+  let unassigned = 0;
+  for (const t of transactions) {
+    const from = currencyOf(t);
+    for (const leg of accountLegs(t)) {
+      const baseAmount = convertAmount(leg.amount, from, base, t.date, rates);
+      const account = leg.accountId && byId.get(leg.accountId);
+      if (account) {
+        own.set(account.id, own.get(account.id) + convertAmount(leg.amount, from, currencyOf(account), t.date, rates));
+        inBase.set(account.id, inBase.get(account.id) + baseAmount);
+      } else {
+        unassigned += baseAmount;
+      }
+    }
+  }
+
+  return {
+    accounts: accounts.map((a) => ({
+      accountId: a.id,
+      name: a.name,
+      type: a.type,
+      currency: currencyOf(a),
+      balance: own.get(a.id),
+      baseBalance: inBase.get(a.id),
+    })),
+    unassigned,
+  };
+}
+
+/**
+ * Balance for display; a credit card below zero shows what is owed
+ *
+ * @param currency - Currency the balance is in (defaults to the base currency)
+ */
+export const formatAccountBalance = (type: AccountType, balance: number, currency?: string): string =>
+  type === "credit_card" && balance < 0 ? `${formatCurrency(-balance, currency)} owed` : formatCurrency(balance, currency);
+
+/**
+ * An account's transactions, newest first, each with what it changed the
+ * account by and the balance right after it, in the account's currency.
+ * Transfers into the account are included alongside those out of it.
+ */
+export function runningBalances(
+  account: Account,
+  transactions: Transaction[],
+  rates: ExchangeRate[] = []
+): { transaction: Transaction; change: number; balance: number }[] {
+  const own = transactions
+    .filter((t) => touchesAccount(t, account.id))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+
+  let balance = account.openingBalance;
+  return own
+    .map((transaction) => {
+      const change = accountChange(transaction, account, rates);
+      return { transaction, change, balance: (balance += change) };
+    })
+    .reverse();
+}
@@ -0,0 +1,150 @@
+/**
+ * ============================================================================
+ * LEDGER ANALYTICS
+ * ============================================================================
+ *
+ * Pure aggregation helpers that turn raw transactions into the figures and
+ * chart series shown on the dashboard and the analytics page.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  format,
+  startOfDay,
+  startOfMonth,
+  subDays,
+  subMonths,
+} from "date-fns";
+import type { Transaction } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Time windows offered by the analytics page
+ */
+export type AnalyticsRange = "Week" | "Month" | "Year";
+
+/**
+ * Income and expense totals for a bucket of time
+ */
+export interface TrendPoint {
+  name: string;      // Bucket label (e.g., "Mon" or "Jan")
+  income: number;    // Total income in the bucket, in the base currency
+  expense: number;   // Total expenses in the bucket, in the base currency
+}
+
+/**
+ * Spending for a single category
+ */
+export interface CategoryTotal {
+  name: string;       // Category name
+  amount: number;     // Amount spent, in the base currency
+  percentage: number; // Rounded share of total spending
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Formats a date as the YYYY-MM-DD key used by transactions
+ */
+export const toDateKey = (date: Date): string => format(date, "yyyy-MM-dd");
+
+/**
+ * Sums income and expenses across a list of transactions; transfers
+ * between accounts are neither
+ */
+export function sumTotals(transactions: Transaction[]): { income: number; expense: number } {
+  return transactions.reduce(
+    (totals, t) => {
+      if (t.type === "income") totals.income += t.amount;
+      else if (t.type === "expense") totals.expense += t.amount;
+      return totals;
+    },
+    { income: 0, expense: 0 }
+  );
+}
+
+/**
+ * Returns the first day covered by a range, counting back from `now`
+ * - Week: the last 7 days
+ * - Month: the last 6 calendar months
+ * - Year: the last 12 calendar months
+ */
+export function getRangeStart(range: AnalyticsRange, now: Date = new Date()): Date {
+  switch (range) {
+    case "Week":
+      return startOfDay(subDays(now, 6));
+    case "Month":
+      return startOfMonth(subMonths(now, 5));
+    case "Year":
+      return startOfMonth(subMonths(now, 11));
+  }
+}
+
+/**
+ * Keeps transactions dated between `start` and `end` (inclusive)
+ */
+export function filterByDate(transactions: Transaction[], start: Date, end: Date): Transaction[] {
+  const from = toDateKey(start);
+  const to = toDateKey(end);
+  return transactions.filter((t) => t.date >= from && t.date <= to);
+}
+
+// ============================================================================
+// CHART SERIES
+// ============================================================================
+
+/**
+ * Builds the income vs expense series for a range.
+ * Week is bucketed by day, Month and Year by calendar month.
+ */
+export function buildTrend(
+  transactions: Transaction[],
+  range: AnalyticsRange,
+  now: Date = new Date()
+): TrendPoint[] {
+  const start = getRangeStart(range, now);
+
+  if (range === "Week") {
+    return eachDayOfInterval({ start, end: now }).map((day) => {
+      const key = toDateKey(day);
+      const totals = sumTotals(transactions.filter((t) => t.date === key));
+      return { name: format(day, "EEE"), ...totals };
+    });
+  }
+
+  return eachMonthOfInterval({ start, end: now }).map((month) => {
+    const key = format(month, "yyyy-MM");
+    const totals = sumTotals(transactions.filter((t) => t.date.startsWith(key)));
+    return { name: format(month, "MMM"), ...totals };
+  });
+}
+
+/**
+ * Groups expenses by category, largest first
+ */
+export function buildCategoryBreakdown(transactions: Transaction[]): CategoryTotal[] {
+  const byCategory = new Map<string, number>();
+  for (const t of transactions) {
+    if (t.type !== "expense") continue;
+    byCategory.set(t.category, (byCategory.get(t.category) ?? 0) + t.amount);
+  }
+
+  const total = [...byCategory.values()].reduce((sum, amount) => sum + amount, 0);
+  return [...byCategory.entries()]
+    .map(([name, amount]) => ({
+      name,
+      amount,
+      percentage: total > 0 ? Math.round((amount / total) * 100) : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
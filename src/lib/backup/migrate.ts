@@ -0,0 +1,70 @@
+/**
+ * ============================================================================
+ * BACKUP MIGRATION
+ * ============================================================================
+ *
+ * Brings a snapshot from an older schema version up to the current one by
+ * running it through the same migrations a device goes through: the
+ * records are loaded into a temporary database at the snapshot's version,
+ * the database is reopened at the current version (which runs every newer
+ * migration), and the upgraded records are read back.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { openDatabase, requestToPromise, transactionDone } from "@/lib/db/database";
+import { MIGRATIONS, SCHEMA_VERSION } from "@/lib/db/migrations";
+import { DB_NAME, type StoreName } from "@/lib/db/schema";
+import type { BackupSnapshot, BackupStores } from "@/types/Backup";
+import { BackupError } from "./crypto";
+
+/**
+ * Upgrades a snapshot to the current schema version
+ *
+ * @param snapshot - Decrypted backup
+ * @returns The snapshot itself when already current, otherwise an upgraded copy
+ * @throws BackupError when the backup comes from a newer version of the app
+ */
+export async function migrateSnapshot(snapshot: BackupSnapshot): Promise<BackupSnapshot> {
+  if (snapshot.schemaVersion === SCHEMA_VERSION) return snapshot;
+  if (snapshot.schemaVersion > SCHEMA_VERSION) {
+    throw new BackupError("invalid_file", "This backup was made by a newer version of FinGuide. Update the app first.");
+  }
+
+  const name = `${DB_NAME}-restore-${crypto.randomUUID()}`;
+  // Open connections block deleteDatabase, so every path closes them first
+  let old: IDBDatabase | undefined;
+  let current: IDBDatabase | undefined;
+  try {
+    // Recreate the old schema; its seed data is replaced by the backup's records
+    old = await openDatabase(name, MIGRATIONS.filter((m) => m.version <= snapshot.schemaVersion));
+    const oldStores = [...old.objectStoreNames] as StoreName[];
+    const write = old.transaction(oldStores, "readwrite");
+    for (const store of oldStores) {
+      const objectStore = write.objectStore(store);
+      objectStore.clear();
+      (snapshot.stores[store] ?? []).forEach((record) => objectStore.put(record));
+    }
+    await transactionDone(write);
+    old.close();
+
+    // Reopening at the current version runs every newer migration
+    current = await openDatabase(name);
+    const stores = [...current.objectStoreNames] as StoreName[];
+    const read = current.transaction(stores, "readonly");
+    const records = await Promise.all(stores.map((store) => requestToPromise(read.objectStore(store).getAll())));
+    current.close();
+
+    return {
+      ...snapshot,
+      schemaVersion: SCHEMA_VERSION,
+      stores: Object.fromEntries(stores.map((store, i) => [store, records[i]])) as BackupStores,
+    };
+  } finally {
+    old?.close();
+    current?.close();
+    await requestToPromise(indexedDB.deleteDatabase(name)).catch(() => undefined);
+  }
+}
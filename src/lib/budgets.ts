@@ -0,0 +1,52 @@
+/**
+ * ============================================================================
+ * BUDGET SPENDING
+ * ============================================================================
+ *
+ * Works out how much of each budget has been used from the ledger. Budgets
+ * only store their limit; the spent figure is always recomputed so every
+ * screen that shows a budget reports the same number.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { endOfMonth, startOfMonth } from "date-fns";
+import { filterByDate } from "@/lib/analytics";
+import { categoryKey, rollUpCategories } from "@/lib/categories";
+import { expandSplits } from "@/lib/splits";
+import type { Budget, BudgetRecord } from "@/types/Budget";
+import type { Category } from "@/types/Category";
+import type { Transaction } from "@/types/Transaction";
+
+/**
+ * Attaches this month's spending to each budget
+ *
+ * @param budgets - Budgets as stored
+ * @param transactions - The user's full ledger; each split line counts
+ *                       towards its own category
+ * @param catalog - Category catalog; subcategory spending counts towards
+ *                  the parent's budget
+ * @param now - Reference date inside the budget month (defaults to today)
+ * @returns Budgets with `spent` filled in, in the same order
+ */
+export function withSpending(
+  budgets: BudgetRecord[],
+  transactions: Transaction[],
+  catalog: Category[] = [],
+  now: Date = new Date()
+): Budget[] {
+  const month = filterByDate(transactions, startOfMonth(now), endOfMonth(now));
+  const spentByCategory = new Map<string, number>();
+  for (const t of rollUpCategories(expandSplits(month), catalog)) {
+    if (t.type !== "expense") continue;
+    const key = categoryKey(t.category);
+    spentByCategory.set(key, (spentByCategory.get(key) ?? 0) + t.amount);
+  }
+
+  return budgets.map((budget) => ({
+    ...budget,
+    spent: spentByCategory.get(categoryKey(budget.category)) ?? 0,
+  }));
+}
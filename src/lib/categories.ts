@@ -0,0 +1,165 @@
+/**
+ * ============================================================================
+ * CATEGORY CATALOG
+ * ============================================================================
+ *
+ * Built-in categories seeded into the catalog on first launch, the color
+ * palette categories are drawn in, and lookup helpers shared by every
+ * screen that shows a category.
+ *
+ * Transactions and budgets store the category name. A name resolves to a
+ * catalog entry of the matching type; subcategories roll up to their
+ * parent for budgets and charts.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Category, CategoryColor } from "@/types/Category";
+import type { Transaction, TransactionType } from "@/types/Transaction";
+
+// ============================================================================
+// COLOR PALETTE
+// ============================================================================
+
+/**
+ * Class names and chart color for a palette entry
+ * Class names are written out in full so Tailwind keeps them in the build
+ */
+export interface CategoryColorStyle {
+  label: string;     // Name shown in color pickers
+  bar: string;       // Solid background (progress bars, swatches)
+  iconBg: string;    // Tinted background behind the emoji
+  text: string;      // Text color
+  chart: string;     // HSL color for Recharts segments
+}
+
+export const CATEGORY_COLORS: Record<CategoryColor, CategoryColorStyle> = {
+  warning: { label: "Orange", bar: "bg-warning", iconBg: "bg-warning/10", text: "text-warning", chart: "hsl(38, 92%, 50%)" },
+  info: { label: "Blue", bar: "bg-info", iconBg: "bg-info/10", text: "text-info", chart: "hsl(199, 89%, 48%)" },
+  emerald: { label: "Emerald", bar: "bg-emerald", iconBg: "bg-emerald/10", text: "text-emerald", chart: "hsl(160, 84%, 39%)" },
+  "purple-accent": { label: "Purple", bar: "bg-purple-accent", iconBg: "bg-purple-accent/10", text: "text-purple-accent", chart: "hsl(260, 60%, 55%)" },
+  destructive: { label: "Red", bar: "bg-destructive", iconBg: "bg-destructive/10", text: "text-destructive", chart: "hsl(0, 72%, 51%)" },
+  teal: { label: "Teal", bar: "bg-teal", iconBg: "bg-teal/10", text: "text-teal", chart: "hsl(173, 80%, 40%)" },
+  muted: { label: "Gray", bar: "bg-muted-foreground", iconBg: "bg-muted", text: "text-muted-foreground", chart: "hsl(220, 15%, 55%)" },
+};
+
+/**
+ * Emoji offered when creating or editing a category
+ */
+export const CATEGORY_EMOJI = [
+  "🍔", "🚗", "🛍️", "🎬", "🏠", "💊", "📚", "📦", "💡", "🎮", "✈️", "💪",
+  "🎵", "☕", "🛒", "⛽", "📱", "🐾", "💰", "💻", "📈", "🎁", "↩️", "🏦",
+];
+
+// ============================================================================
+// BUILT-IN CATEGORIES
+// ============================================================================
+
+/**
+ * Categories created on first launch, in display order
+ */
+export const DEFAULT_CATEGORIES: Category[] = (
+  [
+    // Expense categories - common spending areas
+    ["expense", "Food & Dining", "🍔", "warning"],
+    ["expense", "Transport", "🚗", "info"],
+    ["expense", "Shopping", "🛍️", "emerald"],
+    ["expense", "Entertainment", "🎬", "destructive"],
+    ["expense", "Housing", "🏠", "purple-accent"],
+    ["expense", "Healthcare", "💊", "destructive"],
+    ["expense", "Education", "📚", "info"],
+    ["expense", "Others", "📦", "muted"],
+    // Income categories - common income sources
+    ["income", "Salary", "💰", "emerald"],
+    ["income", "Freelance", "💻", "emerald"],
+    ["income", "Investment", "📈", "emerald"],
+    ["income", "Gift", "🎁", "purple-accent"],
+    ["income", "Refund", "↩️", "info"],
+    ["income", "Others", "📦", "muted"],
+  ] as const
+).map(([type, name, emoji, color], index) => ({
+  id: `default-${String(index + 1).padStart(2, "0")}`,
+  name,
+  type,
+  emoji,
+  color,
+  archived: false,
+  createdAt: "2026-01-01T00:00:00.000Z",
+}));
+
+/**
+ * Every distinct built-in category name across both types
+ */
+export const allCategoryNames = (): string[] =>
+  [...new Set(DEFAULT_CATEGORIES.map((c) => c.name))];
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Normalizes a category name for matching ("Food & Dining " == "food & dining")
+ */
+export const categoryKey = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Finds the catalog entry for a category name
+ *
+ * @param catalog - All categories, archived included
+ * @param name - Name stored on a transaction or budget
+ * @param type - Narrows the match when the same name exists for both types
+ */
+export function findCategory(
+  catalog: Category[],
+  name: string,
+  type?: TransactionType
+): Category | undefined {
+  const key = categoryKey(name);
+  const matches = catalog.filter((c) => categoryKey(c.name) === key);
+  return matches.find((c) => !type || c.type === type) ?? matches[0];
+}
+
+/**
+ * Name of the top-level category a name rolls up to
+ * (the parent for subcategories, the name itself otherwise)
+ */
+export function topLevelName(catalog: Category[], name: string, type?: TransactionType): string {
+  const category = findCategory(catalog, name, type);
+  const parent = category?.parentId && catalog.find((c) => c.id === category.parentId);
+  return parent ? parent.name : category?.name ?? name;
+}
+
+/**
+ * Rewrites each transaction's category to its top-level category, so
+ * subcategory spending counts towards the parent in totals and charts
+ */
+export function rollUpCategories(transactions: Transaction[], catalog: Category[]): Transaction[] {
+  if (!catalog.some((c) => c.parentId)) return transactions;
+  return transactions.map((t) => ({ ...t, category: topLevelName(catalog, t.category, t.type) }));
+}
+
+/**
+ * Active top-level categories of a type, each with its active children
+ */
+export function categoryTree(
+  catalog: Category[],
+  type: TransactionType
+): { category: Category; children: Category[] }[] {
+  const active = catalog.filter((c) => c.type === type && !c.archived);
+  return active
+    .filter((c) => !c.parentId)
+    .map((category) => ({
+      category,
+      children: active.filter((c) => c.parentId === category.id),
+    }));
+}
+
+/**
+ * Palette entry for a category name, falling back to gray
+ */
+export function categoryColor(catalog: Category[], name: string, type?: TransactionType): CategoryColorStyle {
+  const category = findCategory(catalog, name, type);
+  return CATEGORY_COLORS[category?.color ?? "muted"] ?? CATEGORY_COLORS.muted;
+}
@@ -0,0 +1,263 @@
+/**
+ * ============================================================================
+ * CATEGORY SUGGESTIONS
+ * ============================================================================
+ *
+ * A small naive Bayes classifier that learns the user's own categorization
+ * habits. It runs entirely on the device: the model is trained from the
+ * ledger the app already holds and never leaves it.
+ *
+ * - Features are the words in the title and note plus an amount bucket
+ *   (e.g., "swiggy", "dinner", "amount:100-500")
+ * - Each income/expense category is a class; word likelihoods use Laplace
+ *   smoothing and each word counts once per transaction
+ * - The model is updated in place: syncing with the ledger only trains new
+ *   entries, untrains deleted ones and re-trains edited ones, so every
+ *   correction is reflected in the next suggestion
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { categoryKey } from "@/lib/categories";
+import type { Transaction, TransactionType } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Word counts learned for one category
+ */
+interface ClassStats {
+  name: string;                          // Category name as last seen
+  type: TransactionType;
+  documents: number;                     // Transactions filed under it
+  tokens: number;                        // Total feature occurrences
+  counts: Map<string, number>;           // Occurrences per feature
+}
+
+/**
+ * What the model remembers about a trained transaction, so it can be
+ * untrained when the transaction changes or is deleted
+ */
+interface LearnedEntry {
+  signature: string;    // Fields the features were built from
+  classKey: string;     // Class it was counted under
+  features: string[];
+}
+
+/**
+ * A trained categorizer; mutate it only through the functions below
+ */
+export interface CategoryModel {
+  classes: Map<string, ClassStats>;
+  vocabulary: Map<string, number>;       // Feature -> number of classes using it
+  learned: Map<string, LearnedEntry>;    // Transaction id -> what was learned
+}
+
+/**
+ * Text and amount a suggestion is based on
+ */
+export interface SuggestionInput {
+  title: string;
+  note?: string;
+  amount?: number;
+}
+
+/**
+ * A suggested category with the model's confidence in it
+ */
+export interface CategorySuggestion {
+  category: string;      // Category name
+  probability: number;   // Posterior probability among the type's categories (0-1)
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Suggestions at least this likely are pre-selected; below it the top
+ * three are offered instead
+ */
+export const CONFIDENT_PROBABILITY = 0.6;
+
+/**
+ * Upper bounds of the amount buckets used as a feature, in the
+ * transaction's own currency
+ */
+const AMOUNT_BUCKETS = [100, 500, 1000, 5000, 10000, 50000];
+
+// ============================================================================
+// FEATURES
+// ============================================================================
+
+/**
+ * Feature naming the amount range (e.g., "amount:100-500")
+ */
+const amountFeature = (amount: number): string => {
+  const index = AMOUNT_BUCKETS.findIndex((limit) => amount < limit);
+  if (index === -1) return `amount:${AMOUNT_BUCKETS[AMOUNT_BUCKETS.length - 1]}+`;
+  return `amount:${index === 0 ? 0 : AMOUNT_BUCKETS[index - 1]}-${AMOUNT_BUCKETS[index]}`;
+};
+
+/**
+ * Extracts the distinct features of a transaction. Bare numbers (order
+ * ids, dates) and single characters are ignored.
+ */
+export function featuresOf({ title, note, amount }: SuggestionInput): string[] {
+  const words = `${title} ${note ?? ""}`
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !/^\d+$/.test(word));
+  const features = new Set(words);
+  if (amount && amount > 0) features.add(amountFeature(amount));
+  return [...features];
+}
+
+// ============================================================================
+// TRAINING
+// ============================================================================
+
+/**
+ * Creates an empty model
+ */
+export const createModel = (): CategoryModel => ({
+  classes: new Map(),
+  vocabulary: new Map(),
+  learned: new Map(),
+});
+
+const classKeyOf = (type: TransactionType, category: string) => `${type}:${categoryKey(category)}`;
+
+/**
+ * Fields whose change requires re-training a transaction
+ */
+const signatureOf = (t: Transaction) => JSON.stringify([t.type, t.category, t.title, t.note ?? "", t.amount]);
+
+/**
+ * Adds or removes one transaction's features from its class
+ */
+function count(model: CategoryModel, classKey: string, features: string[], delta: 1 | -1, t?: Transaction) {
+  let stats = model.classes.get(classKey);
+  if (!stats) {
+    if (delta < 0 || !t) return;
+    stats = { name: t.category, type: t.type, documents: 0, tokens: 0, counts: new Map() };
+    model.classes.set(classKey, stats);
+  }
+  if (t) stats.name = t.category;
+
+  stats.documents += delta;
+  for (const feature of features) {
+    const next = (stats.counts.get(feature) ?? 0) + delta;
+    stats.tokens += delta;
+    if (next > 0) {
+      if (next === 1 && delta > 0) model.vocabulary.set(feature, (model.vocabulary.get(feature) ?? 0) + 1);
+      stats.counts.set(feature, next);
+    } else {
+      stats.counts.delete(feature);
+      const users = (model.vocabulary.get(feature) ?? 1) - 1;
+      if (users > 0) model.vocabulary.set(feature, users);
+      else model.vocabulary.delete(feature);
+    }
+  }
+  if (stats.documents <= 0) model.classes.delete(classKey);
+}
+
+/**
+ * Learns from one transaction, replacing what was learned from an
+ * earlier version of it
+ */
+export function train(model: CategoryModel, t: Transaction): void {
+  untrain(model, t.id);
+  const entry: LearnedEntry = {
+    signature: signatureOf(t),
+    classKey: classKeyOf(t.type, t.category),
+    features: featuresOf(t),
+  };
+  count(model, entry.classKey, entry.features, 1, t);
+  model.learned.set(t.id, entry);
+}
+
+/**
+ * Forgets a previously learned transaction
+ */
+export function untrain(model: CategoryModel, id: string): void {
+  const entry = model.learned.get(id);
+  if (!entry) return;
+  count(model, entry.classKey, entry.features, -1);
+  model.learned.delete(id);
+}
+
+/**
+ * Brings the model in line with the ledger, touching only transactions
+ * that were added, edited or deleted since the last sync. Transfers have
+ * no category to learn and are left out.
+ *
+ * @returns Number of transactions trained or untrained
+ */
+export function syncModel(model: CategoryModel, transactions: Transaction[]): number {
+  let changes = 0;
+  const seen = new Set<string>();
+
+  for (const t of transactions) {
+    if (t.type === "transfer") continue;
+    seen.add(t.id);
+    if (model.learned.get(t.id)?.signature === signatureOf(t)) continue;
+    train(model, t);
+    changes++;
+  }
+  for (const id of [...model.learned.keys()]) {
+    if (seen.has(id)) continue;
+    untrain(model, id);
+    changes++;
+  }
+  return changes;
+}
+
+// ============================================================================
+// PREDICTION
+// ============================================================================
+
+/**
+ * Ranks the categories of a type for a new transaction
+ *
+ * @param model - Trained model
+ * @param input - Title, note and amount typed so far
+ * @param type - Income or expense; only its categories are ranked
+ * @param limit - Number of suggestions to return
+ * @returns Suggestions, most likely first; empty when the input has no
+ *          words or the model knows no category of the type
+ */
+export function suggestCategories(
+  model: CategoryModel,
+  input: SuggestionInput,
+  type: TransactionType,
+  limit = 3
+): CategorySuggestion[] {
+  const features = featuresOf(input);
+  if (!features.some((f) => !f.startsWith("amount:"))) return [];
+
+  const candidates = [...model.classes.values()].filter((c) => c.type === type);
+  const documents = candidates.reduce((sum, c) => sum + c.documents, 0);
+  if (documents === 0) return [];
+
+  const vocabularySize = model.vocabulary.size + 1;
+  const scores = candidates.map((stats) => {
+    let score = Math.log(stats.documents / documents);
+    for (const feature of features) {
+      score += Math.log(((stats.counts.get(feature) ?? 0) + 1) / (stats.tokens + vocabularySize));
+    }
+    return { category: stats.name, score };
+  });
+
+  // Normalize with log-sum-exp to turn scores into probabilities
+  const max = Math.max(...scores.map((s) => s.score));
+  const total = scores.reduce((sum, s) => sum + Math.exp(s.score - max), 0);
+  return scores
+    .map(({ category, score }) => ({ category, probability: Math.exp(score - max) / total }))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, limit);
+}
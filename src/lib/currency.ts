@@ -0,0 +1,150 @@
+/**
+ * ============================================================================
+ * CURRENCY CONVERSION
+ * ============================================================================
+ *
+ * Every transaction and account carries its own currency; anything recorded
+ * before currencies existed is in INR. Totals, budgets and charts are worked
+ * out in the user's base currency by converting each amount at the rate in
+ * the user's exchange-rate table for the day it happened.
+ *
+ * Rate lookup for a pair on a date:
+ * - the latest rate dated on or before that day, otherwise the earliest one
+ * - a rate entered the other way round is used inverted
+ * - with no rate for the pair, a path through one other currency is tried
+ * - with no rate at all the amount is taken 1:1, and the currency is reported
+ *   as missing a rate so the user can add one
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { CurrencyContext, ExchangeRate } from "@/types/Currency";
+import type { Transaction } from "@/types/Transaction";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Currency of records without one, and the base currency until changed
+ */
+export const DEFAULT_CURRENCY = "INR";
+
+/**
+ * Context used when nothing is known about currencies: every amount is
+ * taken as already being in INR
+ */
+export const DEFAULT_CURRENCY_CONTEXT: CurrencyContext = { base: DEFAULT_CURRENCY, rates: [] };
+
+/**
+ * Currencies offered in pickers, in display order
+ */
+export const CURRENCIES: { code: string; name: string }[] = [
+  { code: "INR", name: "Indian Rupee" },
+  { code: "USD", name: "US Dollar" },
+  { code: "EUR", name: "Euro" },
+  { code: "GBP", name: "British Pound" },
+  { code: "AED", name: "UAE Dirham" },
+  { code: "SGD", name: "Singapore Dollar" },
+  { code: "AUD", name: "Australian Dollar" },
+  { code: "CAD", name: "Canadian Dollar" },
+  { code: "JPY", name: "Japanese Yen" },
+  { code: "CHF", name: "Swiss Franc" },
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Currency a transaction or account is recorded in
+ */
+export const currencyOf = (record: { currency?: string }): string => record.currency ?? DEFAULT_CURRENCY;
+
+/**
+ * Rounds to the nearest hundredth
+ */
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Rate between two currencies entered directly, either way round
+ */
+function directRate(from: string, to: string, date: string, rates: ExchangeRate[]): number | undefined {
+  const quotes = rates
+    .flatMap((r) => {
+      if (r.from === from && r.to === to) return [{ date: r.date, rate: r.rate }];
+      if (r.from === to && r.to === from) return [{ date: r.date, rate: 1 / r.rate }];
+      return [];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (quotes.length === 0) return undefined;
+
+  const applicable = quotes.filter((q) => q.date <= date);
+  return (applicable.length > 0 ? applicable[applicable.length - 1] : quotes[0]).rate;
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Units of `to` per unit of `from` on a date
+ *
+ * @param date - Day the amount applies to (YYYY-MM-DD)
+ * @returns The rate, or undefined when the table cannot link the two
+ */
+export function findRate(from: string, to: string, date: string, rates: ExchangeRate[]): number | undefined {
+  if (from === to) return 1;
+  const direct = directRate(from, to, date, rates);
+  if (direct !== undefined) return direct;
+
+  const pivots = new Set(rates.flatMap((r) => [r.from, r.to]));
+  for (const pivot of pivots) {
+    if (pivot === from || pivot === to) continue;
+    const first = directRate(from, pivot, date, rates);
+    const second = first === undefined ? undefined : directRate(pivot, to, date, rates);
+    if (second !== undefined) return first * second;
+  }
+  return undefined;
+}
+
+/**
+ * Converts an amount between currencies at the rate for a date, 1:1 when
+ * no rate is known
+ */
+export function convertAmount(amount: number, from: string, to: string, date: string, rates: ExchangeRate[]): number {
+  if (from === to) return amount;
+  return roundCents(amount * (findRate(from, to, date, rates) ?? 1));
+}
+
+/**
+ * Copies of the transactions with amounts (and split amounts) in the base
+ * currency. The stored records keep their original amount and currency.
+ */
+export function toBase(transactions: Transaction[], { base, rates }: CurrencyContext): Transaction[] {
+  return transactions.map((t) => {
+    const from = currencyOf(t);
+    if (from === base) return t;
+    const convert = (amount: number) => convertAmount(amount, from, base, t.date, rates);
+    return {
+      ...t,
+      amount: convert(t.amount),
+      currency: base,
+      splits: t.splits?.map((line) => ({ ...line, amount: convert(line.amount) })),
+    };
+  });
+}
+
+/**
+ * Currencies in use that cannot be converted to the base currency
+ *
+ * @param records - Transactions and accounts to check
+ * @returns Currency codes, alphabetically
+ */
+export function missingRates(records: { currency?: string }[], { base, rates }: CurrencyContext): string[] {
+  const used = new Set(records.map(currencyOf));
+  const today = new Date().toISOString().slice(0, 10);
+  return [...used].filter((code) => findRate(code, base, today, rates) === undefined).sort();
+}
@@ -0,0 +1,94 @@
+/**
+ * ============================================================================
+ * DATABASE CONNECTION
+ * ============================================================================
+ *
+ * Opens the on-device IndexedDB database, running any pending schema
+ * migrations first, and provides small promise helpers for IDB requests.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { DB_NAME } from "./schema";
+import { MIGRATIONS, Migration, runMigrations } from "./migrations";
+
+// ============================================================================
+// REQUEST HELPERS
+// ============================================================================
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once a transaction has committed
+ */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+}
+
+// ============================================================================
+// CONNECTION
+// ============================================================================
+
+/**
+ * Opens (and if needed upgrades) a database
+ *
+ * @param name - Database name
+ * @param migrations - Ordered migration list; the last entry sets the version
+ * @returns The open database connection
+ */
+export function openDatabase(
+  name: string = DB_NAME,
+  migrations: Migration[] = MIGRATIONS
+): Promise<IDBDatabase> {
+  const version = migrations[migrations.length - 1].version;
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+
+    request.onupgradeneeded = (event) => {
+      runMigrations(request.result, request.transaction!, event.oldVersion, migrations);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer build in another tab upgrade the schema
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error("Database upgrade blocked - close other FinGuide tabs and reload"));
+  });
+}
+
+/**
+ * Shared connection used by the app, opened on first use
+ */
+let connection: Promise<IDBDatabase> | null = null;
+
+/**
+ * Returns the app's database connection, opening it on first call
+ */
+export function getDatabase(): Promise<IDBDatabase> {
+  if (!connection) {
+    connection = openDatabase().catch((error) => {
+      // Allow a later call to retry after a failed open
+      connection = null;
+      throw error;
+    });
+  }
+  return connection;
+}
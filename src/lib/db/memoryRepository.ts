@@ -0,0 +1,57 @@
+/**
+ * ============================================================================
+ * IN-MEMORY REPOSITORIES
+ * ============================================================================
+ *
+ * Map-backed implementation of the repository interface for environments
+ * without IndexedDB (the Node REST server, integration tests). Records are
+ * copied on the way in and out, matching IndexedDB's structured-clone
+ * semantics so callers cannot mutate stored data by accident.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Repository } from "./repository";
+
+/**
+ * Creates a repository that keeps its records in memory
+ *
+ * @param keyOf - Extracts the primary key from a record
+ * @param initial - Records to start with
+ */
+export function createMemoryRepository<T>(
+  keyOf: (record: T) => string,
+  initial: T[] = []
+): Repository<T> {
+  const records = new Map<string, T>(initial.map((r) => [keyOf(r), structuredClone(r)]));
+
+  return {
+    async getAll() {
+      return [...records.values()].map((r) => structuredClone(r));
+    },
+
+    async get(key) {
+      const record = records.get(key);
+      return record === undefined ? undefined : structuredClone(record);
+    },
+
+    async put(record) {
+      records.set(keyOf(record), structuredClone(record));
+      return record;
+    },
+
+    async putMany(list) {
+      list.forEach((record) => records.set(keyOf(record), structuredClone(record)));
+    },
+
+    async delete(key) {
+      records.delete(key);
+    },
+
+    async clear() {
+      records.clear();
+    },
+  };
+}
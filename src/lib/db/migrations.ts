@@ -0,0 +1,255 @@
+/**
+ * ============================================================================
+ * SCHEMA MIGRATIONS
+ * ============================================================================
+ *
+ * Numbered, append-only list of schema changes for the on-device database.
+ * Each migration runs exactly once per device, in order, when the database
+ * is opened with a higher version than the one stored in the browser.
+ *
+ * Rules for adding a migration:
+ * - Never edit or reorder an existing entry; append a new one instead
+ * - Use `upgrade` for structural changes (stores, indexes, seed data)
+ * - Use `transform` to rewrite existing records when a type changes;
+ *   return null from a transform to drop the record
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { StoreName } from "./schema";
+import { CATEGORY_COLORS, DEFAULT_CATEGORIES, categoryKey } from "@/lib/categories";
+import type { Category, CategoryColor } from "@/types/Category";
+import type { Goal } from "@/types/Goal";
+import type { Transaction } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Rewrites a single stored record into the shape expected by a migration.
+ * Records are read as they were stored, so each transform checks the
+ * fields it relies on.
+ */
+export type RecordTransform = (record: Record<string, unknown>) => unknown | null;
+
+/**
+ * A transaction as stored when version 3 ran: always income or expense
+ */
+type V3Transaction = Pick<Transaction, "category"> & Pick<Category, "type">;
+
+/**
+ * A single schema version step
+ */
+export interface Migration {
+  version: number;                                           // Schema version this step produces
+  description: string;                                       // Human readable summary
+  upgrade?: (db: IDBDatabase, tx: IDBTransaction) => void;   // Structural changes and seeding
+  transform?: Partial<Record<StoreName, RecordTransform>>;   // Per-store record rewrites
+}
+
+// ============================================================================
+// SEED DATA
+// ============================================================================
+
+/**
+ * Budget categories created on first launch (in their version 1 shape)
+ */
+const SEED_BUDGETS = [
+  { id: "1", category: "Food & Dining", emoji: "🍔", spent: 12500, limit: 15000, color: "bg-warning" },
+  { id: "2", category: "Transport", emoji: "🚗", spent: 5500, limit: 6000, color: "bg-info" },
+  { id: "3", category: "Shopping", emoji: "🛍️", spent: 8000, limit: 12000, color: "bg-purple-accent" },
+  { id: "4", category: "Entertainment", emoji: "🎬", spent: 4500, limit: 4000, color: "bg-destructive" },
+  { id: "5", category: "Healthcare", emoji: "💊", spent: 2000, limit: 5000, color: "bg-emerald" },
+];
+
+/**
+ * Savings goals created on first launch
+ */
+const SEED_GOALS: Goal[] = [
+  { id: "1", title: "Emergency Fund", emoji: "🏦", saved: 150000, target: 300000, deadline: "Dec 2026" },
+  { id: "2", title: "New Laptop", emoji: "💻", saved: 45000, target: 80000, deadline: "Jun 2026" },
+  { id: "3", title: "Vacation Trip", emoji: "✈️", saved: 25000, target: 100000, deadline: "Oct 2026" },
+];
+
+/**
+ * localStorage key used by the ledger before IndexedDB was introduced
+ */
+const LEGACY_LEDGER_KEY = "finguide.transactions.v1";
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create core stores, seed budgets and goals, import the localStorage ledger",
+    upgrade: (db, tx) => {
+      const transactions = db.createObjectStore("transactions", { keyPath: "id" });
+      transactions.createIndex("date", "date");
+      db.createObjectStore("budgets", { keyPath: "id" });
+      db.createObjectStore("goals", { keyPath: "id" });
+      db.createObjectStore("accounts", { keyPath: "id" });
+      db.createObjectStore("settings", { keyPath: "key" });
+
+      SEED_BUDGETS.forEach((budget) => tx.objectStore("budgets").put(budget));
+      SEED_GOALS.forEach((goal) => tx.objectStore("goals").put(goal));
+
+      // Carry over entries recorded while the ledger lived in localStorage
+      const legacy = localStorage.getItem(LEGACY_LEDGER_KEY);
+      if (legacy) {
+        try {
+          const entries: Transaction[] = JSON.parse(legacy);
+          entries.forEach((entry) => transactions.put(entry));
+        } catch {
+          // Corrupt legacy data is ignored rather than blocking the upgrade
+        }
+        tx.addEventListener("complete", () => localStorage.removeItem(LEGACY_LEDGER_KEY));
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Stop storing budget.spent; it is computed from transactions",
+    transform: {
+      budgets: ({ spent, ...budget }) => budget,
+    },
+  },
+  {
+    version: 3,
+    description: "Add the category catalog; budgets take emoji and color from it",
+    upgrade: (db, tx) => {
+      const store = db.createObjectStore("categories", { keyPath: "id" });
+      DEFAULT_CATEGORIES.forEach((category) => store.put(category));
+
+      // Add catalog entries for names already in use. getAll is queued before
+      // the budget transform's cursor, so it still sees budget emoji/colors.
+      const known = new Set(DEFAULT_CATEGORIES.map((c) => `${c.type}:${categoryKey(c.name)}`));
+      const addMissing = (entry: Pick<Category, "name" | "type"> & Partial<Category>) => {
+        const key = `${entry.type}:${categoryKey(entry.name)}`;
+        if (!entry.name.trim() || known.has(key)) return;
+        known.add(key);
+        store.put({
+          emoji: "📦",
+          color: "muted",
+          ...entry,
+          id: crypto.randomUUID(),
+          archived: false,
+          createdAt: new Date().toISOString(),
+        });
+      };
+
+      const budgets = tx.objectStore("budgets").getAll();
+      budgets.onsuccess = () => {
+        for (const budget of budgets.result) {
+          const color = String(budget.color ?? "").replace(/^bg-/, "") as CategoryColor;
+          addMissing({
+            name: budget.category,
+            type: "expense",
+            emoji: budget.emoji,
+            color: color in CATEGORY_COLORS ? color : "muted",
+          });
+        }
+      };
+
+      const transactions = tx.objectStore("transactions").getAll();
+      transactions.onsuccess = () => {
+        for (const t of transactions.result as V3Transaction[]) addMissing({ name: t.category, type: t.type });
+      };
+    },
+    transform: {
+      budgets: ({ emoji, color, ...budget }) => budget,
+    },
+  },
+  {
+    version: 4,
+    description: "Add auto-categorization rules",
+    upgrade: (db) => {
+      db.createObjectStore("rules", { keyPath: "id" });
+    },
+  },
+  {
+    version: 5,
+    description: "Add saved CSV import profiles",
+    upgrade: (db) => {
+      db.createObjectStore("bankProfiles", { keyPath: "id" });
+    },
+  },
+  {
+    version: 6,
+    description: "Add recurring transaction templates",
+    upgrade: (db) => {
+      db.createObjectStore("recurring", { keyPath: "id" });
+    },
+  },
+  {
+    version: 7,
+    description: "Add the exchange-rate table",
+    upgrade: (db) => {
+      db.createObjectStore("exchangeRates", { keyPath: "id" });
+    },
+  },
+];
+
+/**
+ * Latest schema version known to this build
+ */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ============================================================================
+// MIGRATION RUNNER
+// ============================================================================
+
+/**
+ * Applies every migration newer than `fromVersion` inside an upgrade
+ * transaction. Structural steps run first, in order; record transforms are
+ * then applied in a single cursor pass per store so that each record goes
+ * through every pending transform in version order.
+ *
+ * @param db - The database being upgraded
+ * @param tx - The versionchange transaction from `onupgradeneeded`
+ * @param fromVersion - Version stored on the device (0 for a new database)
+ * @param migrations - Migration list to apply (defaults to the app's list)
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  fromVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): void {
+  const pending = migrations
+    .filter((m) => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  pending.forEach((migration) => migration.upgrade?.(db, tx));
+
+  const transformsByStore = new Map<StoreName, RecordTransform[]>();
+  for (const migration of pending) {
+    for (const [store, transform] of Object.entries(migration.transform ?? {})) {
+      const list = transformsByStore.get(store as StoreName) ?? [];
+      list.push(transform);
+      transformsByStore.set(store as StoreName, list);
+    }
+  }
+
+  transformsByStore.forEach((transforms, store) => {
+    const request = tx.objectStore(store).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      let record: unknown = cursor.value;
+      for (const transform of transforms) {
+        record = transform(record as Record<string, unknown>);
+        if (record === null) break;
+      }
+
+      if (record === null) cursor.delete();
+      else cursor.update(record);
+      cursor.continue();
+    };
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * ============================================================================
+ * REPOSITORIES
+ * ============================================================================
+ *
+ * Typed read/write access to a single object store. Every entity kind
+ * (transactions, budgets, goals, accounts, settings, categories) goes through one of
+ * these so that callers never touch raw IndexedDB APIs.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { getDatabase, requestToPromise, transactionDone } from "./database";
+import type { StoreName, StoreRecords } from "./schema";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Basic CRUD operations over one object store
+ */
+export interface Repository<T> {
+  getAll(): Promise<T[]>;                   // All records in the store
+  get(key: string): Promise<T | undefined>; // Single record by primary key
+  put(record: T): Promise<T>;               // Insert or replace a record
+  putMany(records: T[]): Promise<void>;     // Insert or replace in one transaction
+  delete(key: string): Promise<void>;       // Remove a record
+  clear(): Promise<void>;                   // Remove every record
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Creates a repository for an object store
+ *
+ * @param store - The object store to wrap
+ * @param db - Connection provider (defaults to the app database)
+ */
+export function createRepository<S extends StoreName>(
+  store: S,
+  db: () => Promise<IDBDatabase> = getDatabase
+): Repository<StoreRecords[S]> {
+  type T = StoreRecords[S];
+
+  /**
+   * Opens a transaction on this repository's store
+   */
+  const open = async (mode: IDBTransactionMode) => {
+    const tx = (await db()).transaction(store, mode);
+    return { tx, objectStore: tx.objectStore(store) };
+  };
+
+  return {
+    async getAll() {
+      const { objectStore } = await open("readonly");
+      return requestToPromise(objectStore.getAll()) as Promise<T[]>;
+    },
+
+    async get(key) {
+      const { objectStore } = await open("readonly");
+      return requestToPromise(objectStore.get(key)) as Promise<T | undefined>;
+    },
+
+    async put(record) {
+      const { tx, objectStore } = await open("readwrite");
+      objectStore.put(record);
+      await transactionDone(tx);
+      return record;
+    },
+
+    async putMany(records) {
+      const { tx, objectStore } = await open("readwrite");
+      records.forEach((record) => objectStore.put(record));
+      await transactionDone(tx);
+    },
+
+    async delete(key) {
+      const { tx, objectStore } = await open("readwrite");
+      objectStore.delete(key);
+      await transactionDone(tx);
+    },
+
+    async clear() {
+      const { tx, objectStore } = await open("readwrite");
+      objectStore.clear();
+      await transactionDone(tx);
+    },
+  };
+}
+
+// ============================================================================
+// APP REPOSITORIES
+// ============================================================================
+
+export const transactionsRepository = createRepository("transactions");
+export const budgetsRepository = createRepository("budgets");
+export const goalsRepository = createRepository("goals");
+export const accountsRepository = createRepository("accounts");
+export const settingsRepository = createRepository("settings");
+export const categoriesRepository = createRepository("categories");
+export const rulesRepository = createRepository("rules");
+export const bankProfilesRepository = createRepository("bankProfiles");
+export const recurringRepository = createRepository("recurring");
+export const exchangeRatesRepository = createRepository("exchangeRates");
@@ -0,0 +1,49 @@
+/**
+ * ============================================================================
+ * DATABASE SCHEMA
+ * ============================================================================
+ *
+ * Names of the IndexedDB database and its object stores, and the mapping
+ * from each store to the record type it holds.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Transaction } from "@/types/Transaction";
+import type { BudgetRecord } from "@/types/Budget";
+import type { Goal } from "@/types/Goal";
+import type { Account } from "@/types/Account";
+import type { Setting } from "@/types/Setting";
+import type { Category } from "@/types/Category";
+import type { Rule } from "@/types/Rule";
+import type { BankProfile } from "@/types/Import";
+import type { RecurringTransaction } from "@/types/Recurring";
+import type { ExchangeRate } from "@/types/Currency";
+
+/**
+ * Name of the IndexedDB database used by the app
+ */
+export const DB_NAME = "finguide";
+
+/**
+ * Record type held by each object store
+ */
+export interface StoreRecords {
+  transactions: Transaction;
+  budgets: BudgetRecord;
+  goals: Goal;
+  accounts: Account;
+  settings: Setting;
+  categories: Category;
+  rules: Rule;
+  bankProfiles: BankProfile;
+  recurring: RecurringTransaction;
+  exchangeRates: ExchangeRate;
+}
+
+/**
+ * Name of an object store
+ */
+export type StoreName = keyof StoreRecords;
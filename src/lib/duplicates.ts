@@ -0,0 +1,176 @@
+/**
+ * ============================================================================
+ * DUPLICATE DETECTION
+ * ============================================================================
+ *
+ * Finds transactions that look like the same payment recorded twice, for
+ * example an expense typed in by hand and later imported from a statement,
+ * or two overlapping statements.
+ *
+ * Two entries are possible duplicates when they:
+ * - have the same type, amount and currency
+ * - are dated at most DUPLICATE_WINDOW_DAYS apart (banks post late)
+ * - have similar descriptions once bank noise (UPI/NEFT prefixes,
+ *   reference numbers, VPAs) is removed
+ *
+ * Entries that both carry a bank id are never flagged: the bank says they
+ * are different, and re-imports are already skipped by id.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { currencyOf } from "@/lib/currency";
+import { FALLBACK_CATEGORY } from "@/lib/rules";
+import type { DuplicatePair } from "@/types/Duplicate";
+import type { Transaction } from "@/types/Transaction";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Largest gap in days between the dates of two duplicates
+ */
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+/**
+ * Share of the shorter description's words the other must contain
+ */
+const MIN_SIMILARITY = 0.5;
+
+/**
+ * Words banks add to narrations that say nothing about the payee
+ */
+const NOISE_WORDS = new Set([
+  "upi", "neft", "imps", "rtgs", "pos", "ach", "nach", "ecs", "atm", "mb", "ib", "ft",
+  "ref", "txn", "trf", "transfer", "payment", "paid", "to", "by", "from", "for", "via",
+  "dr", "cr", "debit", "credit", "card", "purchase", "the", "and", "pvt", "ltd",
+]);
+
+// ============================================================================
+// DESCRIPTIONS
+// ============================================================================
+
+/**
+ * Reduces a description to the words that identify the payee
+ * (e.g., "UPI/123456/SWIGGY@ybl/Swiggy Order" -> ["swiggy", "order"])
+ */
+export function normalizeDescription(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/[\w.-]+@[\w.-]+/g, " ")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !/\d/.test(word) && !NOISE_WORDS.has(word));
+  return [...new Set(words)];
+}
+
+/**
+ * Share of the shorter description's words found in the longer one
+ *
+ * @returns 0 (nothing in common, or no usable words) to 1
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = normalizeDescription(a);
+  const right = new Set(normalizeDescription(b));
+  if (left.length === 0 || right.size === 0) return 0;
+  const shared = left.filter((word) => right.has(word)).length;
+  return shared / Math.min(left.length, right.size);
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Fields compared when looking for duplicates
+ */
+export type DuplicateCandidate = Pick<Transaction, "type" | "title" | "amount" | "date"> &
+  Partial<Pick<Transaction, "id" | "currency" | "externalId" | "notDuplicateOf">>;
+
+/**
+ * Compares two entries
+ *
+ * @returns Similarity and date gap when they look like duplicates, else null
+ */
+function compare(a: DuplicateCandidate, b: DuplicateCandidate): { similarity: number; daysApart: number } | null {
+  if (a.type !== b.type || Math.abs(a.amount - b.amount) >= 0.01 || currencyOf(a) !== currencyOf(b)) return null;
+  if (a.externalId && b.externalId) return null;
+  if ((a.id && b.notDuplicateOf?.includes(a.id)) || (b.id && a.notDuplicateOf?.includes(b.id))) return null;
+
+  const daysApart = Math.abs(differenceInCalendarDays(parseISO(a.date), parseISO(b.date)));
+  if (daysApart > DUPLICATE_WINDOW_DAYS) return null;
+
+  const similarity = descriptionSimilarity(a.title, b.title);
+  return similarity >= MIN_SIMILARITY ? { similarity, daysApart } : null;
+}
+
+/**
+ * Finds ledger entries a new or edited transaction may duplicate
+ *
+ * @param candidate - The entry being saved (its own id is ignored)
+ * @param ledger - Existing transactions
+ * @returns Likely duplicates, closest first
+ */
+export function findDuplicates(candidate: DuplicateCandidate, ledger: Transaction[]): Transaction[] {
+  return ledger
+    .filter((t) => t.id !== candidate.id)
+    .map((t) => ({ t, match: compare(candidate, t) }))
+    .filter(({ match }) => match !== null)
+    .sort((a, b) => b.match.similarity - a.match.similarity || a.match.daysApart - b.match.daysApart)
+    .map(({ t }) => t);
+}
+
+/**
+ * Finds every pair of possible duplicates in the ledger for the review
+ * queue. The entry created first is treated as the original.
+ *
+ * @param transactions - The whole ledger
+ * @returns Pairs, most recent duplicate first
+ */
+export function findDuplicatePairs(transactions: Transaction[]): DuplicatePair[] {
+  // Only entries with the same type, amount and currency can match, so
+  // compare within those groups
+  const groups = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    const key = `${t.type}:${t.amount.toFixed(2)}:${currencyOf(t)}`;
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+
+  const pairs: DuplicatePair[] = [];
+  for (const group of groups.values()) {
+    const ordered = [...group].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    ordered.forEach((original, i) => {
+      for (const duplicate of ordered.slice(i + 1)) {
+        const match = compare(original, duplicate);
+        if (match) pairs.push({ id: `${original.id}:${duplicate.id}`, original, duplicate, ...match });
+      }
+    });
+  }
+  return pairs.sort((a, b) => b.duplicate.createdAt.localeCompare(a.duplicate.createdAt));
+}
+
+// ============================================================================
+// RESOLVING
+// ============================================================================
+
+/**
+ * Folds a duplicate into the original. The original's title, amount, date
+ * and category win; the duplicate fills in a missing note, account, bank id
+ * or a category when the original was left as "Others", and tags are
+ * combined.
+ */
+export function mergeDuplicate(original: Transaction, duplicate: Transaction): Transaction {
+  const tags = [...new Set([...(original.tags ?? []), ...(duplicate.tags ?? [])])];
+  return {
+    ...original,
+    category: original.category === FALLBACK_CATEGORY ? duplicate.category : original.category,
+    note: original.note || duplicate.note,
+    tags: tags.length > 0 ? tags : undefined,
+    accountId: original.accountId ?? duplicate.accountId,
+    externalId: original.externalId ?? duplicate.externalId,
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * ============================================================================
+ * CSV EXPORT
+ * ============================================================================
+ *
+ * Writes an export table as RFC 4180 CSV. A byte order mark lets Excel
+ * open the file as UTF-8 (so "₹" and emoji survive), and amounts are
+ * printed with exactly two decimals.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { ExportCell, ExportTable } from "@/types/Export";
+
+/**
+ * Text a spreadsheet would run as a formula when the file is opened
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Writes one cell, quoting it when needed
+ */
+function csvCell(value: ExportCell, isAmount: boolean): string {
+  if (value === null) return "";
+  if (typeof value === "number") return isAmount ? value.toFixed(2) : String(value);
+  // Titles like "=SUM(...)" are kept as text instead of becoming formulas
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes a table as CSV text with a header row
+ *
+ * @param table - Table to write
+ * @returns CSV text starting with a byte order mark, lines ending in CRLF
+ */
+export function toCsv(table: ExportTable): string {
+  const amounts = new Set(table.amountColumns);
+  const lines = [table.columns, ...table.rows].map((row, index) =>
+    row.map((value, column) => csvCell(value, index > 0 && amounts.has(column))).join(",")
+  );
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,149 @@
+/**
+ * ============================================================================
+ * EXPORT SCOPE AND TABLES
+ * ============================================================================
+ *
+ * Narrows the user's records to the chosen scope and lays each entity out
+ * as a table for the CSV and Excel writers. Amounts are rounded to paise
+ * and kept as numbers; the writers print them with two decimals.
+ * Transactions and accounts have a currency column beside their amount;
+ * budgets and goals are in the base currency.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { ACCOUNT_TYPE_LABELS } from "@/lib/accounts";
+import { categoryKey, topLevelName } from "@/lib/categories";
+import { currencyOf } from "@/lib/currency";
+import type { Category } from "@/types/Category";
+import type { ExportData, ExportEntity, ExportScope, ExportTable } from "@/types/Export";
+import type { TransactionType } from "@/types/Transaction";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Every entity, in the order files and sheets are written
+ */
+export const EXPORT_ENTITIES: ExportEntity[] = ["transactions", "budgets", "goals", "accounts"];
+
+/**
+ * Type column values
+ */
+const TYPE_LABELS: Record<TransactionType, string> = {
+  income: "Income",
+  expense: "Expense",
+  transfer: "Transfer",
+};
+
+// ============================================================================
+// SCOPE
+// ============================================================================
+
+/**
+ * Rounds an amount to paise (hundredths), dropping floating-point noise
+ * (e.g., 0.1 + 0.2 -> 0.3)
+ */
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Keeps the records inside the scope. Date and account filters apply to
+ * transactions, the account filter also to the accounts list, and the
+ * category filter to transactions and budgets; goals are never filtered.
+ *
+ * @param data - Everything the user has
+ * @param scope - The user's choices
+ * @param catalog - Category catalog, so a parent category also keeps its subcategories
+ */
+export function applyExportScope(data: ExportData, scope: ExportScope, catalog: Category[]): ExportData {
+  const accountIds = scope.accountIds?.length ? new Set(scope.accountIds) : null;
+  const categories = scope.categories?.length ? new Set(scope.categories.map(categoryKey)) : null;
+  const inCategory = (name: string, type?: Category["type"]) =>
+    !categories ||
+    categories.has(categoryKey(name)) ||
+    categories.has(categoryKey(topLevelName(catalog, name, type)));
+  const wanted = new Set(scope.entities);
+
+  return {
+    transactions: wanted.has("transactions")
+      ? data.transactions.filter(
+          (t) =>
+            (!scope.from || t.date >= scope.from) &&
+            (!scope.to || t.date <= scope.to) &&
+            (!accountIds || [t.accountId, t.toAccountId].some((id) => id !== undefined && accountIds.has(id))) &&
+            inCategory(t.category, t.type === "transfer" ? undefined : t.type)
+        )
+      : [],
+    budgets: wanted.has("budgets") ? data.budgets.filter((b) => inCategory(b.category, "expense")) : [],
+    goals: wanted.has("goals") ? data.goals : [],
+    accounts: wanted.has("accounts") ? data.accounts.filter((a) => !accountIds || accountIds.has(a.id)) : [],
+  };
+}
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+/**
+ * Lays out each chosen entity as a table
+ *
+ * @param data - Records already narrowed by applyExportScope
+ * @param entities - Entities to include
+ * @param accounts - All accounts, to show account names on transactions
+ */
+export function toExportTables(data: ExportData, entities: ExportEntity[], accounts: ExportData["accounts"]): ExportTable[] {
+  const accountName = new Map(accounts.map((a) => [a.id, a.name]));
+
+  const tables: Record<ExportEntity, () => ExportTable> = {
+    transactions: () => ({
+      name: "transactions",
+      columns: ["Date", "Type", "Title", "Amount", "Currency", "Category", "Account", "Note", "Tags", "Bank ID"],
+      amountColumns: [3],
+      rows: [...data.transactions]
+        .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt))
+        .map((t) => [
+          t.date,
+          TYPE_LABELS[t.type],
+          t.title,
+          roundAmount(t.amount),
+          currencyOf(t),
+          t.category,
+          t.type === "transfer"
+            ? `${accountName.get(t.accountId) ?? "?"} → ${accountName.get(t.toAccountId) ?? "?"}`
+            : t.accountId ? accountName.get(t.accountId) ?? null : null,
+          t.note ?? null,
+          t.tags?.join(", ") ?? null,
+          t.externalId ?? null,
+        ]),
+    }),
+    budgets: () => ({
+      name: "budgets",
+      columns: ["Category", "Monthly limit", "Spent this month"],
+      amountColumns: [1, 2],
+      rows: data.budgets.map((b) => [b.category, roundAmount(b.limit), roundAmount(b.spent)]),
+    }),
+    goals: () => ({
+      name: "goals",
+      columns: ["Goal", "Emoji", "Saved", "Target", "Deadline"],
+      amountColumns: [2, 3],
+      rows: data.goals.map((g) => [g.title, g.emoji, roundAmount(g.saved), roundAmount(g.target), g.deadline]),
+    }),
+    accounts: () => ({
+      name: "accounts",
+      columns: ["Name", "Type", "Opening balance", "Currency", "Added on"],
+      amountColumns: [2],
+      rows: data.accounts.map((a) => [
+        a.name,
+        ACCOUNT_TYPE_LABELS[a.type] ?? a.type,
+        roundAmount(a.openingBalance),
+        currencyOf(a),
+        a.createdAt.slice(0, 10),
+      ]),
+    }),
+  };
+
+  return EXPORT_ENTITIES.filter((entity) => entities.includes(entity)).map((entity) => tables[entity]());
+}
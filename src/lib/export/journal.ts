@@ -0,0 +1,292 @@
+/**
+ * ============================================================================
+ * PLAIN-TEXT ACCOUNTING JOURNALS
+ * ============================================================================
+ *
+ * Writes transactions and accounts as double-entry journals for ledger,
+ * hledger and beancount. Every entry's postings sum to zero:
+ * - Expenses:<Category> against the account the money left
+ * - Income:<Category> against the account the money arrived in
+ * - Opening balances against Equity:Opening-Balances
+ * A split transaction has one category posting per line. Each entry is
+ * written in its transaction's currency, and an opening balance in its
+ * account's currency.
+ *
+ * Accounts are named by type (Assets:Bank:HDFC-Savings,
+ * Liabilities:CreditCard:Amex) and subcategories sit under their parent
+ * (Expenses:Food-And-Dining:Groceries). Tags are written as hledger tags
+ * ("; trip:"), which ledger reads as metadata, or beancount "#trip" tags.
+ * The journal importer reads these names back.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { findCategory } from "@/lib/categories";
+import { DEFAULT_CURRENCY, currencyOf } from "@/lib/currency";
+import { isSplit } from "@/lib/splits";
+import type { Account, AccountType } from "@/types/Account";
+import type { Category } from "@/types/Category";
+import type { ExportData, ExportEntity, JournalFormat } from "@/types/Export";
+import type { Transaction } from "@/types/Transaction";
+import { roundAmount } from "./data";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Parent journal account for each kind of FinGuide account
+ */
+export const ACCOUNT_ROOTS: Record<AccountType, string> = {
+  bank: "Assets:Bank",
+  cash: "Assets:Cash",
+  wallet: "Assets:Wallet",
+  credit_card: "Liabilities:CreditCard",
+};
+
+/**
+ * Journal account for transactions that are not linked to an account
+ */
+export const UNASSIGNED_ACCOUNT = "Assets:Unassigned";
+
+/**
+ * Counter-account for opening balances
+ */
+export const OPENING_BALANCES_ACCOUNT = "Equity:Opening-Balances";
+
+/**
+ * Payee written on opening balance entries
+ */
+const OPENING_BALANCE_PAYEE = "Opening balance";
+
+/**
+ * Column the amounts are right-aligned to
+ */
+const AMOUNT_COLUMN = 60;
+
+// ============================================================================
+// NAMES
+// ============================================================================
+
+/**
+ * One component of a journal account name. Beancount only allows letters,
+ * digits and dashes, starting with a capital or digit, so words are
+ * capitalized and joined with dashes ("Food & Dining" -> "Food-And-Dining").
+ */
+export function accountSegment(name: string): string {
+  const words = name
+    .replace(/&/g, " and ")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1));
+  return words.join("-") || "Unnamed";
+}
+
+/**
+ * Journal account name for a FinGuide account
+ */
+export const moneyAccountName = (account: Account | undefined): string =>
+  account ? `${ACCOUNT_ROOTS[account.type]}:${accountSegment(account.name)}` : UNASSIGNED_ACCOUNT;
+
+/**
+ * Journal account name for a category, nested under its parent
+ * (e.g., "Expenses:Food-And-Dining:Groceries")
+ *
+ * @param catalog - Category catalog, to find the parent
+ * @param name - Category name on the transaction
+ * @param type - Income or expense
+ */
+export function categoryAccountName(catalog: Category[], name: string, type: Transaction["type"]): string {
+  const root = type === "income" ? "Income" : "Expenses";
+  const category = findCategory(catalog, name, type);
+  const parent = category?.parentId ? catalog.find((c) => c.id === category.parentId) : undefined;
+  const segments = [parent?.name, category?.name ?? name].filter((s): s is string => Boolean(s)).map(accountSegment);
+  return [root, ...segments].join(":");
+}
+
+/**
+ * Tag written so every tool accepts it: letters, digits, "-", "_", "/" and "."
+ */
+export const journalTag = (tag: string): string => tag.trim().replace(/[^\p{L}\p{N}_/.-]+/gu, "-");
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+/**
+ * A balanced entry, before it is written in either syntax
+ */
+interface JournalEntry {
+  date: string;
+  payee: string;
+  note?: string;
+  tags: string[];
+  commodity: string;            // Currency every posting is in
+  postings: [string, number][]; // Account name and signed amount
+}
+
+/**
+ * Amount with two decimals and the commodity
+ */
+const formatAmount = (amount: number, commodity: string): string => `${roundAmount(amount).toFixed(2)} ${commodity}`;
+
+/**
+ * Posting line with the amount right-aligned
+ */
+function postingLine(indent: string, account: string, amount: number, commodity: string): string {
+  const text = formatAmount(amount, commodity);
+  const gap = Math.max(2, AMOUNT_COLUMN - indent.length - account.length - text.length);
+  return `${indent}${account}${" ".repeat(gap)}${text}`;
+}
+
+/**
+ * Ledger/hledger entry. ";" starts a comment and hledger splits the
+ * description at "|", so both are replaced in the payee.
+ */
+function ledgerEntry(entry: JournalEntry): string {
+  const payee = entry.payee.replace(/;/g, ",").replace(/\|/g, "/").replace(/\s+/g, " ").trim();
+  const lines = [`${entry.date} * ${payee}`];
+  entry.tags.forEach((tag) => lines.push(`    ; ${tag}:`));
+  if (entry.note) lines.push(`    ; note: ${entry.note.replace(/\s+/g, " ").trim()}`);
+  entry.postings.forEach(([account, amount]) => lines.push(postingLine("    ", account, amount, entry.commodity)));
+  return lines.join("\n");
+}
+
+/**
+ * Beancount string literal
+ */
+const quoted = (value: string): string => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\s+/g, " ").trim()}"`;
+
+/**
+ * Beancount entry: payee and narration (the note), then tags
+ */
+function beancountEntry(entry: JournalEntry): string {
+  const tags = entry.tags.map((tag) => ` #${tag}`).join("");
+  const lines = [`${entry.date} * ${quoted(entry.payee)} ${quoted(entry.note ?? "")}${tags}`];
+  entry.postings.forEach(([account, amount]) => lines.push(postingLine("  ", account, amount, entry.commodity)));
+  return lines.join("\n");
+}
+
+/**
+ * Split line amounts rounded to paise, with the rounding remainder on the
+ * last line so the lines still add up to the rounded total
+ * (3.333 + 3.333 + 3.334 -> 3.33 + 3.33 + 3.34)
+ */
+function balancedLines(amounts: number[], total: number): number[] {
+  const rounded = amounts.map(roundAmount);
+  const others = rounded.slice(0, -1).reduce((sum, amount) => sum + amount, 0);
+  rounded[rounded.length - 1] = roundAmount(roundAmount(total) - others);
+  return rounded;
+}
+
+/**
+ * Entries for the exported records: one per transaction, plus an opening
+ * balance for each account that has one, dated on or before its first
+ * transaction
+ */
+function journalEntries(
+  data: ExportData,
+  entities: ExportEntity[],
+  accounts: Account[],
+  catalog: Category[]
+): JournalEntry[] {
+  const byId = new Map(accounts.map((a) => [a.id, a]));
+  const entries: JournalEntry[] = [];
+
+  if (entities.includes("accounts")) {
+    for (const account of data.accounts) {
+      if (roundAmount(account.openingBalance) === 0) continue;
+      const first = data.transactions
+        .filter((t) => t.accountId === account.id || t.toAccountId === account.id)
+        .reduce((earliest, t) => (t.date < earliest ? t.date : earliest), account.createdAt.slice(0, 10));
+      entries.push({
+        date: first,
+        payee: OPENING_BALANCE_PAYEE,
+        tags: [],
+        commodity: currencyOf(account),
+        postings: [
+          [moneyAccountName(account), account.openingBalance],
+          [OPENING_BALANCES_ACCOUNT, -account.openingBalance],
+        ],
+      });
+    }
+  }
+
+  if (entities.includes("transactions")) {
+    for (const t of [...data.transactions].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+      const money = moneyAccountName(t.accountId ? byId.get(t.accountId) : undefined);
+      const base = {
+        date: t.date,
+        payee: t.title,
+        note: t.note?.trim() || undefined,
+        tags: (t.tags ?? []).map(journalTag).filter(Boolean),
+        commodity: currencyOf(t),
+      };
+      if (t.type === "transfer") {
+        // Money moves between two money accounts; no income or expense account
+        const into = moneyAccountName(t.toAccountId ? byId.get(t.toAccountId) : undefined);
+        entries.push({ ...base, postings: [[into, t.amount], [money, -t.amount]] });
+        continue;
+      }
+      const sign = t.type === "income" ? 1 : -1;
+      const lines = isSplit(t) ? t.splits : [{ category: t.category, amount: t.amount }];
+      const amounts = balancedLines(lines.map((line) => line.amount), t.amount);
+      entries.push({
+        ...base,
+        postings: [
+          ...lines.map((line, i): [string, number] => [categoryAccountName(catalog, line.category, t.type), -sign * amounts[i]]),
+          [money, sign * t.amount],
+        ],
+      });
+    }
+  }
+
+  // Stable sort: same-day entries keep opening balances first, then entry order
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ============================================================================
+// JOURNAL
+// ============================================================================
+
+/**
+ * Writes the records as a journal
+ *
+ * @param data - Records already narrowed to the export scope
+ * @param entities - Entities the user chose; only transactions and accounts are written
+ * @param accounts - Every account, for naming the accounts transactions moved through
+ * @param catalog - Category catalog, for nesting subcategories under their parent
+ * @param journalFormat - "ledger" (also read by hledger) or "beancount"
+ * @param baseCurrency - Base currency, written as beancount's operating currency
+ */
+export function toJournal(
+  data: ExportData,
+  entities: ExportEntity[],
+  accounts: Account[],
+  catalog: Category[],
+  journalFormat: JournalFormat,
+  baseCurrency: string = DEFAULT_CURRENCY
+): string {
+  const entries = journalEntries(data, entities, accounts, catalog);
+  const names = [...new Set(entries.flatMap((e) => e.postings.map(([account]) => account)))].sort();
+  const blocks: string[] = [];
+
+  if (journalFormat === "beancount") {
+    // Beancount needs every account opened before its first use, listing
+    // the currencies it may hold
+    const opened = entries[0]?.date;
+    const commodities = (name: string) =>
+      [...new Set(entries.filter((e) => e.postings.some(([account]) => account === name)).map((e) => e.commodity))].sort().join(",");
+    blocks.push([`option "title" "FinGuide"`, `option "operating_currency" "${baseCurrency}"`].join("\n"));
+    if (opened) blocks.push(names.map((name) => `${opened} open ${name} ${commodities(name)}`).join("\n"));
+    entries.forEach((entry) => blocks.push(beancountEntry(entry)));
+  } else {
+    blocks.push("; Exported from FinGuide");
+    if (names.length > 0) blocks.push(names.map((name) => `account ${name}`).join("\n"));
+    entries.forEach((entry) => blocks.push(ledgerEntry(entry)));
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+}
@@ -0,0 +1,148 @@
+/**
+ * ============================================================================
+ * EXCEL EXPORT
+ * ============================================================================
+ *
+ * Writes export tables as an Office Open XML workbook (.xlsx) with one
+ * sheet per table. Text is stored inline, amounts as numbers formatted
+ * "#,##0.00", and the header row is bold and frozen.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { ExportCell, ExportTable } from "@/types/Export";
+import { createZip } from "./zip";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+/**
+ * Cell styles defined in styles.xml, by position in cellXfs
+ */
+const STYLE = { plain: 0, amount: 1, header: 2 };
+
+/**
+ * Fonts (regular, bold) and the three cell styles above; number format 4
+ * is Excel's built-in "#,##0.00"
+ */
+const STYLES_XML = `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Escapes text for XML, dropping control characters XML cannot hold
+ */
+const escapeXml = (text: string): string =>
+  [...text]
+    .filter((ch) => ch >= " " || ch === "\t" || ch === "\n" || ch === "\r")
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Spreadsheet column letters for a zero-based index (0 -> "A", 27 -> "AB")
+ */
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Writes one cell
+ */
+function cellXml(value: ExportCell, ref: string, style: number): string {
+  if (value === null) return "";
+  if (typeof value === "number") return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Writes one worksheet with a bold, frozen header row
+ */
+function sheetXml(table: ExportTable): string {
+  const amounts = new Set(table.amountColumns);
+  const rows = [table.columns, ...table.rows].map((row, r) => {
+    const cells = row
+      .map((value, c) => {
+        const style = r === 0 ? STYLE.header : amounts.has(c) ? STYLE.amount : STYLE.plain;
+        return cellXml(value, `${columnName(c)}${r + 1}`, style);
+      })
+      .join("");
+    return `<row r="${r + 1}">${cells}</row>`;
+  });
+  const widths = table.columns
+    .map((column, c) => `<col min="${c + 1}" max="${c + 1}" width="${Math.max(12, column.length + 4)}" customWidth="1"/>`)
+    .join("");
+
+  return `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths}</cols>
+<sheetData>${rows.join("")}</sheetData>
+</worksheet>`;
+}
+
+// ============================================================================
+// WORKBOOK
+// ============================================================================
+
+/**
+ * Writes the tables as an .xlsx workbook
+ *
+ * @param tables - One sheet per table, named after the table
+ * @returns The workbook file bytes
+ */
+export function toXlsx(tables: ExportTable[]): Uint8Array<ArrayBuffer> {
+  const sheetNames = tables.map((t) => t.name.charAt(0).toUpperCase() + t.name.slice(1));
+
+  const contentTypes = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${tables.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("\n")}
+</Types>`;
+
+  const rootRels = `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">
+<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+  const workbook = `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">
+<sheets>${sheetNames.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>
+</workbook>`;
+
+  // Sheets take rId1..n; the stylesheet comes after them
+  const workbookRels = `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">
+${tables.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("\n")}
+<Relationship Id="rId${tables.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  return createZip([
+    { name: "[Content_Types].xml", data: contentTypes },
+    { name: "_rels/.rels", data: rootRels },
+    { name: "xl/workbook.xml", data: workbook },
+    { name: "xl/_rels/workbook.xml.rels", data: workbookRels },
+    { name: "xl/styles.xml", data: STYLES_XML },
+    ...tables.map((table, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(table) })),
+  ]);
+}
@@ -0,0 +1,126 @@
+/**
+ * ============================================================================
+ * ZIP ARCHIVES
+ * ============================================================================
+ *
+ * Writes uncompressed ("stored") zip archives, which is all an .xlsx
+ * workbook or a bundle of CSV files needs. Exports are small, so skipping
+ * compression keeps this free of dependencies.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// ============================================================================
+// CHECKSUMS
+// ============================================================================
+
+/**
+ * Lookup table for the CRC-32 used by zip (polynomial 0xEDB88320)
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 of a byte array
+ */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ============================================================================
+// ARCHIVE
+// ============================================================================
+
+/**
+ * One file to put in the archive
+ */
+export interface ZipEntry {
+  name: string;                 // Path inside the archive (e.g., "xl/workbook.xml")
+  data: string | Uint8Array;    // Contents; strings are written as UTF-8
+}
+
+/**
+ * DOS date for 1980-01-01, the earliest a zip can record; fixed so the
+ * same data always produces the same archive
+ */
+const DOS_DATE = (1 << 5) | 1;
+
+/**
+ * Builds a zip archive
+ *
+ * @param entries - Files in the order they should appear
+ * @returns The archive bytes
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    // Local file header, followed by the name and the stored data
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);            // Version needed to extract
+    lv.setUint16(6, 0x0800, true);        // Names are UTF-8
+    lv.setUint16(8, 0, true);             // Stored, no compression
+    lv.setUint16(10, 0, true);            // Modification time
+    lv.setUint16(12, DOS_DATE, true);     // Modification date
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);  // Compressed size
+    lv.setUint32(22, data.length, true);  // Uncompressed size
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    // Central directory record pointing back at the local header
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);            // Version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, 0, true);
+    cv.setUint16(14, DOS_DATE, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);  // Entries on this disk
+  ev.setUint16(10, entries.length, true); // Entries in total
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);         // Where the central directory starts
+
+  const archive = new Uint8Array(offset + directorySize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
@@ -0,0 +1,45 @@
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+
+/**
+ * Currency amounts are shown in when none is given; follows the base
+ * currency setting (see setDisplayCurrency)
+ */
+let displayCurrency = DEFAULT_CURRENCY;
+
+/**
+ * Sets the currency used when formatCurrency is not given one
+ *
+ * @param currency - ISO 4217 code of the base currency
+ */
+export function setDisplayCurrency(currency: string): void {
+  displayCurrency = currency;
+}
+
+/**
+ * Formats a number as currency
+ * Uses the 'en-IN' locale for proper Indian number formatting
+ *
+ * @param amount - The numeric amount to format
+ * @param currency - ISO 4217 code (defaults to the base currency)
+ * @returns Formatted currency string (e.g., "₹1,52,840")
+ */
+export function formatCurrency(amount: number, currency: string = displayCurrency): string {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Symbol shown for a currency (e.g., "₹", "$"), for input labels
+ *
+ * @param currency - ISO 4217 code (defaults to the base currency)
+ */
+export function currencySymbol(currency: string = displayCurrency): string {
+  return (
+    new Intl.NumberFormat("en-IN", { style: "currency", currency })
+      .formatToParts(0)
+      .find((part) => part.type === "currency")?.value ?? currency
+  );
+}
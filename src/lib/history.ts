@@ -0,0 +1,77 @@
+/**
+ * ============================================================================
+ * TRANSACTION HISTORY GROUPING
+ * ============================================================================
+ *
+ * Groups a newest-first ledger into months and days for the history screen,
+ * with income and expense totals at both levels. Totals are in the base
+ * currency; the entries themselves keep their own currency.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { sumTotals } from "@/lib/analytics";
+import { DEFAULT_CURRENCY_CONTEXT, toBase } from "@/lib/currency";
+import type { CurrencyContext } from "@/types/Currency";
+import type { Transaction } from "@/types/Transaction";
+
+/**
+ * All transactions recorded on one day
+ */
+export interface DayGroup {
+  date: string;                 // YYYY-MM-DD
+  income: number;               // Total income that day in the base currency
+  expense: number;              // Total expenses that day in the base currency
+  transactions: Transaction[];  // Entries in ledger order
+}
+
+/**
+ * All days with transactions in one calendar month
+ */
+export interface MonthGroup {
+  month: string;                // YYYY-MM
+  income: number;               // Total income that month in the base currency
+  expense: number;              // Total expenses that month in the base currency
+  days: DayGroup[];             // Days in ledger order
+}
+
+/**
+ * Groups transactions by month, then by day
+ *
+ * @param transactions - Ledger entries sorted newest first
+ * @param currency - Base currency and the rates used for the totals
+ * @returns Month groups in the same order as the input
+ */
+export function groupByMonthAndDay(
+  transactions: Transaction[],
+  currency: CurrencyContext = DEFAULT_CURRENCY_CONTEXT
+): MonthGroup[] {
+  const months: MonthGroup[] = [];
+
+  for (const transaction of transactions) {
+    const monthKey = transaction.date.slice(0, 7);
+    let month = months[months.length - 1];
+    if (!month || month.month !== monthKey) {
+      month = { month: monthKey, income: 0, expense: 0, days: [] };
+      months.push(month);
+    }
+
+    let day = month.days[month.days.length - 1];
+    if (!day || day.date !== transaction.date) {
+      day = { date: transaction.date, income: 0, expense: 0, transactions: [] };
+      month.days.push(day);
+    }
+    day.transactions.push(transaction);
+  }
+
+  for (const month of months) {
+    for (const day of month.days) {
+      Object.assign(day, sumTotals(toBase(day.transactions, currency)));
+      month.income += day.income;
+      month.expense += day.expense;
+    }
+  }
+  return months;
+}
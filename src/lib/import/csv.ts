@@ -0,0 +1,190 @@
+/**
+ * ============================================================================
+ * CSV STATEMENT IMPORT
+ * ============================================================================
+ *
+ * Reads bank statement CSV files. The file is split into cells, the header
+ * row is located (banks often put account details above it), columns are
+ * mapped to statement fields, and each data row becomes a StatementRow.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { ColumnMapping, ParsedStatement, StatementDateFormat, StatementRow } from "@/types/Import";
+import { parseAmount, parseStatementDate } from "./values";
+
+// ============================================================================
+// TOKENIZING
+// ============================================================================
+
+/**
+ * Guesses the delimiter from the first lines: comma, semicolon or tab
+ */
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, 20).join("\n");
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: sample.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+/**
+ * Splits CSV text into rows of trimmed cells. Quoted cells may contain
+ * delimiters, doubled quotes and line breaks. Blank lines are dropped.
+ *
+ * @param text - File contents
+ * @param delimiter - Cell separator (detected when omitted)
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell.trim());
+    cell = "";
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some(Boolean)) rows.push(row);
+    row = [];
+  };
+
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) endRow();
+  return rows;
+}
+
+// ============================================================================
+// LAYOUT DETECTION
+// ============================================================================
+
+/**
+ * Finds the header row: the first row naming a date column and at least
+ * one other column, falling back to the first row
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  const index = rows.findIndex(
+    (row) => row.some((cell) => /\bdate\b/i.test(cell)) && row.filter(Boolean).length >= 3
+  );
+  return Math.max(index, 0);
+}
+
+/**
+ * Header names commonly used by Indian banks for each field
+ */
+const HEADER_HINTS: Record<keyof ColumnMapping, RegExp> = {
+  date: /^(txn |transaction |tran |value )?date$|^date\b/i,
+  description: /narration|description|particulars|details|remarks/i,
+  debit: /debit|withdrawal|\bdr\b/i,
+  credit: /credit|deposit|\bcr\b/i,
+  balance: /balance/i,
+};
+
+/**
+ * Suggests a column mapping from header names
+ *
+ * @returns Indexes for every field whose column could be recognised
+ */
+export function guessMapping(headers: string[]): Partial<ColumnMapping> {
+  const mapping: Partial<ColumnMapping> = {};
+  (Object.keys(HEADER_HINTS) as (keyof ColumnMapping)[]).forEach((field) => {
+    const index = headers.findIndex(
+      (header, i) => HEADER_HINTS[field].test(header) && !Object.values(mapping).includes(i)
+    );
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+}
+
+/**
+ * Checks whether a saved header row matches a file's header row
+ * (case and spacing are ignored)
+ */
+export function sameHeaders(a: string[], b: string[]): boolean {
+  const normalize = (headers: string[]) => headers.map((h) => h.trim().toLowerCase().replace(/\s+/g, " ")).join("|");
+  return normalize(a) === normalize(b);
+}
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+/**
+ * Turns the data rows below the header into statement rows
+ *
+ * Rows with a debit become expenses and rows with a credit become income;
+ * a single column holding signed or Dr/Cr amounts can be mapped as both.
+ * Footer lines (e.g., "Closing balance") without a readable date are
+ * reported as errors for the preview rather than imported.
+ *
+ * @param rows - All rows from parseCsv
+ * @param headerRow - Index of the header row
+ * @param mapping - Column for each field
+ * @param dateFormat - Layout of the date column
+ */
+export function mapCsvRows(
+  rows: string[][],
+  headerRow: number,
+  mapping: ColumnMapping,
+  dateFormat: StatementDateFormat
+): ParsedStatement {
+  const result: ParsedStatement = { rows: [], errors: [] };
+
+  rows.slice(headerRow + 1).forEach((cells, index) => {
+    const line = headerRow + index + 2;
+    const date = parseStatementDate(cells[mapping.date] ?? "", dateFormat);
+    if (!date) {
+      result.errors.push({ line, message: `Unreadable date "${cells[mapping.date] ?? ""}"` });
+      return;
+    }
+
+    const debit = mapping.debit === undefined ? null : parseAmount(cells[mapping.debit]);
+    const credit = mapping.credit === undefined || mapping.credit === mapping.debit
+      ? null
+      : parseAmount(cells[mapping.credit]);
+
+    // Debit columns hold positive numbers; a signed single column is read as-is
+    const signed = mapping.credit === mapping.debit ? debit : credit ? Math.abs(credit) : debit ? -Math.abs(debit) : null;
+    if (!signed) {
+      result.errors.push({ line, message: "No debit or credit amount" });
+      return;
+    }
+
+    const row: StatementRow = {
+      line,
+      date,
+      description: (cells[mapping.description] ?? "").replace(/\s+/g, " ").trim() || "Imported transaction",
+      amount: Math.abs(signed),
+      type: signed > 0 ? "income" : "expense",
+    };
+    const balance = mapping.balance === undefined ? null : parseAmount(cells[mapping.balance]);
+    if (balance !== null) row.balance = balance;
+    result.rows.push(row);
+  });
+
+  return result;
+}
@@ -0,0 +1,337 @@
+/**
+ * ============================================================================
+ * JOURNAL IMPORT (LEDGER / HLEDGER / BEANCOUNT)
+ * ============================================================================
+ *
+ * Reads plain-text accounting journals. An entry is a dated header line
+ * followed by indented postings; the postings to Expenses: and Income:
+ * accounts become transactions, and the Assets: or Liabilities: posting
+ * names the account the money moved through. One posting per entry may
+ * leave its amount out; it takes whatever balances the others. A currency
+ * code written with the amounts ("20.00 USD") becomes the row's currency.
+ *
+ * Both syntaxes are understood:
+ * - ledger/hledger: 2026-03-01 * Swiggy  ; trip:   (tags as "tag:" or ":tag:")
+ * - beancount: 2026-03-01 * "Swiggy" "Dinner" #trip
+ *
+ * An entry with several category postings of one kind becomes one split
+ * transaction, and one that only moves money between two accounts becomes a
+ * transfer. Entries against Equity: (opening balances) are skipped. Like
+ * QIF, journals have no bank ids, so rows get a fingerprint that stays the
+ * same on re-import.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { accountSegment, UNASSIGNED_ACCOUNT } from "@/lib/export/journal";
+import type { Category } from "@/types/Category";
+import type { ParsedStatement, StatementRow } from "@/types/Import";
+import type { TransactionType } from "@/types/Transaction";
+import { parseAmount, toIsoDate } from "./values";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One posting as read from the file
+ */
+interface Posting {
+  line: number;
+  account: string;
+  amount: number | null;   // Null when left for the journal to balance
+  commodity?: string;      // Currency code written with the amount
+}
+
+/**
+ * An entry being read
+ */
+interface Entry {
+  line: number;
+  date: string;
+  payee: string;
+  note?: string;
+  tags: Set<string>;
+  postings: Posting[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Beancount directives that share the date-first layout but are not entries
+ */
+const DIRECTIVES = new Set([
+  "open", "close", "balance", "pad", "note", "document", "price", "event", "commodity", "custom", "query",
+]);
+
+/**
+ * Dated header line: date (optionally "=auxiliary date") and the rest
+ */
+const HEADER = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:=\S+)?(?:\s+(.*))?$/;
+
+/**
+ * Posting line: optional status, account, then two spaces or a tab before the amount
+ */
+const POSTING = /^(?:[*!]\s+)?(\S(?:.*?\S)?)(?:(?:\s{2,}|\t)\s*(.*))?$/;
+
+/**
+ * Currency code before or after a posting's number ("100.00 USD", "USD 100", "\"EUR\" 5")
+ */
+const COMMODITY = /"?(?<![A-Za-z])([A-Z]{3})(?![A-Za-z])"?/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Checks whether a file looks like a journal: a dated line followed by an
+ * indented posting to a colon-separated account
+ */
+export const isJournal = (text: string): boolean =>
+  /^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}[^,\n]*\r?\n[ \t]+[!*]?\s*[\p{L}([][^\n]*:/mu.test(text.replace(/^\uFEFF/, ""));
+
+/**
+ * Reads tags and a note from a ledger/hledger comment: ":trip:goa:" or
+ * "trip:, goa:"; "note: text" is the note
+ */
+function readComment(comment: string, entry: Entry): void {
+  const text = comment.trim();
+  const ledgerTags = text.match(/^:(\S+):$/);
+  if (ledgerTags) {
+    ledgerTags[1].split(":").filter(Boolean).forEach((tag) => entry.tags.add(tag.toLowerCase()));
+    return;
+  }
+  const note = text.match(/^note:\s*(.*)$/i);
+  if (note) {
+    entry.note = note[1].trim() || entry.note;
+    return;
+  }
+  for (const match of text.matchAll(/(?:^|[\s,])([^\s,:]+):/g)) entry.tags.add(match[1].toLowerCase());
+}
+
+/**
+ * Reads the text after the date on a beancount header:
+ * flag, optional payee and narration strings, then #tags and ^links
+ */
+function readBeancountHeader(rest: string, entry: Entry): void {
+  const strings = [...rest.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((m) => m[1].replace(/\\(.)/g, "$1"));
+  const [payee, narration] = strings.length >= 2 ? strings : [undefined, strings[0]];
+  entry.payee = (payee || narration || "").trim();
+  if (payee && narration?.trim()) entry.note = narration.trim();
+
+  const tail = rest.replace(/"((?:[^"\\]|\\.)*)"/g, " ");
+  for (const match of tail.matchAll(/#([^\s#^]+)/g)) entry.tags.add(match[1].toLowerCase());
+}
+
+/**
+ * Reads the text after the date on a ledger/hledger header:
+ * status, optional (code), payee (and hledger's "| note"), then a comment
+ */
+function readLedgerHeader(rest: string, entry: Entry): void {
+  const [description, ...comment] = rest.split(";");
+  const text = description.replace(/^[*!]\s*/, "").replace(/^\([^)]*\)\s*/, "").trim();
+  const [payee, note] = text.split(/\s*\|\s*/, 2);
+  entry.payee = payee;
+  if (note) entry.note = note;
+  if (comment.length > 0) readComment(comment.join(";"), entry);
+}
+
+/**
+ * Turns a journal account component back into a readable name
+ * ("Food-And-Dining" -> "Food And Dining")
+ */
+const readableSegment = (segment: string): string => segment.replace(/-/g, " ");
+
+/**
+ * FinGuide category for an Expenses: or Income: account. The last
+ * component is matched against the catalog by its journal spelling;
+ * unknown names are kept in readable form.
+ */
+function categoryFor(catalog: Category[], account: string, type: TransactionType): string | undefined {
+  const leaf = account.split(":").slice(1).pop();
+  if (!leaf) return undefined;
+  const known = catalog.find((c) => c.type === type && accountSegment(c.name) === accountSegment(leaf));
+  return known?.name ?? readableSegment(leaf);
+}
+
+/**
+ * Account label for an Assets: or Liabilities: account (its last component)
+ */
+const accountLabel = (account: string): string | undefined =>
+  account === UNASSIGNED_ACCOUNT || !account.includes(":") ? undefined : readableSegment(account.split(":").pop()!);
+
+/**
+ * Root of a journal account ("Expenses:Food" -> "expenses")
+ */
+const rootOf = (account: string): string => account.split(":")[0].toLowerCase();
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parses a ledger, hledger or beancount journal
+ *
+ * @param text - File contents
+ * @param catalog - Category catalog, to match category accounts to existing names
+ */
+export function parseJournal(text: string, catalog: Category[] = []): ParsedStatement {
+  const result: ParsedStatement = { rows: [], errors: [] };
+  const fingerprints = new Map<string, number>();
+  let entry: Entry | null = null;
+
+  const finish = () => {
+    const current = entry;
+    entry = null;
+    if (!current) return;
+
+    // Fill in the one posting without an amount, then check the entry balances
+    const missing = current.postings.filter((p) => p.amount === null);
+    if (missing.length > 1) {
+      result.errors.push({ line: current.line, message: "More than one posting has no amount" });
+      return;
+    }
+    const total = current.postings.reduce((sum, p) => sum + (p.amount ?? 0), 0);
+    if (missing.length === 1) missing[0].amount = -total;
+    else if (Math.abs(total) >= 0.005) {
+      result.errors.push({ line: current.line, message: "Entry does not balance" });
+      return;
+    }
+
+    // A row for this entry, in the currency its amounts name; repeated
+    // fingerprints are numbered
+    const description = current.payee || "Imported transaction";
+    const currency = current.postings.find((p) => p.commodity)?.commodity;
+    const rowFor = (line: number, amount: number, type: TransactionType, key: string): StatementRow => {
+      const occurrence = (fingerprints.get(key) ?? 0) + 1;
+      fingerprints.set(key, occurrence);
+      const row: StatementRow = {
+        line,
+        date: current.date,
+        description,
+        amount,
+        type,
+        externalId: occurrence > 1 ? `${key}#${occurrence}` : key,
+      };
+      if (currency) row.currency = currency;
+      if (current.note) row.note = current.note;
+      if (current.tags.size > 0) row.tags = [...current.tags];
+      return row;
+    };
+
+    const categories = current.postings.filter((p) => ["expenses", "income"].includes(rootOf(p.account)));
+    const money = current.postings.find((p) => ["assets", "liabilities"].includes(rootOf(p.account)));
+    if (categories.length === 0) {
+      if (current.postings.some((p) => rootOf(p.account) === "equity")) return;
+
+      // Money moved between two accounts: out of the one posted negative,
+      // into the one posted positive
+      const moved = current.postings.filter((p) => Math.abs(p.amount ?? 0) >= 0.005);
+      const from = moved.find((p) => (p.amount ?? 0) < 0);
+      const into = moved.find((p) => (p.amount ?? 0) > 0);
+      if (moved.length !== 2 || !from || !into || !moved.every((p) => ["assets", "liabilities"].includes(rootOf(p.account)))) {
+        result.errors.push({ line: current.line, message: "Only transfers between two accounts are imported" });
+        return;
+      }
+      const amount = Math.round((into.amount ?? 0) * 100) / 100;
+      const row = rowFor(into.line, amount, "transfer", `journal:${from.account}:${current.date}:${amount}:${description.toLowerCase()}:${into.account}`);
+      const source = accountLabel(from.account);
+      const destination = accountLabel(into.account);
+      if (source) row.account = source;
+      if (destination) row.toAccount = destination;
+      result.rows.push(row);
+      return;
+    }
+
+    // Spending is a positive posting to Expenses:, earning a negative one to Income:
+    const lines = categories
+      .filter((posting) => Math.abs(posting.amount ?? 0) >= 0.005)
+      .map((posting) => {
+        const amount = posting.amount ?? 0;
+        const root = rootOf(posting.account) === "income" ? "income" : "expense";
+        const type: TransactionType = amount > 0 ? "expense" : "income";
+        const category = root === type ? categoryFor(catalog, posting.account, type) : undefined;
+        return { posting, amount: Math.round(Math.abs(amount) * 100) / 100, type, category };
+      });
+
+    // Postings of one kind are the lines of a split transaction; an entry
+    // that mixes kinds (e.g., a purchase and a refund) gives a row for each
+    const isSplitEntry = lines.length > 1 && lines.every((l) => l.type === lines[0].type && l.category);
+    for (const group of isSplitEntry ? [lines] : lines.map((line) => [line])) {
+      const [first] = group;
+      const total = Math.round(group.reduce((sum, l) => sum + l.amount, 0) * 100) / 100;
+      const postings = group.map((l) => l.posting.account).join(",");
+      const signed = group.length === 1 ? first.posting.amount : first.type === "expense" ? total : -total;
+      const row = rowFor(first.posting.line, total, first.type, `journal:${money?.account ?? ""}:${current.date}:${signed}:${description.toLowerCase()}:${postings}`);
+      if (first.category) row.category = first.category;
+      if (group.length > 1) row.splits = group.map((l) => ({ category: l.category, amount: l.amount }));
+      const label = money && accountLabel(money.account);
+      if (label) row.account = label;
+      result.rows.push(row);
+    }
+  };
+
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .forEach((raw, index) => {
+      const line = index + 1;
+      if (!raw.trim()) return;
+
+      // Indented lines belong to the current entry
+      if (/^[ \t]/.test(raw)) {
+        if (!entry) return;
+        const content = raw.trim();
+        if (/^[;#]/.test(content)) {
+          readComment(content.slice(1), entry);
+          return;
+        }
+        // Beancount metadata ("note: ...") starts lowercase; accounts start uppercase
+        const meta = content.match(/^([a-z][\w-]*):\s*(.*)$/);
+        if (meta) {
+          if (meta[1] === "note") entry.note = meta[2].replace(/^"|"$/g, "").trim() || entry.note;
+          return;
+        }
+
+        const [body, comment] = content.split(/\s;/, 2);
+        const posting = body.match(POSTING);
+        if (!posting) return;
+        const account = posting[1].replace(/^[[(]|[\])]$/g, "");
+        // Costs ("@ 83 INR", "{...}") and balance assertions ("= 1000") are ignored
+        const amountText = (posting[2] ?? "").split(/[@{=]/)[0].trim();
+        const commodity = amountText.match(COMMODITY)?.[1];
+        const amount = amountText ? parseAmount(amountText.replace(COMMODITY, "").replace(/"/g, "")) : null;
+        if (amountText && amount === null) {
+          result.errors.push({ line, message: `Unreadable amount "${amountText}"` });
+          entry = null;
+          return;
+        }
+        entry.postings.push({ line, account, amount, commodity });
+        if (comment) readComment(comment, entry);
+        return;
+      }
+
+      // Anything else at the start of a line ends the current entry
+      finish();
+      const header = raw.trim().match(HEADER);
+      if (!header) return;
+      const rest = header[4] ?? "";
+      if (DIRECTIVES.has(rest.split(/\s/)[0])) return;
+
+      const date = toIsoDate(Number(header[1]), Number(header[2]), Number(header[3]));
+      if (!date) {
+        result.errors.push({ line, message: `Unreadable date "${raw.trim().split(/\s/)[0]}"` });
+        return;
+      }
+      entry = { line, date, payee: "", tags: new Set(), postings: [] };
+      if (/^(?:txn|[*!])?\s*"/.test(rest)) readBeancountHeader(rest, entry);
+      else readLedgerHeader(rest, entry);
+    });
+  finish();
+
+  return result;
+}
@@ -0,0 +1,125 @@
+/**
+ * ============================================================================
+ * OFX / QFX STATEMENT IMPORT
+ * ============================================================================
+ *
+ * Reads Open Financial Exchange files (QFX is Quicken's OFX). Both the
+ * SGML flavour (OFX 1.x, leaf tags without closing tags) and the XML
+ * flavour (OFX 2.x) are handled by reading each leaf value up to the next
+ * tag or line break.
+ *
+ * Every <STMTTRN> becomes a StatementRow. The bank's FITID, prefixed with
+ * the account number, is kept as the external id so a re-import skips the
+ * entries already stored.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { ParsedStatement, StatementRow } from "@/types/Import";
+import { parseAmount, toIsoDate } from "./values";
+
+// ============================================================================
+// TOKENIZING
+// ============================================================================
+
+/**
+ * Decodes the XML entities OFX files use
+ */
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Reads a leaf value (e.g., <TRNAMT>-450.00) from an OFX fragment
+ *
+ * @returns The trimmed value, or undefined when the tag is absent or empty
+ */
+function leaf(fragment: string, tag: string): string | undefined {
+  const match = fragment.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match ? decodeEntities(match[1]).trim() : "";
+  return value || undefined;
+}
+
+/**
+ * Returns the contents of every <TAG>...</TAG> aggregate in a fragment
+ */
+function aggregates(fragment: string, tag: string): string[] {
+  return [...fragment.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi"))].map((m) => m[1]);
+}
+
+/**
+ * Parses an OFX date (YYYYMMDD, optionally followed by a time and zone)
+ *
+ * @returns "YYYY-MM-DD" or null
+ */
+export function parseOfxDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? toIsoDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Checks whether a file looks like OFX/QFX
+ */
+export const isOfx = (text: string): boolean => /OFXHEADER|<\?OFX|<OFX>/i.test(text.slice(0, 2000));
+
+/**
+ * Parses bank and credit card statements from an OFX/QFX file
+ *
+ * The payee (NAME, or PAYEE/NAME) becomes the description and MEMO the
+ * note; when there is no payee the memo is used as the description.
+ * Entries are numbered in file order for the preview.
+ *
+ * @param text - File contents
+ */
+export function parseOfx(text: string): ParsedStatement {
+  const result: ParsedStatement = { rows: [], errors: [] };
+  const statements = [...aggregates(text, "STMTRS"), ...aggregates(text, "CCSTMTRS")];
+  let entry = 0;
+
+  for (const statement of statements.length > 0 ? statements : [text]) {
+    const account = leaf(statement, "ACCTID");
+    if (account && !result.account) result.account = account;
+
+    for (const trn of aggregates(statement, "STMTTRN")) {
+      const line = ++entry;
+      const date = parseOfxDate(leaf(trn, "DTPOSTED"));
+      if (!date) {
+        result.errors.push({ line, message: `Unreadable date "${leaf(trn, "DTPOSTED") ?? ""}"` });
+        continue;
+      }
+
+      // Some banks write a decimal comma ("-450,00"); OFX never groups thousands
+      const amount = parseAmount(leaf(trn, "TRNAMT")?.replace(/,(\d{1,2})$/, ".$1"));
+      if (!amount) {
+        result.errors.push({ line, message: "No amount" });
+        continue;
+      }
+
+      const payee = leaf(aggregates(trn, "PAYEE")[0] ?? "", "NAME") ?? leaf(trn, "NAME");
+      const memo = leaf(trn, "MEMO");
+      const fitId = leaf(trn, "FITID");
+      const row: StatementRow = {
+        line,
+        date,
+        description: (payee ?? memo ?? leaf(trn, "TRNTYPE") ?? "Imported transaction").replace(/\s+/g, " "),
+        amount: Math.abs(amount),
+        type: amount > 0 ? "income" : "expense",
+      };
+      if (payee && memo && memo !== payee) row.note = memo;
+      if (fitId) row.externalId = `ofx:${account ?? ""}:${fitId}`;
+      result.rows.push(row);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,171 @@
+/**
+ * ============================================================================
+ * QIF STATEMENT IMPORT
+ * ============================================================================
+ *
+ * Reads Quicken Interchange Format files. A QIF file is a list of records,
+ * one field per line (a code letter followed by the value) and "^" ending
+ * each record. "!Type:" lines start a list of transactions and "!Account"
+ * blocks name the account the following lists belong to.
+ *
+ * QIF has no transaction ids, so each row gets a fingerprint of its
+ * account, date, amount and payee (numbered when the same fingerprint
+ * repeats) that stays the same when the file is imported again.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { ParsedStatement, StatementRow } from "@/types/Import";
+import { parseAmount, toIsoDate } from "./values";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Transaction list types that hold bank-style entries
+ */
+const CASH_TYPES = ["bank", "cash", "ccard", "oth a", "oth l"];
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/**
+ * Splits a QIF date into its three numbers. Quicken writes dates like
+ * "3/ 5'26", "03/05/2026" or "2026-03-05".
+ */
+const dateParts = (value: string): number[] | null => {
+  const parts = value.replace(/\s/g, "").split(/[/'.-]/).map(Number);
+  return parts.length === 3 && parts.every((p) => Number.isInteger(p)) ? parts : null;
+};
+
+/**
+ * Decides whether the file writes the day first. QIF comes from US
+ * software, so month-first is assumed unless a date only makes sense
+ * day-first.
+ */
+const isDayFirst = (dates: string[]): boolean =>
+  dates.some((d) => {
+    const parts = dateParts(d);
+    return parts !== null && parts[0] <= 31 && parts[0] > 12 && parts[1] <= 12;
+  });
+
+/**
+ * Parses a QIF date
+ *
+ * @param value - Date field (the text after "D")
+ * @param dayFirst - Whether the file writes the day before the month
+ * @returns "YYYY-MM-DD" or null
+ */
+export function parseQifDate(value: string, dayFirst = false): string | null {
+  const parts = dateParts(value);
+  if (!parts) return null;
+  if (parts[0] > 31) return toIsoDate(parts[0], parts[1], parts[2]);
+  const [day, month] = dayFirst ? [parts[0], parts[1]] : [parts[1], parts[0]];
+
+  // Two-digit years after an apostrophe are 2000s; after a slash, 70-99 are 1900s
+  let year = parts[2];
+  if (year < 100 && !value.includes("'") && year >= 70) year += 1900;
+  return toIsoDate(year, month, day);
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Checks whether a file looks like QIF
+ */
+export const isQif = (text: string): boolean => /^\s*!(type|account|option)/i.test(text.replace(/^\uFEFF/, ""));
+
+/**
+ * Parses the bank, cash and credit card lists of a QIF file
+ *
+ * P (payee) becomes the description and M (memo) the note. Split lines
+ * (S/E/$) are ignored; the record's total amount is imported. Investment
+ * lists are reported as errors, and category and class lists are skipped.
+ *
+ * @param text - File contents
+ */
+export function parseQif(text: string): ParsedStatement {
+  const result: ParsedStatement = { rows: [], errors: [] };
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const dayFirst = isDayFirst(lines.filter((l) => l.startsWith("D")).map((l) => l.slice(1)));
+  const fingerprints = new Map<string, number>();
+
+  let section = "";                       // Current "!" header, lowercased
+  let account: string | undefined;        // Name from the last !Account block
+  let record: Record<string, string> = {};
+  let start = 0;                          // Line the current record began on
+
+  const finish = (line: number) => {
+    const fields = record;
+    record = {};
+    if (Object.keys(fields).length === 0) return;
+
+    if (section === "account") {
+      if (fields.N) account = fields.N;
+      if (account && !result.account) result.account = account;
+      return;
+    }
+    if (!section.startsWith("type:")) return;
+    if (!CASH_TYPES.includes(section.slice(5))) {
+      if (section.startsWith("type:invst")) result.errors.push({ line, message: "Investment entries are not supported" });
+      return;
+    }
+
+    const date = parseQifDate(fields.D ?? "", dayFirst);
+    if (!date) {
+      result.errors.push({ line, message: `Unreadable date "${fields.D ?? ""}"` });
+      return;
+    }
+    const amount = parseAmount(fields.T ?? fields.U);
+    if (!amount) {
+      result.errors.push({ line, message: "No amount" });
+      return;
+    }
+
+    const description = (fields.P ?? fields.M ?? "Imported transaction").replace(/\s+/g, " ").trim();
+    const key = `qif:${account ?? ""}:${date}:${amount}:${description.toLowerCase()}`;
+    const occurrence = (fingerprints.get(key) ?? 0) + 1;
+    fingerprints.set(key, occurrence);
+
+    const row: StatementRow = {
+      line,
+      date,
+      description,
+      amount: Math.abs(amount),
+      type: amount > 0 ? "income" : "expense",
+      externalId: occurrence > 1 ? `${key}#${occurrence}` : key,
+    };
+    if (fields.P && fields.M && fields.M !== fields.P) row.note = fields.M.trim();
+    result.rows.push(row);
+  };
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    if (line.startsWith("!")) {
+      finish(start);
+      const header = line.slice(1).toLowerCase();
+      if (!header.startsWith("option") && !header.startsWith("clear")) section = header;
+      return;
+    }
+    if (line === "^") {
+      finish(start);
+      return;
+    }
+    if (Object.keys(record).length === 0) start = index + 1;
+
+    // Split fields repeat; only the first value of each code is kept
+    const code = line[0];
+    if (!(code in record)) record[code] = line.slice(1);
+  });
+  finish(start);
+
+  return result;
+}
@@ -0,0 +1,271 @@
+/**
+ * ============================================================================
+ * BANK AND UPI SMS ALERTS
+ * ============================================================================
+ *
+ * Reads the transaction alerts Indian banks and UPI apps send by SMS, e.g.
+ * "Rs.350.00 debited from A/c XX1234 on 12-01-26 to VPA uber@axis UPI Ref
+ * 402112345678". There is no fixed format, so each detail is looked for
+ * with a few patterns that cover the wording of the major banks (HDFC,
+ * ICICI, SBI, Axis, Kotak and others) and UPI apps.
+ *
+ * Pasted text is split into messages at blank lines (or at line breaks
+ * when every line is an alert on its own), and every alert becomes a
+ * StatementRow for the shared import preview.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { ParsedStatement, SmsAlert, StatementDateFormat, StatementRow } from "@/types/Import";
+import type { CategoryType } from "@/types/Transaction";
+import { parseAmount, parseStatementDate } from "./values";
+
+// ============================================================================
+// PATTERNS
+// ============================================================================
+
+/**
+ * Words that mark money leaving or arriving. "Credit card" is removed
+ * before these are searched so it does not read as a credit.
+ */
+const DIRECTION_WORDS: Record<CategoryType, RegExp> = {
+  expense: /\b(debited|spent|sent|paid|withdrawn|deducted|purchase|used|debit)\b/i,
+  income: /\b(credited|received|deposited|refunded|refund|credit)\b/i,
+};
+
+/**
+ * An amount with a currency marker; the amount itself is group 1
+ */
+const CURRENCY_AMOUNT = /(?:rs\.?|inr|₹)\s*([\d,]+(?:\.\d{1,2})?)/gi;
+
+/**
+ * An amount without a currency marker (SBI: "debited by 500.0")
+ */
+const BARE_AMOUNT = /\b(?:debited|credited)\s+(?:by|with|for)\s+([\d,]+(?:\.\d{1,2})?)/i;
+
+/**
+ * Last digits of an account or card ("A/C X1234", "Card ending 5678")
+ */
+const ACCOUNT_SUFFIX = /(?:a\/c|acct|account|card)\s*(?:no\.?\s*)?(?:ending\s*(?:with\s*)?)?[x*#.\s]*(\d{3,6})\b/i;
+
+/**
+ * UPI narration path: "UPI/P2A/402211112222/RAMESH KUMAR"
+ */
+const UPI_PATH = /UPI\/(?:P2[AM]|CR|DR)\/(\d{6,})\/([^/\n.]+)/i;
+
+/**
+ * A UPI id such as "uber@axis"
+ */
+const VPA = /\b([\w.-]+@[a-z][a-z0-9]*)\b/i;
+
+/**
+ * End of a counterparty name: the next clause, a full stop or line break
+ */
+const NAME_END = String.raw`(?=\s+(?:on|ref|refno|upi|via|avl|info)\b|\s*[.,;\n]|$)`;
+
+/**
+ * Counterparty phrases for each direction, tried in order
+ */
+const COUNTERPARTY: Record<CategoryType, RegExp[]> = {
+  expense: [
+    new RegExp(String.raw`\bat\s+([a-z0-9][a-z0-9&'._ -]*?)${NAME_END}`, "gi"),
+    new RegExp(String.raw`\b(?:to|towards)\s+([a-z][a-z0-9&'._ -]*?)${NAME_END}`, "gi"),
+  ],
+  income: [new RegExp(String.raw`\b(?:from|by)\s+([a-z][a-z0-9&'._ -]*?)${NAME_END}`, "gi")],
+};
+
+/**
+ * Names that describe the user's own account rather than a counterparty
+ */
+const OWN_ACCOUNT = /^(your|a\/?c|ac|acct|account|the|vpa|date|rs|inr)\b|\b(bank|a\/c|card)\b/i;
+
+/**
+ * Reference number phrases, tried in order
+ */
+const REFERENCE = [
+  /\bupi\s*ref(?:erence)?\.?\s*(?:no\.?)?[:\s#-]*(\d{6,})/i,
+  /\bref(?:no|erence)?\.?\s*(?:no\.?|num)?[:\s#-]*(\d{6,})/i,
+  /\b(?:utr|rrn|txn\s*(?:id|no)\.?)[:\s#-]*([a-z0-9]{6,})/i,
+  /\bupi[:\s]*(\d{12})\b/i,
+];
+
+/**
+ * A date in any of the layouts alerts use ("12-01-26", "01-Feb-26",
+ * "12Jan26", "2026-01-12")
+ */
+const DATE_TOKEN = /\b(\d{4}-\d{2}-\d{2}|\d{1,2}[-/.](?:\d{1,2}|[a-z]{3})[-/.]\d{2,4}|\d{1,2}\s?[a-z]{3}\s?\d{2,4})/i;
+
+/**
+ * Layouts tried for a date token; alerts always write the day first
+ */
+const SMS_DATE_FORMATS: StatementDateFormat[] = [
+  "YYYY-MM-DD",
+  "DD-MM-YY",
+  "DD-MM-YYYY",
+  "DD/MM/YY",
+  "DD/MM/YYYY",
+  "DD.MM.YYYY",
+  "DD-MMM-YY",
+  "DD-MMM-YYYY",
+];
+
+/**
+ * Banks and apps recognised by name, matched case-insensitively
+ */
+const SENDERS = [
+  "HDFC", "ICICI", "SBI", "Axis", "Kotak", "PNB", "Bank of Baroda", "Canara", "Union Bank",
+  "IDFC FIRST", "Yes Bank", "IndusInd", "Federal Bank", "Paytm", "PhonePe", "Google Pay", "GPay", "Amazon Pay",
+];
+
+// ============================================================================
+// FIELD EXTRACTION
+// ============================================================================
+
+/**
+ * Transaction amount: the first currency amount that is not a balance or
+ * limit, falling back to SBI's bare "debited by 500.0"
+ */
+function findAmount(text: string): number | null {
+  for (const match of text.matchAll(CURRENCY_AMOUNT)) {
+    const before = text.slice(Math.max(0, match.index - 20), match.index);
+    if (/bal|limit|avl|available/i.test(before)) continue;
+    const amount = parseAmount(match[1]);
+    if (amount) return amount;
+  }
+  return parseAmount(text.match(BARE_AMOUNT)?.[1]);
+}
+
+/**
+ * Direction from whichever marker word comes first
+ */
+function findDirection(text: string): CategoryType | null {
+  const cleaned = text.replace(/credit\s*card/gi, "card");
+  const positions = (Object.keys(DIRECTION_WORDS) as CategoryType[])
+    .map((type) => ({ type, index: cleaned.search(DIRECTION_WORDS[type]) }))
+    .filter(({ index }) => index !== -1)
+    .sort((a, b) => a.index - b.index);
+  return positions[0]?.type ?? null;
+}
+
+/**
+ * Payee for a debit or payer for a credit
+ */
+function findCounterparty(text: string, type: CategoryType): string | undefined {
+  const upi = text.match(UPI_PATH);
+  if (upi) return upi[2].trim();
+  const vpa = text.match(VPA);
+  if (vpa) return vpa[1];
+
+  for (const pattern of COUNTERPARTY[type]) {
+    for (const match of text.matchAll(pattern)) {
+      const name = match[1].replace(/\s+/g, " ").trim();
+      if (name && !OWN_ACCOUNT.test(name)) return name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Date of the transaction, if the alert has one
+ */
+export function parseSmsDate(text: string): string | undefined {
+  const token = text.match(DATE_TOKEN)?.[1];
+  if (!token) return undefined;
+  const compact = token.match(/^(\d{1,2})\s?([a-z]{3})\s?(\d{2,4})$/i);
+  const value = compact ? `${compact[1]}-${compact[2]}-${compact[3]}` : token;
+  for (const format of SMS_DATE_FORMATS) {
+    const date = parseStatementDate(value, format);
+    if (date) return date;
+  }
+  return undefined;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Reads one SMS alert
+ *
+ * @param text - Message text
+ * @returns The alert's details, or null when the message is not a
+ *          transaction alert (OTPs, offers, balance enquiries)
+ */
+export function parseSms(text: string): SmsAlert | null {
+  if (/\botp\b|one time password|verification code/i.test(text)) return null;
+  const amount = findAmount(text);
+  const type = findDirection(text);
+  if (!amount || !type) return null;
+
+  const alert: SmsAlert = { amount: Math.abs(amount), type };
+  const suffix = text.match(ACCOUNT_SUFFIX)?.[1];
+  const counterparty = findCounterparty(text, type);
+  const reference = text.match(UPI_PATH)?.[1] ?? REFERENCE.map((p) => text.match(p)?.[1]).find(Boolean);
+  const date = parseSmsDate(text);
+  const withoutVpas = text.replace(/[\w.-]+@[\w.-]+/g, " ");
+  const bank = SENDERS.find((name) => new RegExp(`\\b${name}\\b`, "i").test(withoutVpas));
+
+  if (suffix) alert.accountSuffix = suffix;
+  if (counterparty) alert.counterparty = counterparty;
+  if (reference) alert.reference = reference;
+  if (date) alert.date = date;
+  if (bank) alert.bank = bank;
+  return alert;
+}
+
+/**
+ * Splits pasted text into messages: at blank lines, or at every line
+ * break when each line is an alert by itself
+ */
+export function splitMessages(text: string): string[] {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .map((chunk) => chunk.trim())
+    .filter(Boolean)
+    .flatMap((chunk) => {
+      const lines = chunk.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+      return lines.length > 1 && lines.every((line) => parseSms(line)) ? lines : [chunk];
+    });
+}
+
+/**
+ * Turns a block of pasted SMS text into rows for the import preview
+ *
+ * The counterparty becomes the title and the reference the note and
+ * external id, so pasting the same alert twice imports it once. Alerts
+ * without a date are dated `today`.
+ *
+ * @param text - One or more pasted messages
+ * @param today - ISO date used when an alert has no date
+ */
+export function parseSmsMessages(text: string, today: string): ParsedStatement {
+  const result: ParsedStatement = { rows: [], errors: [] };
+
+  splitMessages(text).forEach((message, index) => {
+    const line = index + 1;
+    const alert = parseSms(message);
+    if (!alert) {
+      const preview = message.replace(/\s+/g, " ").slice(0, 40);
+      result.errors.push({ line, message: `Not a transaction alert: "${preview}${message.length > 40 ? "…" : ""}"` });
+      return;
+    }
+
+    const row: StatementRow = {
+      line,
+      date: alert.date ?? today,
+      description: alert.counterparty ?? `${alert.bank ?? "Bank"} ${alert.type === "income" ? "credit" : "debit"}`,
+      amount: alert.amount,
+      type: alert.type,
+    };
+    if (alert.reference) {
+      row.note = `Ref ${alert.reference}`;
+      row.externalId = `sms:${alert.reference}`;
+    }
+    if (alert.accountSuffix && !result.account) result.account = alert.accountSuffix;
+    result.rows.push(row);
+  });
+
+  return result;
+}
@@ -0,0 +1,82 @@
+/**
+ * ============================================================================
+ * STATEMENT FILES
+ * ============================================================================
+ *
+ * Helpers shared by every statement format: recognising a file's format
+ * and turning confirmed rows into transaction inputs.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Account } from "@/types/Account";
+import type { StatementFormat, StatementRow } from "@/types/Import";
+import type { TransactionInput } from "@/types/Transaction";
+import { isJournal } from "./journal";
+import { isOfx } from "./ofx";
+import { isQif } from "./qif";
+
+/**
+ * Recognises a statement file by its contents, falling back to the
+ * extension and then to CSV
+ *
+ * @param name - File name (e.g., "statement.qfx")
+ * @param text - File contents
+ */
+export function detectStatementFormat(name: string, text: string): StatementFormat {
+  if (isOfx(text)) return "ofx";
+  if (isQif(text)) return "qif";
+  if (isJournal(text)) return "journal";
+  if (/\.(ofx|qfx)$/i.test(name)) return "ofx";
+  if (/\.qif$/i.test(name)) return "qif";
+  if (/\.(ledger|journal|hledger|beancount|bean)$/i.test(name)) return "journal";
+  return "csv";
+}
+
+/**
+ * Finds the account a statement belongs to: an account whose name
+ * contains the file's account name or the last four digits of its number
+ *
+ * @param accounts - The user's accounts
+ * @param label - Account number or name from the file
+ */
+export function matchAccount(accounts: Account[], label: string | undefined): Account | undefined {
+  if (!label) return undefined;
+  const name = label.trim().toLowerCase();
+  const digits = label.replace(/\D/g, "").slice(-4);
+  return accounts.find((a) => {
+    const candidate = a.name.toLowerCase();
+    return candidate.includes(name) || (digits.length === 4 && candidate.includes(digits));
+  });
+}
+
+/**
+ * Turns confirmed statement rows into transaction inputs. Unless the file
+ * named a category, it is left empty so the rules (or the "Others"
+ * fallback) decide it.
+ *
+ * @param rows - Confirmed rows
+ * @param accountId - Account chosen for the statement
+ * @param accounts - The user's accounts; a row naming one of them uses it instead
+ */
+export const toTransactionInputs = (
+  rows: StatementRow[],
+  accountId: string | undefined,
+  accounts: Account[] = []
+): TransactionInput[] =>
+  rows.map((row) => ({
+    type: row.type,
+    title: row.description,
+    amount: row.amount,
+    currency: row.currency,
+    category: row.category,
+    splits: row.splits,
+    date: row.date,
+    note: row.note,
+    tags: row.tags,
+    accountId: matchAccount(accounts, row.account)?.id ?? accountId,
+    toAccountId: matchAccount(accounts, row.toAccount)?.id,
+    externalId: row.externalId,
+  }));
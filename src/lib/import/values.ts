@@ -0,0 +1,140 @@
+/**
+ * ============================================================================
+ * STATEMENT VALUE PARSING
+ * ============================================================================
+ *
+ * Amount and date parsing shared by the statement importers. Indian bank
+ * exports write amounts with lakh grouping ("1,23,456.78"), currency
+ * markers and Dr/Cr suffixes, and dates day-first in several layouts.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { StatementDateFormat } from "@/types/Import";
+
+// ============================================================================
+// AMOUNTS
+// ============================================================================
+
+/**
+ * Parses a statement amount
+ *
+ * Accepts lakh or western grouping, "₹"/"Rs."/"INR" markers, a leading
+ * minus, accounting parentheses and a trailing "Dr" (negative) or "Cr",
+ * with or without a space before it.
+ *
+ * @param value - Cell text (e.g., "1,23,456.78 Dr")
+ * @returns The signed amount, or null when the cell is empty or not a number
+ */
+export function parseAmount(value: string | undefined): number | null {
+  let text = (value ?? "").trim();
+  if (!text || text === "-") return null;
+
+  let sign = 1;
+  const suffix = text.match(/\s*(dr|cr)\.?$/i);
+  if (suffix) {
+    if (suffix[1].toLowerCase() === "dr") sign = -1;
+    text = text.slice(0, suffix.index).trim();
+  }
+  if (/^\(.*\)$/.test(text)) {
+    sign = -sign;
+    text = text.slice(1, -1);
+  }
+
+  text = text.replace(/₹|rs\.?|inr/gi, "").replace(/[,\s]/g, "");
+  if (text.startsWith("-")) {
+    sign = -sign;
+    text = text.slice(1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+  return sign * Number(text);
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/**
+ * Every supported layout, in the order auto-detection tries them
+ * (day-first layouts win over MM/DD/YYYY when both fit)
+ */
+export const STATEMENT_DATE_FORMATS: StatementDateFormat[] = [
+  "DD/MM/YYYY",
+  "DD-MM-YYYY",
+  "DD.MM.YYYY",
+  "DD/MM/YY",
+  "DD-MM-YY",
+  "DD-MMM-YYYY",
+  "DD MMM YYYY",
+  "DD-MMM-YY",
+  "YYYY-MM-DD",
+  "MM/DD/YYYY",
+];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Pattern and field order for each layout
+ */
+const DATE_PATTERNS: Record<StatementDateFormat, { pattern: RegExp; order: ["d" | "m" | "y", "d" | "m" | "y", "d" | "m" | "y"] }> = {
+  "DD/MM/YYYY": { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ["d", "m", "y"] },
+  "DD-MM-YYYY": { pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})$/, order: ["d", "m", "y"] },
+  "DD.MM.YYYY": { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, order: ["d", "m", "y"] },
+  "DD/MM/YY": { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2})$/, order: ["d", "m", "y"] },
+  "DD-MM-YY": { pattern: /^(\d{1,2})-(\d{1,2})-(\d{2})$/, order: ["d", "m", "y"] },
+  "DD-MMM-YYYY": { pattern: /^(\d{1,2})-([a-z]{3})-(\d{4})$/i, order: ["d", "m", "y"] },
+  "DD MMM YYYY": { pattern: /^(\d{1,2}) ([a-z]{3})[a-z]* (\d{4})$/i, order: ["d", "m", "y"] },
+  "DD-MMM-YY": { pattern: /^(\d{1,2})-([a-z]{3})-(\d{2})$/i, order: ["d", "m", "y"] },
+  "YYYY-MM-DD": { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/, order: ["y", "m", "d"] },
+  "MM/DD/YYYY": { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ["m", "d", "y"] },
+};
+
+/**
+ * Builds an ISO date from parts, rejecting impossible dates
+ *
+ * @returns "YYYY-MM-DD" or null
+ */
+export function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a statement date in a known layout. A time after the date
+ * (e.g., "05/03/2026 14:22") is ignored.
+ *
+ * @returns "YYYY-MM-DD", or null when the value does not fit the layout
+ */
+export function parseStatementDate(value: string, format: StatementDateFormat): string | null {
+  const { pattern, order } = DATE_PATTERNS[format];
+  const match = value.trim().replace(/[ T]\d{1,2}:\d{2}(:\d{2})?.*$/, "").match(pattern);
+  if (!match) return null;
+
+  const parts: Record<string, number> = {};
+  order.forEach((field, index) => {
+    const raw = match[index + 1];
+    parts[field] = field === "m" && /[a-z]/i.test(raw) ? MONTHS.indexOf(raw.toLowerCase()) + 1 : Number(raw);
+  });
+  if (!parts.m) return null;
+  return toIsoDate(parts.y, parts.m, parts.d);
+}
+
+/**
+ * Picks the first layout that reads every sample value
+ *
+ * @param samples - Date cells from the file
+ * @returns The detected layout, or null when none fits them all
+ */
+export function detectDateFormat(samples: string[]): StatementDateFormat | null {
+  const values = samples.map((s) => s.trim()).filter(Boolean);
+  if (values.length === 0) return null;
+  return STATEMENT_DATE_FORMATS.find((format) => values.every((v) => parseStatementDate(v, format))) ?? null;
+}
@@ -0,0 +1,119 @@
+/**
+ * ============================================================================
+ * INSIGHT GENERATOR
+ * ============================================================================
+ *
+ * Rule-based financial insights computed from the user's own ledger and
+ * budgets. Runs entirely on the data it is given, so the same rules can be
+ * served by the local mock backend or a real server.
+ *
+ * Rules:
+ * - Warning for every budget that is over (or within 10% of) its limit
+ * - Achievement when this month's savings rate is 20% or higher
+ * - Tip pointing at the largest expense category without a budget
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { endOfMonth, startOfMonth } from "date-fns";
+import { buildCategoryBreakdown, filterByDate, sumTotals } from "@/lib/analytics";
+import { categoryKey, rollUpCategories } from "@/lib/categories";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { expandSplits } from "@/lib/splits";
+import type { Budget } from "@/types/Budget";
+import type { Category } from "@/types/Category";
+import type { Insight } from "@/types/Insight";
+import type { Transaction } from "@/types/Transaction";
+
+/**
+ * Savings rate (percent) that earns an achievement
+ */
+const GOOD_SAVINGS_RATE = 20;
+
+/**
+ * Share of a budget (percent) at which a warning is raised
+ */
+const BUDGET_WARNING_THRESHOLD = 90;
+
+/**
+ * Generates insights for the current month
+ *
+ * @param transactions - The user's full ledger
+ * @param budgets - The user's budget categories
+ * @param catalog - Category catalog, to count subcategories under their parent
+ * @param now - Reference date (defaults to today)
+ * @param currency - Currency the amounts are in (defaults to the base currency)
+ * @returns Insights ordered warnings first, then achievements, then tips
+ */
+export function generateInsights(
+  transactions: Transaction[],
+  budgets: Budget[],
+  catalog: Category[] = [],
+  now: Date = new Date(),
+  currency?: string
+): Insight[] {
+  const insights: Insight[] = [];
+  const month = filterByDate(transactions, startOfMonth(now), endOfMonth(now));
+
+  // Budget warnings
+  for (const budget of budgets) {
+    if (budget.limit <= 0) continue;
+    const used = (budget.spent / budget.limit) * 100;
+    if (used > 100) {
+      insights.push({
+        id: `budget-over-${budget.id}`,
+        type: "warning",
+        title: `${budget.category} is over budget`,
+        description: `You've spent ${formatCurrency(budget.spent, currency)} on ${budget.category}, ${Math.round(used - 100)}% above your budget.`,
+      });
+    } else if (used >= BUDGET_WARNING_THRESHOLD) {
+      insights.push({
+        id: `budget-near-${budget.id}`,
+        type: "warning",
+        title: `${budget.category} budget almost used`,
+        description: `Only ${formatCurrency(budget.limit - budget.spent, currency)} left of your ${budget.category} budget this month.`,
+      });
+    }
+  }
+
+  // Savings achievement
+  const totals = sumTotals(month);
+  if (totals.income > 0) {
+    const rate = Math.round(((totals.income - totals.expense) / totals.income) * 100);
+    if (rate >= GOOD_SAVINGS_RATE) {
+      insights.push({
+        id: "savings-rate",
+        type: "achievement",
+        title: "Great savings this month!",
+        description: `You've kept ${rate}% of your income this month. Keep it up!`,
+      });
+    }
+  }
+
+  // Tip for the largest unbudgeted category, counting split lines and
+  // subcategories the way the spending charts do
+  const budgeted = new Set(budgets.map((b) => categoryKey(b.category)));
+  const topUnbudgeted = buildCategoryBreakdown(rollUpCategories(expandSplits(month), catalog))
+    .find((c) => !budgeted.has(categoryKey(c.name)));
+  if (topUnbudgeted) {
+    insights.push({
+      id: `tip-budget-${topUnbudgeted.name}`,
+      type: "tip",
+      title: "Smart tip for you",
+      description: `${topUnbudgeted.name} is ${topUnbudgeted.percentage}% of your spending this month (${formatCurrency(topUnbudgeted.amount, currency)}). Setting a budget for it can help.`,
+    });
+  }
+
+  if (transactions.length === 0) {
+    insights.push({
+      id: "tip-get-started",
+      type: "tip",
+      title: "Start tracking your money",
+      description: "Record a few incomes and expenses and personalised insights will appear here.",
+    });
+  }
+
+  return insights;
+}
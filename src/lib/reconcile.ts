@@ -0,0 +1,141 @@
+/**
+ * ============================================================================
+ * STATEMENT RECONCILIATION
+ * ============================================================================
+ *
+ * Matching an account against a bank statement. The user enters the
+ * statement's closing date and balance and ticks off the entries that
+ * appear on it; the cleared balance is the account's already reconciled
+ * balance plus the ticked entries. When it equals the statement balance the
+ * ticked entries are locked as reconciled. Amounts are in the account's
+ * currency; entries recorded in another one are converted at their date.
+ *
+ * While a gap remains, suggestions point at what may explain it:
+ * - an unticked entry whose amount is exactly the gap
+ * - a ticked entry that looks like a duplicate of another one
+ * - otherwise, a missing credit or debit of the gap
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { accountChange, touchesAccount } from "@/lib/accounts";
+import { findDuplicatePairs } from "@/lib/duplicates";
+import { roundAmount } from "@/lib/export/data";
+import type { Account } from "@/types/Account";
+import type { ExchangeRate } from "@/types/Currency";
+import type { Transaction } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Something that may explain the gap between the cleared balance and the
+ * statement
+ */
+export type ReconcileSuggestion =
+  | { kind: "unticked"; transaction: Transaction }                   // Entry on the statement not ticked yet
+  | { kind: "duplicate"; transaction: Transaction; of: Transaction; closesGap: boolean } // Ticked entry recorded twice
+  | { kind: "missing"; direction: "credit" | "debit"; amount: number }; // Entry not recorded at all
+
+/**
+ * Amounts closer than this (half a paisa) are treated as equal
+ */
+const TOLERANCE = 0.005;
+
+// ============================================================================
+// BALANCES
+// ============================================================================
+
+/**
+ * Balance made up of the opening balance and every reconciled entry
+ */
+export function reconciledBalance(account: Account, transactions: Transaction[], rates: ExchangeRate[] = []): number {
+  return transactions
+    .filter((t) => t.reconciledAt && touchesAccount(t, account.id))
+    .reduce((sum, t) => sum + accountChange(t, account, rates), account.openingBalance);
+}
+
+/**
+ * Entries that can be ticked off against a statement: not yet reconciled,
+ * recorded against the account and dated on or before the closing date,
+ * oldest first as on the statement
+ */
+export function reconcileCandidates(account: Account, transactions: Transaction[], statementDate: string): Transaction[] {
+  return transactions
+    .filter((t) => !t.reconciledAt && touchesAccount(t, account.id) && t.date <= statementDate)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Reconciled balance plus the entries ticked off so far
+ *
+ * @param clearedIds - Ids of the ticked entries
+ * @param rates - Exchange rates for entries in another currency
+ */
+export function clearedBalance(
+  account: Account,
+  transactions: Transaction[],
+  clearedIds: ReadonlySet<string>,
+  rates: ExchangeRate[] = []
+): number {
+  const ticked = transactions.filter((t) => !t.reconciledAt && clearedIds.has(t.id) && touchesAccount(t, account.id));
+  return roundAmount(
+    ticked.reduce((sum, t) => sum + accountChange(t, account, rates), reconciledBalance(account, transactions, rates))
+  );
+}
+
+/**
+ * Whether the cleared balance matches the statement
+ */
+export const isBalanced = (statementBalance: number, cleared: number): boolean =>
+  Math.abs(statementBalance - cleared) < TOLERANCE;
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+/**
+ * Suggests what may explain the gap between the statement and the cleared
+ * balance
+ *
+ * @param account - Account being reconciled
+ * @param candidates - Entries that can be ticked (see reconcileCandidates)
+ * @param clearedIds - Ids of the ticked entries
+ * @param gap - Statement balance minus cleared balance
+ * @param rates - Exchange rates for entries in another currency
+ * @returns Nothing when there is no gap; otherwise exact matches first, then
+ *          duplicates, then the missing entry that would close it
+ */
+export function suggestGapFixes(
+  account: Account,
+  candidates: Transaction[],
+  clearedIds: ReadonlySet<string>,
+  gap: number,
+  rates: ExchangeRate[] = []
+): ReconcileSuggestion[] {
+  if (Math.abs(gap) < TOLERANCE) return [];
+  const closes = (change: number) => Math.abs(change - gap) < TOLERANCE;
+
+  const unticked: ReconcileSuggestion[] = candidates
+    .filter((t) => !clearedIds.has(t.id) && closes(accountChange(t, account, rates)))
+    .map((transaction) => ({ kind: "unticked", transaction }));
+
+  // Unticking the later copy of a ticked pair removes its amount again
+  const duplicates: ReconcileSuggestion[] = findDuplicatePairs(candidates)
+    .filter(({ duplicate }) => clearedIds.has(duplicate.id))
+    .map(({ original, duplicate }) => ({
+      kind: "duplicate",
+      transaction: duplicate,
+      of: original,
+      closesGap: closes(-accountChange(duplicate, account, rates)),
+    }));
+
+  return [
+    ...unticked,
+    ...duplicates,
+    { kind: "missing", direction: gap > 0 ? "credit" : "debit", amount: roundAmount(Math.abs(gap)) },
+  ];
+}
@@ -0,0 +1,243 @@
+/**
+ * ============================================================================
+ * RECURRENCE SCHEDULES
+ * ============================================================================
+ *
+ * Works out when a recurring template falls due. Occurrences are counted
+ * from the start date (the nth one is start + n x interval), so a monthly
+ * schedule starting on the 31st returns to the 31st after a short month
+ * instead of drifting to the 28th.
+ *
+ * "Last working day" schedules fall on the last Monday-Friday of the
+ * month; public holidays are not known to the app.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { addDays, addMonths, addWeeks, addYears, endOfMonth, format, isWeekend, parseISO, subDays } from "date-fns";
+import type {
+  RecurrenceFrequency,
+  RecurrenceSchedule,
+  RecurringTransaction,
+  UpcomingOccurrence,
+} from "@/types/Recurring";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * ISO date (YYYY-MM-DD) of a local date
+ */
+const isoDate = (date: Date): string => format(date, "yyyy-MM-dd");
+
+/**
+ * Whether the schedule falls on the last working day of its months
+ */
+const onLastWorkingDay = (schedule: RecurrenceSchedule): boolean =>
+  Boolean(schedule.lastWorkingDay) && (schedule.frequency === "monthly" || schedule.frequency === "yearly");
+
+/**
+ * Last Monday-Friday of the month a date is in
+ */
+export function lastWorkingDay(date: Date): Date {
+  let day = endOfMonth(date);
+  while (isWeekend(day)) day = subDays(day, 1);
+  return day;
+}
+
+/**
+ * The nth occurrence of a schedule (0 is the first), ignoring its end date
+ */
+function nthOccurrence(schedule: RecurrenceSchedule, n: number): string {
+  const start = parseISO(schedule.startDate);
+  const step = n * schedule.interval;
+
+  if (onLastWorkingDay(schedule)) {
+    return isoDate(lastWorkingDay(addMonths(start, schedule.frequency === "yearly" ? step * 12 : step)));
+  }
+  switch (schedule.frequency) {
+    case "daily":
+      return isoDate(addDays(start, step));
+    case "weekly":
+      return isoDate(addWeeks(start, step));
+    case "monthly":
+      return isoDate(addMonths(start, step));
+    case "yearly":
+      return isoDate(addYears(start, step));
+  }
+}
+
+// ============================================================================
+// OCCURRENCES
+// ============================================================================
+
+/**
+ * Occurrences after one date, up to and including another
+ *
+ * @param schedule - The schedule
+ * @param after - Exclusive lower bound (e.g., the last posted date); none starts at the beginning
+ * @param until - Inclusive upper bound (YYYY-MM-DD)
+ * @returns ISO dates in order, never before the start or after the end date
+ */
+export function occurrencesBetween(schedule: RecurrenceSchedule, after: string | undefined, until: string): string[] {
+  const last = schedule.endDate && schedule.endDate < until ? schedule.endDate : until;
+  const dates: string[] = [];
+  for (let n = 0; ; n++) {
+    const date = nthOccurrence(schedule, n);
+    if (date > last) return dates;
+    // A last-working-day occurrence can fall before a mid-month start
+    if (date >= schedule.startDate && (!after || date > after)) dates.push(date);
+  }
+}
+
+/**
+ * First occurrence after a date, or undefined once the schedule has ended
+ *
+ * @param schedule - The schedule
+ * @param after - Exclusive lower bound; none returns the first occurrence
+ */
+export function nextOccurrence(schedule: RecurrenceSchedule, after?: string): string | undefined {
+  for (let n = 0; ; n++) {
+    const date = nthOccurrence(schedule, n);
+    if (schedule.endDate && date > schedule.endDate) return undefined;
+    if (date >= schedule.startDate && (!after || date > after)) return date;
+  }
+}
+
+/**
+ * Occurrences of a template that are due and not yet posted
+ *
+ * @param template - The recurring template
+ * @param today - The device's date (YYYY-MM-DD)
+ */
+export const dueOccurrences = (template: RecurringTransaction, today: string): string[] =>
+  template.paused ? [] : occurrencesBetween(template.schedule, template.lastPostedDate, today);
+
+/**
+ * Occurrences from today up to a date across every active template, for
+ * the forecast list
+ *
+ * @param templates - Recurring templates
+ * @param today - The device's date (YYYY-MM-DD)
+ * @param until - Last date to include
+ * @returns Occurrences in date order
+ */
+export function upcomingOccurrences(
+  templates: RecurringTransaction[],
+  today: string,
+  until: string
+): UpcomingOccurrence[] {
+  const yesterday = isoDate(subDays(parseISO(today), 1));
+  return templates
+    .filter((t) => !t.paused)
+    .flatMap((t) => {
+      const after = t.lastPostedDate && t.lastPostedDate > yesterday ? t.lastPostedDate : yesterday;
+      return occurrencesBetween(t.schedule, after, until).map((date) => ({
+        recurringId: t.id,
+        date,
+        title: t.title,
+        type: t.type,
+        amount: t.amount,
+        currency: t.currency,
+        category: t.category,
+      }));
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+}
+
+// ============================================================================
+// DESCRIPTIONS
+// ============================================================================
+
+/**
+ * Unit names for "every N ..." descriptions
+ */
+const UNITS: Record<RecurrenceSchedule["frequency"], [string, string]> = {
+  daily: ["day", "days"],
+  weekly: ["week", "weeks"],
+  monthly: ["month", "months"],
+  yearly: ["year", "years"],
+};
+
+/**
+ * Short description of a schedule
+ * (e.g., "Every month on the 5th", "Every 2 weeks on Friday",
+ * "Every month on the last working day, until 31 Dec 2026")
+ */
+export function describeSchedule(schedule: RecurrenceSchedule): string {
+  const start = parseISO(schedule.startDate);
+  const [one, many] = UNITS[schedule.frequency];
+  const every = schedule.interval === 1 ? `Every ${one}` : `Every ${schedule.interval} ${many}`;
+
+  let when = "";
+  if (onLastWorkingDay(schedule)) {
+    when = schedule.frequency === "yearly"
+      ? ` on the last working day of ${format(start, "MMMM")}`
+      : " on the last working day";
+  } else if (schedule.frequency === "weekly") {
+    when = ` on ${format(start, "EEEE")}`;
+  } else if (schedule.frequency === "monthly") {
+    when = ` on the ${format(start, "do")}`;
+  } else if (schedule.frequency === "yearly") {
+    when = ` on ${format(start, "d MMM")}`;
+  }
+
+  const until = schedule.endDate ? `, until ${format(parseISO(schedule.endDate), "d MMM yyyy")}` : "";
+  return `${every}${when}${until}`;
+}
+
+// ============================================================================
+// FORM DRAFTS
+// ============================================================================
+
+/**
+ * Schedule as edited in a form; converted with `toSchedule`
+ */
+export interface ScheduleDraft {
+  frequency: RecurrenceFrequency;
+  interval: string;          // Text of the "every N" input
+  lastWorkingDay: boolean;
+  endDate: string;           // Empty for no end
+}
+
+/**
+ * A monthly schedule on the start date with no end
+ */
+export const DEFAULT_SCHEDULE: ScheduleDraft = {
+  frequency: "monthly",
+  interval: "1",
+  lastWorkingDay: false,
+  endDate: "",
+};
+
+/**
+ * Builds a schedule from a form draft
+ *
+ * @returns The schedule, or null when the interval is not a whole number
+ *          from 1 to 365 or the end date is before the start
+ */
+export function toSchedule(draft: ScheduleDraft, startDate: string): RecurrenceSchedule | null {
+  const interval = Number(draft.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) return null;
+  if (draft.endDate && draft.endDate < startDate) return null;
+  return {
+    frequency: draft.frequency,
+    interval,
+    startDate,
+    endDate: draft.endDate || undefined,
+    lastWorkingDay: (draft.frequency === "monthly" || draft.frequency === "yearly") && draft.lastWorkingDay,
+  };
+}
+
+/**
+ * Form draft of an existing schedule
+ */
+export const toScheduleDraft = (schedule: RecurrenceSchedule): ScheduleDraft => ({
+  frequency: schedule.frequency,
+  interval: String(schedule.interval),
+  lastWorkingDay: Boolean(schedule.lastWorkingDay),
+  endDate: schedule.endDate ?? "",
+});
@@ -0,0 +1,90 @@
+/**
+ * ============================================================================
+ * CATEGORIZATION RULES
+ * ============================================================================
+ *
+ * Matching and application of auto-categorization rules. Rules run in
+ * priority order on every new or imported transaction:
+ *
+ * - The first matching rule with a category sets it, unless the user
+ *   already picked one
+ * - Tags from every matching rule are added
+ * - The first matching rule with a note sets it, unless there is one
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Rule, RuleInput } from "@/types/Rule";
+import type { Transaction, TransactionInput } from "@/types/Transaction";
+
+/**
+ * Category given to transactions no rule could categorize
+ */
+export const FALLBACK_CATEGORY = "Others";
+
+/**
+ * Orders rules the way they run: by priority, then oldest first
+ */
+export const byPriority = (a: Rule, b: Rule): number =>
+  a.priority - b.priority || a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Checks whether a transaction meets every condition of a rule
+ *
+ * @param rule - Rule to test
+ * @param t - New or stored transaction
+ */
+export function matchesRule(rule: Rule, t: TransactionInput): boolean {
+  const { titleContains, noteContains, minAmount, maxAmount, accountId, type } = rule.conditions;
+  const contains = (value: string | undefined, needle: string) =>
+    (value ?? "").toLowerCase().includes(needle.trim().toLowerCase());
+
+  if (titleContains && !contains(t.title, titleContains)) return false;
+  if (noteContains && !contains(t.note, noteContains)) return false;
+  if (minAmount !== undefined && t.amount < minAmount) return false;
+  if (maxAmount !== undefined && t.amount > maxAmount) return false;
+  if (accountId && t.accountId !== accountId) return false;
+  if (type && t.type !== type) return false;
+  return true;
+}
+
+/**
+ * Applies enabled rules to a transaction that is about to be saved
+ *
+ * @param rules - All rules, in any order
+ * @param input - Transaction as entered or imported
+ * @returns The input with rule actions applied; the category is only
+ *          filled in when it was left empty
+ */
+export function applyRules(rules: Rule[], input: TransactionInput): TransactionInput {
+  const result = { ...input };
+  const tags = new Set(input.tags ?? []);
+
+  for (const rule of rules.filter((r) => r.enabled).sort(byPriority)) {
+    if (!matchesRule(rule, input)) continue;
+    const { category, tags: ruleTags, note } = rule.actions;
+    if (category && !result.category?.trim()) result.category = category;
+    if (note && !result.note?.trim()) result.note = note;
+    ruleTags?.forEach((tag) => tags.add(tag));
+  }
+
+  if (tags.size > 0) result.tags = [...tags];
+  return result;
+}
+
+/**
+ * Drafts a rule that would categorize future transactions like this one:
+ * same title, same type, same category and tags
+ */
+export function ruleFromTransaction(t: Transaction): RuleInput {
+  return {
+    name: t.title,
+    conditions: { titleContains: t.title, type: t.type === "transfer" ? undefined : t.type },
+    actions: {
+      category: t.category,
+      ...(t.tags && t.tags.length > 0 ? { tags: t.tags } : {}),
+    },
+  };
+}
@@ -0,0 +1,294 @@
+/**
+ * ============================================================================
+ * TRANSACTION SEARCH
+ * ============================================================================
+ *
+ * Parser and matcher for the search bar on the transaction history. A query
+ * mixes free text (matched against title and note) with field filters:
+ *
+ *   category:Food   type:expense   type:transfer   amount>1000   amount<=500   amount:250
+ *   after:2026-01-01   before:2026-02-01   tag:trip
+ *
+ * - Values containing spaces can be quoted: category:"Food & Dining"
+ * - category: resolves against the catalog's category names (exact, then
+ *   prefix, then substring match) and falls back to a substring match;
+ *   a parent category also matches its subcategories
+ * - after: is inclusive, before: is exclusive; both accept YYYY-MM too
+ * - amount filters compare the amount in the base currency
+ * - Repeated category:, type: or tag: filters are alternatives (any may
+ *   match); every other term must match
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { format, isValid, parseISO } from "date-fns";
+import { allCategoryNames, categoryKey, findCategory } from "@/lib/categories";
+import { DEFAULT_CURRENCY_CONTEXT, toBase } from "@/lib/currency";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { isSplit } from "@/lib/splits";
+import type { Category } from "@/types/Category";
+import type { CurrencyContext } from "@/types/Currency";
+import type { Transaction, TransactionType } from "@/types/Transaction";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Comparison used by amount filters
+ */
+export type AmountOperator = ">" | ">=" | "<" | "<=" | "=";
+
+/**
+ * A single parsed field filter; `raw` is the token as typed
+ */
+export type SearchFilter =
+  | { kind: "category"; value: string; exact: boolean; raw: string }
+  | { kind: "type"; value: TransactionType; raw: string }
+  | { kind: "amount"; operator: AmountOperator; value: number; raw: string }
+  | { kind: "after"; value: string; raw: string }
+  | { kind: "before"; value: string; raw: string }
+  | { kind: "tag"; value: string; raw: string };
+
+/**
+ * A parsed search query
+ */
+export interface SearchQuery {
+  text: string[];            // Lowercase free-text terms
+  filters: SearchFilter[];   // Field filters in the order typed
+  invalid: string[];         // Filter tokens whose value could not be understood
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Splits a query into tokens, keeping quoted values together
+ */
+export function tokenize(query: string): string[] {
+  return query.match(/\S+?:"[^"]*"?|"[^"]*"?|\S+/g) ?? [];
+}
+
+/**
+ * Removes surrounding quotes from a value
+ */
+const unquote = (value: string): string => value.replace(/^"|"$/g, "");
+
+/**
+ * Normalizes a date value to YYYY-MM-DD, accepting YYYY-MM as the 1st;
+ * days that do not exist (e.g., 2026-02-30 or 2026-13) are rejected
+ */
+const parseDateValue = (value: string): string | null => {
+  const date = /^\d{4}-\d{2}$/.test(value) ? `${value}-01` : value;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  return isValid(parseISO(date)) ? date : null;
+};
+
+/**
+ * Resolves a category filter value to a known category name
+ */
+const resolveCategory = (value: string, names: string[]): { value: string; exact: boolean } => {
+  const needle = value.toLowerCase();
+  const match =
+    names.find((n) => n.toLowerCase() === needle) ??
+    names.find((n) => n.toLowerCase().startsWith(needle)) ??
+    names.find((n) => n.toLowerCase().includes(needle));
+  return match ? { value: match, exact: true } : { value, exact: false };
+};
+
+/**
+ * Parses one field token, or returns null if it is not a filter
+ *
+ * @returns The filter, "invalid" for a known field with a bad value, or
+ *          null when the token should be treated as free text
+ */
+function parseFilter(token: string, categoryNames: string[]): SearchFilter | "invalid" | null {
+  const amount = token.match(/^amount(>=|<=|>|<|=|:)(.*)$/i);
+  if (amount) {
+    const value = Number(amount[2].replace(/[₹,]/g, ""));
+    if (!amount[2] || Number.isNaN(value)) return "invalid";
+    const operator = (amount[1] === ":" ? "=" : amount[1]) as AmountOperator;
+    return { kind: "amount", operator, value, raw: token };
+  }
+
+  const field = token.match(/^(category|type|after|before|tag):(.*)$/i);
+  if (!field) return null;
+
+  const value = unquote(field[2]).trim();
+  if (!value) return "invalid";
+
+  switch (field[1].toLowerCase()) {
+    case "category":
+      return { kind: "category", ...resolveCategory(value, categoryNames), raw: token };
+    case "type": {
+      const type = value.toLowerCase();
+      return type === "income" || type === "expense" || type === "transfer"
+        ? { kind: "type", value: type, raw: token }
+        : "invalid";
+    }
+    case "after":
+    case "before": {
+      const date = parseDateValue(value);
+      if (!date) return "invalid";
+      return { kind: field[1].toLowerCase() as "after" | "before", value: date, raw: token };
+    }
+    default:
+      return { kind: "tag", value: value.toLowerCase(), raw: token };
+  }
+}
+
+/**
+ * Parses a search query
+ *
+ * @param query - Text typed into the search bar
+ * @param categoryNames - Names category: values resolve against
+ *                        (defaults to the built-in categories)
+ */
+export function parseSearch(query: string, categoryNames: string[] = allCategoryNames()): SearchQuery {
+  const parsed: SearchQuery = { text: [], filters: [], invalid: [] };
+
+  for (const token of tokenize(query)) {
+    const filter = parseFilter(token, categoryNames);
+    if (filter === "invalid") parsed.invalid.push(token);
+    else if (filter) parsed.filters.push(filter);
+    else {
+      const term = unquote(token).toLowerCase();
+      if (term) parsed.text.push(term);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Removes one token (e.g., a dismissed filter chip) from a query string
+ */
+export function removeToken(query: string, raw: string): string {
+  const tokens = tokenize(query);
+  const index = tokens.indexOf(raw);
+  if (index !== -1) tokens.splice(index, 1);
+  return tokens.join(" ");
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Category names a transaction counts towards: each line's for a split
+ */
+const categoriesOf = (t: Transaction): string[] =>
+  isSplit(t) ? t.splits.map((line) => line.category) : [t.category];
+
+/**
+ * Checks an exact category filter, counting subcategories of the named
+ * category as matches
+ */
+function matchesCategory(t: Transaction, name: string, catalog: Category[]): boolean {
+  const key = categoryKey(name);
+  return categoriesOf(t).some((category) => {
+    if (categoryKey(category) === key) return true;
+    const parentId = findCategory(catalog, category, t.type)?.parentId;
+    const parent = parentId && catalog.find((c) => c.id === parentId);
+    return Boolean(parent) && categoryKey(parent.name) === key;
+  });
+}
+
+/**
+ * Checks a single filter against a transaction
+ */
+function matchesFilter(t: Transaction, filter: SearchFilter, catalog: Category[]): boolean {
+  switch (filter.kind) {
+    case "category":
+      return filter.exact
+        ? matchesCategory(t, filter.value, catalog)
+        : categoriesOf(t).some((category) => category.toLowerCase().includes(filter.value.toLowerCase()));
+    case "type":
+      return t.type === filter.value;
+    case "tag":
+      return (t.tags ?? []).includes(filter.value);
+    case "after":
+      return t.date >= filter.value;
+    case "before":
+      return t.date < filter.value;
+    case "amount":
+      switch (filter.operator) {
+        case ">": return t.amount > filter.value;
+        case ">=": return t.amount >= filter.value;
+        case "<": return t.amount < filter.value;
+        case "<=": return t.amount <= filter.value;
+        default: return t.amount === filter.value;
+      }
+  }
+}
+
+/**
+ * Filter kinds where repeated filters are alternatives rather than
+ * additional conditions
+ */
+const ANY_OF_KINDS = new Set<SearchFilter["kind"]>(["category", "type", "tag"]);
+
+/**
+ * Checks whether a transaction satisfies a parsed query
+ *
+ * @param catalog - Category catalog used to match subcategories
+ */
+export function matchesSearch(t: Transaction, query: SearchQuery, catalog: Category[] = []): boolean {
+  const haystack = `${t.title} ${t.note ?? ""}`.toLowerCase();
+  if (!query.text.every((term) => haystack.includes(term))) return false;
+
+  const anyOf = new Map<SearchFilter["kind"], boolean>();
+  for (const filter of query.filters) {
+    const matched = matchesFilter(t, filter, catalog);
+    if (ANY_OF_KINDS.has(filter.kind)) anyOf.set(filter.kind, (anyOf.get(filter.kind) ?? false) || matched);
+    else if (!matched) return false;
+  }
+  return [...anyOf.values()].every(Boolean);
+}
+
+/**
+ * Filters a ledger with a raw query string
+ *
+ * @param catalog - Category catalog; when given, category: values resolve
+ *                  against it instead of the built-in names
+ * @param currency - Base currency and rates, for the amount filters
+ * @returns Matching transactions as stored, in their own currency
+ */
+export function searchTransactions(
+  transactions: Transaction[],
+  query: string,
+  catalog?: Category[],
+  currency: CurrencyContext = DEFAULT_CURRENCY_CONTEXT
+): Transaction[] {
+  const parsed = parseSearch(query, catalog ? [...new Set(catalog.map((c) => c.name))] : undefined);
+  if (parsed.text.length === 0 && parsed.filters.length === 0) return transactions;
+  const inBase = toBase(transactions, currency);
+  return transactions.filter((_, index) => matchesSearch(inBase[index], parsed, catalog));
+}
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+/**
+ * Human readable label for a filter chip
+ */
+export function describeFilter(filter: SearchFilter): string {
+  const day = (value: string) => format(parseISO(value), "d MMM yyyy");
+  switch (filter.kind) {
+    case "category":
+      return filter.value;
+    case "type":
+      return filter.value === "income" ? "Income" : filter.value === "expense" ? "Expenses" : "Transfers";
+    case "tag":
+      return `#${filter.value}`;
+    case "after":
+      return `From ${day(filter.value)}`;
+    case "before":
+      return `Before ${day(filter.value)}`;
+    case "amount":
+      return `Amount ${filter.operator} ${formatCurrency(filter.value)}`;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * ============================================================================
+ * SPLIT TRANSACTIONS
+ * ============================================================================
+ *
+ * Helpers for transactions whose amount is shared across several categories
+ * (a supermarket bill covering groceries, household items and a gift).
+ * Category totals expand a split transaction into one entry per line, so
+ * each part counts under its own category in charts and budgets.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Transaction, TransactionSplit } from "@/types/Transaction";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Largest difference tolerated between the lines and the total,
+ * absorbing floating-point error on amounts with two decimals
+ */
+const SPLIT_TOLERANCE = 0.005;
+
+// ============================================================================
+// LEDGER HELPERS
+// ============================================================================
+
+/**
+ * Whether a transaction is split across categories
+ */
+export const isSplit = (t: Pick<Transaction, "splits">): boolean => Boolean(t.splits && t.splits.length > 0);
+
+/**
+ * Sum of the split lines' amounts
+ */
+export const splitTotal = (splits: TransactionSplit[]): number =>
+  splits.reduce((sum, line) => sum + line.amount, 0);
+
+/**
+ * Whether split lines add up to the transaction amount
+ */
+export const splitsBalance = (splits: TransactionSplit[], amount: number): boolean =>
+  Math.abs(splitTotal(splits) - amount) < SPLIT_TOLERANCE;
+
+/**
+ * Replaces each split transaction with one entry per line, carrying the
+ * line's category, amount and note. Used before category totals so every
+ * line counts under its own category; other transactions pass through.
+ */
+export function expandSplits(transactions: Transaction[]): Transaction[] {
+  if (!transactions.some(isSplit)) return transactions;
+  return transactions.flatMap((t) =>
+    isSplit(t)
+      ? t.splits.map((line) => ({ ...t, category: line.category, amount: line.amount, note: line.note ?? t.note, splits: undefined }))
+      : [t]
+  );
+}
+
+// ============================================================================
+// FORM DRAFTS
+// ============================================================================
+
+/**
+ * Split line as edited in a form
+ */
+export interface SplitDraft {
+  category: string;
+  amount: string;            // Text of the amount input
+  note: string;
+}
+
+/**
+ * Form drafts of a transaction's split lines
+ */
+export const toSplitDrafts = (splits: TransactionSplit[]): SplitDraft[] =>
+  splits.map((line) => ({ category: line.category, amount: line.amount.toString(), note: line.note ?? "" }));
+
+/**
+ * Builds split lines from form drafts
+ *
+ * @returns The lines, or null unless there are at least two, each with a
+ *          category and a positive amount
+ */
+export function toSplits(drafts: SplitDraft[]): TransactionSplit[] | null {
+  const lines = drafts.map((draft) => ({
+    category: draft.category,
+    amount: parseFloat(draft.amount),
+    note: draft.note.trim() || undefined,
+  }));
+  if (lines.length < 2 || lines.some((line) => !line.category || !(line.amount > 0))) return null;
+  return lines;
+}
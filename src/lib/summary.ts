@@ -0,0 +1,136 @@
+/**
+ * ============================================================================
+ * DASHBOARD SUMMARY
+ * ============================================================================
+ *
+ * Computes the balance overview shown at the top of the dashboard. Shared by
+ * the in-app mock backend and the REST server so both report the same
+ * numbers.
+ *
+ * Periods are whole calendar weeks (Monday-Sunday), months or years. The
+ * current period is compared with the complete period before it.
+ *
+ * Every figure is in the base currency; entries in other currencies are
+ * converted at the rate for their date.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import {
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  subMonths,
+  subWeeks,
+  subYears,
+} from "date-fns";
+import { accountBalances } from "@/lib/accounts";
+import { filterByDate, sumTotals, toDateKey } from "@/lib/analytics";
+import { DEFAULT_CURRENCY_CONTEXT, toBase } from "@/lib/currency";
+import type { Account } from "@/types/Account";
+import type { CurrencyContext } from "@/types/Currency";
+import type { DashboardSummary, PeriodTotals, SummaryPeriod } from "@/types/Summary";
+import type { Transaction } from "@/types/Transaction";
+
+/**
+ * Periods offered by the balance card, in display order
+ */
+export const SUMMARY_PERIODS: SummaryPeriod[] = ["week", "month", "year"];
+
+/**
+ * Rounds to one decimal place
+ */
+const roundOne = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Returns the first and last day of the period containing `date`
+ */
+export function getPeriodBounds(period: SummaryPeriod, date: Date): { start: Date; end: Date } {
+  switch (period) {
+    case "week":
+      return { start: startOfWeek(date, { weekStartsOn: 1 }), end: endOfWeek(date, { weekStartsOn: 1 }) };
+    case "year":
+      return { start: startOfYear(date), end: endOfYear(date) };
+    default:
+      return { start: startOfMonth(date), end: endOfMonth(date) };
+  }
+}
+
+/**
+ * Returns a date inside the period before the one containing `date`
+ */
+function previousPeriodDate(period: SummaryPeriod, date: Date): Date {
+  if (period === "week") return subWeeks(date, 1);
+  if (period === "year") return subYears(date, 1);
+  return subMonths(date, 1);
+}
+
+/**
+ * Totals income and expenses between two dates (inclusive)
+ */
+function totalsBetween(transactions: Transaction[], start: Date, end: Date): PeriodTotals {
+  const { income, expense } = sumTotals(filterByDate(transactions, start, end));
+  return {
+    income,
+    expenses: expense,
+    savingsRate: income > 0 ? roundOne(((income - expense) / income) * 100) : 0,
+  };
+}
+
+/**
+ * Percent change from `previous` to `current`
+ *
+ * @returns The change to one decimal, or null when there is no baseline
+ */
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return roundOne(((current - previous) / previous) * 100);
+}
+
+/**
+ * Builds the dashboard summary
+ *
+ * @param transactions - The user's full ledger
+ * @param accounts - Accounts whose balances make up the total
+ * @param period - Calendar period the income/expense figures cover
+ * @param now - Reference date inside the current period (defaults to today)
+ * @param currency - Base currency and the rates used to convert into it
+ */
+export function computeSummary(
+  transactions: Transaction[],
+  accounts: Account[] = [],
+  period: SummaryPeriod = "month",
+  now: Date = new Date(),
+  currency: CurrencyContext = DEFAULT_CURRENCY_CONTEXT
+): DashboardSummary {
+  const inBase = toBase(transactions, currency);
+  const breakdown = accountBalances(accounts, transactions, currency);
+
+  const { start, end } = getPeriodBounds(period, now);
+  const before = getPeriodBounds(period, previousPeriodDate(period, now));
+  const current = totalsBetween(inBase, start, end);
+  const previous = totalsBetween(inBase, before.start, before.end);
+
+  return {
+    period,
+    periodStart: toDateKey(start),
+    periodEnd: toDateKey(end),
+    currency: currency.base,
+    // Opening balances plus all income minus all expenses; transfers cancel out
+    balance: breakdown.accounts.reduce((sum, a) => sum + a.baseBalance, breakdown.unassigned),
+    accounts: breakdown.accounts,
+    unassigned: breakdown.unassigned,
+    ...current,
+    previous,
+    change: {
+      income: percentChange(current.income, previous.income),
+      expenses: percentChange(current.expenses, previous.expenses),
+      savingsRate: roundOne(current.savingsRate - previous.savingsRate),
+    },
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * ============================================================================
+ * UPI PAYMENT LINKS
+ * ============================================================================
+ *
+ * Reads the `upi://pay?...` links that UPI QR codes encode, e.g.
+ * "upi://pay?pa=chai.point@icici&pn=Chai%20Point&am=80.00&tn=Order%2012&mc=5814",
+ * so an expense can be prefilled from the payment the user is about to make.
+ *
+ * Parameters read (from the NPCI linking specification):
+ * - pa: payee address (VPA), required
+ * - pn: payee name
+ * - am: amount
+ * - tn: transaction note
+ * - tr: merchant's transaction reference
+ * - mc: merchant category code, used to suggest a category
+ * - cu: currency (always INR in practice)
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { parseAmount } from "@/lib/import/values";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Details of a UPI payment link
+ */
+export interface UpiPayment {
+  payeeAddress: string;      // VPA, e.g. "chai.point@icici"
+  payeeName?: string;        // Display name, e.g. "Chai Point"
+  amount?: number;           // Fixed amount, when the link sets one
+  note?: string;             // Payment note
+  reference?: string;        // Merchant's order or bill reference
+  merchantCode?: string;     // Four-digit merchant category code
+  currency?: string;         // ISO currency code
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Built-in expense category for common merchant category codes (ISO 18245).
+ * Person-to-person links use "0000" and get no suggestion.
+ */
+const MERCHANT_CATEGORIES: Record<string, string> = {
+  // Groceries, restaurants and food delivery
+  "5411": "Food & Dining", "5441": "Food & Dining", "5462": "Food & Dining", "5499": "Food & Dining",
+  "5812": "Food & Dining", "5813": "Food & Dining", "5814": "Food & Dining",
+  // Fuel, taxis, transit, travel and parking
+  "4111": "Transport", "4112": "Transport", "4121": "Transport", "4131": "Transport", "4511": "Transport",
+  "4789": "Transport", "5541": "Transport", "5542": "Transport", "7523": "Transport",
+  // Stores and online retail
+  "5200": "Shopping", "5311": "Shopping", "5331": "Shopping", "5399": "Shopping", "5651": "Shopping",
+  "5691": "Shopping", "5699": "Shopping", "5722": "Shopping", "5732": "Shopping", "5945": "Shopping",
+  "5999": "Shopping",
+  // Movies, events and digital content
+  "5815": "Entertainment", "5816": "Entertainment", "5817": "Entertainment", "7832": "Entertainment",
+  "7841": "Entertainment", "7922": "Entertainment", "7996": "Entertainment", "7999": "Entertainment",
+  // Rent and utilities
+  "4814": "Housing", "4899": "Housing", "4900": "Housing", "6513": "Housing",
+  // Pharmacies, doctors and hospitals
+  "5912": "Healthcare", "8011": "Healthcare", "8021": "Healthcare", "8062": "Healthcare",
+  "8071": "Healthcare", "8099": "Healthcare",
+  // Schools, courses and books
+  "5942": "Education", "8211": "Education", "8220": "Education", "8241": "Education",
+  "8244": "Education", "8299": "Education",
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Reads a UPI payment link
+ *
+ * @param text - The link, on its own or inside pasted text
+ * @returns The payment, or null when there is no `upi://pay` link with a
+ *          valid payee address
+ */
+export function parseUpiUri(text: string): UpiPayment | null {
+  const uri = text.match(/upi:\/\/pay\?\S*/i)?.[0];
+  if (!uri) return null;
+
+  const params = new URLSearchParams(uri.slice(uri.indexOf("?") + 1));
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+  const payeeAddress = get("pa");
+  if (!payeeAddress || !/^[\w.-]+@[\w.-]+$/.test(payeeAddress)) return null;
+
+  const payment: UpiPayment = { payeeAddress };
+  const amount = parseAmount(get("am"));
+  if (get("pn")) payment.payeeName = get("pn");
+  if (amount && amount > 0) payment.amount = amount;
+  if (get("tn")) payment.note = get("tn");
+  if (get("tr")) payment.reference = get("tr");
+  if (get("mc")) payment.merchantCode = get("mc");
+  if (get("cu")) payment.currency = get("cu").toUpperCase();
+  return payment;
+}
+
+/**
+ * Built-in category suggested by the link's merchant category code
+ *
+ * @returns A category name, or undefined for person-to-person and unknown codes
+ */
+export const merchantCategory = (payment: UpiPayment): string | undefined =>
+  payment.merchantCode ? MERCHANT_CATEGORIES[payment.merchantCode] : undefined;
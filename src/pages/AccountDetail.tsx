@@ -0,0 +1,231 @@
+/**
+ * ============================================================================
+ * ACCOUNT DETAIL PAGE COMPONENT
+ * ============================================================================
+ *
+ * One money account: its current balance and every transaction recorded
+ * against it, newest first, with the balance right after each one.
+ * Transfers appear in both the account they left and the one they reached.
+ *
+ * Features:
+ * - Running balance on every transaction in the account's currency, with
+ *   reconciled ones locked
+ * - Reconcile against a bank statement
+ * - Edit name, type, currency and opening balance
+ * - Delete (only once no transactions are recorded against it)
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, ListChecks, Lock, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { AccountFormDialog } from "@/components/accounts/AccountFormDialog";
+import { AccountIcon } from "@/components/accounts/AccountIcon";
+import { DeleteConfirmDialog } from "@/components/budget/DeleteConfirmDialog";
+import { errorMessage } from "@/api/client";
+import { useAccounts, useDeleteAccount, useUpdateAccount } from "@/hooks/useAccounts";
+import { useExchangeRates } from "@/hooks/useCurrency";
+import { useTransactions } from "@/hooks/useTransactions";
+import { ACCOUNT_TYPE_LABELS, formatAccountBalance, runningBalances } from "@/lib/accounts";
+import { currencyOf } from "@/lib/currency";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { cn } from "@/lib/utils";
+import type { AccountInput } from "@/types/Account";
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Account Detail Page Component
+ *
+ * @returns JSX.Element - Account balance and its transactions
+ */
+export default function AccountDetail() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { data: accounts = [], isLoading } = useAccounts();
+  const { data: transactions = [] } = useTransactions();
+  const { data: rates = [] } = useExchangeRates();
+  const updateAccount = useUpdateAccount();
+  const deleteAccount = useDeleteAccount();
+
+  // Dialog state
+  const [editing, setEditing] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const account = accounts.find((a) => a.id === id);
+  const entries = account ? runningBalances(account, transactions, rates) : [];
+  const balance = entries[0]?.balance ?? account?.openingBalance ?? 0;
+  const currency = account ? currencyOf(account) : undefined;
+
+  /**
+   * Saves changes from the edit dialog
+   */
+  const handleSave = (changes: AccountInput) => {
+    updateAccount.mutate(
+      { id, changes },
+      {
+        onSuccess: () => {
+          toast.success(`"${changes.name}" updated`);
+          setEditing(false);
+        },
+        onError: (error) => toast.error(errorMessage(error)),
+      }
+    );
+  };
+
+  /**
+   * Deletes the account and returns to the list
+   */
+  const handleConfirmDelete = () => {
+    deleteAccount.mutate(id, {
+      onSuccess: () => {
+        toast.success(`"${account?.name}" deleted`);
+        navigate("/accounts", { replace: true });
+      },
+      onError: (error) => toast.error(errorMessage(error)),
+    });
+    setDeleting(false);
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button, account name, edit and delete
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 truncate text-xl font-bold">{account?.name ?? "Account"}</h1>
+            {account && (
+              <>
+                <button
+                  className="rounded-lg p-2 transition-colors hover:bg-muted"
+                  onClick={() => navigate(`/accounts/${account.id}/reconcile`)}
+                  title="Reconcile"
+                >
+                  <ListChecks className="h-4 w-4 text-muted-foreground" />
+                </button>
+                <button
+                  className="rounded-lg p-2 transition-colors hover:bg-muted"
+                  onClick={() => setEditing(true)}
+                  title="Edit"
+                >
+                  <Pencil className="h-4 w-4 text-muted-foreground" />
+                </button>
+                <button
+                  className="rounded-lg p-2 transition-colors hover:bg-destructive/10"
+                  onClick={() => setDeleting(true)}
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </button>
+              </>
+            )}
+          </div>
+        </header>
+
+        <div className="space-y-6 px-5 py-6">
+          {!account && !isLoading && (
+            <div className="premium-card py-10 text-center">
+              <p className="font-medium">Account not found</p>
+            </div>
+          )}
+
+          {account && (
+            <>
+              {/* Current balance */}
+              <div className="premium-card !p-4 flex items-center gap-4">
+                <AccountIcon type={account.type} className="h-12 w-12" />
+                <div className="flex-1">
+                  <p className="text-sm text-muted-foreground">
+                    {ACCOUNT_TYPE_LABELS[account.type]} • {currency}
+                  </p>
+                  <p className={cn("font-display text-2xl font-bold", balance < 0 && "text-destructive")}>
+                    {formatAccountBalance(account.type, balance, currency)}
+                  </p>
+                  {account.lastReconciliation && (
+                    <p className="text-xs text-muted-foreground">
+                      Reconciled to {format(parseISO(account.lastReconciliation.statementDate), "d MMM yyyy")}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {/* ================================================================
+                  TRANSACTIONS
+                  Newest first, with the balance after each
+                  ================================================================ */}
+              <section className="space-y-2">
+                <h3 className="px-1 text-sm font-medium text-muted-foreground">Transactions</h3>
+                {entries.length === 0 ? (
+                  <p className="premium-card !p-4 text-center text-sm text-muted-foreground">
+                    Nothing recorded against this account yet.
+                  </p>
+                ) : (
+                  <ul className="premium-card !p-0 divide-y divide-border/50">
+                    {entries.map(({ transaction, change, balance: after }) => (
+                      <li key={transaction.id}>
+                        <button
+                          onClick={() => navigate(`/transactions/${transaction.id}/edit`)}
+                          className="flex w-full items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/50"
+                        >
+                          <div className="min-w-0 flex-1">
+                            <p className="flex items-center gap-1 truncate text-sm font-medium">
+                              {transaction.reconciledAt && (
+                                <Lock className="h-3 w-3 shrink-0 text-muted-foreground" aria-label="Reconciled" />
+                              )}
+                              {transaction.title}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(parseISO(transaction.date), "d MMM yyyy")} • {transaction.category}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className={cn("text-sm font-semibold", change > 0 && "text-emerald")}>
+                              {change > 0 ? "+" : "-"}
+                              {formatCurrency(Math.abs(change), currency)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">{formatAccountBalance(account.type, after, currency)}</p>
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="px-1 text-xs text-muted-foreground">
+                  Opening balance {formatAccountBalance(account.type, account.openingBalance, currency)}
+                </p>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+
+      <AccountFormDialog open={editing} onOpenChange={setEditing} account={account} onSave={handleSave} />
+
+      <DeleteConfirmDialog
+        open={deleting}
+        onOpenChange={setDeleting}
+        itemName={account?.name ?? ""}
+        itemType="account"
+        onConfirm={handleConfirmDelete}
+      />
+    </AppLayout>
+  );
+}
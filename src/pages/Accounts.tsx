@@ -0,0 +1,160 @@
+/**
+ * ============================================================================
+ * ACCOUNTS PAGE COMPONENT
+ * ============================================================================
+ *
+ * Lists the user's money accounts (bank, cash, credit card, wallet) with
+ * their current balances. Balances are worked out from each account's
+ * opening balance and the transactions recorded against it.
+ *
+ * Features:
+ * - Total across accounts in the base currency, with entries not recorded
+ *   against any account
+ * - Accounts grouped by type, each with its balance in its own currency
+ *   (owed for credit cards)
+ * - Add accounts; tap one for its transactions and running balance
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, ChevronRight, Landmark, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { AccountFormDialog } from "@/components/accounts/AccountFormDialog";
+import { AccountIcon } from "@/components/accounts/AccountIcon";
+import { errorMessage } from "@/api/client";
+import { useAccounts, useCreateAccount } from "@/hooks/useAccounts";
+import { useCurrencyContext } from "@/hooks/useCurrency";
+import { useTransactions } from "@/hooks/useTransactions";
+import { ACCOUNT_TYPE_LABELS, accountBalances, formatAccountBalance } from "@/lib/accounts";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { cn } from "@/lib/utils";
+import type { AccountInput, AccountType } from "@/types/Account";
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Accounts Page Component
+ *
+ * @returns JSX.Element - Account list with balances
+ */
+export default function Accounts() {
+  const navigate = useNavigate();
+  const { data: accounts = [] } = useAccounts();
+  const { data: transactions = [] } = useTransactions();
+  const currency = useCurrencyContext();
+  const createAccount = useCreateAccount();
+
+  // Add dialog state
+  const [formOpen, setFormOpen] = useState(false);
+
+  const balances = accountBalances(accounts, transactions, currency);
+  const total = balances.accounts.reduce((sum, a) => sum + a.baseBalance, balances.unassigned);
+  const groups = (Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[])
+    .map((type) => ({ type, accounts: balances.accounts.filter((a) => a.type === type) }))
+    .filter((group) => group.accounts.length > 0);
+
+  /**
+   * Saves a new account
+   */
+  const handleSave = (input: AccountInput) => {
+    createAccount.mutate(input, {
+      onSuccess: () => {
+        toast.success(`"${input.name}" added`);
+        setFormOpen(false);
+      },
+      onError: (error) => toast.error(errorMessage(error)),
+    });
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button, page title and add button
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 text-xl font-bold">Accounts</h1>
+            <button
+              onClick={() => setFormOpen(true)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-emerald text-white"
+              aria-label="Add account"
+            >
+              <Plus className="h-5 w-5" />
+            </button>
+          </div>
+        </header>
+
+        <div className="space-y-6 px-5 py-6">
+          {/* Total across accounts */}
+          <div className="premium-card !p-4 text-center">
+            <p className="text-sm text-muted-foreground">Total balance</p>
+            <p className="font-display text-3xl font-bold">{formatCurrency(total)}</p>
+            {balances.unassigned !== 0 && accounts.length > 0 && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Includes {formatCurrency(balances.unassigned)} from entries with no account
+              </p>
+            )}
+          </div>
+
+          {/* Empty state */}
+          {accounts.length === 0 && (
+            <div className="premium-card py-10 text-center">
+              <Landmark className="mx-auto mb-3 h-8 w-8 text-muted-foreground" />
+              <p className="font-medium">No accounts yet</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Add your bank accounts, cash, cards and wallets to track each balance.
+              </p>
+            </div>
+          )}
+
+          {/* ================================================================
+              ACCOUNT LIST
+              Grouped by type
+              ================================================================ */}
+          {groups.map((group) => (
+            <section key={group.type} className="space-y-2">
+              <h3 className="px-1 text-sm font-medium text-muted-foreground">{ACCOUNT_TYPE_LABELS[group.type]}</h3>
+              {group.accounts.map((account) => (
+                <button
+                  key={account.accountId}
+                  onClick={() => navigate(`/accounts/${account.accountId}`)}
+                  className="premium-card !p-4 flex w-full items-center gap-3 text-left"
+                >
+                  <AccountIcon type={account.type} />
+                  <p className="min-w-0 flex-1 truncate font-medium">{account.name}</p>
+                  <span className={cn("text-right text-sm font-semibold", account.balance < 0 && "text-destructive")}>
+                    {formatAccountBalance(account.type, account.balance, account.currency)}
+                    {account.currency !== currency.base && (
+                      <span className="block text-xs font-normal text-muted-foreground">
+                        ≈ {formatCurrency(account.baseBalance)}
+                      </span>
+                    )}
+                  </span>
+                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                </button>
+              ))}
+            </section>
+          ))}
+        </div>
+      </div>
+
+      <AccountFormDialog open={formOpen} onOpenChange={setFormOpen} onSave={handleSave} />
+    </AppLayout>
+  );
+}
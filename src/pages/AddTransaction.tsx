@@ -3,81 +3,113 @@
  * ADD TRANSACTION PAGE COMPONENT
  * ============================================================================
  * 
- * This component provides a form for adding new income or expense transactions.
+ * This component provides a form for adding new income or expense transactions,
+ * and for editing an existing one when opened at /transactions/:id/edit.
  * It features a clean, intuitive interface with category selection, amount input,
  * date picker, and optional notes.
  * 
  * Features:
- * - Toggle between Income and Expense transaction types
- * - Dynamic category grid based on transaction type
- * - Large, easy-to-use amount input
+ * - Toggle between Expense, Income and Transfer (between two accounts)
+ * - Dynamic category grid based on transaction type, with subcategory chips
+ * - Category pre-selected by a matching rule or an on-device suggestion
+ * - Large, easy-to-use amount input with its currency (the account's, or
+ *   the base currency, until another is picked)
  * - Date selection with native date picker
  * - Optional note field for transaction details
  * - Form validation before submission
+ * - Inline warning when the entry looks like one already recorded
+ * - Prefill from a UPI payment link (pasted, or passed as ?upi=)
+ * - "Repeat" option that saves a recurring template (preset with ?repeat=)
+ * - Split across several categories, each line with its own amount and note
+ * - Account picker (bank, cash, card, wallet) for per-account balances
+ * - Transfers pick a from and a to account and need no category
+ * - Prefill amount, account and date with ?amount=, ?account= and ?date=
+ * - Reconciled entries are locked until unlocked
+ * - Saves to the persistent transaction ledger
+ * - Edit mode prefilled from an existing transaction
  * 
  * @author FinGuide Development Team
  * @version 1.0.0
  * ============================================================================
  */
 
-import { useState } from "react";
-import { useNavigate, useSearchParams } from "react-router-dom";
-import { ArrowLeft, Calculator, Calendar, Tag, FileText } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Calculator, Calendar, Copy, Tag, FileText, Type, Hash, QrCode, Repeat, Split, Landmark, Lock } from "lucide-react";
+import { format, parseISO } from "date-fns";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { CurrencySelect } from "@/components/currency/CurrencySelect";
+import { ScheduleFields } from "@/components/recurring/ScheduleFields";
+import { SplitLinesEditor } from "@/components/transactions/SplitLinesEditor";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
+import { errorMessage } from "@/api/client";
+import {
+  useCreateTransaction,
+  useTransaction,
+  useTransactions,
+  useUnlockTransaction,
+  useUpdateTransaction,
+} from "@/hooks/useTransactions";
+import { useAccounts } from "@/hooks/useAccounts";
+import { useCategories } from "@/hooks/useCategories";
+import { useBaseCurrency } from "@/hooks/useCurrency";
+import { useRules } from "@/hooks/useRules";
+import { useCreateRecurring, usePostDueRecurring } from "@/hooks/useRecurring";
+import { useCategorySuggestions } from "@/hooks/useCategorySuggestions";
+import { CONFIDENT_PROBABILITY } from "@/lib/categorizer";
+import { categoryKey, categoryTree } from "@/lib/categories";
+import { DEFAULT_CURRENCY, currencyOf } from "@/lib/currency";
+import { findDuplicates } from "@/lib/duplicates";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { applyRules } from "@/lib/rules";
+import { TRANSFER_CATEGORY } from "@/lib/accounts";
+import { splitsBalance, toSplitDrafts, toSplits, type SplitDraft } from "@/lib/splits";
+import { DEFAULT_SCHEDULE, describeSchedule, toSchedule, type ScheduleDraft } from "@/lib/recurrence";
+import { merchantCategory, parseUpiUri, type UpiPayment } from "@/lib/upi";
+import type { RecurrenceFrequency, RecurringInput } from "@/types/Recurring";
+import type { TransactionType } from "@/types/Transaction";
 
 // ============================================================================
-// TYPE DEFINITIONS
+// HELPERS
 // ============================================================================
 
 /**
- * Category interface for transaction categorization
+ * Splits the tags field into unique, lowercase tags
+ * 
+ * @param value - Comma-separated input (e.g., "Trip, goa")
+ * @returns Tags such as ["trip", "goa"], or undefined when empty
  */
-interface Category {
-  name: string;   // Category display name
-  emoji: string;  // Visual emoji representation
-}
+const parseTags = (value: string): string[] | undefined => {
+  const tags = [...new Set(value.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean))];
+  return tags.length > 0 ? tags : undefined;
+};
 
 /**
- * Transaction type - either income or expense
+ * Note for a UPI payment: the link's note with the payee's UPI id, which
+ * keeps the entry recognisable when the bank statement arrives
  */
-type TransactionType = "income" | "expense";
-
-// ============================================================================
-// CATEGORY DATA
-// ============================================================================
+const upiNote = (payment: UpiPayment): string =>
+  payment.note ? `${payment.note} (${payment.payeeAddress})` : payment.payeeAddress;
 
 /**
- * Categories organized by transaction type
- * Each type has its own set of relevant categories
+ * Button and toast wording for each type
  */
-const categories: Record<TransactionType, Category[]> = {
-  // Expense categories - common spending areas
-  expense: [
-    { name: "Food & Dining", emoji: "🍔" },
-    { name: "Transport", emoji: "🚗" },
-    { name: "Shopping", emoji: "🛍️" },
-    { name: "Entertainment", emoji: "🎬" },
-    { name: "Housing", emoji: "🏠" },
-    { name: "Healthcare", emoji: "💊" },
-    { name: "Education", emoji: "📚" },
-    { name: "Others", emoji: "📦" },
-  ],
-  // Income categories - common income sources
-  income: [
-    { name: "Salary", emoji: "💰" },
-    { name: "Freelance", emoji: "💻" },
-    { name: "Investment", emoji: "📈" },
-    { name: "Gift", emoji: "🎁" },
-    { name: "Refund", emoji: "↩️" },
-    { name: "Others", emoji: "📦" },
-  ],
+const TYPE_LABELS: Record<TransactionType, string> = {
+  expense: "Expense",
+  income: "Income",
+  transfer: "Transfer",
 };
 
+/**
+ * Frequencies accepted in the ?repeat= parameter
+ */
+const REPEAT_FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "monthly", "yearly"];
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -94,43 +126,248 @@ export default function AddTransaction() {
   // Navigation hook for routing
   const navigate = useNavigate();
   
+  // Mutations that record the transaction through the API
+  const createTransaction = useCreateTransaction();
+  const updateTransaction = useUpdateTransaction();
+  const createRecurring = useCreateRecurring();
+  const postDueRecurring = usePostDueRecurring();
+  const unlockTransaction = useUnlockTransaction();
+
+  // Transaction being edited, when opened from the history page
+  const { id: editingId } = useParams<{ id: string }>();
+  const { data: existing } = useTransaction(editingId);
+  const isEditing = Boolean(editingId);
+  
   // Get URL search params to check for pre-selected type
   const [searchParams] = useSearchParams();
   
   // Determine initial transaction type from URL or default to expense
-  const initialType: TransactionType = searchParams.get("type") === "income" ? "income" : "expense";
+  const typeParam = searchParams.get("type");
+  const initialType: TransactionType = typeParam === "income" || typeParam === "transfer" ? typeParam : "expense";
+
+  // A UPI payment link passed as ?upi= (e.g., from a QR scanner) prefills a new expense
+  const initialPayment = isEditing ? null : parseUpiUri(searchParams.get("upi") ?? "");
+
+  // ?repeat=monthly (e.g., from the recurring page) opens with "Repeat" on
+  const initialRepeat = REPEAT_FREQUENCIES.find((f) => f === searchParams.get("repeat"));
+
+  // ?amount=, ?account= and ?date= (e.g., a missing entry found while reconciling)
+  const initialAmount = Number(searchParams.get("amount")) > 0 ? searchParams.get("amount") : "";
+  const initialDate = /^\d{4}-\d{2}-\d{2}$/.test(searchParams.get("date") ?? "") ? searchParams.get("date") : null;
 
   // ========================================================================
   // FORM STATE
   // ========================================================================
   
-  // Transaction type state (income or expense)
-  const [type, setType] = useState<TransactionType>(initialType);
+  // Transaction type state (income, expense or transfer)
+  const [type, setType] = useState<TransactionType>(initialPayment ? "expense" : initialType);
+  const isTransfer = type === "transfer";
+  
+  // Amount (stored as string for input handling) and its currency
+  const [amount, setAmount] = useState<string>(initialPayment?.amount?.toString() ?? initialAmount);
+  const { data: base } = useBaseCurrency();
+  const [currency, setCurrency] = useState<string>(base?.currency ?? DEFAULT_CURRENCY);
+
+  // Whether the user picked the currency; until then it follows the account
+  const [currencyPicked, setCurrencyPicked] = useState(false);
   
-  // Amount in INR (stored as string for input handling)
-  const [amount, setAmount] = useState<string>("");
+  // Short description shown in transaction lists
+  const [title, setTitle] = useState<string>(
+    initialPayment ? initialPayment.payeeName ?? initialPayment.payeeAddress : ""
+  );
   
   // Selected category name
   const [selectedCategory, setSelectedCategory] = useState<string>("");
+
+  // Whether the user picked the category; until then rules may pick it
+  const [categoryPicked, setCategoryPicked] = useState(false);
   
+  // Split lines; empty while the entry has a single category
+  const [splitLines, setSplitLines] = useState<SplitDraft[]>([]);
+  const splitting = splitLines.length > 0;
+
   // Optional transaction note
-  const [note, setNote] = useState<string>("");
+  const [note, setNote] = useState<string>(initialPayment ? upiNote(initialPayment) : "");
+
+  // Optional comma-separated tags
+  const [tags, setTags] = useState<string>("");
   
+  // Account the money moved through ("" for none); a transfer's source
+  const [accountId, setAccountId] = useState<string>(isEditing ? "" : searchParams.get("account") ?? "");
+
+  // Account a transfer moves the money into
+  const [toAccountId, setToAccountId] = useState<string>("");
+
   // Transaction date (defaults to today)
-  const [date, setDate] = useState<string>(new Date().toISOString().split("T")[0]);
+  const [date, setDate] = useState<string>(initialDate ?? new Date().toISOString().split("T")[0]);
+
+  // Whether the entry repeats, and on what schedule (starting on the date)
+  const [repeat, setRepeat] = useState(!isEditing && Boolean(initialRepeat));
+  const [schedule, setSchedule] = useState<ScheduleDraft>({
+    ...DEFAULT_SCHEDULE,
+    frequency: initialRepeat ?? DEFAULT_SCHEDULE.frequency,
+  });
+
+  // Pasted UPI payment link, and the category its merchant code suggests
+  const [upiLink, setUpiLink] = useState<string>("");
+  const [merchantSuggestion, setMerchantSuggestion] = useState<string | undefined>(
+    initialPayment ? merchantCategory(initialPayment) : undefined
+  );
+
+  // Active categories for the current type, and the top-level entry that
+  // is selected directly or through one of its subcategories
+  const { data: catalog = [] } = useCategories();
+  const { data: accounts = [] } = useAccounts();
+  const tree = categoryTree(catalog, type);
+  const isSelected = (name: string) => categoryKey(name) === categoryKey(selectedCategory);
+  const selectedParent = tree.find(
+    ({ category, children }) => isSelected(category.name) || children.some((c) => isSelected(c.name))
+  );
+
+  /**
+   * Prefills the form once the transaction being edited has loaded
+   */
+  useEffect(() => {
+    if (!existing) return;
+    setType(existing.type);
+    setAmount(existing.amount.toString());
+    setTitle(existing.title);
+    setSelectedCategory(existing.category);
+    setCategoryPicked(true);
+    setSplitLines(toSplitDrafts(existing.splits ?? []));
+    setNote(existing.note ?? "");
+    setTags((existing.tags ?? []).join(", "));
+    setAccountId(existing.accountId ?? "");
+    setToAccountId(existing.toAccountId ?? "");
+    setCurrency(currencyOf(existing));
+    setCurrencyPicked(true);
+    setDate(existing.date);
+  }, [existing]);
+
+  /**
+   * Uses the selected account's currency (the base currency without one)
+   * until the user picks a currency
+   */
+  useEffect(() => {
+    if (currencyPicked) return;
+    const account = accounts.find((a) => a.id === accountId);
+    setCurrency(account ? currencyOf(account) : base?.currency ?? DEFAULT_CURRENCY);
+  }, [accountId, accounts, base, currencyPicked]);
+
+  /**
+   * Pre-selects a category while the user has not chosen one: the one a
+   * rule would assign, otherwise a confident on-device suggestion learned
+   * from the user's history. Less certain suggestions are offered as chips.
+   */
+  const { data: rules = [] } = useRules();
+  const ruleCategory = isTransfer
+    ? undefined
+    : applyRules(rules, {
+        type,
+        title: title.trim(),
+        amount: parseFloat(amount) || 0,
+        note: note.trim(),
+        date,
+        accountId: accountId || undefined,
+      }).category;
+
+  const activeNames = new Set(
+    tree.flatMap(({ category, children }) => [category, ...children]).map((c) => categoryKey(c.name))
+  );
+  const suggestions = useCategorySuggestions(
+    { title, note, amount: parseFloat(amount) || 0 },
+    type,
+    !isEditing && !isTransfer
+  ).filter((s) => activeNames.has(categoryKey(s.category)));
+  const suggestedCategory =
+    suggestions[0]?.probability >= CONFIDENT_PROBABILITY ? suggestions[0].category : undefined;
+  const merchantCategoryName =
+    merchantSuggestion && activeNames.has(categoryKey(merchantSuggestion)) ? merchantSuggestion : undefined;
+  const autoCategory = ruleCategory ?? suggestedCategory ?? merchantCategoryName;
+
+  useEffect(() => {
+    if (!categoryPicked) setSelectedCategory(autoCategory ?? "");
+  }, [autoCategory, categoryPicked]);
+
+  /**
+   * Looks for an existing entry this one may repeat (same amount, close
+   * date, similar title) so the user is warned before saving
+   */
+  const { data: ledger = [] } = useTransactions();
+  const amountValue = parseFloat(amount) || 0;
+  const [duplicateOf] = useMemo(
+    () =>
+      amountValue > 0
+        ? findDuplicates({ id: editingId, type, title: title.trim() || selectedCategory, amount: amountValue, date }, ledger)
+        : [],
+    [editingId, type, title, selectedCategory, amountValue, date, ledger]
+  );
 
   // ========================================================================
   // EVENT HANDLERS
   // ========================================================================
 
+  /**
+   * Fills the form from a UPI payment: payee as the title, the link's
+   * amount and its note
+   */
+  const applyUpiPayment = (payment: UpiPayment): void => {
+    setType("expense");
+    setTitle(payment.payeeName ?? payment.payeeAddress);
+    if (payment.amount) setAmount(payment.amount.toString());
+    setNote(upiNote(payment));
+    setMerchantSuggestion(merchantCategory(payment));
+    setSelectedCategory("");
+    setCategoryPicked(false);
+  };
+
+  /**
+   * Reads the pasted UPI link into the form
+   */
+  const handleUpiLink = (): void => {
+    const payment = parseUpiUri(upiLink);
+    if (!payment) {
+      toast.error("That isn't a UPI payment link");
+      return;
+    }
+    applyUpiPayment(payment);
+    setUpiLink("");
+    toast.success(`Filled in from ${payment.payeeName ?? payment.payeeAddress}`);
+  };
+
+
+  /**
+   * Selects a category chosen by the user
+   */
+  const pickCategory = (name: string): void => {
+    setSelectedCategory(name);
+    setCategoryPicked(true);
+  };
+
+  /**
+   * Turns splitting on, starting from the chosen category and the full
+   * amount, or back off (keeping the first line's category)
+   */
+  const toggleSplit = (on: boolean): void => {
+    if (on) {
+      setSplitLines([
+        { category: selectedCategory, amount, note: "" },
+        { category: "", amount: "", note: "" },
+      ]);
+      return;
+    }
+    if (splitLines[0]?.category) pickCategory(splitLines[0].category);
+    setSplitLines([]);
+  };
+
   /**
    * Handles form submission
-   * Validates required fields and shows appropriate feedback
-   * In production, this would send data to the backend API
+   * Validates required fields, records the transaction in the ledger
+   * and shows appropriate feedback
    */
-  const handleSubmit = (): void => {
+  const handleSubmit = async (): Promise<void> => {
     // Validate required fields
-    if (!amount || !selectedCategory) {
+    if (!amount || (!selectedCategory && !splitting && !isTransfer)) {
       toast.error("Please fill in all required fields");
       return;
     }
@@ -142,17 +379,104 @@ export default function AddTransaction() {
       return;
     }
 
+    // A transfer moves money between two different accounts
+    if (isTransfer && (!accountId || !toAccountId || accountId === toAccountId)) {
+      toast.error("Pick two different accounts to transfer between");
+      return;
+    }
+
+    // Split lines need a category and amount each, adding up to the total
+    const splits = splitting ? toSplits(splitLines) : undefined;
+    if (splitting && !splits) {
+      toast.error("Give every split line a category and an amount");
+      return;
+    }
+    if (splits && !splitsBalance(splits, amountNum)) {
+      toast.error("Split lines must add up to the amount");
+      return;
+    }
+
+    // Persist the transaction - falls back to the category name as title
+    const category = isTransfer ? TRANSFER_CATEGORY : splits ? splits[0].category : selectedCategory;
+    const destination = accounts.find((a) => a.id === toAccountId);
+    const input = {
+      type,
+      title: title.trim() || (isTransfer ? `Transfer to ${destination?.name}` : category),
+      amount: amountNum,
+      currency,
+      category,
+      splits,
+      date,
+      tags: parseTags(tags),
+      accountId: accountId || undefined,
+      toAccountId: isTransfer ? toAccountId : undefined,
+    };
+
+    if (repeat && !isEditing && !isTransfer) {
+      await saveRecurring({ ...input, type, note: note.trim() || undefined });
+      return;
+    }
+
+    try {
+      if (isEditing) {
+        // Empty note/tags are sent explicitly so removed values are cleared
+        await updateTransaction.mutateAsync({
+          id: editingId,
+          changes: { ...input, note: note.trim(), tags: input.tags ?? [], splits: splits ?? [], accountId },
+        });
+      } else {
+        await createTransaction.mutateAsync({ ...input, note: note.trim() || undefined });
+      }
+    } catch (error) {
+      toast.error(errorMessage(error, "Couldn't save the transaction. Please try again."));
+      return;
+    }
+
+    if (isEditing) {
+      // Return to wherever the edit was started from
+      toast.success("Transaction updated");
+      navigate(-1);
+      return;
+    }
+
     // Show success message
-    toast.success(`${type === "income" ? "Income" : "Expense"} added successfully!`);
-    
-    // In production: Send transaction data to backend API
-    // const transactionData = { type, amount: amountNum, category: selectedCategory, note, date };
-    // await api.transactions.create(transactionData);
+    toast.success(`${TYPE_LABELS[type]} added successfully!`);
     
     // Navigate back to home page
     navigate("/");
   };
 
+  /**
+   * Saves the entry as a recurring template, then posts the occurrences
+   * already due so a start date of today or earlier appears straight away
+   */
+  const saveRecurring = async (input: Omit<RecurringInput, "schedule">): Promise<void> => {
+    const validSchedule = toSchedule(schedule, date);
+    if (!validSchedule) {
+      toast.error("Please check how often it repeats and the end date");
+      return;
+    }
+    try {
+      await createRecurring.mutateAsync({ ...input, schedule: validSchedule });
+      await postDueRecurring.mutateAsync();
+    } catch {
+      toast.error("Couldn't save the recurring transaction. Please try again.");
+      return;
+    }
+    toast.success(`"${input.title}" scheduled. ${describeSchedule(validSchedule)}`);
+    navigate("/");
+  };
+
+  /**
+   * Unlocks a reconciled entry so the changes can be saved
+   */
+  const handleUnlock = (): void => {
+    unlockTransaction.mutate(editingId, {
+      onSuccess: () => toast.success("Unlocked. It will need reconciling again."),
+      onError: () => toast.error("Couldn't unlock the transaction. Please try again."),
+    });
+  };
+
   /**
    * Handles back button click
    * Navigates to the previous page
@@ -163,13 +487,17 @@ export default function AddTransaction() {
 
   /**
    * Handles transaction type toggle
-   * Resets selected category when switching types
+   * Resets selected category when switching types; a transfer is never
+   * split or repeated
    * 
    * @param newType - The new transaction type to set
    */
   const handleTypeChange = (newType: TransactionType): void => {
     setType(newType);
     setSelectedCategory(""); // Reset category when switching types
+    setCategoryPicked(false);
+    setSplitLines((lines) => (newType === "transfer" ? [] : lines.map((line) => ({ ...line, category: "" }))));
+    if (newType === "transfer") setRepeat(false);
   };
 
   return (
@@ -189,11 +517,28 @@ export default function AddTransaction() {
             >
               <ArrowLeft className="h-5 w-5" />
             </button>
-            <h1 className="text-xl font-bold">Add Transaction</h1>
+            <h1 className="text-xl font-bold">{isEditing ? "Edit Transaction" : "Add Transaction"}</h1>
           </div>
         </header>
 
         <div className="space-y-6 px-5 py-6">
+          {/* ================================================================
+              RECONCILED NOTICE (EDIT MODE)
+              Reconciled entries are locked until the user unlocks them
+              ================================================================ */}
+          {existing?.reconciledAt && (
+            <div className="flex items-center gap-3 rounded-xl bg-info/10 p-4 text-sm" role="status">
+              <Lock className="h-4 w-4 shrink-0 text-info" />
+              <p className="flex-1">
+                <span className="font-medium text-info">Reconciled.</span> This entry matches a bank statement, so
+                it is locked against changes.
+              </p>
+              <Button size="sm" variant="outline" disabled={unlockTransaction.isPending} onClick={handleUnlock}>
+                Unlock
+              </Button>
+            </div>
+          )}
+
           {/* ================================================================
               TRANSACTION TYPE TOGGLE
               Switch between Expense and Income modes
@@ -224,8 +569,47 @@ export default function AddTransaction() {
             >
               Income
             </button>
+
+            {/* Transfer Toggle Button */}
+            <button
+              onClick={() => handleTypeChange("transfer")}
+              className={cn(
+                "flex-1 rounded-lg py-3 text-sm font-medium transition-all duration-200",
+                type === "transfer"
+                  ? "bg-info text-white shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              Transfer
+            </button>
           </div>
 
+          {/* ================================================================
+              UPI LINK SECTION (NEW TRANSACTIONS ONLY)
+              Paste a upi://pay link from a QR code to fill in the payment
+              ================================================================ */}
+          {!isEditing && !isTransfer && (
+            <div className="premium-card !p-4 animate-scale-in">
+              <label className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <QrCode className="h-4 w-4" />
+                UPI Link (Optional)
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="upi://pay?pa=..."
+                  value={upiLink}
+                  onChange={(e) => setUpiLink(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleUpiLink()}
+                  className="input-focus"
+                  aria-label="UPI payment link"
+                />
+                <Button variant="outline" disabled={!upiLink.trim()} onClick={handleUpiLink}>
+                  Fill
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* ================================================================
               AMOUNT INPUT SECTION
               Large, prominent input for entering transaction amount
@@ -236,8 +620,6 @@ export default function AddTransaction() {
               Amount
             </label>
             <div className="flex items-center gap-2">
-              {/* Currency symbol */}
-              <span className="text-3xl font-bold">₹</span>
               {/* Amount input field */}
               <Input
                 type="number"
@@ -249,40 +631,145 @@ export default function AddTransaction() {
                 step="0.01"
                 aria-label="Transaction amount"
               />
+              <CurrencySelect
+                value={currency}
+                onValueChange={(code) => {
+                  setCurrency(code);
+                  setCurrencyPicked(true);
+                }}
+                compact
+                className="w-24 shrink-0"
+              />
             </div>
           </div>
 
+          {/* ================================================================
+              TITLE INPUT SECTION
+              Short description such as a merchant or payer name
+              ================================================================ */}
+          <div className="premium-card animate-slide-up">
+            <label className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <Type className="h-4 w-4" />
+              Title
+            </label>
+            <Input
+              placeholder={
+                type === "income" ? "e.g., Salary Credited" : isTransfer ? "e.g., Card Bill Payment" : "e.g., Grocery Shopping"
+              }
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="input-focus"
+              aria-label="Transaction title"
+            />
+          </div>
+
           {/* ================================================================
               CATEGORY SELECTION GRID
               Visual grid of category options with emojis
               Categories change based on transaction type
               ================================================================ */}
-          <div className="animate-slide-up stagger-1">
-            <label className="mb-3 flex items-center gap-2 text-sm font-medium text-muted-foreground">
-              <Tag className="h-4 w-4" />
-              Category
-            </label>
-            <div className="grid grid-cols-4 gap-3">
-              {categories[type].map((category) => (
-                <button
-                  key={category.name}
-                  onClick={() => setSelectedCategory(category.name)}
-                  className={cn(
-                    "flex flex-col items-center gap-2 rounded-2xl p-4 transition-all duration-200",
-                    selectedCategory === category.name
-                      ? "bg-accent text-white scale-105"
-                      : "bg-muted hover:bg-muted/80"
-                  )}
-                  aria-pressed={selectedCategory === category.name}
-                >
-                  <span className="text-2xl">{category.emoji}</span>
-                  <span className="text-xs font-medium text-center leading-tight">
-                    {category.name}
+          {!splitting && !isTransfer && (
+            <div className="animate-slide-up stagger-1">
+              <label className="mb-3 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <Tag className="h-4 w-4" />
+                Category
+                {!categoryPicked && autoCategory && (
+                  <span className="ml-auto text-xs text-accent">
+                    {ruleCategory
+                      ? "Picked by a rule"
+                      : suggestedCategory
+                        ? "Suggested from your history"
+                        : "Suggested from the merchant type"}
                   </span>
-                </button>
-              ))}
+                )}
+              </label>
+
+              {/* Top picks when the model is unsure */}
+              {!categoryPicked && !autoCategory && suggestions.length > 0 && (
+                <div className="mb-3 flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground">Suggestions:</span>
+                  {suggestions.map((suggestion) => (
+                    <button
+                      key={suggestion.category}
+                      onClick={() => pickCategory(suggestion.category)}
+                      className="rounded-full bg-accent/10 px-3 py-1.5 text-xs font-medium text-accent transition-colors hover:bg-accent/20"
+                    >
+                      {suggestion.category} · {Math.round(suggestion.probability * 100)}%
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-4 gap-3">
+                {tree.map(({ category }) => (
+                  <button
+                    key={category.id}
+                    onClick={() => pickCategory(category.name)}
+                    className={cn(
+                      "flex flex-col items-center gap-2 rounded-2xl p-4 transition-all duration-200",
+                      selectedParent?.category.id === category.id
+                        ? "bg-accent text-white scale-105"
+                        : "bg-muted hover:bg-muted/80"
+                    )}
+                    aria-pressed={selectedParent?.category.id === category.id}
+                  >
+                    <span className="text-2xl">{category.emoji}</span>
+                    <span className="text-xs font-medium text-center leading-tight">
+                      {category.name}
+                    </span>
+                  </button>
+                ))}
+              </div>
+
+              {/* Subcategory chips for the selected parent, if it has any */}
+              {selectedParent && selectedParent.children.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {selectedParent.children.map((child) => (
+                    <button
+                      key={child.id}
+                      onClick={() =>
+                        pickCategory(isSelected(child.name) ? selectedParent.category.name : child.name)
+                      }
+                      className={cn(
+                        "rounded-full px-3 py-1.5 text-xs font-medium transition-colors",
+                        isSelected(child.name) ? "bg-accent text-white" : "bg-muted hover:bg-muted/80"
+                      )}
+                      aria-pressed={isSelected(child.name)}
+                    >
+                      {child.emoji} {child.name}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
-          </div>
+          )}
+
+          {/* ================================================================
+              SPLIT SECTION
+              Shares the amount across several categories
+              ================================================================ */}
+          {!repeat && !isTransfer && (
+            <div className="premium-card animate-slide-up stagger-1 space-y-4">
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="split-toggle"
+                  className="flex items-center gap-2 text-sm font-medium text-muted-foreground"
+                >
+                  <Split className="h-4 w-4" />
+                  Split across categories
+                </label>
+                <Switch id="split-toggle" checked={splitting} onCheckedChange={toggleSplit} />
+              </div>
+              {splitting && (
+                <SplitLinesEditor
+                  lines={splitLines}
+                  onChange={setSplitLines}
+                  type={type}
+                  total={parseFloat(amount) || 0}
+                  currency={currency}
+                />
+              )}
+            </div>
+          )}
 
           {/* ================================================================
               DATE PICKER SECTION
@@ -302,6 +789,78 @@ export default function AddTransaction() {
             />
           </div>
 
+          {/* ================================================================
+              ACCOUNT SECTION
+              Where the money moved; shown once the user has accounts
+              ================================================================ */}
+          {accounts.length > 0 && !isTransfer && (
+            <div className="premium-card animate-slide-up stagger-2">
+              <label className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <Landmark className="h-4 w-4" />
+                Account
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {[{ id: "", name: "None" }, ...accounts].map((account) => (
+                  <button
+                    key={account.id || "none"}
+                    onClick={() => setAccountId(account.id)}
+                    className={cn(
+                      "rounded-full px-3 py-1.5 text-xs font-medium transition-colors",
+                      accountId === account.id ? "bg-accent text-white" : "bg-muted hover:bg-muted/80"
+                    )}
+                    aria-pressed={accountId === account.id}
+                  >
+                    {account.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* ================================================================
+              TRANSFER ACCOUNTS SECTION
+              The account the money leaves and the one it goes into
+              ================================================================ */}
+          {isTransfer && (
+            <div className="premium-card animate-slide-up stagger-2 space-y-4">
+              {accounts.length < 2 ? (
+                <p className="text-sm text-muted-foreground">
+                  Add at least two accounts to record a transfer.{" "}
+                  <button onClick={() => navigate("/accounts")} className="font-medium text-accent">
+                    Manage accounts
+                  </button>
+                </p>
+              ) : (
+                [
+                  { label: "From", value: accountId, onPick: setAccountId },
+                  { label: "To", value: toAccountId, onPick: setToAccountId },
+                ].map(({ label, value, onPick }) => (
+                  <div key={label}>
+                    <label className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                      <Landmark className="h-4 w-4" />
+                      {label}
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {accounts.map((account) => (
+                        <button
+                          key={account.id}
+                          onClick={() => onPick(account.id)}
+                          className={cn(
+                            "rounded-full px-3 py-1.5 text-xs font-medium transition-colors",
+                            value === account.id ? "bg-accent text-white" : "bg-muted hover:bg-muted/80"
+                          )}
+                          aria-pressed={value === account.id}
+                        >
+                          {account.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+
           {/* ================================================================
               NOTES SECTION (OPTIONAL)
               Textarea for adding additional transaction details
@@ -320,20 +879,80 @@ export default function AddTransaction() {
             />
           </div>
 
+          {/* ================================================================
+              TAGS SECTION (OPTIONAL)
+              Comma-separated labels used for grouping and search
+              ================================================================ */}
+          <div className="premium-card animate-slide-up stagger-4">
+            <label className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <Hash className="h-4 w-4" />
+              Tags (Optional)
+            </label>
+            <Input
+              placeholder="e.g., trip, goa"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className="input-focus"
+              aria-label="Transaction tags"
+            />
+          </div>
+
+          {/* ================================================================
+              REPEAT SECTION (NEW ENTRIES ONLY)
+              Turns the entry into a recurring template posted on schedule
+              ================================================================ */}
+          {!isEditing && !splitting && !isTransfer && (
+            <div className="premium-card animate-slide-up stagger-4 space-y-4">
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="repeat-toggle"
+                  className="flex items-center gap-2 text-sm font-medium text-muted-foreground"
+                >
+                  <Repeat className="h-4 w-4" />
+                  Repeat
+                </label>
+                <Switch id="repeat-toggle" checked={repeat} onCheckedChange={setRepeat} />
+              </div>
+              {repeat && <ScheduleFields value={schedule} startDate={date} onChange={setSchedule} />}
+            </div>
+          )}
+
+          {/* ================================================================
+              DUPLICATE WARNING
+              Shown while the entry matches one already recorded
+              ================================================================ */}
+          {duplicateOf && (
+            <div className="flex gap-3 rounded-xl bg-warning/10 p-4 text-sm" role="alert">
+              <Copy className="mt-0.5 h-4 w-4 shrink-0 text-warning" />
+              <p>
+                <span className="font-medium text-warning">Possible duplicate.</span>{" "}
+                You already have "{duplicateOf.title}" for {formatCurrency(duplicateOf.amount, currencyOf(duplicateOf))} on{" "}
+                {format(parseISO(duplicateOf.date), "d MMM")}. Saving anyway adds it to the duplicate review.
+              </p>
+            </div>
+          )}
+
           {/* ================================================================
               SUBMIT BUTTON
               Dynamic styling based on transaction type
               ================================================================ */}
           <Button
             onClick={handleSubmit}
+            disabled={createTransaction.isPending || updateTransaction.isPending || createRecurring.isPending}
             className={cn(
-              "w-full h-14 text-lg font-semibold rounded-2xl transition-all duration-200 animate-slide-up stagger-4",
+              "w-full h-14 text-lg font-semibold rounded-2xl transition-all duration-200 animate-slide-up stagger-5",
               type === "income"
                 ? "bg-gradient-emerald hover:opacity-90"
-                : "bg-gradient-to-r from-destructive to-orange-500 hover:opacity-90"
+                : isTransfer
+                  ? "stat-card-savings hover:opacity-90"
+                  : "bg-gradient-to-r from-destructive to-orange-500 hover:opacity-90"
             )}
           >
-            Add {type === "income" ? "Income" : "Expense"}
+            {isEditing
+              ? "Save Changes"
+              : repeat
+                ? `Schedule ${TYPE_LABELS[type]}`
+                : `Add ${duplicateOf ? "Anyway" : TYPE_LABELS[type]}`}
           </Button>
         </div>
       </div>
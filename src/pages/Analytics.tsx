@@ -12,6 +12,7 @@
  * - Interactive Area Chart for income vs expense trends
  * - Horizontal Bar Chart for category-wise spending breakdown
  * - Detailed category list with percentage indicators
+ * - All figures derived from the transaction ledger, in the base currency
  * 
  * Technologies Used:
  * - Recharts library for data visualization
@@ -23,7 +24,7 @@
  * ============================================================================
  */
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { TrendingUp, TrendingDown, Calendar, ChevronDown } from "lucide-react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import {
@@ -36,67 +37,34 @@ import {
   ResponsiveContainer,
   BarChart,
   Bar,
+  Cell,
 } from "recharts";
+import { format } from "date-fns";
+import { currencySymbol, formatCurrency } from "@/lib/formatCurrency";
 import { cn } from "@/lib/utils";
+import { useTransactions } from "@/hooks/useTransactions";
+import { useCategories } from "@/hooks/useCategories";
+import { useCurrencyContext } from "@/hooks/useCurrency";
+import { categoryColor, rollUpCategories } from "@/lib/categories";
+import { toBase } from "@/lib/currency";
+import { expandSplits } from "@/lib/splits";
+import {
+  AnalyticsRange,
+  buildCategoryBreakdown,
+  buildTrend,
+  filterByDate,
+  getRangeStart,
+  sumTotals,
+} from "@/lib/analytics";
 
 // ============================================================================
-// TYPE DEFINITIONS
-// ============================================================================
-
-/**
- * Monthly financial data structure
- * Contains income and expense values for each month
- */
-interface MonthlyDataPoint {
-  name: string;      // Month abbreviation (e.g., "Jan", "Feb")
-  income: number;    // Total income for the month in INR
-  expense: number;   // Total expenses for the month in INR
-}
-
-/**
- * Category spending data structure
- * Represents spending breakdown by category
- */
-interface CategoryDataPoint {
-  name: string;       // Category name (e.g., "Food", "Transport")
-  amount: number;     // Amount spent in INR
-  percentage: number; // Percentage of total spending
-}
-
-// ============================================================================
-// MOCK DATA - Replace with API calls in production
+// CONSTANTS
 // ============================================================================
 
-/**
- * Sample monthly financial data for the last 6 months
- * In production, this would come from the backend API
- */
-const monthlyData: MonthlyDataPoint[] = [
-  { name: "Aug", income: 75000, expense: 52000 },
-  { name: "Sep", income: 82000, expense: 48000 },
-  { name: "Oct", income: 78000, expense: 55000 },
-  { name: "Nov", income: 90000, expense: 58000 },
-  { name: "Dec", income: 95000, expense: 62000 },
-  { name: "Jan", income: 95000, expense: 59000 },
-];
-
-/**
- * Sample category-wise spending breakdown
- * Shows how expenses are distributed across different categories
- */
-const categoryData: CategoryDataPoint[] = [
-  { name: "Food", amount: 12500, percentage: 21 },
-  { name: "Housing", amount: 25000, percentage: 42 },
-  { name: "Transport", amount: 5500, percentage: 9 },
-  { name: "Entertainment", amount: 4500, percentage: 8 },
-  { name: "Shopping", amount: 8000, percentage: 14 },
-  { name: "Others", amount: 3500, percentage: 6 },
-];
-
 /**
  * Available time range options for filtering analytics data
  */
-const timeRanges = ["Week", "Month", "Year"] as const;
+const timeRanges: AnalyticsRange[] = ["Week", "Month", "Year"];
 
 // ============================================================================
 // MAIN COMPONENT
@@ -113,26 +81,32 @@ const timeRanges = ["Week", "Month", "Year"] as const;
  */
 export default function Analytics() {
   // State for tracking selected time range filter
-  const [selectedRange, setSelectedRange] = useState<string>("Month");
+  const [selectedRange, setSelectedRange] = useState<AnalyticsRange>("Month");
+
+  // Ledger entries feeding every chart on the page
+  const { data: ledger = [] } = useTransactions();
+  const { data: catalog = [] } = useCategories();
+  const currency = useCurrencyContext();
 
   /**
-   * Formats a number as Indian Rupee currency
-   * Uses the 'en-IN' locale for proper Indian number formatting
-   * 
-   * @param value - The numeric amount to format
-   * @returns Formatted currency string (e.g., "₹1,50,000")
+   * Chart series and totals for the selected range, in the base currency
+   * Recomputed only when the ledger, the rates or the range changes
    */
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+  const { trendData, categoryData, totalIncome, totalExpense } = useMemo(() => {
+    const now = new Date();
+    const transactions = toBase(ledger, currency);
+    const inRange = filterByDate(transactions, getRangeStart(selectedRange, now), now);
+    const totals = sumTotals(inRange);
+
+    return {
+      trendData: buildTrend(transactions, selectedRange, now),
+      // Split lines count under their own category, subcategories towards their parent
+      categoryData: buildCategoryBreakdown(rollUpCategories(expandSplits(inRange), catalog)),
+      totalIncome: totals.income,
+      totalExpense: totals.expense,
+    };
+  }, [ledger, catalog, currency, selectedRange]);
 
-  // Calculate aggregate statistics from monthly data
-  const totalIncome = monthlyData.reduce((sum, month) => sum + month.income, 0);
-  const totalExpense = monthlyData.reduce((sum, month) => sum + month.expense, 0);
   const netSavings = totalIncome - totalExpense;
 
   return (
@@ -145,10 +119,10 @@ export default function Analytics() {
         <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
           <div className="flex items-center justify-between px-5 py-4">
             <h1 className="text-xl font-bold">Analytics</h1>
-            {/* Date selector button - currently shows static date */}
+            {/* Date selector button - shows the current month */}
             <button className="flex items-center gap-2 rounded-xl bg-muted px-4 py-2 text-sm font-medium transition-colors hover:bg-muted/80">
               <Calendar className="h-4 w-4" />
-              Jan 2026
+              {format(new Date(), "MMM yyyy")}
               <ChevronDown className="h-4 w-4" />
             </button>
           </div>
@@ -218,7 +192,7 @@ export default function Analytics() {
             <h2 className="mb-4 text-lg font-semibold">Income vs Expenses</h2>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={monthlyData}>
+                <AreaChart data={trendData}>
                   {/* Gradient definitions for area fills */}
                   <defs>
                     {/* Income gradient - Emerald color */}
@@ -249,7 +223,7 @@ export default function Analytics() {
                     axisLine={false}
                     tickLine={false}
                     tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 12 }}
-                    tickFormatter={(value) => `₹${value / 1000}k`}
+                    tickFormatter={(value) => `${currencySymbol()}${value / 1000}k`}
                   />
                   
                   {/* Custom tooltip styling */}
@@ -303,7 +277,7 @@ export default function Analytics() {
                     axisLine={false}
                     tickLine={false}
                     tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 12 }}
-                    width={80}
+                    width={100}
                   />
                   
                   {/* Custom tooltip */}
@@ -316,12 +290,12 @@ export default function Analytics() {
                     }}
                   />
                   
-                  {/* Bar visualization */}
-                  <Bar
-                    dataKey="amount"
-                    fill="hsl(160, 84%, 39%)"
-                    radius={[0, 8, 8, 0]}
-                  />
+                  {/* Bar visualization, one catalog color per category */}
+                  <Bar dataKey="amount" radius={[0, 8, 8, 0]}>
+                    {categoryData.map((category) => (
+                      <Cell key={category.name} fill={categoryColor(catalog, category.name, "expense").chart} />
+                    ))}
+                  </Bar>
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -332,12 +306,19 @@ export default function Analytics() {
               Detailed list view of each spending category with percentages
               ================================================================ */}
           <div className="space-y-3">
+            {/* Empty state when nothing was spent in the range */}
+            {categoryData.length === 0 && (
+              <div className="premium-card py-8 text-center text-sm text-muted-foreground">
+                No expenses recorded in this period.
+              </div>
+            )}
+
             {categoryData.map((category, index) => (
               <div
                 key={category.name}
                 className={cn(
                   "premium-card !p-4 flex items-center justify-between animate-slide-up opacity-0",
-                  `stagger-${index + 1}`
+                  `stagger-${Math.min(index + 1, 5)}`
                 )}
                 style={{ animationFillMode: "forwards" }}
               >
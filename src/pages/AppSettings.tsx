@@ -0,0 +1,303 @@
+/**
+ * ============================================================================
+ * APP SETTINGS PAGE COMPONENT
+ * ============================================================================
+ *
+ * Device-level settings. Because every record lives only on this device,
+ * the main job here is backing it up: a single encrypted file that can be
+ * restored on the same or a new phone.
+ *
+ * Features:
+ * - Backup of all transactions, budgets, goals, accounts, categories,
+ *   rules, bank profiles and settings, encrypted with a passphrase
+ * - Restore that upgrades older backups to the current schema
+ * - Replace (with confirmation) or merge into the existing data
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, DatabaseBackup, FileUp, Lock } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { errorMessage } from "@/api/client";
+import { useCreateBackup, useRestoreBackup } from "@/hooks/useBackup";
+import { BackupError, MIN_PASSPHRASE_LENGTH } from "@/lib/backup/crypto";
+import { downloadFile } from "@/lib/export/file";
+import type { RestoreMode, RestoreResult } from "@/types/Backup";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Message for a failed backup or restore
+ */
+const backupErrorMessage = (error: unknown): string =>
+  error instanceof BackupError ? error.message : errorMessage(error);
+
+/**
+ * Total records written by a restore
+ */
+const restoredCount = (result: RestoreResult): number =>
+  Object.values(result.restored).reduce((sum, count) => sum + (count ?? 0), 0);
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * App Settings Page Component
+ *
+ * @returns JSX.Element - Backup and restore settings
+ */
+export default function AppSettings() {
+  const navigate = useNavigate();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const createBackup = useCreateBackup();
+  const restoreBackup = useRestoreBackup();
+
+  // Backup form
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  // Restore form; replacing asks for confirmation first
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState("");
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [confirmReplace, setConfirmReplace] = useState(false);
+
+  /**
+   * Encrypts a backup and downloads it
+   */
+  const handleBackup = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      toast.error("The passphrases don't match");
+      return;
+    }
+    createBackup.mutate(passphrase, {
+      onSuccess: (text) => {
+        downloadFile({
+          name: `finguide-backup-${format(new Date(), "yyyy-MM-dd")}.fgbackup`,
+          type: "application/json",
+          data: text,
+        });
+        setPassphrase("");
+        setConfirmation("");
+        toast.success("Backup saved. Keep the passphrase safe; it cannot be recovered.");
+      },
+      onError: (error) => toast.error(backupErrorMessage(error)),
+    });
+  };
+
+  /**
+   * Reads the chosen backup file
+   */
+  const handleFile = async (chosen: File | undefined) => {
+    if (!chosen) return;
+    setFile({ name: chosen.name, text: await chosen.text() });
+  };
+
+  /**
+   * Decrypts and restores the chosen backup
+   */
+  const restore = () => {
+    if (!file) return;
+    restoreBackup.mutate(
+      { file: file.text, passphrase: restorePassphrase, mode },
+      {
+        onSuccess: (result) => {
+          const count = restoredCount(result);
+          toast.success(
+            mode === "replace"
+              ? `Restored ${count} records from the backup`
+              : `Added ${count} records from the backup`
+          );
+          setFile(null);
+          setRestorePassphrase("");
+          if (fileInput.current) fileInput.current.value = "";
+        },
+        onError: (error) => toast.error(backupErrorMessage(error)),
+      }
+    );
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button and page title
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 text-xl font-bold">App Settings</h1>
+          </div>
+        </header>
+
+        <div className="space-y-6 px-5 py-6">
+          {/* ================================================================
+              BACKUP
+              ================================================================ */}
+          <section className="space-y-2">
+            <h3 className="px-1 text-sm font-medium text-muted-foreground">Backup</h3>
+            <div className="premium-card !p-4 space-y-4">
+              <div className="flex gap-3 text-sm">
+                <DatabaseBackup className="mt-0.5 h-5 w-5 shrink-0 text-accent" />
+                <p className="text-muted-foreground">
+                  Your data is stored only on this device. Save an encrypted backup to restore it on a new phone
+                  or after reinstalling.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backup-passphrase">Passphrase</Label>
+                <Input
+                  id="backup-passphrase"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backup-confirmation">Repeat passphrase</Label>
+                <Input
+                  id="backup-confirmation"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                />
+              </div>
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Lock className="h-3.5 w-3.5" />
+                Without the passphrase the backup cannot be opened, not even by us.
+              </p>
+              <Button
+                className="w-full bg-gradient-emerald"
+                disabled={!passphrase || createBackup.isPending}
+                onClick={handleBackup}
+              >
+                {createBackup.isPending ? "Encrypting..." : "Create backup"}
+              </Button>
+            </div>
+          </section>
+
+          {/* ================================================================
+              RESTORE
+              ================================================================ */}
+          <section className="space-y-2">
+            <h3 className="px-1 text-sm font-medium text-muted-foreground">Restore</h3>
+            <div className="premium-card !p-4 space-y-4">
+              <button
+                onClick={() => fileInput.current?.click()}
+                className="flex w-full items-center gap-3 rounded-xl border-2 border-dashed border-border p-4 text-left text-sm"
+              >
+                <FileUp className="h-5 w-5 shrink-0 text-accent" />
+                <span className="min-w-0 flex-1 truncate">{file ? file.name : "Choose a backup file"}</span>
+              </button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".fgbackup,application/json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <div className="space-y-2">
+                <Label htmlFor="restore-passphrase">Passphrase</Label>
+                <Input
+                  id="restore-passphrase"
+                  type="password"
+                  autoComplete="current-password"
+                  value={restorePassphrase}
+                  onChange={(e) => setRestorePassphrase(e.target.value)}
+                />
+              </div>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                <Label htmlFor="restore-merge" className="flex items-start gap-3 font-normal">
+                  <RadioGroupItem id="restore-merge" value="merge" className="mt-0.5" />
+                  <span>
+                    <span className="block font-medium">Merge</span>
+                    <span className="text-xs text-muted-foreground">
+                      Keep what is on this device and add what is missing
+                    </span>
+                  </span>
+                </Label>
+                <Label htmlFor="restore-replace" className="flex items-start gap-3 font-normal">
+                  <RadioGroupItem id="restore-replace" value="replace" className="mt-0.5" />
+                  <span>
+                    <span className="block font-medium">Replace</span>
+                    <span className="text-xs text-muted-foreground">
+                      Delete everything on this device and use the backup
+                    </span>
+                  </span>
+                </Label>
+              </RadioGroup>
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={!file || !restorePassphrase || restoreBackup.isPending}
+                onClick={() => (mode === "replace" ? setConfirmReplace(true) : restore())}
+              >
+                {restoreBackup.isPending ? "Restoring..." : "Restore backup"}
+              </Button>
+            </div>
+          </section>
+        </div>
+      </div>
+
+      {/* Replacing wipes the device, so it is confirmed first */}
+      <AlertDialog open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace all data?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every transaction, budget, goal, account, category and rule on this device is deleted and replaced
+              with the contents of <strong>"{file?.name}"</strong>.
+              <br /><br />
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={restore}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
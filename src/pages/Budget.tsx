@@ -14,48 +14,30 @@
  * - Long-term savings goals with deadline tracking
  * - Full CRUD operations (Create, Read, Update, Delete)
  * - Add savings to goals functionality
+ * - Budgets and goals loaded and saved through the API client
  * 
  * @author FinGuide Development Team
- * @version 2.0.0
+ * @version 2.1.0
  * ============================================================================
  */
 
 import { useState } from "react";
 import { Target, Plus, TrendingUp, Wallet, Edit2, Trash2, PiggyBank } from "lucide-react";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { formatCurrency } from "@/lib/formatCurrency";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { BudgetFormDialog, Budget } from "@/components/budget/BudgetFormDialog";
-import { GoalFormDialog, Goal } from "@/components/budget/GoalFormDialog";
+import { BudgetFormDialog } from "@/components/budget/BudgetFormDialog";
+import { GoalFormDialog } from "@/components/budget/GoalFormDialog";
 import { DeleteConfirmDialog } from "@/components/budget/DeleteConfirmDialog";
 import { AddSavingsDialog } from "@/components/budget/AddSavingsDialog";
-
-// ============================================================================
-// INITIAL DATA - Stored in state for CRUD operations
-// ============================================================================
-
-/**
- * Initial budget categories with spending limits
- * This data is managed in component state for user modifications
- */
-const INITIAL_BUDGETS: Budget[] = [
-  { id: "1", category: "Food & Dining", emoji: "🍔", spent: 12500, limit: 15000, color: "bg-warning" },
-  { id: "2", category: "Transport", emoji: "🚗", spent: 5500, limit: 6000, color: "bg-info" },
-  { id: "3", category: "Shopping", emoji: "🛍️", spent: 8000, limit: 12000, color: "bg-purple-accent" },
-  { id: "4", category: "Entertainment", emoji: "🎬", spent: 4500, limit: 4000, color: "bg-destructive" },
-  { id: "5", category: "Healthcare", emoji: "💊", spent: 2000, limit: 5000, color: "bg-emerald" },
-];
-
-/**
- * Initial savings goals with progress tracking
- * This data is managed in component state for user modifications
- */
-const INITIAL_GOALS: Goal[] = [
-  { id: "1", title: "Emergency Fund", emoji: "🏦", saved: 150000, target: 300000, deadline: "Dec 2026" },
-  { id: "2", title: "New Laptop", emoji: "💻", saved: 45000, target: 80000, deadline: "Jun 2026" },
-  { id: "3", title: "Vacation Trip", emoji: "✈️", saved: 25000, target: 100000, deadline: "Oct 2026" },
-];
+import { useBudgets, useCreateBudget, useDeleteBudget, useUpdateBudget } from "@/hooks/useBudgets";
+import { useCategories } from "@/hooks/useCategories";
+import { categoryColor, findCategory } from "@/lib/categories";
+import { useCreateGoal, useDeleteGoal, useGoals, useUpdateGoal } from "@/hooks/useGoals";
+import type { Budget, BudgetInput } from "@/types/Budget";
+import type { Goal } from "@/types/Goal";
 
 // ============================================================================
 // MAIN COMPONENT
@@ -78,9 +60,18 @@ export default function BudgetPage() {
   // Tab state
   const [activeTab, setActiveTab] = useState<"budget" | "goals">("budget");
   
-  // Data state - budgets and goals are stored here for CRUD operations
-  const [budgets, setBudgets] = useState<Budget[]>(INITIAL_BUDGETS);
-  const [goals, setGoals] = useState<Goal[]>(INITIAL_GOALS);
+  // Budgets and goals fetched through React Query
+  const { data: budgets = [] } = useBudgets();
+  const { data: catalog = [] } = useCategories();
+  const { data: goals = [] } = useGoals();
+  
+  // Mutations for budget and goal CRUD
+  const createBudget = useCreateBudget();
+  const updateBudget = useUpdateBudget();
+  const deleteBudget = useDeleteBudget();
+  const createGoal = useCreateGoal();
+  const updateGoal = useUpdateGoal();
+  const deleteGoal = useDeleteGoal();
   
   // Dialog states for Budget operations
   const [budgetFormOpen, setBudgetFormOpen] = useState(false);
@@ -101,18 +92,10 @@ export default function BudgetPage() {
   // ========================================================================
 
   /**
-   * Formats a number as Indian Rupee currency
-   * Uses the 'en-IN' locale for proper Indian number formatting
-   * 
-   * @param amount - The numeric amount to format
-   * @returns Formatted currency string (e.g., "₹1,50,000")
+   * Shows an error toast when a change could not be saved
    */
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount);
+  const handleSaveError = () => {
+    toast.error("Couldn't save your changes. Please try again.");
   };
 
   // ========================================================================
@@ -142,17 +125,13 @@ export default function BudgetPage() {
    * 
    * @param budgetData - The budget data to save
    */
-  const handleSaveBudget = (budgetData: Budget) => {
+  const handleSaveBudget = ({ id, ...changes }: BudgetInput & { id?: string }) => {
     if (editingBudget) {
-      // Update existing budget
-      setBudgets(prev => 
-        prev.map(b => b.id === budgetData.id ? budgetData : b)
-      );
-      toast.success(`Budget "${budgetData.category}" updated successfully!`);
+      updateBudget.mutate({ id, changes }, { onError: handleSaveError });
+      toast.success(`Budget "${changes.category}" updated successfully!`);
     } else {
-      // Add new budget
-      setBudgets(prev => [...prev, budgetData]);
-      toast.success(`Budget "${budgetData.category}" created successfully!`);
+      createBudget.mutate(changes, { onError: handleSaveError });
+      toast.success(`Budget "${changes.category}" created successfully!`);
     }
   };
 
@@ -171,7 +150,7 @@ export default function BudgetPage() {
    */
   const handleConfirmDeleteBudget = () => {
     if (budgetToDelete) {
-      setBudgets(prev => prev.filter(b => b.id !== budgetToDelete.id));
+      deleteBudget.mutate(budgetToDelete.id, { onError: handleSaveError });
       toast.success(`Budget "${budgetToDelete.category}" deleted successfully!`);
       setBudgetToDelete(null);
       setDeleteBudgetOpen(false);
@@ -205,17 +184,13 @@ export default function BudgetPage() {
    * 
    * @param goalData - The goal data to save
    */
-  const handleSaveGoal = (goalData: Goal) => {
+  const handleSaveGoal = ({ id, ...changes }: Goal) => {
     if (editingGoal) {
-      // Update existing goal
-      setGoals(prev => 
-        prev.map(g => g.id === goalData.id ? goalData : g)
-      );
-      toast.success(`Goal "${goalData.title}" updated successfully!`);
+      updateGoal.mutate({ id, changes }, { onError: handleSaveError });
+      toast.success(`Goal "${changes.title}" updated successfully!`);
     } else {
-      // Add new goal
-      setGoals(prev => [...prev, goalData]);
-      toast.success(`Goal "${goalData.title}" created successfully!`);
+      createGoal.mutate(changes, { onError: handleSaveError });
+      toast.success(`Goal "${changes.title}" created successfully!`);
     }
   };
 
@@ -234,7 +209,7 @@ export default function BudgetPage() {
    */
   const handleConfirmDeleteGoal = () => {
     if (goalToDelete) {
-      setGoals(prev => prev.filter(g => g.id !== goalToDelete.id));
+      deleteGoal.mutate(goalToDelete.id, { onError: handleSaveError });
       toast.success(`Goal "${goalToDelete.title}" deleted successfully!`);
       setGoalToDelete(null);
       setDeleteGoalOpen(false);
@@ -258,15 +233,10 @@ export default function BudgetPage() {
    * @param amount - The amount to add
    */
   const handleAddSavings = (goalId: string, amount: number) => {
-    setGoals(prev => 
-      prev.map(g => 
-        g.id === goalId 
-          ? { ...g, saved: g.saved + amount }
-          : g
-      )
-    );
     const goal = goals.find(g => g.id === goalId);
-    toast.success(`Added ${formatCurrency(amount)} to "${goal?.title}"!`);
+    if (!goal) return;
+    updateGoal.mutate({ id: goalId, changes: { saved: goal.saved + amount } }, { onError: handleSaveError });
+    toast.success(`Added ${formatCurrency(amount)} to "${goal.title}"!`);
   };
 
   // ========================================================================
@@ -420,7 +390,7 @@ export default function BudgetPage() {
                       {/* Category header with emoji and amounts */}
                       <div className="flex items-center justify-between mb-3">
                         <div className="flex items-center gap-3">
-                          <span className="text-2xl">{budget.emoji}</span>
+                          <span className="text-2xl">{findCategory(catalog, budget.category, "expense")?.emoji ?? "📦"}</span>
                           <div>
                             <p className="font-medium">{budget.category}</p>
                             <p className={cn(
@@ -458,7 +428,7 @@ export default function BudgetPage() {
                         <div
                           className={cn(
                             "h-full rounded-full transition-all duration-500",
-                            isOver ? "bg-destructive" : budget.color
+                            isOver ? "bg-destructive" : categoryColor(catalog, budget.category, "expense").bar
                           )}
                           style={{ width: `${Math.min(percentage, 100)}%` }}
                         />
@@ -0,0 +1,302 @@
+/**
+ * ============================================================================
+ * CATEGORIES PAGE COMPONENT
+ * ============================================================================
+ *
+ * Manages the category catalog. Categories are listed per type with their
+ * subcategories underneath, and can be added, renamed, recolored, moved
+ * under a parent, archived or merged into another category.
+ *
+ * Features:
+ * - Expense / income switch
+ * - Parent and subcategory list with emoji and color
+ * - Create and edit dialog
+ * - Archive (hidden from pickers, kept on existing entries) and restore
+ * - Merge into another category of the same type
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Archive, ArchiveRestore, ArrowLeft, GitMerge, Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { CategoryFormDialog, CategoryFormValues } from "@/components/categories/CategoryFormDialog";
+import { MergeCategoryDialog } from "@/components/categories/MergeCategoryDialog";
+import { errorMessage } from "@/api/client";
+import {
+  useCategories,
+  useCreateCategory,
+  useMergeCategory,
+  useUpdateCategory,
+} from "@/hooks/useCategories";
+import { CATEGORY_COLORS } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+import type { Category } from "@/types/Category";
+import type { CategoryType } from "@/types/Transaction";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Props for a single catalog row
+ */
+interface CategoryRowProps {
+  category: Category;
+  nested?: boolean;                          // Indent as a subcategory
+  onEdit: (category: Category) => void;
+  onMerge: (category: Category) => void;
+  onArchive: (category: Category, archived: boolean) => void;
+}
+
+/**
+ * A category with its edit, merge and archive actions
+ */
+function CategoryRow({ category, nested = false, onEdit, onMerge, onArchive }: CategoryRowProps) {
+  const color = CATEGORY_COLORS[category.color] ?? CATEGORY_COLORS.muted;
+
+  return (
+    <div className={cn("flex items-center gap-3 px-4 py-3", nested && "pl-10")}>
+      <div className={cn("flex h-10 w-10 shrink-0 items-center justify-center rounded-xl text-xl", color.iconBg)}>
+        <span aria-hidden="true">{category.emoji}</span>
+      </div>
+      <p className={cn("flex-1 font-medium", category.archived && "text-muted-foreground")}>{category.name}</p>
+
+      <button
+        className="rounded-lg p-2 transition-colors hover:bg-muted"
+        onClick={() => onEdit(category)}
+        title="Edit category"
+      >
+        <Pencil className="h-4 w-4 text-muted-foreground" />
+      </button>
+      <button
+        className="rounded-lg p-2 transition-colors hover:bg-muted"
+        onClick={() => onMerge(category)}
+        title="Merge into another category"
+      >
+        <GitMerge className="h-4 w-4 text-muted-foreground" />
+      </button>
+      <button
+        className="rounded-lg p-2 transition-colors hover:bg-muted"
+        onClick={() => onArchive(category, !category.archived)}
+        title={category.archived ? "Restore category" : "Archive category"}
+      >
+        {category.archived
+          ? <ArchiveRestore className="h-4 w-4 text-muted-foreground" />
+          : <Archive className="h-4 w-4 text-muted-foreground" />}
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Categories Page Component
+ *
+ * @returns JSX.Element - The category management layout
+ */
+export default function Categories() {
+  const navigate = useNavigate();
+  const { data: catalog = [] } = useCategories();
+  const createCategory = useCreateCategory();
+  const updateCategory = useUpdateCategory();
+  const mergeCategory = useMergeCategory();
+
+  // Which type is being managed
+  const [type, setType] = useState<CategoryType>("expense");
+
+  // Dialog state: the category being edited (null = new) and the one being merged
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [merging, setMerging] = useState<Category | null>(null);
+
+  const ofType = catalog.filter((c) => c.type === type);
+  const topLevel = ofType.filter((c) => !c.parentId);
+  const childrenOf = (id: string) => ofType.filter((c) => c.parentId === id);
+
+  /**
+   * Opens the form for a new category
+   */
+  const handleAdd = () => {
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  /**
+   * Opens the form for an existing category
+   */
+  const handleEdit = (category: Category) => {
+    setEditing(category);
+    setFormOpen(true);
+  };
+
+  /**
+   * Creates or updates a category from the form
+   */
+  const handleSave = (values: CategoryFormValues) => {
+    const onError = (error: unknown) => toast.error(errorMessage(error));
+
+    if (editing) {
+      updateCategory.mutate(
+        { id: editing.id, changes: values },
+        {
+          onSuccess: () => {
+            toast.success(`"${values.name}" updated`);
+            setFormOpen(false);
+          },
+          onError,
+        }
+      );
+    } else {
+      createCategory.mutate(
+        { ...values, type, parentId: values.parentId ?? undefined },
+        {
+          onSuccess: () => {
+            toast.success(`"${values.name}" added`);
+            setFormOpen(false);
+          },
+          onError,
+        }
+      );
+    }
+  };
+
+  /**
+   * Archives or restores a category
+   */
+  const handleArchive = (category: Category, archived: boolean) => {
+    updateCategory.mutate(
+      { id: category.id, changes: { archived } },
+      {
+        onSuccess: () => toast.success(`"${category.name}" ${archived ? "archived" : "restored"}`),
+        onError: (error) => toast.error(errorMessage(error)),
+      }
+    );
+  };
+
+  /**
+   * Merges the selected category into the chosen target
+   */
+  const handleMerge = (targetId: string) => {
+    if (!merging) return;
+    const target = catalog.find((c) => c.id === targetId);
+    mergeCategory.mutate(
+      { id: merging.id, targetId },
+      {
+        onSuccess: () => toast.success(`"${merging.name}" merged into "${target?.name}"`),
+        onError: (error) => toast.error(errorMessage(error)),
+      }
+    );
+    setMerging(null);
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button, page title and add shortcut
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 text-xl font-bold">Categories</h1>
+            <button
+              onClick={handleAdd}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-emerald text-white"
+              aria-label="Add category"
+            >
+              <Plus className="h-5 w-5" />
+            </button>
+          </div>
+        </header>
+
+        <div className="space-y-6 px-5 py-6">
+          {/* ================================================================
+              TYPE TOGGLE
+              Switches between expense and income categories
+              ================================================================ */}
+          <div className="flex rounded-2xl bg-muted p-1">
+            {(["expense", "income"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setType(option)}
+                className={cn(
+                  "flex-1 rounded-xl py-2.5 text-sm font-medium transition-all duration-200",
+                  type === option ? "bg-card shadow-sm" : "text-muted-foreground"
+                )}
+                aria-pressed={type === option}
+              >
+                {option === "expense" ? "Expense" : "Income"}
+              </button>
+            ))}
+          </div>
+
+          {/* ================================================================
+              CATALOG
+              Top-level categories with their subcategories underneath
+              ================================================================ */}
+          <div className="premium-card !p-0 divide-y divide-border/50 overflow-hidden">
+            {topLevel.map((category) => (
+              <div key={category.id} className="divide-y divide-border/50">
+                <CategoryRow
+                  category={category}
+                  onEdit={handleEdit}
+                  onMerge={setMerging}
+                  onArchive={handleArchive}
+                />
+                {childrenOf(category.id).map((child) => (
+                  <CategoryRow
+                    key={child.id}
+                    category={child}
+                    nested
+                    onEdit={handleEdit}
+                    onMerge={setMerging}
+                    onArchive={handleArchive}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <p className="px-1 text-xs text-muted-foreground">
+            Archived categories are hidden when adding transactions and budgets, but
+            existing entries keep them.
+          </p>
+        </div>
+      </div>
+
+      {/* Create / edit dialog */}
+      <CategoryFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        type={type}
+        category={editing}
+        parents={topLevel.filter((c) => !c.archived)}
+        hasChildren={editing ? childrenOf(editing.id).length > 0 : false}
+        onSave={handleSave}
+      />
+
+      {/* Merge dialog */}
+      <MergeCategoryDialog
+        source={merging}
+        targets={ofType.filter((c) => c.id !== merging?.id)}
+        onOpenChange={(open) => !open && setMerging(null)}
+        onConfirm={handleMerge}
+      />
+    </AppLayout>
+  );
+}
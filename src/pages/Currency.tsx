@@ -0,0 +1,253 @@
+/**
+ * ============================================================================
+ * CURRENCY PAGE COMPONENT
+ * ============================================================================
+ *
+ * Sets the base currency and manages the exchange-rate table used to
+ * convert other currencies into it.
+ *
+ * Features:
+ * - Base currency picker; totals, budgets and charts are shown in it
+ * - Rate list, newest first, with add, edit and delete
+ * - Warning for currencies in use that no rate links to the base currency
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, ArrowLeft, ArrowRightLeft, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { CurrencySelect } from "@/components/currency/CurrencySelect";
+import { ExchangeRateFormDialog } from "@/components/currency/ExchangeRateFormDialog";
+import { DeleteConfirmDialog } from "@/components/budget/DeleteConfirmDialog";
+import { Label } from "@/components/ui/label";
+import { errorMessage } from "@/api/client";
+import { useAccounts } from "@/hooks/useAccounts";
+import {
+  useCreateExchangeRate,
+  useCurrencyContext,
+  useDeleteExchangeRate,
+  useSetBaseCurrency,
+  useUpdateExchangeRate,
+} from "@/hooks/useCurrency";
+import { useTransactions } from "@/hooks/useTransactions";
+import { missingRates } from "@/lib/currency";
+import type { ExchangeRate, ExchangeRateInput } from "@/types/Currency";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Label for a rate (e.g., "USD → INR")
+ */
+const pairLabel = (rate: ExchangeRate): string => `${rate.from} → ${rate.to}`;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Currency Page Component
+ *
+ * @returns JSX.Element - The currency settings layout
+ */
+export default function Currency() {
+  const navigate = useNavigate();
+  const currency = useCurrencyContext();
+  const { data: transactions = [] } = useTransactions();
+  const { data: accounts = [] } = useAccounts();
+  const setBaseCurrency = useSetBaseCurrency();
+  const createRate = useCreateExchangeRate();
+  const updateRate = useUpdateExchangeRate();
+  const deleteRate = useDeleteExchangeRate();
+
+  // Dialog state: the rate being edited and the one pending deletion
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<ExchangeRate | null>(null);
+  const [toDelete, setToDelete] = useState<ExchangeRate | null>(null);
+
+  // Currencies in use that cannot be converted into the base currency
+  const missing = useMemo(
+    () => missingRates([...transactions, ...accounts], currency),
+    [transactions, accounts, currency]
+  );
+
+  /**
+   * Changes the base currency
+   */
+  const handleBaseChange = (code: string) => {
+    setBaseCurrency.mutate(code, {
+      onSuccess: () => toast.success(`Totals are now shown in ${code}`),
+      onError: (error) => toast.error(errorMessage(error)),
+    });
+  };
+
+  /**
+   * Opens the form for a new rate
+   */
+  const handleAdd = () => {
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  /**
+   * Opens the form for an existing rate
+   */
+  const handleEdit = (rate: ExchangeRate) => {
+    setEditing(rate);
+    setFormOpen(true);
+  };
+
+  /**
+   * Creates or updates a rate from the form
+   */
+  const handleSave = (input: ExchangeRateInput) => {
+    const options = {
+      onSuccess: () => {
+        toast.success(`Rate ${input.from} → ${input.to} ${editing ? "updated" : "added"}`);
+        setFormOpen(false);
+      },
+      onError: (error: unknown) => toast.error(errorMessage(error)),
+    };
+    if (editing) updateRate.mutate({ id: editing.id, changes: input }, options);
+    else createRate.mutate(input, options);
+  };
+
+  /**
+   * Deletes the confirmed rate
+   */
+  const handleConfirmDelete = () => {
+    if (!toDelete) return;
+    deleteRate.mutate(toDelete.id, {
+      onSuccess: () => toast.success(`Rate ${pairLabel(toDelete)} deleted`),
+      onError: (error) => toast.error(errorMessage(error)),
+    });
+    setToDelete(null);
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button, page title and add shortcut
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 text-xl font-bold">Currency</h1>
+            <button
+              onClick={handleAdd}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-emerald text-white"
+              aria-label="Add rate"
+            >
+              <Plus className="h-5 w-5" />
+            </button>
+          </div>
+        </header>
+
+        <div className="space-y-4 px-5 py-6">
+          {/* ================================================================
+              BASE CURRENCY
+              ================================================================ */}
+          <div className="premium-card !p-4 space-y-2">
+            <Label htmlFor="base-currency">Base currency</Label>
+            <CurrencySelect id="base-currency" value={currency.base} onValueChange={handleBaseChange} />
+            <p className="text-xs text-muted-foreground">
+              Balances, budgets and charts are shown in this currency. Each
+              transaction keeps the amount and currency it was recorded in.
+            </p>
+          </div>
+
+          {/* Currencies that are counted 1:1 for want of a rate */}
+          {missing.length > 0 && (
+            <div className="premium-card !p-4 flex items-start gap-3 border border-warning/40">
+              <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0 text-warning" />
+              <p className="text-sm">
+                No rate converts {missing.join(", ")} to {currency.base}, so those amounts are
+                counted one to one. Add a rate to fix your totals.
+              </p>
+            </div>
+          )}
+
+          <p className="px-1 text-sm text-muted-foreground">
+            Each amount is converted at the latest rate dated on or before its day.
+            A rate also works the other way round.
+          </p>
+
+          {/* Empty state */}
+          {currency.rates.length === 0 && (
+            <div className="premium-card py-10 text-center">
+              <ArrowRightLeft className="mx-auto mb-3 h-8 w-8 text-muted-foreground" />
+              <p className="font-medium">No exchange rates yet</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Add one for each currency you spend or hold in.
+              </p>
+            </div>
+          )}
+
+          {/* ================================================================
+              RATE LIST
+              Newest first, with edit and delete
+              ================================================================ */}
+          {currency.rates.map((rate) => (
+            <div key={rate.id} className="premium-card !p-4 flex items-center gap-3">
+              <div className="min-w-0 flex-1">
+                <p className="font-medium">
+                  1 {rate.from} = {rate.rate} {rate.to}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  From {format(parseISO(rate.date), "d MMM yyyy")}
+                </p>
+              </div>
+              <button
+                className="rounded-lg p-2 transition-colors hover:bg-muted"
+                onClick={() => handleEdit(rate)}
+                title="Edit rate"
+              >
+                <Pencil className="h-4 w-4 text-muted-foreground" />
+              </button>
+              <button
+                className="rounded-lg p-2 transition-colors hover:bg-destructive/10"
+                onClick={() => setToDelete(rate)}
+                title="Delete rate"
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Create / edit dialog */}
+      <ExchangeRateFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        rate={editing}
+        base={currency.base}
+        onSave={handleSave}
+      />
+
+      {/* Delete confirmation */}
+      <DeleteConfirmDialog
+        open={toDelete !== null}
+        onOpenChange={(open) => !open && setToDelete(null)}
+        itemName={toDelete ? pairLabel(toDelete) : ""}
+        itemType="rate"
+        onConfirm={handleConfirmDelete}
+      />
+    </AppLayout>
+  );
+}
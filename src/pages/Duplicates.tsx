@@ -0,0 +1,165 @@
+/**
+ * ============================================================================
+ * DUPLICATES PAGE COMPONENT
+ * ============================================================================
+ *
+ * Review queue for transactions that look like the same payment recorded
+ * twice (same amount, close dates, similar description), typically after
+ * importing overlapping statements or importing an expense that was
+ * already typed in.
+ *
+ * Features:
+ * - Each pair shown as the original and the later possible duplicate
+ * - Merge: keep the original, filling in details from the duplicate
+ * - Keep both: mark the pair as two real payments
+ * - Discard: delete the duplicate
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, CheckCircle2, Combine, Copy, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { TransactionRow } from "@/components/transactions/TransactionRow";
+import { Button } from "@/components/ui/button";
+import { errorMessage } from "@/api/client";
+import { useDuplicates, useResolveDuplicate } from "@/hooks/useDuplicates";
+import type { DuplicateAction, DuplicatePair } from "@/types/Duplicate";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Toast shown after each decision
+ */
+const RESOLVED_MESSAGES: Record<DuplicateAction, string> = {
+  merge: "Merged into one transaction",
+  keep_both: "Kept both transactions",
+  discard: "Duplicate deleted",
+};
+
+/**
+ * How the two dates relate (e.g., "Same day", "2 days apart")
+ */
+const describeGap = (pair: DuplicatePair): string =>
+  pair.daysApart === 0 ? "Same day" : `${pair.daysApart} ${pair.daysApart === 1 ? "day" : "days"} apart`;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Duplicates Page Component
+ *
+ * @returns JSX.Element - The duplicate review queue
+ */
+export default function Duplicates() {
+  const navigate = useNavigate();
+  const { data: pairs = [], isLoading } = useDuplicates();
+  const resolveDuplicate = useResolveDuplicate();
+
+  /**
+   * Applies the user's decision to a pair
+   */
+  const handleResolve = (pair: DuplicatePair, action: DuplicateAction) => {
+    resolveDuplicate.mutate(
+      { originalId: pair.original.id, duplicateId: pair.duplicate.id, action },
+      {
+        onSuccess: () => toast.success(RESOLVED_MESSAGES[action]),
+        onError: (error) => toast.error(errorMessage(error)),
+      }
+    );
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button and page title
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 text-xl font-bold">Possible duplicates</h1>
+          </div>
+        </header>
+
+        <div className="space-y-4 px-5 py-6">
+          {/* Empty state */}
+          {!isLoading && pairs.length === 0 && (
+            <div className="premium-card py-10 text-center">
+              <CheckCircle2 className="mx-auto mb-3 h-8 w-8 text-emerald" />
+              <p className="font-medium">No duplicates to review</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Entries with the same amount, close dates and a similar description show up here.
+              </p>
+            </div>
+          )}
+
+          {/* ================================================================
+              REVIEW QUEUE
+              One card per pair with the three possible decisions
+              ================================================================ */}
+          {pairs.map((pair) => (
+            <div key={pair.id} className="premium-card !p-4 space-y-3">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Copy className="h-3.5 w-3.5" />
+                {describeGap(pair)} • {Math.round(pair.similarity * 100)}% similar description
+              </div>
+
+              <div className="space-y-2">
+                <p className="px-1 text-xs font-medium">Recorded first</p>
+                <TransactionRow transaction={pair.original} className="!shadow-none bg-muted/40" />
+                <p className="px-1 text-xs font-medium">
+                  Possible duplicate{pair.duplicate.externalId && " (imported)"}
+                </p>
+                <TransactionRow transaction={pair.duplicate} className="!shadow-none bg-muted/40" />
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <Button
+                  size="sm"
+                  className="bg-gradient-emerald"
+                  disabled={resolveDuplicate.isPending}
+                  onClick={() => handleResolve(pair, "merge")}
+                >
+                  <Combine className="mr-1 h-4 w-4" />
+                  Merge
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={resolveDuplicate.isPending}
+                  onClick={() => handleResolve(pair, "keep_both")}
+                >
+                  Keep both
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-destructive"
+                  disabled={resolveDuplicate.isPending}
+                  onClick={() => handleResolve(pair, "discard")}
+                >
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Discard
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
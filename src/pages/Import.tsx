@@ -0,0 +1,295 @@
+/**
+ * ============================================================================
+ * IMPORT PAGE COMPONENT
+ * ============================================================================
+ *
+ * Imports transactions from a bank statement file in three steps:
+ * upload, column mapping and preview. Imported rows run through the
+ * categorization rules like any new transaction.
+ *
+ * Features:
+ * - CSV files with any delimiter, header position and date layout
+ * - OFX/QFX (SGML and XML) and QIF files, read straight to the preview;
+ *   entries already imported from the same bank ids are skipped
+ * - ledger/hledger and beancount journals, keeping their categories,
+ *   tags and accounts
+ * - Column mapping with automatic guesses for common bank headers
+ * - Saved bank profiles: a file whose headers match a profile skips
+ *   straight to the preview
+ * - Preview with per-row selection and a list of unreadable lines
+ * - Link to pasting bank SMS alerts instead of a file
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, FileUp, MessageSquareText } from "lucide-react";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { CsvMappingStep, type CsvLayout } from "@/components/import/CsvMappingStep";
+import { ImportPreview } from "@/components/import/ImportPreview";
+import { Button } from "@/components/ui/button";
+import { errorMessage } from "@/api/client";
+import { useAccounts } from "@/hooks/useAccounts";
+import { useBankProfiles, useCreateBankProfile, useUpdateBankProfile } from "@/hooks/useBankProfiles";
+import { useCategories } from "@/hooks/useCategories";
+import { useImportTransactions } from "@/hooks/useTransactions";
+import { mapCsvRows, parseCsv, sameHeaders } from "@/lib/import/csv";
+import { parseJournal } from "@/lib/import/journal";
+import { parseOfx } from "@/lib/import/ofx";
+import { parseQif } from "@/lib/import/qif";
+import { detectStatementFormat, toTransactionInputs } from "@/lib/import/statement";
+import type { BankProfile, ParsedStatement, StatementRow } from "@/types/Import";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Wizard step currently shown
+ */
+type Step = "upload" | "map" | "preview";
+
+/**
+ * Heading shown for each step
+ */
+const STEP_TITLES: Record<Step, string> = {
+  upload: "Choose a statement",
+  map: "Match the columns",
+  preview: "Review and import",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Profile whose saved header row matches the file, if any
+ */
+const matchProfile = (profiles: BankProfile[], rows: string[][]): BankProfile | undefined =>
+  profiles.find((p) => rows[p.headerRow] && sameHeaders(rows[p.headerRow], p.headers));
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Import Page Component
+ *
+ * @returns JSX.Element - The statement import wizard
+ */
+export default function Import() {
+  const navigate = useNavigate();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { data: profiles = [] } = useBankProfiles();
+  const { data: accounts = [] } = useAccounts();
+  const { data: catalog = [] } = useCategories();
+  const createProfile = useCreateBankProfile();
+  const updateProfile = useUpdateBankProfile();
+  const importTransactions = useImportTransactions();
+
+  // Wizard state: current step, file contents, chosen layout and parsed result
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [profile, setProfile] = useState<BankProfile | null>(null);
+  const [layout, setLayout] = useState<CsvLayout | null>(null);
+  const [statement, setStatement] = useState<ParsedStatement>({ rows: [], errors: [] });
+
+  /**
+   * Reads the chosen file. OFX, QIF and journals go straight to the preview; a CSV
+   * either applies a matching profile or opens the mapping step.
+   */
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    const format = detectStatementFormat(file.name, text);
+    if (format !== "csv") {
+      const parsed =
+        format === "ofx" ? parseOfx(text) : format === "qif" ? parseQif(text) : parseJournal(text, catalog);
+      if (parsed.rows.length === 0 && parsed.errors.length === 0) {
+        toast.error("No transactions found in that file");
+        return;
+      }
+      setFileName(file.name);
+      setRows([]);
+      setProfile(null);
+      setStatement(parsed);
+      setStep("preview");
+      return;
+    }
+
+    const cells = parseCsv(text);
+    if (cells.length < 2) {
+      toast.error("That file has no rows to import");
+      return;
+    }
+
+    setFileName(file.name);
+    setRows(cells);
+    const match = matchProfile(profiles, cells);
+    setProfile(match ?? null);
+    if (match) {
+      setStatement(mapCsvRows(cells, match.headerRow, match.mapping, match.dateFormat));
+      setStep("preview");
+      toast.success(`Recognised as "${match.name}"`);
+    } else {
+      setStep("map");
+    }
+  };
+
+  /**
+   * Parses the file with the chosen layout, saving it as a profile when named
+   */
+  const handleMapped = (chosen: CsvLayout) => {
+    const { profileName, ...settings } = chosen;
+    setLayout(chosen);
+    setStatement(mapCsvRows(rows, settings.headerRow, settings.mapping, settings.dateFormat));
+    setStep("preview");
+    if (!profileName) return;
+
+    const input = { name: profileName, headers: rows[settings.headerRow], ...settings };
+    const existing = profiles.find((p) => p.name.toLowerCase() === profileName.toLowerCase());
+    const options = {
+      onSuccess: () => toast.success(`Profile "${profileName}" saved`),
+      onError: (error: unknown) => toast.error(errorMessage(error)),
+    };
+    if (existing) updateProfile.mutate({ id: existing.id, changes: input }, options);
+    else createProfile.mutate(input, options);
+  };
+
+  /**
+   * Imports the confirmed rows and returns to the history
+   */
+  const handleConfirm = (confirmed: StatementRow[], accountId: string | undefined) => {
+    importTransactions.mutate(toTransactionInputs(confirmed, accountId, accounts), {
+      onSuccess: ({ imported, skipped }) => {
+        const count = `${imported.length} ${imported.length === 1 ? "transaction" : "transactions"}`;
+        toast.success(skipped > 0 ? `Imported ${count}, skipped ${skipped} already imported` : `Imported ${count}`);
+        navigate("/transactions");
+      },
+      onError: (error) => toast.error(errorMessage(error)),
+    });
+  };
+
+  /**
+   * Clears the wizard back to the upload step
+   */
+  const reset = () => {
+    setStep("upload");
+    setRows([]);
+    setProfile(null);
+    setLayout(null);
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button and page title
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <div className="min-w-0 flex-1">
+              <h1 className="text-xl font-bold">Import</h1>
+              <p className="truncate text-xs text-muted-foreground">
+                {STEP_TITLES[step]}
+                {fileName && step !== "upload" && ` • ${fileName}`}
+              </p>
+            </div>
+          </div>
+        </header>
+
+        <div className="px-5 py-6">
+          {/* ================================================================
+              STEP 1 - UPLOAD
+              ================================================================ */}
+          {step === "upload" && (
+            <div className="space-y-4">
+              <button
+                onClick={() => fileInput.current?.click()}
+                className="premium-card flex w-full flex-col items-center gap-3 border-2 border-dashed border-border py-12 text-center"
+              >
+                <FileUp className="h-10 w-10 text-accent" />
+                <span className="font-medium">Choose a statement file</span>
+                <span className="text-xs text-muted-foreground">
+                  CSV, OFX, QFX or QIF from your bank's net banking, or a ledger, hledger or beancount journal.
+                </span>
+              </button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.ofx,.qfx,.qif,.ledger,.journal,.hledger,.beancount,.bean,text/csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <Link
+                to="/import/sms"
+                className="premium-card !p-4 flex items-center gap-3 text-sm transition-colors hover:bg-muted/40"
+              >
+                <MessageSquareText className="h-5 w-5 text-accent" />
+                <span className="flex-1">
+                  <span className="block font-medium">Or paste bank SMS</span>
+                  <span className="text-xs text-muted-foreground">Turn transaction alerts into drafts</span>
+                </span>
+              </Link>
+              {profiles.length > 0 && (
+                <p className="px-1 text-xs text-muted-foreground">
+                  Saved profiles: {profiles.map((p) => p.name).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* ================================================================
+              STEP 2 - COLUMN MAPPING
+              ================================================================ */}
+          {step === "map" && (
+            <CsvMappingStep
+              rows={rows}
+              initial={layout ?? (profile ? { ...profile, profileName: profile.name } : undefined)}
+              onBack={reset}
+              onContinue={handleMapped}
+            />
+          )}
+
+          {/* ================================================================
+              STEP 3 - PREVIEW
+              ================================================================ */}
+          {step === "preview" && (
+            <div className="space-y-4">
+              {profile && (
+                <div className="flex items-center justify-between px-1 text-sm">
+                  <span className="text-muted-foreground">Using profile "{profile.name}"</span>
+                  <Button variant="link" className="h-auto p-0" onClick={() => setStep("map")}>
+                    Change mapping
+                  </Button>
+                </div>
+              )}
+              <ImportPreview
+                rows={statement.rows}
+                errors={statement.errors}
+                account={statement.account}
+                isImporting={importTransactions.isPending}
+                onBack={profile || rows.length === 0 ? reset : () => setStep("map")}
+                onConfirm={handleConfirm}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
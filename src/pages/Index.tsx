@@ -22,6 +22,7 @@
  * ============================================================================
  */
 
+import { useState } from "react";
 import { Bell, Menu } from "lucide-react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { BalanceCard } from "@/components/dashboard/BalanceCard";
@@ -32,6 +33,8 @@ import { AIInsights } from "@/components/dashboard/AIInsights";
 import { BudgetProgress } from "@/components/dashboard/BudgetProgress";
 import { FinancialHealthScore } from "@/components/dashboard/FinancialHealthScore";
 import { toast } from "sonner";
+import { useSummary } from "@/hooks/useSummary";
+import type { SummaryPeriod } from "@/types/Summary";
 
 // ============================================================================
 // MAIN COMPONENT
@@ -46,6 +49,10 @@ import { toast } from "sonner";
  * @returns JSX.Element - The dashboard page layout
  */
 const Index = () => {
+  // Period shown on the balance card and its figures computed from the ledger
+  const [period, setPeriod] = useState<SummaryPeriod>("month");
+  const { data: summary } = useSummary(period);
+
   /**
    * Handles notification bell click
    * In production, would open a notifications panel/modal
@@ -122,10 +129,16 @@ const Index = () => {
               ============================================================== */}
           <div className="animate-scale-in">
             <BalanceCard
-              balance={152840}      // Total current balance in INR
-              income={95000}        // Total income for current period
-              expenses={59000}      // Total expenses for current period
-              savingsRate={18.5}    // Savings rate percentage
+              balance={summary?.balance ?? 0}          // Total current balance in the base currency
+              currency={summary?.currency}             // Base currency every total is converted into
+              income={summary?.income ?? 0}            // Total income for the selected period
+              expenses={summary?.expenses ?? 0}        // Total expenses for the selected period
+              savingsRate={summary?.savingsRate ?? 0}  // Savings rate percentage
+              period={period}
+              change={summary?.change}                 // Movement vs the previous period
+              accounts={summary?.accounts}             // Per-account breakdown of the balance
+              unassigned={summary?.unassigned}
+              onPeriodChange={setPeriod}
             />
           </div>
 
@@ -11,8 +11,9 @@
  * - User profile card with avatar and membership status
  * - Quick stats (days active, transactions, savings rate)
  * - Account settings (personal info, payment methods, security)
- * - Preferences (notifications, dark mode, language, currency)
- * - Support options (help center, terms, app settings)
+ * - Preferences (notifications, dark mode, categories, rules, language, currency)
+ * - Data export
+ * - Support options (help center, terms, app settings with backup and restore)
  * - Logout functionality
  * 
  * @author FinGuide Development Team
@@ -21,6 +22,7 @@
  */
 
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { 
   User, 
   Bell, 
@@ -33,7 +35,11 @@ import {
   Globe,
   Smartphone,
   FileText,
-  Settings
+  Settings,
+  Tags,
+  Wand2,
+  Repeat,
+  Download
 } from "lucide-react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { cn } from "@/lib/utils";
@@ -55,6 +61,7 @@ interface MenuItem {
   action?: "link" | "toggle" | "logout";  // Type of action
   value?: boolean;       // Toggle state for switch items
   id?: string;           // Unique identifier for toggle items
+  to?: string;           // Route opened by link items that have a screen
 }
 
 /**
@@ -78,7 +85,7 @@ const menuSections: MenuSection[] = [
     title: "Account",
     items: [
       { icon: User, label: "Personal Information", description: "Name, email, phone", action: "link" },
-      { icon: CreditCard, label: "Payment Methods", description: "Cards & bank accounts", action: "link" },
+      { icon: CreditCard, label: "Payment Methods", description: "Cards & bank accounts", action: "link", to: "/accounts" },
       { icon: Shield, label: "Security", description: "Password & 2FA", action: "link" },
     ],
   },
@@ -87,8 +94,17 @@ const menuSections: MenuSection[] = [
     items: [
       { icon: Bell, label: "Notifications", description: "Push & email alerts", action: "toggle", value: true, id: "notifications" },
       { icon: Moon, label: "Dark Mode", description: "Switch appearance", action: "toggle", value: false, id: "darkMode" },
+      { icon: Tags, label: "Categories", description: "Edit, merge & add subcategories", action: "link", to: "/categories" },
+      { icon: Wand2, label: "Rules", description: "Auto-categorize new transactions", action: "link", to: "/rules" },
+      { icon: Repeat, label: "Recurring", description: "Rent, salary & SIPs on schedule", action: "link", to: "/recurring" },
       { icon: Globe, label: "Language", description: "English (IN)", action: "link" },
-      { icon: Smartphone, label: "Currency", description: "INR (₹)", action: "link" },
+      { icon: Smartphone, label: "Currency", description: "Base currency & exchange rates", action: "link", to: "/settings/currency" },
+    ],
+  },
+  {
+    title: "Data",
+    items: [
+      { icon: Download, label: "Export Data", description: "CSV, Excel or JSON", action: "link", to: "/export" },
     ],
   },
   {
@@ -96,7 +112,7 @@ const menuSections: MenuSection[] = [
     items: [
       { icon: HelpCircle, label: "Help Center", action: "link" },
       { icon: FileText, label: "Terms & Privacy", action: "link" },
-      { icon: Settings, label: "App Settings", action: "link" },
+      { icon: Settings, label: "App Settings", description: "Backup & restore", action: "link", to: "/settings" },
     ],
   },
 ];
@@ -114,6 +130,8 @@ const menuSections: MenuSection[] = [
  * @returns JSX.Element - The profile page layout
  */
 export default function Profile() {
+  const navigate = useNavigate();
+
   // State for managing toggle switches
   const [toggleStates, setToggleStates] = useState<Record<string, boolean>>({
     notifications: true,
@@ -137,12 +155,13 @@ export default function Profile() {
 
   /**
    * Handles menu item click actions
-   * Shows appropriate feedback based on the action type
+   * Opens the item's screen, or shows feedback when it has none yet
    * 
-   * @param label - The label of the clicked menu item
+   * @param item - The clicked menu item
    */
-  const handleMenuItemClick = (label: string) => {
-    toast.info(`${label} - Feature coming soon!`);
+  const handleMenuItemClick = (item: MenuItem) => {
+    if (item.to) navigate(item.to);
+    else toast.info(`${item.label} - Feature coming soon!`);
   };
 
   /**
@@ -252,7 +271,7 @@ export default function Profile() {
                         if (item.action === "toggle" && item.id) {
                           handleToggleChange(item.id, !isChecked);
                         } else if (item.action === "link") {
-                          handleMenuItemClick(item.label);
+                          handleMenuItemClick(item);
                         }
                       }}
                       className={cn(
@@ -0,0 +1,343 @@
+/**
+ * ============================================================================
+ * RECONCILE PAGE COMPONENT
+ * ============================================================================
+ *
+ * Reconciles one money account against a bank statement. The user enters
+ * the statement's closing date and balance and ticks off the entries that
+ * appear on it; once the cleared balance matches the statement, the ticked
+ * entries are locked as reconciled. Everything is in the account's
+ * currency.
+ *
+ * Features:
+ * - Live cleared balance and difference from the statement
+ * - Suggestions for a remaining gap: unticked entries of that amount,
+ *   ticked duplicates, or a missing credit/debit to add
+ * - Finish only when balanced; reconciled entries are locked against edits
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, CheckCircle2, Copy, Lightbulb, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { errorMessage } from "@/api/client";
+import { useAccounts, useReconcileAccount } from "@/hooks/useAccounts";
+import { useExchangeRates } from "@/hooks/useCurrency";
+import { useTransactions } from "@/hooks/useTransactions";
+import { accountChange, formatAccountBalance } from "@/lib/accounts";
+import { currencyOf } from "@/lib/currency";
+import { currencySymbol, formatCurrency } from "@/lib/formatCurrency";
+import { clearedBalance, isBalanced, reconcileCandidates, suggestGapFixes } from "@/lib/reconcile";
+import { cn } from "@/lib/utils";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Short date for list rows (e.g., "5 Mar")
+ */
+const shortDate = (date: string): string => format(parseISO(date), "d MMM");
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Reconcile Page Component
+ *
+ * @returns JSX.Element - Statement details, cleared entries and the difference
+ */
+export default function Reconcile() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { data: accounts = [], isLoading } = useAccounts();
+  const { data: transactions = [] } = useTransactions();
+  const { data: rates = [] } = useExchangeRates();
+  const reconcileAccount = useReconcileAccount();
+
+  // Statement details; a credit card's balance is entered as the amount owed
+  const [statementDate, setStatementDate] = useState<string>(format(new Date(), "yyyy-MM-dd"));
+  const [statementBalance, setStatementBalance] = useState<string>("");
+
+  // Entries ticked off as appearing on the statement
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+
+  const account = accounts.find((a) => a.id === id);
+  const isCard = account?.type === "credit_card";
+  const currency = account ? currencyOf(account) : undefined;
+  const candidates = account && statementDate ? reconcileCandidates(account, transactions, statementDate) : [];
+  const clearedIds = new Set(candidates.filter((t) => ticked.has(t.id)).map((t) => t.id));
+  const cleared = account ? clearedBalance(account, transactions, clearedIds, rates) : 0;
+
+  const entered = statementBalance.trim() === "" ? NaN : Number(statementBalance);
+  const statement = Number.isFinite(entered) ? (isCard ? -entered : entered) : null;
+  const gap = statement === null ? null : statement - cleared;
+  const balanced = statement !== null && isBalanced(statement, cleared);
+  const suggestions = account && gap !== null ? suggestGapFixes(account, candidates, clearedIds, gap, rates) : [];
+
+  /**
+   * Ticks or unticks one entry
+   */
+  const toggle = (transactionId: string, on: boolean) => {
+    setTicked((current) => {
+      const next = new Set(current);
+      if (on) next.add(transactionId);
+      else next.delete(transactionId);
+      return next;
+    });
+  };
+
+  /**
+   * Opens the add page prefilled with an entry that may be missing
+   */
+  const addMissing = (direction: "credit" | "debit", amount: number) => {
+    const type = direction === "credit" ? "income" : "expense";
+    navigate(`/add?type=${type}&amount=${amount}&account=${id}&date=${statementDate}`);
+  };
+
+  /**
+   * Locks the ticked entries and returns to the account
+   */
+  const handleFinish = () => {
+    if (!balanced) return;
+    reconcileAccount.mutate(
+      { id, input: { statementDate, statementBalance: statement, transactionIds: [...clearedIds] } },
+      {
+        onSuccess: ({ reconciled }) => {
+          toast.success(`Reconciled ${reconciled} ${reconciled === 1 ? "entry" : "entries"}`);
+          navigate(`/accounts/${id}`, { replace: true });
+        },
+        onError: (error) => toast.error(errorMessage(error)),
+      }
+    );
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button and page title
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 truncate text-xl font-bold">Reconcile {account?.name ?? "Account"}</h1>
+          </div>
+        </header>
+
+        <div className="space-y-6 px-5 py-6">
+          {!account && !isLoading && (
+            <div className="premium-card py-10 text-center">
+              <p className="font-medium">Account not found</p>
+            </div>
+          )}
+
+          {account && (
+            <>
+              {/* ================================================================
+                  STATEMENT
+                  Closing date and balance from the bank statement
+                  ================================================================ */}
+              <div className="premium-card !p-4 space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="statement-date">Statement date</Label>
+                    <Input
+                      id="statement-date"
+                      type="date"
+                      value={statementDate}
+                      onChange={(e) => setStatementDate(e.target.value)}
+                      className="input-focus"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="statement-balance">{isCard ? "Amount owed" : "Closing balance"} ({currencySymbol(currency)})</Label>
+                    <Input
+                      id="statement-balance"
+                      type="number"
+                      step="0.01"
+                      placeholder="0"
+                      value={statementBalance}
+                      onChange={(e) => setStatementBalance(e.target.value)}
+                      className="input-focus"
+                    />
+                  </div>
+                </div>
+                {account.lastReconciliation && (
+                  <p className="text-xs text-muted-foreground">
+                    Last reconciled to{" "}
+                    {format(parseISO(account.lastReconciliation.statementDate), "d MMM yyyy")} at{" "}
+                    {formatAccountBalance(account.type, account.lastReconciliation.statementBalance, currency)}
+                  </p>
+                )}
+              </div>
+
+              {/* Cleared balance against the statement */}
+              <div className="premium-card !p-4 grid grid-cols-3 gap-2 text-center">
+                <div>
+                  <p className="text-xs text-muted-foreground">Cleared</p>
+                  <p className="text-sm font-semibold">{formatAccountBalance(account.type, cleared, currency)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Statement</p>
+                  <p className="text-sm font-semibold">
+                    {statement === null ? "—" : formatAccountBalance(account.type, statement, currency)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Difference</p>
+                  <p
+                    className={cn(
+                      "text-sm font-semibold",
+                      balanced ? "text-emerald" : gap !== null && "text-destructive"
+                    )}
+                  >
+                    {gap === null ? "—" : balanced ? "Balanced" : formatCurrency(Math.abs(gap), currency)}
+                  </p>
+                </div>
+              </div>
+
+              {/* ================================================================
+                  SUGGESTIONS
+                  What may explain a remaining gap
+                  ================================================================ */}
+              {suggestions.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="flex items-center gap-2 px-1 text-sm font-medium text-muted-foreground">
+                    <Lightbulb className="h-4 w-4" />
+                    What might explain the difference
+                  </h3>
+                  <ul className="premium-card !p-0 divide-y divide-border/50">
+                    {suggestions.map((suggestion) => (
+                      <li
+                        key={suggestion.kind === "missing" ? "missing" : `${suggestion.kind}:${suggestion.transaction.id}`}
+                        className="flex items-center gap-3 px-4 py-3"
+                      >
+                        {suggestion.kind === "unticked" && (
+                          <>
+                            <CheckCircle2 className="h-4 w-4 shrink-0 text-accent" />
+                            <p className="min-w-0 flex-1 text-sm">
+                              "{suggestion.transaction.title}" on {shortDate(suggestion.transaction.date)} matches the
+                              difference but isn't ticked
+                            </p>
+                            <Button size="sm" variant="outline" onClick={() => toggle(suggestion.transaction.id, true)}>
+                              Tick
+                            </Button>
+                          </>
+                        )}
+                        {suggestion.kind === "duplicate" && (
+                          <>
+                            <Copy className="h-4 w-4 shrink-0 text-warning" />
+                            <p className="min-w-0 flex-1 text-sm">
+                              "{suggestion.transaction.title}" on {shortDate(suggestion.transaction.date)} looks like a
+                              copy of "{suggestion.of.title}"
+                              {suggestion.closesGap && " and accounts for the difference"}
+                            </p>
+                            <Button size="sm" variant="outline" onClick={() => toggle(suggestion.transaction.id, false)}>
+                              Untick
+                            </Button>
+                          </>
+                        )}
+                        {suggestion.kind === "missing" && (
+                          <>
+                            <Plus className="h-4 w-4 shrink-0 text-muted-foreground" />
+                            <p className="min-w-0 flex-1 text-sm">
+                              A {suggestion.direction} of {formatCurrency(suggestion.amount, currency)} may not be recorded yet
+                            </p>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => addMissing(suggestion.direction, suggestion.amount)}
+                            >
+                              Add it
+                            </Button>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {/* ================================================================
+                  ENTRIES
+                  Unreconciled entries up to the statement date, oldest first
+                  ================================================================ */}
+              <section className="space-y-2">
+                <div className="flex items-center justify-between px-1 text-sm">
+                  <span className="font-medium text-muted-foreground">Tick the entries on the statement</span>
+                  {candidates.length > 0 && (
+                    <button
+                      className="text-accent"
+                      onClick={() =>
+                        setTicked(clearedIds.size === candidates.length ? new Set() : new Set(candidates.map((t) => t.id)))
+                      }
+                    >
+                      {clearedIds.size === candidates.length ? "Select none" : "Select all"}
+                    </button>
+                  )}
+                </div>
+                {candidates.length === 0 ? (
+                  <p className="premium-card !p-4 text-center text-sm text-muted-foreground">
+                    No unreconciled entries up to this date.
+                  </p>
+                ) : (
+                  <div className="premium-card !p-0 divide-y divide-border/50">
+                    {candidates.map((transaction) => {
+                      const change = accountChange(transaction, account, rates);
+                      return (
+                        <label key={transaction.id} className="flex cursor-pointer items-center gap-3 px-4 py-3">
+                          <Checkbox
+                            checked={clearedIds.has(transaction.id)}
+                            onCheckedChange={(checked) => toggle(transaction.id, checked === true)}
+                            aria-label={`Cleared: ${transaction.title}`}
+                          />
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate text-sm font-medium">{transaction.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(parseISO(transaction.date), "d MMM yyyy")} • {transaction.category}
+                            </p>
+                          </div>
+                          <span className={cn("text-sm font-semibold", change > 0 && "text-emerald")}>
+                            {change > 0 ? "+" : "-"}
+                            {formatCurrency(Math.abs(change), currency)}
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
+              </section>
+
+              <Button
+                onClick={handleFinish}
+                disabled={!balanced || reconcileAccount.isPending}
+                className="h-12 w-full rounded-2xl bg-gradient-emerald text-base font-semibold hover:opacity-90"
+              >
+                {balanced ? `Finish and lock ${clearedIds.size} ${clearedIds.size === 1 ? "entry" : "entries"}` : "Finish reconciling"}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
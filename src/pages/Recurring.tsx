@@ -0,0 +1,290 @@
+/**
+ * ============================================================================
+ * RECURRING PAGE COMPONENT
+ * ============================================================================
+ *
+ * Lists recurring transactions (rent, salary, SIPs) and what they will post
+ * next. Due occurrences are posted automatically when the app opens; this
+ * page manages the templates and forecasts the coming weeks.
+ *
+ * Features:
+ * - Forecast of occurrences in the next 30 days with income and expense
+ *   totals in the base currency
+ * - Template list with schedule, next date, pause/resume, edit and delete
+ * - Shortcut to a new recurring entry in the add transaction form
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, format, parseISO } from "date-fns";
+import { ArrowLeft, CalendarClock, Pencil, Plus, Repeat, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { DeleteConfirmDialog } from "@/components/budget/DeleteConfirmDialog";
+import { RecurringFormDialog } from "@/components/recurring/RecurringFormDialog";
+import { Switch } from "@/components/ui/switch";
+import { errorMessage } from "@/api/client";
+import { useCurrencyContext } from "@/hooks/useCurrency";
+import { useDeleteRecurring, useRecurring, useUpdateRecurring } from "@/hooks/useRecurring";
+import { convertAmount, currencyOf } from "@/lib/currency";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { describeSchedule, nextOccurrence, upcomingOccurrences } from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+import type { RecurringInput, RecurringTransaction, UpcomingOccurrence } from "@/types/Recurring";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Days covered by the forecast
+ */
+const FORECAST_DAYS = 30;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Status line for a template: paused, ended, or its next date
+ */
+const nextLabel = (template: RecurringTransaction): string => {
+  if (template.paused) return "Paused";
+  const next = nextOccurrence(template.schedule, template.lastPostedDate);
+  return next ? `Next: ${format(parseISO(next), "d MMM yyyy")}` : "Ended";
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Recurring Page Component
+ *
+ * @returns JSX.Element - Forecast and recurring template list
+ */
+export default function Recurring() {
+  const navigate = useNavigate();
+  const { data: templates = [] } = useRecurring();
+  const { base, rates } = useCurrencyContext();
+  const updateRecurring = useUpdateRecurring();
+  const deleteRecurring = useDeleteRecurring();
+
+  // Dialog state: the template being edited and the one pending deletion
+  const [editing, setEditing] = useState<RecurringTransaction | null>(null);
+  const [toDelete, setToDelete] = useState<RecurringTransaction | null>(null);
+
+  // Occurrences in the forecast window
+  const upcoming = useMemo(() => {
+    const today = new Date();
+    return upcomingOccurrences(
+      templates,
+      format(today, "yyyy-MM-dd"),
+      format(addDays(today, FORECAST_DAYS), "yyyy-MM-dd")
+    );
+  }, [templates]);
+  const inBase = (o: UpcomingOccurrence) => convertAmount(o.amount, currencyOf(o), base, o.date, rates);
+  const upcomingIncome = upcoming.filter((o) => o.type === "income").reduce((sum, o) => sum + inBase(o), 0);
+  const upcomingExpense = upcoming.filter((o) => o.type === "expense").reduce((sum, o) => sum + inBase(o), 0);
+
+  /**
+   * Saves changes from the edit dialog
+   */
+  const handleSave = (changes: Partial<RecurringInput>) => {
+    if (!editing) return;
+    updateRecurring.mutate(
+      { id: editing.id, changes },
+      {
+        onSuccess: () => {
+          toast.success(`"${changes.title ?? editing.title}" updated`);
+          setEditing(null);
+        },
+        onError: (error) => toast.error(errorMessage(error)),
+      }
+    );
+  };
+
+  /**
+   * Pauses or resumes a template
+   */
+  const handleToggle = (template: RecurringTransaction, active: boolean) => {
+    updateRecurring.mutate(
+      { id: template.id, changes: { paused: !active } },
+      { onError: (error) => toast.error(errorMessage(error)) }
+    );
+  };
+
+  /**
+   * Deletes the confirmed template
+   */
+  const handleConfirmDelete = () => {
+    if (!toDelete) return;
+    deleteRecurring.mutate(toDelete.id, {
+      onSuccess: () => toast.success(`"${toDelete.title}" will no longer repeat`),
+      onError: (error) => toast.error(errorMessage(error)),
+    });
+    setToDelete(null);
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button, page title and add shortcut
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 text-xl font-bold">Recurring</h1>
+            <button
+              onClick={() => navigate("/add?repeat=monthly")}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-emerald text-white"
+              aria-label="Add recurring transaction"
+            >
+              <Plus className="h-5 w-5" />
+            </button>
+          </div>
+        </header>
+
+        <div className="space-y-6 px-5 py-6">
+          {/* Empty state */}
+          {templates.length === 0 && (
+            <div className="premium-card py-10 text-center">
+              <Repeat className="mx-auto mb-3 h-8 w-8 text-muted-foreground" />
+              <p className="font-medium">Nothing repeats yet</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Turn on "Repeat" when adding rent, salary or a SIP and it is posted for you.
+              </p>
+            </div>
+          )}
+
+          {/* ================================================================
+              FORECAST
+              What the templates will post in the coming weeks
+              ================================================================ */}
+          {templates.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="px-1 text-sm font-medium text-muted-foreground">Next {FORECAST_DAYS} days</h3>
+              <div className="premium-card !p-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3 text-center">
+                  <div>
+                    <p className="text-lg font-bold text-emerald">+{formatCurrency(upcomingIncome)}</p>
+                    <p className="text-xs text-muted-foreground">Income</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-bold">-{formatCurrency(upcomingExpense)}</p>
+                    <p className="text-xs text-muted-foreground">Expenses</p>
+                  </div>
+                </div>
+                {upcoming.length === 0 ? (
+                  <p className="text-center text-sm text-muted-foreground">Nothing due in the next {FORECAST_DAYS} days</p>
+                ) : (
+                  <ul className="divide-y divide-border/50">
+                    {upcoming.map((occurrence) => (
+                      <li key={`${occurrence.recurringId}:${occurrence.date}`} className="flex items-center gap-3 py-2">
+                        <CalendarClock className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm font-medium">{occurrence.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(parseISO(occurrence.date), "EEE, d MMM")} • {occurrence.category}
+                          </p>
+                        </div>
+                        <span className={cn("text-sm font-semibold", occurrence.type === "income" && "text-emerald")}>
+                          {occurrence.type === "income" ? "+" : "-"}
+                          {formatCurrency(occurrence.amount, currencyOf(occurrence))}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </section>
+          )}
+
+          {/* ================================================================
+              TEMPLATE LIST
+              With pause/resume, edit and delete
+              ================================================================ */}
+          {templates.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="px-1 text-sm font-medium text-muted-foreground">Templates</h3>
+              {templates.map((template) => (
+                <div key={template.id} className={cn("premium-card !p-4 space-y-3", template.paused && "opacity-60")}>
+                  <div className="flex items-start gap-3">
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium">{template.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {template.category} • {describeSchedule(template.schedule)}
+                      </p>
+                      <p className="text-xs font-medium text-accent">{nextLabel(template)}</p>
+                    </div>
+                    <span className={cn("text-sm font-semibold", template.type === "income" && "text-emerald")}>
+                      {template.type === "income" ? "+" : "-"}
+                      {formatCurrency(template.amount, currencyOf(template))}
+                    </span>
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={!template.paused}
+                      onCheckedChange={(checked) => handleToggle(template, checked)}
+                      aria-label={template.paused ? "Resume" : "Pause"}
+                    />
+                    <span className="ml-2 text-xs text-muted-foreground">{template.paused ? "Paused" : "Active"}</span>
+                    <div className="flex-1" />
+                    <button
+                      className="rounded-lg p-2 transition-colors hover:bg-muted"
+                      onClick={() => setEditing(template)}
+                      title="Edit"
+                    >
+                      <Pencil className="h-4 w-4 text-muted-foreground" />
+                    </button>
+                    <button
+                      className="rounded-lg p-2 transition-colors hover:bg-destructive/10"
+                      onClick={() => setToDelete(template)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <p className="px-1 text-xs text-muted-foreground">
+                Due entries are posted when the app opens, including any missed while it was closed.
+                Pausing skips the periods until you resume.
+              </p>
+            </section>
+          )}
+        </div>
+      </div>
+
+      {/* Edit dialog */}
+      <RecurringFormDialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        template={editing}
+        onSave={handleSave}
+      />
+
+      {/* Delete confirmation */}
+      <DeleteConfirmDialog
+        open={toDelete !== null}
+        onOpenChange={(open) => !open && setToDelete(null)}
+        itemName={toDelete?.title ?? ""}
+        itemType="recurring"
+        onConfirm={handleConfirmDelete}
+      />
+    </AppLayout>
+  );
+}
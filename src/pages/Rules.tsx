@@ -0,0 +1,298 @@
+/**
+ * ============================================================================
+ * RULES PAGE COMPONENT
+ * ============================================================================
+ *
+ * Manages auto-categorization rules. Rules run top to bottom on every new
+ * or imported transaction, so the list order is the running order.
+ *
+ * Features:
+ * - Ordered rule list with a summary of conditions and actions
+ * - Move up / down to change the running order
+ * - Enable / disable switch
+ * - Create, edit and delete
+ * - `?from=<transactionId>` opens the form prefilled from a transaction
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowDown, ArrowLeft, ArrowUp, Pencil, Plus, Trash2, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { RuleFormDialog } from "@/components/rules/RuleFormDialog";
+import { DeleteConfirmDialog } from "@/components/budget/DeleteConfirmDialog";
+import { Switch } from "@/components/ui/switch";
+import { errorMessage } from "@/api/client";
+import { useAccounts } from "@/hooks/useAccounts";
+import {
+  useCreateRule,
+  useDeleteRule,
+  useReorderRules,
+  useRules,
+  useUpdateRule,
+} from "@/hooks/useRules";
+import { useTransaction } from "@/hooks/useTransactions";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { ruleFromTransaction } from "@/lib/rules";
+import { cn } from "@/lib/utils";
+import type { Account } from "@/types/Account";
+import type { Rule, RuleInput } from "@/types/Rule";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * One-line summary of a rule's conditions (e.g., 'Title has "swiggy" · ≥ ₹100')
+ */
+const describeConditions = (rule: Rule, accounts: Account[]): string => {
+  const { titleContains, noteContains, minAmount, maxAmount, accountId, type } = rule.conditions;
+  const parts: string[] = [];
+  if (type) parts.push(type === "income" ? "Income" : "Expenses");
+  if (titleContains) parts.push(`Title has "${titleContains}"`);
+  if (noteContains) parts.push(`Note has "${noteContains}"`);
+  if (minAmount !== undefined && maxAmount !== undefined) {
+    parts.push(`${formatCurrency(minAmount)}–${formatCurrency(maxAmount)}`);
+  } else if (minAmount !== undefined) parts.push(`≥ ${formatCurrency(minAmount)}`);
+  else if (maxAmount !== undefined) parts.push(`≤ ${formatCurrency(maxAmount)}`);
+  if (accountId) parts.push(accounts.find((a) => a.id === accountId)?.name ?? "Unknown account");
+  return parts.join(" · ");
+};
+
+/**
+ * One-line summary of a rule's actions (e.g., "→ Food & Dining, #delivery")
+ */
+const describeActions = (rule: Rule): string => {
+  const { category, tags, note } = rule.actions;
+  const parts = [category, ...(tags ?? []).map((t) => `#${t}`), note && `note "${note}"`];
+  return `→ ${parts.filter(Boolean).join(", ")}`;
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Rules Page Component
+ *
+ * @returns JSX.Element - The rules management layout
+ */
+export default function Rules() {
+  const navigate = useNavigate();
+  const { data: rules = [] } = useRules();
+  const { data: accounts = [] } = useAccounts();
+  const createRule = useCreateRule();
+  const updateRule = useUpdateRule();
+  const reorderRules = useReorderRules();
+  const deleteRule = useDeleteRule();
+
+  // Transaction to draft a rule from (set by "Create rule" in the detail sheet)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: source } = useTransaction(searchParams.get("from") ?? undefined);
+
+  // Dialog state: the rule being edited, the draft for a new one, and the one pending deletion
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Rule | null>(null);
+  const [draft, setDraft] = useState<RuleInput | null>(null);
+  const [toDelete, setToDelete] = useState<Rule | null>(null);
+
+  /**
+   * Opens the form prefilled from the source transaction once it loads
+   */
+  useEffect(() => {
+    if (!source) return;
+    setEditing(null);
+    setDraft(ruleFromTransaction(source));
+    setFormOpen(true);
+    setSearchParams({}, { replace: true });
+  }, [source, setSearchParams]);
+
+  /**
+   * Opens the form for a new rule
+   */
+  const handleAdd = () => {
+    setEditing(null);
+    setDraft(null);
+    setFormOpen(true);
+  };
+
+  /**
+   * Opens the form for an existing rule
+   */
+  const handleEdit = (rule: Rule) => {
+    setEditing(rule);
+    setDraft(rule);
+    setFormOpen(true);
+  };
+
+  /**
+   * Creates or updates a rule from the form
+   */
+  const handleSave = (input: RuleInput) => {
+    const options = {
+      onSuccess: () => {
+        toast.success(`Rule "${input.name}" ${editing ? "updated" : "added"}`);
+        setFormOpen(false);
+      },
+      onError: (error: unknown) => toast.error(errorMessage(error)),
+    };
+    if (editing) updateRule.mutate({ id: editing.id, changes: input }, options);
+    else createRule.mutate(input, options);
+  };
+
+  /**
+   * Swaps a rule with its neighbour in the running order
+   */
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const ids = rules.map((r) => r.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderRules.mutate(ids, { onError: (error) => toast.error(errorMessage(error)) });
+  };
+
+  /**
+   * Turns a rule on or off
+   */
+  const handleToggle = (rule: Rule, enabled: boolean) => {
+    updateRule.mutate(
+      { id: rule.id, changes: { enabled } },
+      { onError: (error) => toast.error(errorMessage(error)) }
+    );
+  };
+
+  /**
+   * Deletes the confirmed rule
+   */
+  const handleConfirmDelete = () => {
+    if (!toDelete) return;
+    deleteRule.mutate(toDelete.id, {
+      onSuccess: () => toast.success(`Rule "${toDelete.name}" deleted`),
+      onError: (error) => toast.error(errorMessage(error)),
+    });
+    setToDelete(null);
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button, page title and add shortcut
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 text-xl font-bold">Rules</h1>
+            <button
+              onClick={handleAdd}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-emerald text-white"
+              aria-label="Add rule"
+            >
+              <Plus className="h-5 w-5" />
+            </button>
+          </div>
+        </header>
+
+        <div className="space-y-4 px-5 py-6">
+          <p className="px-1 text-sm text-muted-foreground">
+            Rules run from top to bottom on new and imported transactions. The first
+            matching rule sets the category unless you picked one yourself.
+          </p>
+
+          {/* Empty state */}
+          {rules.length === 0 && (
+            <div className="premium-card py-10 text-center">
+              <Wand2 className="mx-auto mb-3 h-8 w-8 text-muted-foreground" />
+              <p className="font-medium">No rules yet</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Add one here, or use "Create rule" on any transaction.
+              </p>
+            </div>
+          )}
+
+          {/* ================================================================
+              RULE LIST
+              In running order, with reorder, toggle, edit and delete
+              ================================================================ */}
+          {rules.map((rule, index) => (
+            <div key={rule.id} className={cn("premium-card !p-4 space-y-3", !rule.enabled && "opacity-60")}>
+              <div className="flex items-start gap-3">
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium">{rule.name}</p>
+                  <p className="text-xs text-muted-foreground">{describeConditions(rule, accounts)}</p>
+                  <p className="text-xs font-medium text-accent">{describeActions(rule)}</p>
+                </div>
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => handleToggle(rule, checked)}
+                  aria-label={rule.enabled ? "Disable rule" : "Enable rule"}
+                />
+              </div>
+
+              <div className="flex items-center gap-1">
+                <button
+                  className="rounded-lg p-2 transition-colors hover:bg-muted disabled:opacity-30"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                  title="Run earlier"
+                >
+                  <ArrowUp className="h-4 w-4 text-muted-foreground" />
+                </button>
+                <button
+                  className="rounded-lg p-2 transition-colors hover:bg-muted disabled:opacity-30"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === rules.length - 1}
+                  title="Run later"
+                >
+                  <ArrowDown className="h-4 w-4 text-muted-foreground" />
+                </button>
+                <div className="flex-1" />
+                <button
+                  className="rounded-lg p-2 transition-colors hover:bg-muted"
+                  onClick={() => handleEdit(rule)}
+                  title="Edit rule"
+                >
+                  <Pencil className="h-4 w-4 text-muted-foreground" />
+                </button>
+                <button
+                  className="rounded-lg p-2 transition-colors hover:bg-destructive/10"
+                  onClick={() => setToDelete(rule)}
+                  title="Delete rule"
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Create / edit dialog */}
+      <RuleFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        initial={draft}
+        isEditing={editing !== null}
+        onSave={handleSave}
+      />
+
+      {/* Delete confirmation */}
+      <DeleteConfirmDialog
+        open={toDelete !== null}
+        onOpenChange={(open) => !open && setToDelete(null)}
+        itemName={toDelete?.name ?? ""}
+        itemType="rule"
+        onConfirm={handleConfirmDelete}
+      />
+    </AppLayout>
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * ============================================================================
+ * SMS IMPORT PAGE COMPONENT
+ * ============================================================================
+ *
+ * Turns transaction alerts copied from the phone's messages app into
+ * draft transactions. Messages are read on the device; nothing is sent
+ * anywhere until the user confirms the preview.
+ *
+ * Features:
+ * - Paste any number of bank and UPI alerts at once
+ * - Amount, direction, payee, reference and date read from each alert
+ * - Shared import preview: untick drafts, pick the account, see which
+ *   messages were not alerts
+ * - Alerts with a reference number are only imported once
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, MessageSquareText } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { ImportPreview } from "@/components/import/ImportPreview";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { errorMessage } from "@/api/client";
+import { useImportTransactions } from "@/hooks/useTransactions";
+import { parseSmsMessages } from "@/lib/import/sms";
+import { toTransactionInputs } from "@/lib/import/statement";
+import type { ParsedStatement, StatementRow } from "@/types/Import";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Example shown in the empty text box
+ */
+const PLACEHOLDER = `Rs.350.00 debited from A/c XX1234 on 12-01-26 to VPA uber@axis UPI Ref 402112345678
+
+INR 25,000.00 credited to A/c no. XX5678 on 01-Feb-26 by ACME PAYROLL`;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * SMS Import Page Component
+ *
+ * @returns JSX.Element - The paste-and-review screen for SMS alerts
+ */
+export default function SmsImport() {
+  const navigate = useNavigate();
+  const importTransactions = useImportTransactions();
+
+  // Pasted text, and the drafts read from it once the user continues
+  const [text, setText] = useState("");
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+
+  /**
+   * Reads the pasted messages into drafts
+   */
+  const handleRead = () => {
+    const parsed = parseSmsMessages(text, format(new Date(), "yyyy-MM-dd"));
+    if (parsed.rows.length === 0) {
+      toast.error("No transaction alerts found in the pasted text");
+      return;
+    }
+    setStatement(parsed);
+  };
+
+  /**
+   * Imports the confirmed drafts and returns to the history
+   */
+  const handleConfirm = (confirmed: StatementRow[], accountId: string | undefined) => {
+    importTransactions.mutate(toTransactionInputs(confirmed, accountId), {
+      onSuccess: ({ imported, skipped }) => {
+        const count = `${imported.length} ${imported.length === 1 ? "transaction" : "transactions"}`;
+        toast.success(skipped > 0 ? `Imported ${count}, skipped ${skipped} already imported` : `Imported ${count}`);
+        navigate("/transactions");
+      },
+      onError: (error) => toast.error(errorMessage(error)),
+    });
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button and page title
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <div className="min-w-0 flex-1">
+              <h1 className="text-xl font-bold">Paste bank SMS</h1>
+              <p className="truncate text-xs text-muted-foreground">
+                {statement ? "Review and import" : "Paste one or more alerts"}
+              </p>
+            </div>
+          </div>
+        </header>
+
+        <div className="px-5 py-6">
+          {/* ================================================================
+              STEP 1 - PASTE
+              ================================================================ */}
+          {!statement && (
+            <div className="space-y-4">
+              <div className="premium-card !p-4 space-y-3">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <MessageSquareText className="h-4 w-4 text-accent" />
+                  Bank and UPI alerts
+                </div>
+                <Textarea
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder={PLACEHOLDER}
+                  rows={10}
+                  className="font-mono text-xs"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Separate messages with a blank line. OTPs and offers are ignored.
+                </p>
+              </div>
+              <Button className="w-full bg-gradient-emerald" disabled={!text.trim()} onClick={handleRead}>
+                Read messages
+              </Button>
+            </div>
+          )}
+
+          {/* ================================================================
+              STEP 2 - PREVIEW
+              ================================================================ */}
+          {statement && (
+            <ImportPreview
+              rows={statement.rows}
+              errors={statement.errors}
+              account={statement.account}
+              isImporting={importTransactions.isPending}
+              onBack={() => setStatement(null)}
+              onConfirm={handleConfirm}
+            />
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
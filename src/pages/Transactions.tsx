@@ -0,0 +1,384 @@
+/**
+ * ============================================================================
+ * TRANSACTIONS PAGE COMPONENT
+ * ============================================================================
+ *
+ * Full transaction history. Entries are grouped by month and day with
+ * totals at both levels, and more rows load automatically as the user
+ * scrolls. Tapping a row opens its details with edit and delete actions.
+ *
+ * Features:
+ * - Search bar with free text and field filters (see `@/lib/search`),
+ *   shown as removable chips and kept in the `?q=` URL parameter
+ * - Month and day grouping, newest first
+ * - Per-day and per-month income/expense totals
+ * - Infinite scroll
+ * - Detail sheet with edit, delete and "create rule"
+ * - Import shortcut for bank statements
+ * - Banner linking to the duplicate review queue
+ * - Empty state prompting the first entry
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Copy, Plus, Search, Upload, X } from "lucide-react";
+import { format, isToday, isYesterday, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { TransactionRow } from "@/components/transactions/TransactionRow";
+import { TransactionDetailSheet } from "@/components/transactions/TransactionDetailSheet";
+import { DeleteConfirmDialog } from "@/components/budget/DeleteConfirmDialog";
+import { Input } from "@/components/ui/input";
+import { errorMessage } from "@/api/client";
+import { useDeleteTransaction, useTransactions } from "@/hooks/useTransactions";
+import { useCategories } from "@/hooks/useCategories";
+import { useCurrencyContext } from "@/hooks/useCurrency";
+import { useDuplicates } from "@/hooks/useDuplicates";
+import { formatCurrency } from "@/lib/formatCurrency";
+import { groupByMonthAndDay } from "@/lib/history";
+import { describeFilter, parseSearch, removeToken, searchTransactions } from "@/lib/search";
+import { cn } from "@/lib/utils";
+import type { Transaction } from "@/types/Transaction";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Number of rows rendered per scroll step
+ */
+const PAGE_SIZE = 30;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Formats a day heading ("Today", "Yesterday" or "Mon, 9 Mar")
+ */
+const formatDay = (date: string): string => {
+  const parsed = parseISO(date);
+  if (isToday(parsed)) return "Today";
+  if (isYesterday(parsed)) return "Yesterday";
+  return format(parsed, "EEE, d MMM");
+};
+
+/**
+ * Income and expense totals shown next to a group heading
+ */
+function GroupTotals({ income, expense }: { income: number; expense: number }) {
+  return (
+    <span className="text-xs text-muted-foreground">
+      {income > 0 && <span className="text-emerald">+{formatCurrency(income)}</span>}
+      {income > 0 && expense > 0 && " · "}
+      {expense > 0 && <span>-{formatCurrency(expense)}</span>}
+    </span>
+  );
+}
+
+/**
+ * Removable chip for an active search filter
+ */
+function FilterChip({ label, invalid = false, onRemove }: {
+  label: string;
+  invalid?: boolean;
+  onRemove: () => void;
+}) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full py-1 pl-3 pr-1 text-xs font-medium",
+        invalid ? "bg-destructive/10 text-destructive" : "bg-accent/10 text-accent"
+      )}
+    >
+      {label}
+      <button
+        onClick={onRemove}
+        className="rounded-full p-0.5 transition-colors hover:bg-black/10"
+        aria-label={`Remove ${label}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </span>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Transactions Page Component
+ *
+ * @returns JSX.Element - The transaction history layout
+ */
+export default function Transactions() {
+  const navigate = useNavigate();
+  const { data: ledger = [], isLoading } = useTransactions();
+  const deleteTransaction = useDeleteTransaction();
+  const { data: duplicates = [] } = useDuplicates();
+  const { data: catalog = [] } = useCategories();
+  const currency = useCurrencyContext();
+  const categoryNames = useMemo(() => [...new Set(catalog.map((c) => c.name))], [catalog]);
+
+  // Search query, kept in the URL so filtered views can be shared and restored
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const parsedQuery = useMemo(() => parseSearch(query, categoryNames), [query, categoryNames]);
+  const transactions = useMemo(
+    () => searchTransactions(ledger, query, catalog, currency),
+    [ledger, query, catalog, currency]
+  );
+
+  // Rows rendered so far; grows as the sentinel scrolls into view
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Transaction shown in the detail sheet, and the one pending deletion
+  const [selected, setSelected] = useState<Transaction | null>(null);
+  const [toDelete, setToDelete] = useState<Transaction | null>(null);
+
+  const groups = useMemo(() => groupByMonthAndDay(transactions, currency), [transactions, currency]);
+  const hasMore = visibleCount < transactions.length;
+
+  /**
+   * Updates the search query and starts again from the first page
+   */
+  const setQuery = (value: string) => {
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  /**
+   * Loads the next page when the end of the list becomes visible
+   */
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) setVisibleCount((count) => count + PAGE_SIZE);
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore]);
+
+  /**
+   * Opens the edit form for a transaction
+   */
+  const handleEdit = (transaction: Transaction) => {
+    setSelected(null);
+    navigate(`/transactions/${transaction.id}/edit`);
+  };
+
+  /**
+   * Opens the rules page with a rule drafted from the transaction
+   */
+  const handleCreateRule = (transaction: Transaction) => {
+    setSelected(null);
+    navigate(`/rules?from=${encodeURIComponent(transaction.id)}`);
+  };
+
+  /**
+   * Asks for confirmation before deleting
+   */
+  const handleDeleteClick = (transaction: Transaction) => {
+    setSelected(null);
+    setToDelete(transaction);
+  };
+
+  /**
+   * Deletes the confirmed transaction
+   */
+  const handleConfirmDelete = () => {
+    if (!toDelete) return;
+    deleteTransaction.mutate(toDelete.id, {
+      onSuccess: () => toast.success(`"${toDelete.title}" deleted`),
+      onError: (error) =>
+        toast.error(errorMessage(error, "Couldn't delete the transaction. Please try again.")),
+    });
+    setToDelete(null);
+  };
+
+  // Rows left to render while walking the groups
+  let remaining = visibleCount;
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen">
+        {/* ================================================================
+            HEADER SECTION
+            Back button, page title, import and add shortcuts
+            ================================================================ */}
+        <header className="sticky top-0 z-40 backdrop-blur-xl bg-background/80 border-b border-border/50">
+          <div className="flex items-center gap-4 px-5 py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="flex-1 text-xl font-bold">Transactions</h1>
+            <Link
+              to="/import"
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-muted transition-colors hover:bg-muted/80"
+              aria-label="Import statement"
+            >
+              <Upload className="h-5 w-5" />
+            </Link>
+            <Link
+              to="/add"
+              className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-emerald text-white"
+              aria-label="Add transaction"
+            >
+              <Plus className="h-5 w-5" />
+            </Link>
+          </div>
+        </header>
+
+        <div className="space-y-6 px-5 py-6">
+          {/* Link to the duplicate review queue while it has pairs */}
+          {duplicates.length > 0 && (
+            <Link
+              to="/duplicates"
+              className="flex items-center gap-3 rounded-xl bg-warning/10 px-4 py-3 text-sm text-warning"
+            >
+              <Copy className="h-4 w-4" />
+              <span className="flex-1 font-medium">
+                {duplicates.length} possible {duplicates.length === 1 ? "duplicate" : "duplicates"}
+              </span>
+              <span className="text-xs">Review</span>
+            </Link>
+          )}
+
+          {/* ================================================================
+              SEARCH
+              Free text plus field filters, with a chip per active filter
+              ================================================================ */}
+          <div className="space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search, e.g. category:Food amount>1000 tag:trip"
+                className="input-focus pl-9"
+                aria-label="Search transactions"
+              />
+            </div>
+
+            {(parsedQuery.filters.length > 0 || parsedQuery.invalid.length > 0) && (
+              <div className="flex flex-wrap gap-2">
+                {parsedQuery.filters.map((filter) => (
+                  <FilterChip
+                    key={filter.raw}
+                    label={describeFilter(filter)}
+                    onRemove={() => setQuery(removeToken(query, filter.raw))}
+                  />
+                ))}
+                {parsedQuery.invalid.map((token) => (
+                  <FilterChip
+                    key={token}
+                    label={`Not understood: ${token}`}
+                    invalid
+                    onRemove={() => setQuery(removeToken(query, token))}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* No matches for the current search */}
+          {ledger.length > 0 && transactions.length === 0 && (
+            <div className="premium-card py-10 text-center">
+              <p className="font-medium">No matching transactions</p>
+              <p className="mt-1 text-sm text-muted-foreground">Try removing a filter.</p>
+            </div>
+          )}
+
+          {/* Empty state shown until the first transaction is recorded */}
+          {!isLoading && ledger.length === 0 && (
+            <div className="premium-card py-10 text-center">
+              <p className="font-medium">No transactions yet</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Everything you record will be listed here.
+              </p>
+            </div>
+          )}
+
+          {/* ================================================================
+              HISTORY
+              Months, then days, then rows - rendered up to visibleCount
+              ================================================================ */}
+          {groups.map((month) => {
+            if (remaining <= 0) return null;
+            return (
+              <section key={month.month} className="space-y-4">
+                {/* Month heading with totals */}
+                <div className="flex items-baseline justify-between">
+                  <h2 className="text-lg font-semibold">{format(parseISO(`${month.month}-01`), "MMMM yyyy")}</h2>
+                  <GroupTotals income={month.income} expense={month.expense} />
+                </div>
+
+                {month.days.map((day) => {
+                  if (remaining <= 0) return null;
+                  const rows = day.transactions.slice(0, remaining);
+                  remaining -= rows.length;
+
+                  return (
+                    <div key={day.date} className="space-y-2">
+                      {/* Day heading with totals */}
+                      <div className="flex items-baseline justify-between px-1">
+                        <h3 className="text-sm font-medium text-muted-foreground">{formatDay(day.date)}</h3>
+                        <GroupTotals income={day.income} expense={day.expense} />
+                      </div>
+
+                      {rows.map((transaction) => (
+                        <TransactionRow
+                          key={transaction.id}
+                          transaction={transaction}
+                          showDate={false}
+                          onClick={() => setSelected(transaction)}
+                        />
+                      ))}
+                    </div>
+                  );
+                })}
+              </section>
+            );
+          })}
+
+          {/* Scroll sentinel that triggers the next page */}
+          {hasMore && (
+            <div ref={sentinelRef} className="py-4 text-center text-sm text-muted-foreground">
+              Loading more…
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Detail sheet for the tapped row */}
+      <TransactionDetailSheet
+        transaction={selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+        onEdit={handleEdit}
+        onDelete={handleDeleteClick}
+        onCreateRule={handleCreateRule}
+      />
+
+      {/* Delete confirmation */}
+      <DeleteConfirmDialog
+        open={toDelete !== null}
+        onOpenChange={(open) => !open && setToDelete(null)}
+        itemName={toDelete?.title ?? ""}
+        itemType="transaction"
+        onConfirm={handleConfirmDelete}
+      />
+    </AppLayout>
+  );
+}
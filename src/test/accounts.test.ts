@@ -0,0 +1,54 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { createApiClient } from "@/api/client";
+import { createMemoryStore } from "@/api/backend/store";
+import { createMockTransport } from "@/api/mockBackend";
+import { accountBalances, formatAccountBalance, runningBalances } from "@/lib/accounts";
+import { computeSummary } from "@/lib/summary";
+import { card, entry, hdfc } from "@/test/fixtures";
+
+const ledger = [
+  entry("salary", { type: "income", amount: 50000, date: "2026-03-01", accountId: "a1" }),
+  entry("rent", { amount: 18000, accountId: "a1" }),
+  entry("dinner", { amount: 1500, date: "2026-03-06", accountId: "a2" }),
+  entry("tea", { amount: 20, date: "2026-03-07" }),
+];
+
+describe("account balances", () => {
+  it("adds each account's transactions to its opening balance", () => {
+    expect(accountBalances([hdfc, card], ledger)).toEqual({
+      accounts: [
+        { accountId: "a1", name: "HDFC Savings", type: "bank", currency: "INR", balance: 42000, baseBalance: 42000 },
+        { accountId: "a2", name: "Amex", type: "credit_card", currency: "INR", balance: -3500, baseBalance: -3500 },
+      ],
+      unassigned: -20,
+    });
+    expect(formatAccountBalance("credit_card", -3500)).toContain("owed");
+    expect(formatAccountBalance("bank", -3500)).not.toContain("owed");
+  });
+
+  it("lists an account's transactions newest first with the balance after each", () => {
+    expect(runningBalances(hdfc, ledger).map(({ transaction, balance }) => [transaction.id, balance])).toEqual([
+      ["rent", 42000],
+      ["salary", 60000],
+    ]);
+  });
+
+  it("breaks the dashboard balance down by account", () => {
+    const summary = computeSummary(ledger, [hdfc, card], "month", new Date(2026, 2, 15));
+    const parts = summary.accounts.reduce((sum, a) => sum + a.balance, summary.unassigned);
+    expect(summary.balance).toBe(38480);
+    expect(parts).toBe(summary.balance);
+  });
+});
+
+describe("account routes", () => {
+  it("refuses to delete an account that has transactions", async () => {
+    const api = createApiClient(createMockTransport(createMemoryStore({ accounts: [hdfc, card], transactions: ledger })));
+    await expect(api.accounts.remove("a1")).rejects.toMatchObject({ status: 409 });
+
+    await api.transactions.remove("dinner");
+    await api.accounts.remove("a2");
+    expect((await api.accounts.list()).map((a) => a.id)).toEqual(["a1"]);
+  });
+});
@@ -0,0 +1,51 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { ApiError, createApiClient } from "@/api/client";
+import { createMockTransport } from "@/api/mockBackend";
+
+const api = createApiClient(createMockTransport());
+
+describe("API client over the mock backend", () => {
+  it("creates, updates and deletes a transaction", async () => {
+    const created = await api.transactions.create({
+      type: "expense", title: "Auto", amount: 120, category: "Transport", date: "2026-02-03",
+    });
+    expect(created.id).toBeTruthy();
+    expect(await api.transactions.list()).toContainEqual(created);
+
+    const updated = await api.transactions.update(created.id, { amount: 150 });
+    expect(updated).toMatchObject({ id: created.id, amount: 150, createdAt: created.createdAt });
+
+    await api.transactions.remove(created.id);
+    expect((await api.transactions.list()).some((t) => t.id === created.id)).toBe(false);
+  });
+
+  it("derives budget spend from this month's expenses in the category", async () => {
+    const budget = await api.budgets.create({ category: "Books", limit: 1000 });
+    const today = new Date().toISOString().slice(0, 10);
+    await api.transactions.create({ type: "expense", title: "Novel", amount: 300, category: "books", date: today });
+    await api.transactions.create({ type: "expense", title: "Old", amount: 500, category: "Books", date: "2001-01-01" });
+    await api.transactions.create({ type: "income", title: "Resale", amount: 200, category: "Books", date: today });
+
+    expect(budget.spent).toBe(0);
+    expect(await api.budgets.get(budget.id)).toMatchObject({ spent: 300 });
+  });
+
+  it("refuses dates that do not exist", async () => {
+    const input = { type: "expense" as const, title: "Auto", amount: 120, category: "Transport", date: "2026-02-31" };
+    await expect(api.transactions.create(input)).rejects.toMatchObject({ status: 400, code: "validation_error" });
+    await expect(api.exchangeRates.create({ from: "USD", to: "INR", rate: 83, date: "2026-13-01" }))
+      .rejects.toMatchObject({ status: 400 });
+  });
+
+  it("reports missing records as a typed 404 error", async () => {
+    const error = await api.goals.get("does-not-exist").catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 404, code: "not_found" });
+  });
+
+  it("serves insights generated from stored data", async () => {
+    const insights = await api.insights.list();
+    expect(Array.isArray(insights)).toBe(true);
+  });
+});
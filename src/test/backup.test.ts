@@ -0,0 +1,115 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi } from "vitest";
+import { createApiClient } from "@/api/client";
+import { createMemoryStore } from "@/api/backend/store";
+import { createMockTransport } from "@/api/mockBackend";
+import { BackupError, decryptBackup, encryptBackup } from "@/lib/backup/crypto";
+import { migrateSnapshot } from "@/lib/backup/migrate";
+import { SCHEMA_VERSION } from "@/lib/db/migrations";
+import type { BackupSnapshot } from "@/types/Backup";
+import type { Transaction } from "@/types/Transaction";
+
+const clientFor = (store = createMemoryStore()) => createApiClient(createMockTransport(store));
+
+const tea: Transaction = {
+  id: "t1", type: "expense", title: "Tea", amount: 20, category: "Food & Dining", date: "2026-01-10",
+  externalId: "ofx:1:A", createdAt: "2026-01-10T08:00:00Z", updatedAt: "2026-01-10T08:00:00Z",
+};
+
+describe("backup encryption", () => {
+  const snapshot: BackupSnapshot = {
+    app: "FinGuide", schemaVersion: SCHEMA_VERSION, createdAt: "2026-03-05T10:00:00Z", stores: { transactions: [tea] },
+  };
+
+  it("round-trips with the passphrase and keeps the records out of the file", async () => {
+    const file = await encryptBackup(snapshot, "correct horse", 1000);
+    expect(file).not.toContain("Tea");
+    expect(JSON.parse(file)).toMatchObject({ format: "finguide-backup", kdf: { name: "PBKDF2", iterations: 1000 } });
+    expect(await decryptBackup(file, "correct horse")).toEqual(snapshot);
+  });
+
+  it("rejects a wrong passphrase and files that are not backups", async () => {
+    const file = await encryptBackup(snapshot, "correct horse", 1000);
+    await expect(decryptBackup(file, "wrong horse")).rejects.toMatchObject({ code: "wrong_passphrase" });
+    await expect(decryptBackup("date,amount\n", "x")).rejects.toBeInstanceOf(BackupError);
+  });
+});
+
+describe("backup routes", () => {
+  it("snapshots every store and replaces or merges on restore", async () => {
+    const source = clientFor(createMemoryStore({ transactions: [tea], settings: [{ key: "currency", value: "INR" }] }));
+    const snapshot = await source.backup.get();
+    expect(snapshot.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(snapshot.stores.settings).toEqual([{ key: "currency", value: "INR" }]);
+
+    // Merge keeps existing records and skips the same bank id under another id
+    const target = clientFor(createMemoryStore({ transactions: [{ ...tea, id: "t9" }], goals: [{ id: "g1", title: "Bike", emoji: "🚲", saved: 0, target: 1, deadline: "Dec 2026" }] }));
+    const merged = await target.backup.restore(snapshot, "merge");
+    expect(merged.restored).toMatchObject({ transactions: 0, settings: 1 });
+    expect((await target.goals.list()).map((g) => g.id)).toEqual(["g1"]);
+
+    await target.backup.restore(snapshot, "replace");
+    expect((await target.transactions.list()).map((t) => t.id)).toEqual(["t1"]);
+    expect(await target.goals.list()).toEqual([]);
+  });
+
+  it("refuses snapshots at another schema version", async () => {
+    const client = clientFor();
+    const snapshot = { ...(await client.backup.get()), schemaVersion: 1 };
+    await expect(client.backup.restore(snapshot, "merge")).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("checks every record before writing any", async () => {
+    const client = clientFor(createMemoryStore({ transactions: [tea] }));
+    const snapshot = await client.backup.get();
+    const { amount, ...broken } = tea;
+    const tampered = { ...snapshot, stores: { ...snapshot.stores, transactions: [{ ...broken, id: "t2" }] } } as BackupSnapshot;
+
+    const error = await client.backup.restore(tampered, "replace").catch((e) => e);
+    expect(error).toMatchObject({ status: 400, code: "validation_error" });
+    expect(error.details.map((d) => d.path)).toEqual(["transactions.0.amount"]);
+    expect((await client.transactions.list()).map((t) => [t.id, t.amount])).toEqual([["t1", amount]]);
+  });
+});
+
+describe("migrateSnapshot", () => {
+  it("runs an old backup through the schema migrations", async () => {
+    const old = {
+      app: "FinGuide" as const,
+      schemaVersion: 1,
+      createdAt: "2026-01-15T00:00:00Z",
+      stores: {
+        transactions: [tea],
+        budgets: [{ id: "b1", category: "Pets", emoji: "🐶", spent: 900, limit: 2000, color: "bg-warning" }],
+        goals: [],
+        accounts: [],
+        settings: [],
+      },
+    } as unknown as BackupSnapshot;
+
+    const migrated = await migrateSnapshot(old);
+    expect(migrated.schemaVersion).toBe(SCHEMA_VERSION);
+    // v2 drops budget.spent, v3 moves emoji/color into the category catalog
+    expect(migrated.stores.budgets).toEqual([{ id: "b1", category: "Pets", limit: 2000 }]);
+    expect(migrated.stores.categories).toContainEqual(expect.objectContaining({ name: "Pets", emoji: "🐶", color: "warning" }));
+    expect(migrated.stores.transactions).toEqual([tea]);
+    expect(migrated.stores.bankProfiles).toEqual([]);
+  });
+
+  it("closes and removes the temporary database when a record cannot be stored", async () => {
+    const close = vi.spyOn(IDBDatabase.prototype, "close");
+    const remove = vi.spyOn(indexedDB, "deleteDatabase");
+    const old = { app: "FinGuide", schemaVersion: 1, createdAt: "", stores: { goals: [{ title: "No id" }] } } as unknown as BackupSnapshot;
+    await expect(migrateSnapshot(old)).rejects.toBeDefined();
+
+    // Closed before the delete, which an open connection would block
+    expect(close.mock.invocationCallOrder[0]).toBeLessThan(remove.mock.invocationCallOrder[0]);
+    expect((await indexedDB.databases()).some((db) => db.name.includes("-restore-"))).toBe(false);
+    vi.restoreAllMocks();
+  });
+
+  it("refuses backups from a newer app", async () => {
+    const future = { app: "FinGuide", schemaVersion: SCHEMA_VERSION + 1, createdAt: "", stores: {} } as BackupSnapshot;
+    await expect(migrateSnapshot(future)).rejects.toBeInstanceOf(BackupError);
+  });
+});
@@ -0,0 +1,78 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { ApiError, createApiClient } from "@/api/client";
+import { createMockTransport } from "@/api/mockBackend";
+import { openDatabase } from "@/lib/db/database";
+import { MIGRATIONS } from "@/lib/db/migrations";
+import { createRepository } from "@/lib/db/repository";
+
+const api = createApiClient(createMockTransport());
+
+describe("category catalog migration", () => {
+  it("seeds the defaults and adopts categories already in use", async () => {
+    const name = `finguide-test-${crypto.randomUUID()}`;
+    const v2 = await openDatabase(name, MIGRATIONS.slice(0, 2));
+    await createRepository("budgets", async () => v2).put(
+      { id: "b-pets", category: "Pets", emoji: "🐾", limit: 2000, color: "bg-teal" } as never
+    );
+    await createRepository("transactions", async () => v2).put({
+      id: "t-gym", type: "expense", title: "Gym", amount: 900, category: "Fitness",
+      date: "2026-01-05", createdAt: "2026-01-05T00:00:00Z", updatedAt: "2026-01-05T00:00:00Z",
+    });
+    v2.close();
+
+    const v3 = await openDatabase(name);
+    const catalog = await createRepository("categories", async () => v3).getAll();
+    const budget = await createRepository("budgets", async () => v3).get("b-pets");
+
+    expect(catalog.find((c) => c.name === "Food & Dining")).toMatchObject({ type: "expense", emoji: "🍔" });
+    expect(catalog.find((c) => c.name === "Pets")).toMatchObject({ emoji: "🐾", color: "teal" });
+    expect(catalog.find((c) => c.name === "Fitness")).toMatchObject({ type: "expense", color: "muted" });
+    expect(budget).toEqual({ id: "b-pets", category: "Pets", limit: 2000 });
+    v3.close();
+  });
+});
+
+describe("category routes", () => {
+  it("rejects duplicate names of the same type", async () => {
+    const error = await api.categories
+      .create({ name: "transport", type: "expense", emoji: "🚗", color: "info" })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 409, code: "conflict" });
+  });
+
+  it("renames a category everywhere it is used", async () => {
+    const category = await api.categories.create({ name: "Coffee", type: "expense", emoji: "☕", color: "warning" });
+    const budget = await api.budgets.create({ category: "Coffee", limit: 800 });
+    const entry = await api.transactions.create({
+      type: "expense", title: "Latte", amount: 180, category: "coffee", date: "2026-02-01",
+    });
+
+    await api.categories.update(category.id, { name: "Cafés" });
+
+    expect(await api.transactions.get(entry.id)).toMatchObject({ category: "Cafés" });
+    expect(await api.budgets.get(budget.id)).toMatchObject({ category: "Cafés" });
+  });
+
+  it("merges a category into another and counts subcategories towards the parent", async () => {
+    const parent = await api.categories.create({ name: "Pets", type: "expense", emoji: "🐾", color: "teal" });
+    const source = await api.categories.create({ name: "Dog food", type: "expense", emoji: "🐾", color: "teal" });
+    const vet = await api.categories.create({
+      name: "Vet", type: "expense", emoji: "💊", color: "teal", parentId: parent.id,
+    });
+    const budget = await api.budgets.create({ category: "Pets", limit: 5000 });
+    const today = new Date().toISOString().slice(0, 10);
+    const kibble = await api.transactions.create({
+      type: "expense", title: "Kibble", amount: 1200, category: "Dog food", date: today,
+    });
+    await api.transactions.create({ type: "expense", title: "Checkup", amount: 800, category: "Vet", date: today });
+
+    await api.categories.merge(source.id, vet.id);
+
+    expect(await api.transactions.get(kibble.id)).toMatchObject({ category: "Vet" });
+    expect(await api.budgets.get(budget.id)).toMatchObject({ spent: 2000 });
+    const error = await api.categories.get(source.id).catch((e) => e);
+    expect(error).toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { createModel, featuresOf, suggestCategories, syncModel } from "@/lib/categorizer";
+import type { Transaction } from "@/types/Transaction";
+
+const tx = (id: string, title: string, category: string, amount = 300): Transaction => ({
+  id, type: "expense", title, amount, category, date: "2026-03-01",
+  createdAt: "2026-03-01T00:00:00Z", updatedAt: "2026-03-01T00:00:00Z",
+});
+
+const ledger = [
+  tx("1", "Swiggy dinner", "Food & Dining"),
+  tx("2", "Swiggy lunch", "Food & Dining"),
+  tx("3", "Zomato order 5521", "Food & Dining"),
+  tx("4", "Uber to office", "Transport", 250),
+  tx("5", "Uber airport", "Transport", 900),
+  tx("6", "Amazon headphones", "Shopping", 2500),
+];
+
+describe("featuresOf", () => {
+  it("uses distinct words and an amount bucket, skipping bare numbers", () => {
+    expect(featuresOf({ title: "Zomato order 5521", note: "order", amount: 300 }).sort())
+      .toEqual(["amount:100-500", "order", "zomato"]);
+  });
+});
+
+describe("suggestCategories", () => {
+  it("ranks the category the user files similar entries under first", () => {
+    const model = createModel();
+    syncModel(model, ledger);
+
+    const [top] = suggestCategories(model, { title: "swiggy breakfast", amount: 200 }, "expense");
+    expect(top.category).toBe("Food & Dining");
+    expect(top.probability).toBeGreaterThan(0.6);
+    expect(suggestCategories(model, { title: "swiggy" }, "income")).toEqual([]);
+  });
+
+  it("retrains in place when a transaction is corrected or deleted", () => {
+    const model = createModel();
+    syncModel(model, ledger);
+
+    const corrected = ledger.map((t) => (t.title.startsWith("Uber") ? { ...t, category: "Travel" } : t));
+    expect(syncModel(model, corrected)).toBe(2);
+    expect(suggestCategories(model, { title: "uber ride" }, "expense")[0].category).toBe("Travel");
+
+    expect(syncModel(model, corrected.filter((t) => t.category !== "Travel"))).toBe(2);
+    expect(suggestCategories(model, { title: "uber ride" }, "expense").map((s) => s.category))
+      .not.toContain("Travel");
+  });
+});
@@ -0,0 +1,129 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { createApiClient } from "@/api/client";
+import { createMemoryStore } from "@/api/backend/store";
+import { createMockTransport } from "@/api/mockBackend";
+import { accountBalances } from "@/lib/accounts";
+import { convertAmount, findRate, missingRates, toBase } from "@/lib/currency";
+import { toJournal } from "@/lib/export/journal";
+import { computeSummary } from "@/lib/summary";
+import { entry, hdfc } from "@/test/fixtures";
+import type { Account } from "@/types/Account";
+import type { CurrencyContext, ExchangeRate } from "@/types/Currency";
+import type { ExportData } from "@/types/Export";
+
+const rate = (id: string, from: string, to: string, value: number, date: string): ExchangeRate => ({
+  id, from, to, rate: value, date, createdAt: `${date}T00:00:00Z`,
+});
+
+const rates = [
+  rate("r1", "USD", "INR", 80, "2026-01-01"),
+  rate("r2", "USD", "INR", 83, "2026-03-01"),
+  rate("r3", "EUR", "USD", 1.1, "2026-01-01"),
+];
+const context: CurrencyContext = { base: "INR", rates };
+
+const chase: Account = { id: "a2", name: "Chase", type: "bank", currency: "USD", openingBalance: 100, createdAt: "2026-01-01T00:00:00Z" };
+
+const ledger = [
+  entry("salary", { type: "income", amount: 50000, category: "Salary", accountId: "a1" }),
+  entry("hotel", { amount: 20, currency: "USD", category: "Travel", accountId: "a2" }),
+];
+
+describe("exchange rates", () => {
+  it("uses the latest rate dated on or before the day, else the earliest", () => {
+    expect(findRate("USD", "INR", "2026-02-15", rates)).toBe(80);
+    expect(findRate("USD", "INR", "2026-03-05", rates)).toBe(83);
+    expect(findRate("USD", "INR", "2025-12-01", rates)).toBe(80);
+  });
+
+  it("inverts a rate and goes through one other currency", () => {
+    expect(findRate("INR", "USD", "2026-03-05", rates)).toBeCloseTo(1 / 83);
+    expect(findRate("EUR", "INR", "2026-03-05", rates)).toBeCloseTo(91.3);
+    expect(findRate("GBP", "INR", "2026-03-05", rates)).toBeUndefined();
+  });
+
+  it("converts amounts and splits, keeping 1:1 when no rate is known", () => {
+    expect(convertAmount(10, "USD", "INR", "2026-03-05", rates)).toBe(830);
+    expect(convertAmount(10, "GBP", "INR", "2026-03-05", rates)).toBe(10);
+
+    const split = entry("trip", {
+      amount: 30, currency: "USD",
+      splits: [{ category: "Travel", amount: 20 }, { category: "Food & Dining", amount: 10 }],
+    });
+    const [converted] = toBase([split], context);
+    expect(converted).toMatchObject({ amount: 2490, currency: "INR" });
+    expect(converted.splits.map((line) => line.amount)).toEqual([1660, 830]);
+    expect(split.amount).toBe(30);
+
+    expect(missingRates([...ledger, { currency: "GBP" }, chase], context)).toEqual(["GBP"]);
+  });
+});
+
+describe("balances in the base currency", () => {
+  it("keeps account balances in their own currency beside the base amount", () => {
+    const { accounts } = accountBalances([hdfc, chase], ledger, context);
+    expect(accounts[1]).toMatchObject({ currency: "USD", balance: 80, baseBalance: 6340 });
+    expect(accounts[0]).toMatchObject({ currency: "INR", balance: 60000, baseBalance: 60000 });
+  });
+
+  it("totals the dashboard in the base currency", () => {
+    const summary = computeSummary(ledger, [hdfc, chase], "month", new Date(2026, 2, 15), context);
+    expect(summary).toMatchObject({ currency: "INR", income: 50000, expenses: 1660, balance: 66340 });
+  });
+
+  it("writes each journal entry in its own currency", () => {
+    const data: ExportData = { transactions: ledger, budgets: [], goals: [], accounts: [hdfc, chase] };
+    const journal = toJournal(data, ["transactions", "accounts"], data.accounts, [], "beancount");
+    expect(journal).toMatch(/Assets:Bank:Chase +-20\.00 USD/);
+    expect(journal).toMatch(/Assets:Bank:Chase +100\.00 USD/);
+    expect(journal).toContain("open Equity:Opening-Balances INR,USD");
+    expect(journal).toContain('option "operating_currency" "INR"');
+
+    const inDollars = toJournal(data, ["transactions"], data.accounts, [], "beancount", "USD");
+    expect(inDollars).toContain('option "operating_currency" "USD"');
+  });
+});
+
+describe("currency routes", () => {
+  it("stores the base currency", async () => {
+    const api = createApiClient(createMockTransport(createMemoryStore({})));
+    expect(await api.settings.getBaseCurrency()).toEqual({ currency: "INR" });
+    expect(await api.settings.setBaseCurrency("usd")).toEqual({ currency: "USD" });
+    expect(await api.settings.getBaseCurrency()).toEqual({ currency: "USD" });
+    await expect(api.settings.setBaseCurrency("dollars")).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("converts budget limits and goals into the new base currency", async () => {
+    const api = createApiClient(createMockTransport(createMemoryStore({
+      budgets: [{ id: "b1", category: "Food & Dining", limit: 8300 }],
+      goals: [{ id: "g1", title: "Trip", emoji: "✈️", saved: 41500, target: 166000, deadline: "Dec 2026" }],
+      exchangeRates: [{ id: "r1", from: "USD", to: "INR", rate: 83, date: "2026-03-01", createdAt: "2026-03-01T10:00:00.000Z" }],
+    })));
+
+    await api.settings.setBaseCurrency("USD");
+    expect((await api.budgets.list())[0]).toMatchObject({ limit: 100 });
+    expect((await api.goals.list())[0]).toMatchObject({ saved: 500, target: 2000 });
+
+    // Setting the same base again leaves them alone
+    await api.settings.setBaseCurrency("USD");
+    expect((await api.budgets.list())[0]).toMatchObject({ limit: 100 });
+  });
+
+  it("keeps rates between two different currencies", async () => {
+    const api = createApiClient(createMockTransport(createMemoryStore({})));
+    const created = await api.exchangeRates.create({ from: "USD", to: "INR", rate: 83, date: "2026-03-01" });
+    expect(created).toMatchObject({ from: "USD", to: "INR", rate: 83 });
+    await expect(api.exchangeRates.create({ from: "USD", to: "USD", rate: 1, date: "2026-03-01" })).rejects.toMatchObject({ status: 400 });
+    await expect(api.exchangeRates.update(created.id, { to: "USD" })).rejects.toMatchObject({ status: 400 });
+    await expect(api.exchangeRates.create({ from: "USD", to: "INR", rate: 0, date: "2026-03-01" })).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("records a new transaction in its account's currency unless given one", async () => {
+    const api = createApiClient(createMockTransport(createMemoryStore({ accounts: [hdfc, chase] })));
+    const input = { type: "expense" as const, title: "Lunch", amount: 15, category: "Food & Dining", date: "2026-03-05" };
+    expect(await api.transactions.create({ ...input, accountId: "a2" })).toMatchObject({ currency: "USD" });
+    expect(await api.transactions.create({ ...input, accountId: "a2", currency: "EUR" })).toMatchObject({ currency: "EUR" });
+    expect(await api.transactions.create(input)).toMatchObject({ currency: "INR" });
+  });
+});
@@ -0,0 +1,67 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, beforeEach } from "vitest";
+import { openDatabase } from "@/lib/db/database";
+import { MIGRATIONS, Migration } from "@/lib/db/migrations";
+import { createRepository } from "@/lib/db/repository";
+import type { Goal } from "@/types/Goal";
+
+let dbName: string;
+
+beforeEach(() => {
+  dbName = `finguide-test-${crypto.randomUUID()}`;
+  localStorage.clear();
+});
+
+describe("schema migrations", () => {
+  it("creates the core stores and seeds budgets and goals", async () => {
+    const db = await openDatabase(dbName);
+
+    expect([...db.objectStoreNames].sort()).toEqual(
+      ["accounts", "bankProfiles", "budgets", "categories", "exchangeRates", "goals", "recurring", "rules", "settings", "transactions"]
+    );
+
+    const goals = createRepository("goals", async () => db);
+    expect((await goals.getAll()).length).toBeGreaterThan(0);
+    db.close();
+  });
+
+  it("imports the legacy localStorage ledger", async () => {
+    const legacy = [{
+      id: "t1", type: "expense", title: "Tea", amount: 20, category: "Food & Dining",
+      date: "2026-01-10", createdAt: "2026-01-10T08:00:00Z", updatedAt: "2026-01-10T08:00:00Z",
+    }];
+    localStorage.setItem("finguide.transactions.v1", JSON.stringify(legacy));
+
+    const db = await openDatabase(dbName);
+    const transactions = createRepository("transactions", async () => db);
+
+    expect(await transactions.get("t1")).toMatchObject({ title: "Tea", amount: 20 });
+    expect(localStorage.getItem("finguide.transactions.v1")).toBeNull();
+    db.close();
+  });
+
+  it("rewrites existing records when a later migration changes a type", async () => {
+    const v1 = await openDatabase(dbName);
+    await createRepository("goals", async () => v1).put({
+      id: "g9", title: "Bike", emoji: "🚲", saved: 0, target: 50000, deadline: "Mar 2027",
+    });
+    v1.close();
+
+    const upgraded: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: MIGRATIONS.length + 1,
+        description: "Rename goal.target to goal.amount and drop empty goals",
+        transform: {
+          goals: (goal) => (goal.saved === 0 ? null : { ...goal, amount: goal.target }),
+        },
+      },
+    ];
+    const v2 = await openDatabase(dbName, upgraded);
+    const goals = await createRepository("goals", async () => v2).getAll();
+
+    expect(goals.find((g) => g.id === "g9")).toBeUndefined();
+    expect(goals.every((g: Goal & { amount?: number }) => g.amount === g.target)).toBe(true);
+    v2.close();
+  });
+});
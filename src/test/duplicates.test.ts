@@ -0,0 +1,107 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { createApiClient } from "@/api/client";
+import { createMockTransport } from "@/api/mockBackend";
+import { descriptionSimilarity, findDuplicatePairs, findDuplicates, normalizeDescription } from "@/lib/duplicates";
+import type { Transaction } from "@/types/Transaction";
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: crypto.randomUUID(),
+  type: "expense",
+  title: "Swiggy",
+  amount: 450,
+  category: "Food & Dining",
+  date: "2026-03-01",
+  createdAt: "2026-03-01T10:00:00.000Z",
+  updatedAt: "2026-03-01T10:00:00.000Z",
+  ...overrides,
+});
+
+describe("description matching", () => {
+  it("ignores bank prefixes, reference numbers and VPAs", () => {
+    expect(normalizeDescription("UPI/607112345678/SWIGGY@ybl/Swiggy Order")).toEqual(["swiggy", "order"]);
+    expect(descriptionSimilarity("Swiggy", "UPI-SWIGGY-ORDER-BLR")).toBe(1);
+    expect(descriptionSimilarity("Zomato", "UPI-SWIGGY-ORDER")).toBe(0);
+  });
+});
+
+describe("findDuplicates", () => {
+  const typed = tx({ title: "Swiggy dinner" });
+  const ledger = [
+    typed,
+    tx({ title: "Swiggy", amount: 451 }),
+    tx({ title: "Swiggy", date: "2026-03-20" }),
+    tx({ title: "Swiggy", type: "income" }),
+  ];
+
+  it("matches the same amount within the date window and a similar title", () => {
+    const candidate = { type: "expense" as const, title: "UPI-SWIGGY-123", amount: 450, date: "2026-03-03" };
+    expect(findDuplicates(candidate, ledger)).toEqual([typed]);
+    expect(findDuplicates({ ...candidate, date: "2026-03-05" }, ledger)).toEqual([]);
+    expect(findDuplicates({ ...typed }, ledger)).toEqual([]);
+  });
+});
+
+describe("findDuplicatePairs", () => {
+  it("treats the older entry as the original and honours earlier decisions", () => {
+    const typed = tx({ title: "Swiggy" });
+    const imported = tx({ title: "UPI-SWIGGY-ORDER", date: "2026-03-02", externalId: "ofx:1:A", createdAt: "2026-03-05T09:00:00.000Z" });
+    const sameStatement = tx({ title: "UPI-SWIGGY-ORDER", date: "2026-03-02", externalId: "ofx:1:B", createdAt: "2026-03-05T09:00:00.000Z" });
+
+    const pairs = findDuplicatePairs([imported, typed]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ original: typed, duplicate: imported, daysApart: 1 });
+
+    // Two bank entries are different payments; a "keep both" pair stays dismissed
+    expect(findDuplicatePairs([imported, sameStatement])).toEqual([]);
+    expect(findDuplicatePairs([{ ...typed, notDuplicateOf: [imported.id] }, imported])).toEqual([]);
+  });
+
+  it("only pairs entries recorded in the same currency", () => {
+    const rupees = tx({ title: "Netflix", amount: 20 });
+    const dollars = tx({ title: "NETFLIX.COM", amount: 20, currency: "USD", date: "2026-03-02" });
+
+    expect(findDuplicatePairs([rupees, dollars])).toEqual([]);
+    expect(findDuplicates(dollars, [rupees])).toEqual([]);
+    expect(findDuplicatePairs([rupees, { ...dollars, currency: "INR" }])).toHaveLength(1);
+  });
+});
+
+describe("duplicate routes", () => {
+  const api = createApiClient(createMockTransport());
+
+  const pairFor = async (title: string) => {
+    const typed = await api.transactions.create({ type: "expense", title, amount: 300, category: "Others", date: "2026-04-01", tags: ["typed"] });
+    const { imported } = await api.transactions.import([
+      { type: "expense", title: `UPI-${title.toUpperCase()}-9911`, amount: 300, category: "Transport", date: "2026-04-02", note: "Imported", externalId: `ofx:9:${title}` },
+    ]);
+    return { typed, imported: imported[0] };
+  };
+
+  it("lists pairs and merges details into the original", async () => {
+    const { typed, imported } = await pairFor("Uber");
+    expect((await api.duplicates.list()).map((p) => p.id)).toContain(`${typed.id}:${imported.id}`);
+
+    const kept = await api.duplicates.resolve({ originalId: typed.id, duplicateId: imported.id, action: "merge" });
+    expect(kept).toMatchObject({ id: typed.id, title: "Uber", category: "Transport", note: "Imported", externalId: "ofx:9:Uber" });
+    await expect(api.transactions.get(imported.id)).rejects.toMatchObject({ status: 404 });
+
+    // The merged bank id keeps a re-import from bringing the entry back
+    const again = await api.transactions.import([
+      { type: "expense", title: "UPI-UBER-9911", amount: 300, date: "2026-04-02", externalId: "ofx:9:Uber" },
+    ]);
+    expect(again.skipped).toBe(1);
+  });
+
+  it("keeps both or discards the duplicate", async () => {
+    const first = await pairFor("Ola");
+    await api.duplicates.resolve({ originalId: first.typed.id, duplicateId: first.imported.id, action: "keep_both" });
+    expect((await api.duplicates.list()).some((p) => p.original.id === first.typed.id)).toBe(false);
+    expect(await api.transactions.get(first.imported.id)).toBeDefined();
+
+    const second = await pairFor("Rapido");
+    await api.duplicates.resolve({ originalId: second.typed.id, duplicateId: second.imported.id, action: "discard" });
+    expect((await api.transactions.get(second.typed.id)).category).toBe("Others");
+    await expect(api.transactions.get(second.imported.id)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_CATEGORIES } from "@/lib/categories";
+import { applyExportScope, roundAmount, toExportTables } from "@/lib/export/data";
+import { toCsv } from "@/lib/export/csv";
+import { buildExportFile } from "@/lib/export/file";
+import { columnName, toXlsx } from "@/lib/export/xlsx";
+import { crc32, createZip } from "@/lib/export/zip";
+import type { Category } from "@/types/Category";
+import type { ExportData } from "@/types/Export";
+import type { Transaction } from "@/types/Transaction";
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: crypto.randomUUID(),
+  type: "expense",
+  title: "Swiggy",
+  amount: 450,
+  category: "Food & Dining",
+  date: "2026-03-01",
+  createdAt: "2026-03-01T10:00:00.000Z",
+  updatedAt: "2026-03-01T10:00:00.000Z",
+  ...overrides,
+});
+
+const catalog: Category[] = [
+  ...DEFAULT_CATEGORIES,
+  { id: "sub-1", name: "Groceries", type: "expense", emoji: "🛒", color: "warning", parentId: "default-01", archived: false, createdAt: "2026-01-01T00:00:00.000Z" },
+];
+
+const data: ExportData = {
+  transactions: [
+    tx({ title: "Swiggy", amount: 0.1 + 0.2, accountId: "hdfc" }),
+    tx({ title: "BigBasket, \"weekly\"", category: "Groceries", amount: 1200, date: "2026-03-10", accountId: "hdfc", tags: ["home"] }),
+    tx({ title: "Uber", category: "Transport", amount: 250, date: "2026-04-02", accountId: "cash" }),
+    tx({ title: "=Salary", type: "income", category: "Salary", amount: 85000, date: "2026-03-31" }),
+  ],
+  budgets: [
+    { id: "b1", category: "Food & Dining", limit: 8000, spent: 1200.3 },
+    { id: "b2", category: "Transport", limit: 3000, spent: 250 },
+  ],
+  goals: [{ id: "g1", title: "Emergency Fund", emoji: "🛟", saved: 25000, target: 100000, deadline: "Dec 2026" }],
+  accounts: [
+    { id: "hdfc", name: "HDFC Savings", type: "bank", openingBalance: 10000, createdAt: "2026-01-01T00:00:00.000Z" },
+    { id: "cash", name: "Wallet", type: "cash", openingBalance: 500, createdAt: "2026-01-01T00:00:00.000Z" },
+  ],
+};
+
+describe("applyExportScope", () => {
+  it("filters transactions by date, account and category, subcategories included", () => {
+    const scoped = applyExportScope(
+      data,
+      { entities: ["transactions", "budgets", "accounts"], from: "2026-03-01", to: "2026-03-31", accountIds: ["hdfc"], categories: ["Food & Dining"] },
+      catalog
+    );
+    expect(scoped.transactions.map((t) => t.title)).toEqual(["Swiggy", "BigBasket, \"weekly\""]);
+    expect(scoped.budgets.map((b) => b.category)).toEqual(["Food & Dining"]);
+    expect(scoped.accounts.map((a) => a.id)).toEqual(["hdfc"]);
+    expect(scoped.goals).toEqual([]);
+  });
+
+  it("keeps amounts to paise", () => {
+    expect(roundAmount(0.1 + 0.2)).toBe(0.3);
+    expect(roundAmount(1234.565)).toBe(1234.57);
+  });
+});
+
+describe("CSV export", () => {
+  it("quotes text, neutralises formulas and writes two decimals", () => {
+    const [table] = toExportTables(data, ["transactions"], data.accounts);
+    const lines = toCsv(table).split("\r\n");
+    expect(lines[0]).toBe("\uFEFFDate,Type,Title,Amount,Currency,Category,Account,Note,Tags,Bank ID");
+    expect(lines[1]).toBe("2026-03-01,Expense,Swiggy,0.30,INR,Food & Dining,HDFC Savings,,,");
+    expect(lines[2]).toBe('2026-03-10,Expense,"BigBasket, ""weekly""",1200.00,INR,Groceries,HDFC Savings,,home,');
+    expect(lines[3]).toBe("2026-03-31,Income,'=Salary,85000.00,INR,Salary,,,,");
+  });
+});
+
+describe("zip and xlsx", () => {
+  it("computes the standard CRC-32", () => {
+    expect(crc32(new TextEncoder().encode("hello"))).toBe(0x3610a686);
+  });
+
+  it("writes a stored archive with a central directory", () => {
+    const zip = createZip([{ name: "a.txt", data: "hi" }]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(new TextDecoder().decode(zip.slice(30, 35))).toBe("a.txt");
+    expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(zip.length - 12, true)).toBe(1);
+  });
+
+  it("names columns and puts one sheet per entity in the workbook", () => {
+    expect([columnName(0), columnName(25), columnName(27)]).toEqual(["A", "Z", "AB"]);
+    const text = new TextDecoder().decode(toXlsx(toExportTables(data, ["transactions", "goals"], data.accounts)));
+    expect(text).toContain('<sheet name="Transactions" sheetId="1" r:id="rId1"/>');
+    expect(text).toContain('<sheet name="Goals" sheetId="2" r:id="rId2"/>');
+    expect(text).toContain('<c r="D2" s="1"><v>0.3</v></c>');
+    expect(text).toContain("BigBasket, &quot;weekly&quot;");
+  });
+});
+
+describe("buildExportFile", () => {
+  const now = new Date(2026, 2, 5);
+
+  it("names the file after the format and bundles several CSVs", () => {
+    expect(buildExportFile(data, { entities: ["goals"] }, "csv", catalog, now).name).toBe("finguide-goals-2026-03-05.csv");
+    expect(buildExportFile(data, { entities: ["goals", "accounts"] }, "csv", catalog, now)).toMatchObject({
+      name: "finguide-2026-03-05.zip",
+      type: "application/zip",
+    });
+  });
+
+  it("writes every field of the chosen entities to JSON", () => {
+    const file = buildExportFile(data, { entities: ["transactions"], categories: ["Salary"] }, "json", catalog, now);
+    const document = JSON.parse(file.data as string);
+    expect(document).toMatchObject({ app: "FinGuide", version: 1, scope: { entities: ["transactions"] } });
+    expect(document.transactions).toEqual([data.transactions[3]]);
+    expect(document.budgets).toBeUndefined();
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * ============================================================================
+ * TEST FIXTURES
+ * ============================================================================
+ * 
+ * Accounts and a transaction factory shared by the ledger tests.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Account } from "@/types/Account";
+import type { Transaction } from "@/types/Transaction";
+
+export const hdfc: Account = { id: "a1", name: "HDFC Savings", type: "bank", openingBalance: 10000, createdAt: "2026-01-01T00:00:00Z" };
+export const card: Account = { id: "a2", name: "Amex", type: "credit_card", openingBalance: -2000, createdAt: "2026-01-02T00:00:00Z" };
+
+/**
+ * An expense titled after its id, created on its date (5 March 2026 unless given)
+ */
+export const entry = (id: string, fields: Partial<Transaction> = {}): Transaction => {
+  const date = fields.date ?? "2026-03-05";
+  return {
+    id, type: "expense", title: id, amount: 0, category: "Others", date,
+    createdAt: `${date}T10:00:00Z`, updatedAt: `${date}T10:00:00Z`,
+    ...fields,
+  };
+};
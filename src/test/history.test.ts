@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { groupByMonthAndDay } from "@/lib/history";
+import type { Transaction } from "@/types/Transaction";
+
+const tx = (id: string, type: Transaction["type"], amount: number, date: string): Transaction => ({
+  id, type, title: id, amount, category: "General", date, createdAt: "", updatedAt: "",
+});
+
+describe("groupByMonthAndDay", () => {
+  it("groups a newest-first ledger with day and month totals", () => {
+    const groups = groupByMonthAndDay([
+      tx("a", "expense", 100, "2026-03-09"),
+      tx("b", "income", 500, "2026-03-09"),
+      tx("c", "expense", 40, "2026-03-02"),
+      tx("d", "expense", 70, "2026-02-27"),
+    ]);
+
+    expect(groups.map((m) => m.month)).toEqual(["2026-03", "2026-02"]);
+    expect(groups[0]).toMatchObject({ income: 500, expense: 140 });
+    expect(groups[0].days.map((d) => [d.date, d.income, d.expense, d.transactions.length])).toEqual([
+      ["2026-03-09", 500, 100, 2],
+      ["2026-03-02", 0, 40, 1],
+    ]);
+    expect(groups[1].days[0].transactions[0].id).toBe("d");
+  });
+});
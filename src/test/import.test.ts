@@ -0,0 +1,211 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { ApiError, createApiClient } from "@/api/client";
+import { createMockTransport } from "@/api/mockBackend";
+import { detectHeaderRow, guessMapping, mapCsvRows, parseCsv, sameHeaders } from "@/lib/import/csv";
+import { parseOfx } from "@/lib/import/ofx";
+import { parseQif, parseQifDate } from "@/lib/import/qif";
+import { detectStatementFormat, toTransactionInputs } from "@/lib/import/statement";
+import { detectDateFormat, parseAmount, parseStatementDate } from "@/lib/import/values";
+
+describe("parseAmount", () => {
+  it("reads Indian statement amounts", () => {
+    expect(parseAmount("1,23,456.78")).toBe(123456.78);
+    expect(parseAmount("₹ 2,500")).toBe(2500);
+    expect(parseAmount("Rs. 99.50")).toBe(99.5);
+    expect(parseAmount("1,200.00 Dr")).toBe(-1200);
+    expect(parseAmount("1,200.00 Cr")).toBe(1200);
+    expect(parseAmount("1234.00Dr")).toBe(-1234);
+    expect(parseAmount("1234.00cr.")).toBe(1234);
+    expect(parseAmount("(450)")).toBe(-450);
+    expect(parseAmount("-75")).toBe(-75);
+    expect(parseAmount("")).toBeNull();
+    expect(parseAmount("n/a")).toBeNull();
+  });
+});
+
+describe("statement dates", () => {
+  it("parses each layout and rejects impossible dates", () => {
+    expect(parseStatementDate("05/03/2026", "DD/MM/YYYY")).toBe("2026-03-05");
+    expect(parseStatementDate("05-Mar-26", "DD-MMM-YY")).toBe("2026-03-05");
+    expect(parseStatementDate("5 March 2026", "DD MMM YYYY")).toBe("2026-03-05");
+    expect(parseStatementDate("2026-03-05 14:22:01", "YYYY-MM-DD")).toBe("2026-03-05");
+    expect(parseStatementDate("31/02/2026", "DD/MM/YYYY")).toBeNull();
+  });
+
+  it("detects the layout from sample values", () => {
+    expect(detectDateFormat(["01/03/2026", "28/03/2026"])).toBe("DD/MM/YYYY");
+    expect(detectDateFormat(["03/01/2026", "03/28/2026"])).toBe("MM/DD/YYYY");
+    expect(detectDateFormat(["yesterday"])).toBeNull();
+  });
+});
+
+describe("CSV statements", () => {
+  const file = [
+    "Account Statement,,,,",
+    "Account No: XXXX1234,,,,",
+    "Txn Date,Narration,Withdrawal Amt.,Deposit Amt.,Closing Balance",
+    '01/03/2026,"UPI-SWIGGY-ORDER, BLR",450.00,,"12,550.00"',
+    "02/03/2026,SALARY MARCH,,\"85,000.00\",\"97,550.00\"",
+    "",
+    "Closing balance,,,,97550.00",
+  ].join("\r\n");
+
+  it("splits quoted cells and finds the header row", () => {
+    const rows = parseCsv(file);
+    expect(rows).toHaveLength(6);
+    expect(rows[3][1]).toBe("UPI-SWIGGY-ORDER, BLR");
+    expect(detectHeaderRow(rows)).toBe(2);
+    expect(guessMapping(rows[2])).toEqual({ date: 0, description: 1, debit: 2, credit: 3, balance: 4 });
+    expect(sameHeaders(rows[2], [" txn date", "NARRATION", "Withdrawal  Amt.", "Deposit Amt.", "Closing Balance"])).toBe(true);
+  });
+
+  it("maps rows to income and expenses and reports unreadable lines", () => {
+    const rows = parseCsv(file);
+    const { rows: parsed, errors } = mapCsvRows(rows, 2, { date: 0, description: 1, debit: 2, credit: 3, balance: 4 }, "DD/MM/YYYY");
+
+    expect(parsed).toEqual([
+      { line: 4, date: "2026-03-01", description: "UPI-SWIGGY-ORDER, BLR", amount: 450, type: "expense", balance: 12550 },
+      { line: 5, date: "2026-03-02", description: "SALARY MARCH", amount: 85000, type: "income", balance: 97550 },
+    ]);
+    expect(errors).toEqual([{ line: 6, message: 'Unreadable date "Closing balance"' }]);
+  });
+
+  it("reads a single signed amount column", () => {
+    const rows = parseCsv("Date;Details;Amount\n2026-03-01;Refund;500 Cr\n2026-03-02;Rent;-15000");
+    const { rows: parsed } = mapCsvRows(rows, 0, { date: 0, description: 1, debit: 2, credit: 2 }, "YYYY-MM-DD");
+    expect(parsed.map((r) => [r.type, r.amount])).toEqual([["income", 500], ["expense", 15000]]);
+  });
+});
+
+describe("OFX statements", () => {
+  const sgml = [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "",
+    "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>",
+    "<CURDEF>INR",
+    "<BANKACCTFROM><BANKID>HDFC0000123<ACCTID>50100012341234<ACCTTYPE>SAVINGS</BANKACCTFROM>",
+    "<BANKTRANLIST>",
+    "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260301120000[+5:30:IST]<TRNAMT>-450.00<FITID>T1001<NAME>SWIGGY<MEMO>UPI/123/Dinner</STMTTRN>",
+    "<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260302<TRNAMT>85000.00<FITID>T1002<NAME>ACME PAYROLL</STMTTRN>",
+    "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>garbage<TRNAMT>-1<FITID>T1003</STMTTRN>",
+    "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+  ].join("\n");
+
+  it("reads SGML files with unclosed leaf tags", () => {
+    const { rows, errors, account } = parseOfx(sgml);
+    expect(account).toBe("50100012341234");
+    expect(rows).toEqual([
+      { line: 1, date: "2026-03-01", description: "SWIGGY", amount: 450, type: "expense", note: "UPI/123/Dinner", externalId: "ofx:50100012341234:T1001" },
+      { line: 2, date: "2026-03-02", description: "ACME PAYROLL", amount: 85000, type: "income", externalId: "ofx:50100012341234:T1002" },
+    ]);
+    expect(errors).toEqual([{ line: 3, message: 'Unreadable date "garbage"' }]);
+  });
+
+  it("reads XML files with closing tags and payee aggregates", () => {
+    const xml = `<?xml version="1.0"?><?OFX OFXHEADER="200" VERSION="220"?>
+      <OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+        <CCACCTFROM><ACCTID>XXXX9876</ACCTID></CCACCTFROM>
+        <BANKTRANLIST><STMTTRN>
+          <TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260305</DTPOSTED><TRNAMT>-1299,50</TRNAMT>
+          <FITID>CC-77</FITID><PAYEE><NAME>Amazon &amp; Co</NAME></PAYEE>
+        </STMTTRN></BANKTRANLIST>
+      </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+    expect(detectStatementFormat("card.xml", xml)).toBe("ofx");
+    expect(parseOfx(xml).rows).toEqual([
+      { line: 1, date: "2026-03-05", description: "Amazon & Co", amount: 1299.5, type: "expense", externalId: "ofx:XXXX9876:CC-77" },
+    ]);
+  });
+});
+
+describe("QIF statements", () => {
+  const qif = [
+    "!Account",
+    "NHDFC Savings",
+    "TBank",
+    "^",
+    "!Type:Bank",
+    "D3/ 1'26",
+    "T-450.00",
+    "PSwiggy",
+    "MDinner",
+    "^",
+    "D3/ 1'26",
+    "T-450.00",
+    "PSwiggy",
+    "^",
+    "D03/02/2026",
+    "T85,000.00",
+    "PSalary",
+    "SIncome:Salary",
+    "$85,000.00",
+    "^",
+  ].join("\r\n");
+
+  it("reads records with payee, memo and a stable id per entry", () => {
+    const { rows, account } = parseQif(qif);
+    expect(detectStatementFormat("export.txt", qif)).toBe("qif");
+    expect(account).toBe("HDFC Savings");
+    expect(rows.map((r) => [r.date, r.description, r.type, r.amount, r.note])).toEqual([
+      ["2026-03-01", "Swiggy", "expense", 450, "Dinner"],
+      ["2026-03-01", "Swiggy", "expense", 450, undefined],
+      ["2026-03-02", "Salary", "income", 85000, undefined],
+    ]);
+    expect(new Set(rows.map((r) => r.externalId)).size).toBe(3);
+    expect(parseQif(qif).rows.map((r) => r.externalId)).toEqual(rows.map((r) => r.externalId));
+  });
+
+  it("reads day-first and older two-digit dates", () => {
+    expect(parseQifDate("25/12/2025", true)).toBe("2025-12-25");
+    expect(parseQifDate("12/31/99")).toBe("1999-12-31");
+    expect(parseQifDate("2026-03-05")).toBe("2026-03-05");
+  });
+});
+
+describe("import routes", () => {
+  const api = createApiClient(createMockTransport());
+
+  it("imports a batch through the categorization rules", async () => {
+    await api.rules.create({ name: "Swiggy", conditions: { titleContains: "swiggy" }, actions: { category: "Food & Dining" } });
+
+    const { imported } = await api.transactions.import([
+      { type: "expense", title: "UPI-SWIGGY-ORDER", amount: 450, date: "2026-03-01" },
+      { type: "expense", title: "ATM WDL", amount: 2000, date: "2026-03-01" },
+    ]);
+
+    expect(imported.map((t) => t.category)).toEqual(["Food & Dining", "Others"]);
+  });
+
+  it("skips entries whose bank id was already imported", async () => {
+    const rows = parseOfx([
+      "<OFX><STMTRS><BANKACCTFROM><ACCTID>111</BANKACCTFROM>",
+      "<STMTTRN><DTPOSTED>20260310<TRNAMT>-99<FITID>A1<NAME>Tea</STMTTRN>",
+      "<STMTTRN><DTPOSTED>20260311<TRNAMT>-49<FITID>A2<NAME>Snacks</STMTTRN>",
+      "</STMTRS></OFX>",
+    ].join("\n")).rows;
+
+    const first = await api.transactions.import(toTransactionInputs(rows.slice(0, 1), undefined));
+    const second = await api.transactions.import(toTransactionInputs(rows, undefined));
+
+    expect(first).toMatchObject({ skipped: 0 });
+    expect(second.skipped).toBe(1);
+    expect(second.imported.map((t) => [t.title, t.externalId])).toEqual([["Snacks", "ofx:111:A2"]]);
+  });
+
+  it("saves bank profiles and validates their mapping", async () => {
+    const profile = await api.bankProfiles.create({
+      name: "HDFC Savings",
+      headers: ["Date", "Narration", "Withdrawal", "Deposit"],
+      headerRow: 0,
+      mapping: { date: 0, description: 1, debit: 2, credit: 3 },
+      dateFormat: "DD/MM/YY",
+    });
+    expect((await api.bankProfiles.list()).map((p) => p.id)).toContain(profile.id);
+
+    await expect(
+      api.bankProfiles.create({ ...profile, name: "Broken", mapping: { date: 0, description: 1 } })
+    ).rejects.toBeInstanceOf(ApiError);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_CATEGORIES } from "@/lib/categories";
+import { accountSegment, categoryAccountName, toJournal } from "@/lib/export/journal";
+import { isJournal, parseJournal } from "@/lib/import/journal";
+import { detectStatementFormat, toTransactionInputs } from "@/lib/import/statement";
+import type { Category } from "@/types/Category";
+import type { ExportData, JournalFormat } from "@/types/Export";
+import type { Transaction } from "@/types/Transaction";
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: crypto.randomUUID(),
+  type: "expense",
+  title: "Swiggy",
+  amount: 450,
+  category: "Food & Dining",
+  date: "2026-03-01",
+  createdAt: "2026-03-01T10:00:00.000Z",
+  updatedAt: "2026-03-01T10:00:00.000Z",
+  ...overrides,
+});
+
+const catalog: Category[] = [
+  ...DEFAULT_CATEGORIES,
+  { id: "sub-1", name: "Groceries", type: "expense", emoji: "🛒", color: "warning", parentId: "default-01", archived: false, createdAt: "2026-01-01T00:00:00.000Z" },
+];
+
+const data: ExportData = {
+  transactions: [
+    tx({ title: "Swiggy", amount: 0.1 + 0.2, accountId: "hdfc", tags: ["trip", "goa"], note: "Dinner with \"Ravi\"" }),
+    tx({ title: "BigBasket; weekly", category: "Groceries", amount: 1200.5, date: "2026-03-10", accountId: "card" }),
+    tx({ title: "Salary", type: "income", category: "Salary", amount: 85000, date: "2026-03-31", accountId: "hdfc" }),
+    tx({ title: "Chai", amount: 20, date: "2026-03-31" }),
+  ],
+  budgets: [],
+  goals: [],
+  accounts: [
+    { id: "hdfc", name: "HDFC Savings", type: "bank", openingBalance: 10000, createdAt: "2026-03-05T00:00:00.000Z" },
+    { id: "card", name: "Amex Gold", type: "credit_card", openingBalance: 0, createdAt: "2026-01-01T00:00:00.000Z" },
+  ],
+};
+
+const journal = (journalFormat: JournalFormat) =>
+  toJournal(data, ["transactions", "accounts"], data.accounts, catalog, journalFormat);
+
+/**
+ * Sum of every posting amount in a written journal, per entry
+ */
+const entryTotals = (text: string): number[] =>
+  text
+    .split(/\n\n/)
+    .filter((block) => /^\d{4}-\d{2}-\d{2} \*/.test(block))
+    .map((block) =>
+      [...block.matchAll(/(-?\d+\.\d{2}) INR$/gm)].reduce((sum, m) => sum + Number(m[1]), 0)
+    );
+
+describe("journal names", () => {
+  it("writes categories and accounts as valid account components", () => {
+    expect(accountSegment("Food & Dining")).toBe("Food-And-Dining");
+    expect(accountSegment("mutual funds (SIP)")).toBe("Mutual-Funds-SIP");
+    expect(categoryAccountName(catalog, "Groceries", "expense")).toBe("Expenses:Food-And-Dining:Groceries");
+    expect(categoryAccountName(catalog, "Salary", "income")).toBe("Income:Salary");
+  });
+});
+
+describe("toJournal", () => {
+  it("writes balanced ledger entries with tags, notes and opening balances", () => {
+    const text = journal("ledger");
+    expect(text).toContain("account Liabilities:CreditCard:Amex-Gold");
+    expect(text).toMatch(/^2026-03-01 \* Opening balance\n {4}Assets:Bank:HDFC-Savings +10000\.00 INR\n {4}Equity:Opening-Balances +-10000\.00 INR$/m);
+    expect(text).toContain("2026-03-01 * Swiggy\n    ; trip:\n    ; goa:\n    ; note: Dinner with \"Ravi\"");
+    expect(text).toContain("2026-03-10 * BigBasket, weekly");
+    expect(text).toMatch(/Assets:Unassigned +-20\.00 INR/);
+    expect(entryTotals(text).every((total) => Math.abs(total) < 0.001)).toBe(true);
+    expect(entryTotals(text)).toHaveLength(5);
+  });
+
+  it("writes beancount with open directives and quoted payees", () => {
+    const text = journal("beancount");
+    expect(text).toContain('option "operating_currency" "INR"');
+    expect(text).toContain("2026-03-01 open Expenses:Food-And-Dining:Groceries INR");
+    expect(text).toContain('2026-03-01 * "Swiggy" "Dinner with \\"Ravi\\"" #trip #goa');
+    expect(text).toMatch(/^ {2}Expenses:Food-And-Dining +0\.30 INR$/m);
+    expect(entryTotals(text).every((total) => Math.abs(total) < 0.001)).toBe(true);
+  });
+
+  it("balances split lines that only add up before rounding", () => {
+    const split = tx({
+      amount: 10,
+      accountId: "hdfc",
+      splits: [{ category: "Groceries", amount: 3.333 }, { category: "Shopping", amount: 3.333 }, { category: "Transport", amount: 3.334 }],
+    });
+    const text = toJournal({ ...data, transactions: [split] }, ["transactions"], data.accounts, catalog, "ledger");
+    expect(entryTotals(text)).toHaveLength(1);
+    expect(entryTotals(text).every((total) => Math.abs(total) < 0.001)).toBe(true);
+    expect(text).toMatch(/Expenses:Transport +3\.34 INR/);
+  });
+});
+
+describe("parseJournal", () => {
+  // Ledger payees cannot hold ";", beancount quotes them
+  it.each<[JournalFormat, string]>([
+    ["ledger", "BigBasket, weekly"],
+    ["beancount", "BigBasket; weekly"],
+  ])("round-trips a %s export", (journalFormat, bigBasket) => {
+    const text = journal(journalFormat);
+    expect(isJournal(text)).toBe(true);
+    const { rows, errors } = parseJournal(text, catalog);
+    expect(errors).toEqual([]);
+    expect(rows.map(({ date, description, amount, type, category, tags, account }) => ({ date, description, amount, type, category, tags, account }))).toEqual([
+      { date: "2026-03-01", description: "Swiggy", amount: 0.3, type: "expense", category: "Food & Dining", tags: ["trip", "goa"], account: "HDFC Savings" },
+      { date: "2026-03-10", description: bigBasket, amount: 1200.5, type: "expense", category: "Groceries", tags: undefined, account: "Amex Gold" },
+      { date: "2026-03-31", description: "Salary", amount: 85000, type: "income", category: "Salary", tags: undefined, account: "HDFC Savings" },
+      { date: "2026-03-31", description: "Chai", amount: 20, type: "expense", category: "Food & Dining", tags: undefined, account: undefined },
+    ]);
+    expect(rows[0].note).toBe('Dinner with "Ravi"');
+  });
+
+  it("reads hand-written hledger entries with elided amounts, splits and ledger tags", () => {
+    const text = [
+      "; personal journal",
+      "2026/04/02 * (1042) DMart | monthly stock  ; :home:",
+      "    Expenses:Groceries          ₹1,500",
+      "    Expenses:Household            300.00 INR",
+      "    Assets:Cash",
+      "",
+      "2026-04-03 Transfer to savings",
+      "    Assets:Bank:Savings   5000 INR",
+      "    Assets:Cash",
+      "",
+      "2026-04-04 Refund",
+      "    Expenses:Shopping   -99 INR",
+      "    Assets:Cash         99 INR",
+      "",
+      "2026-04-05 Broken",
+      "    Expenses:Shopping   100 INR",
+      "    Assets:Cash         -90 INR",
+    ].join("\n");
+
+    expect(detectStatementFormat("personal.journal", text)).toBe("journal");
+    const { rows, errors } = parseJournal(text, catalog);
+    expect(rows.map((r) => [r.line, r.description, r.amount, r.type, r.category ?? null])).toEqual([
+      [3, "DMart", 1800, "expense", "Groceries"],
+      [8, "Transfer to savings", 5000, "transfer", null],
+      [12, "Refund", 99, "income", null],
+    ]);
+    expect(rows[0]).toMatchObject({
+      note: "monthly stock",
+      tags: ["home"],
+      account: "Cash",
+      splits: [{ category: "Groceries", amount: 1500 }, { category: "Household", amount: 300 }],
+    });
+    expect(rows[1]).toMatchObject({ account: "Cash", toAccount: "Savings" });
+    expect(errors).toEqual([{ line: 15, message: "Entry does not balance" }]);
+  });
+
+  it.each<JournalFormat>(["ledger", "beancount"])("reads a %s split entry back as one split transaction", (journalFormat) => {
+    const split = tx({
+      title: "DMart",
+      amount: 1800.5,
+      accountId: "hdfc",
+      splits: [{ category: "Groceries", amount: 1500.25 }, { category: "Shopping", amount: 300.25 }],
+    });
+    const text = toJournal({ ...data, transactions: [split] }, ["transactions"], data.accounts, catalog, journalFormat);
+    const { rows, errors } = parseJournal(text, catalog);
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ amount: 1800.5, type: "expense", category: "Groceries", splits: split.splits });
+
+    const [input] = toTransactionInputs(rows, undefined, data.accounts);
+    expect(input).toMatchObject({ amount: 1800.5, accountId: "hdfc", splits: split.splits });
+  });
+
+  it.each<JournalFormat>(["ledger", "beancount"])("reads a %s transfer back between the same accounts", (journalFormat) => {
+    const transfer = tx({ type: "transfer", title: "Card bill", category: "Transfer", amount: 5000, accountId: "hdfc", toAccountId: "card" });
+    const text = toJournal({ ...data, transactions: [transfer] }, ["transactions"], data.accounts, catalog, journalFormat);
+    const { rows, errors } = parseJournal(text, catalog);
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([expect.objectContaining({ type: "transfer", amount: 5000, account: "HDFC Savings", toAccount: "Amex Gold" })]);
+
+    const [input] = toTransactionInputs(rows, undefined, data.accounts);
+    expect(input).toMatchObject({ type: "transfer", amount: 5000, accountId: "hdfc", toAccountId: "card" });
+  });
+
+  it.each<JournalFormat>(["ledger", "beancount"])("reads each %s entry back in its own currency", (journalFormat) => {
+    const hotel = tx({ title: "Hotel", category: "Travel", amount: 100, currency: "USD", accountId: "card" });
+    const text = toJournal({ ...data, transactions: [hotel, data.transactions[2]] }, ["transactions"], data.accounts, catalog, journalFormat);
+    const { rows, errors } = parseJournal(text, catalog);
+    expect(errors).toEqual([]);
+    expect(rows.map(({ description, amount, currency }) => ({ description, amount, currency }))).toEqual([
+      { description: "Hotel", amount: 100, currency: "USD" },
+      { description: "Salary", amount: 85000, currency: "INR" },
+    ]);
+    expect(toTransactionInputs(rows, undefined, data.accounts)[0]).toMatchObject({ amount: 100, currency: "USD" });
+  });
+
+  it("gives re-imported entries the same ids and passes categories and tags through", () => {
+    const text = journal("ledger");
+    const first = parseJournal(text, catalog).rows;
+    expect(parseJournal(text, catalog).rows.map((r) => r.externalId)).toEqual(first.map((r) => r.externalId));
+
+    const inputs = toTransactionInputs(first, undefined, data.accounts);
+    expect(inputs[0]).toMatchObject({ category: "Food & Dining", tags: ["trip", "goa"], accountId: "hdfc" });
+    expect(inputs[1].accountId).toBe("card");
+    expect(inputs[3].accountId).toBeUndefined();
+  });
+});
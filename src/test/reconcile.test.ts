@@ -0,0 +1,72 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { createApiClient } from "@/api/client";
+import { createMemoryStore } from "@/api/backend/store";
+import { createMockTransport } from "@/api/mockBackend";
+import { clearedBalance, reconcileCandidates, suggestGapFixes } from "@/lib/reconcile";
+import { entry, hdfc } from "@/test/fixtures";
+
+const ledger = [
+  entry("salary", { type: "income", amount: 50000, date: "2026-02-28", accountId: "a1", reconciledAt: "2026-03-01T09:00:00Z" }),
+  entry("rent", { amount: 18000, date: "2026-03-02", accountId: "a1" }),
+  entry("Swiggy order", { amount: 450, date: "2026-03-06", accountId: "a1" }),
+  entry("SWIGGY ORDER", { amount: 450, date: "2026-03-07", accountId: "a1" }),
+  entry("Cab", { amount: 300, date: "2026-03-20", accountId: "a1" }),
+  entry("Tea", { amount: 20, date: "2026-03-07" }),
+];
+
+describe("reconciliation helpers", () => {
+  it("offers this account's unreconciled entries up to the statement date", () => {
+    expect(reconcileCandidates(hdfc, ledger, "2026-03-10").map((t) => t.id)).toEqual([
+      "rent", "Swiggy order", "SWIGGY ORDER",
+    ]);
+    expect(clearedBalance(hdfc, ledger, new Set())).toBe(60000);
+    expect(clearedBalance(hdfc, ledger, new Set(["rent", "Swiggy order"]))).toBe(41550);
+  });
+
+  it("suggests unticked entries, duplicates and the missing amount for a gap", () => {
+    const candidates = reconcileCandidates(hdfc, ledger, "2026-03-10");
+    const ticked = new Set(["Swiggy order", "SWIGGY ORDER"]);
+    // Statement shows rent and one Swiggy order: 60000 - 18000 - 450
+    const gap = 41550 - clearedBalance(hdfc, ledger, ticked);
+    const suggestions = suggestGapFixes(hdfc, candidates, ticked, gap);
+
+    expect(suggestions.map((s) => s.kind)).toEqual(["duplicate", "missing"]);
+    expect(suggestions[0]).toMatchObject({ transaction: { id: "SWIGGY ORDER" }, of: { id: "Swiggy order" }, closesGap: false });
+    expect(suggestions[1]).toEqual({ kind: "missing", direction: "debit", amount: 17550 });
+
+    const withoutRent = suggestGapFixes(hdfc, candidates, new Set(["Swiggy order"]), -18000);
+    expect(withoutRent[0]).toMatchObject({ kind: "unticked", transaction: { id: "rent" } });
+    expect(suggestGapFixes(hdfc, candidates, ticked, 0)).toEqual([]);
+  });
+});
+
+describe("reconcile routes", () => {
+  const clientFor = () => createApiClient(createMockTransport(createMemoryStore({ accounts: [hdfc], transactions: ledger })));
+  const statement = { statementDate: "2026-03-10", statementBalance: 41550, transactionIds: ["rent", "Swiggy order"] };
+
+  it("locks the cleared entries only when they match the statement", async () => {
+    const api = clientFor();
+    await expect(
+      api.accounts.reconcile("a1", { ...statement, statementBalance: 41000 })
+    ).rejects.toMatchObject({ status: 409 });
+    await expect(
+      api.accounts.reconcile("a1", { ...statement, transactionIds: ["rent", "Cab"] })
+    ).rejects.toMatchObject({ status: 400 });
+
+    const result = await api.accounts.reconcile("a1", statement);
+    expect(result.reconciled).toBe(2);
+    expect(result.account.lastReconciliation).toMatchObject({ statementDate: "2026-03-10", statementBalance: 41550 });
+    expect((await api.transactions.get("rent")).reconciledAt).toBeDefined();
+  });
+
+  it("refuses edits and deletion of reconciled entries until unlocked", async () => {
+    const api = clientFor();
+    await expect(api.transactions.update("salary", { amount: 1 })).rejects.toMatchObject({ status: 409 });
+    await expect(api.transactions.remove("salary")).rejects.toMatchObject({ status: 409 });
+    await expect(api.duplicates.resolve({ originalId: "salary", duplicateId: "rent", action: "merge" })).rejects.toMatchObject({ status: 409 });
+
+    await api.transactions.unlock("salary");
+    expect((await api.transactions.update("salary", { amount: 51000 })).amount).toBe(51000);
+  });
+});
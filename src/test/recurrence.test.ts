@@ -0,0 +1,115 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import { createApiClient } from "@/api/client";
+import { createMemoryStore } from "@/api/backend/store";
+import { createMockTransport } from "@/api/mockBackend";
+import {
+  DEFAULT_SCHEDULE,
+  describeSchedule,
+  lastWorkingDay,
+  nextOccurrence,
+  occurrencesBetween,
+  toSchedule,
+  upcomingOccurrences,
+} from "@/lib/recurrence";
+import type { RecurringTransaction } from "@/types/Recurring";
+
+const rent: RecurringTransaction = {
+  id: "r1", type: "expense", title: "Rent", amount: 18000, category: "Housing",
+  schedule: { frequency: "monthly", interval: 1, startDate: "2026-01-05" },
+  paused: false, createdAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z",
+};
+
+describe("recurrence schedules", () => {
+  it("keeps month-end dates, clamping in shorter months", () => {
+    const schedule = { frequency: "monthly" as const, interval: 1, startDate: "2026-01-31" };
+    expect(occurrencesBetween(schedule, undefined, "2026-04-30")).toEqual([
+      "2026-01-31", "2026-02-28", "2026-03-31", "2026-04-30",
+    ]);
+  });
+
+  it("finds the last working day of the month", () => {
+    // 31 May 2026 is a Sunday, 31 Oct 2026 a Saturday
+    expect(format(lastWorkingDay(new Date(2026, 4, 10)), "yyyy-MM-dd")).toBe("2026-05-29");
+    expect(format(lastWorkingDay(new Date(2026, 9, 1)), "yyyy-MM-dd")).toBe("2026-10-30");
+    const salary = { frequency: "monthly" as const, interval: 1, startDate: "2026-05-01", lastWorkingDay: true };
+    expect(occurrencesBetween(salary, undefined, "2026-07-31")).toEqual(["2026-05-29", "2026-06-30", "2026-07-31"]);
+  });
+
+  it("honours the interval and the end date", () => {
+    const fortnightly = { frequency: "weekly" as const, interval: 2, startDate: "2026-03-02", endDate: "2026-04-01" };
+    expect(occurrencesBetween(fortnightly, undefined, "2026-12-31")).toEqual(["2026-03-02", "2026-03-16", "2026-03-30"]);
+    expect(nextOccurrence(fortnightly, "2026-03-16")).toBe("2026-03-30");
+    expect(nextOccurrence(fortnightly, "2026-03-30")).toBeUndefined();
+  });
+
+  it("forecasts upcoming occurrences in date order, skipping paused templates", () => {
+    const sip: RecurringTransaction = {
+      ...rent, id: "r2", title: "SIP", amount: 5000, category: "Investments",
+      schedule: { frequency: "monthly", interval: 1, startDate: "2026-01-10" },
+    };
+    const paused = { ...rent, id: "r3", title: "Gym", paused: true };
+    const upcoming = upcomingOccurrences([sip, rent, paused], "2026-02-01", "2026-03-06");
+    expect(upcoming.map((o) => `${o.title} ${o.date}`)).toEqual([
+      "Rent 2026-02-05", "SIP 2026-02-10", "Rent 2026-03-05",
+    ]);
+  });
+
+  it("describes schedules in plain language", () => {
+    expect(describeSchedule(rent.schedule)).toBe("Every month on the 5th");
+    expect(describeSchedule({ frequency: "weekly", interval: 2, startDate: "2026-03-02", endDate: "2026-06-30" }))
+      .toBe("Every 2 weeks on Monday, until 30 Jun 2026");
+    expect(describeSchedule({ frequency: "monthly", interval: 1, startDate: "2026-05-01", lastWorkingDay: true }))
+      .toBe("Every month on the last working day");
+  });
+});
+
+describe("schedule form drafts", () => {
+  it("builds a schedule only from a whole interval and an end after the start", () => {
+    expect(toSchedule({ ...DEFAULT_SCHEDULE, lastWorkingDay: true }, "2026-05-01")).toEqual({
+      frequency: "monthly", interval: 1, startDate: "2026-05-01", endDate: undefined, lastWorkingDay: true,
+    });
+    expect(toSchedule({ ...DEFAULT_SCHEDULE, frequency: "weekly", lastWorkingDay: true }, "2026-05-01"))
+      .toMatchObject({ lastWorkingDay: false });
+    expect(toSchedule({ ...DEFAULT_SCHEDULE, interval: "1.5" }, "2026-05-01")).toBeNull();
+    expect(toSchedule({ ...DEFAULT_SCHEDULE, endDate: "2026-04-30" }, "2026-05-01")).toBeNull();
+  });
+});
+
+describe("recurring routes", () => {
+  it("catches up on missed periods once", async () => {
+    const api = createApiClient(createMockTransport(createMemoryStore({ recurring: [rent] })));
+    const { posted } = await api.recurring.postDue("2026-03-20");
+    expect(posted.map((t) => t.date)).toEqual(["2026-01-05", "2026-02-05", "2026-03-05"]);
+    expect(posted[0]).toMatchObject({ title: "Rent", category: "Housing", externalId: "recurring:r1:2026-01-05" });
+
+    expect((await api.recurring.postDue("2026-03-20")).posted).toEqual([]);
+    expect(await api.recurring.get("r1")).toMatchObject({ lastPostedDate: "2026-03-05" });
+    expect(await api.transactions.list()).toHaveLength(3);
+  });
+
+  it("skips the periods a template was paused for", async () => {
+    const today = format(new Date(), "yyyy-MM-dd");
+    const daily: RecurringTransaction = {
+      ...rent, paused: true, lastPostedDate: "2026-01-05",
+      schedule: { frequency: "daily", interval: 1, startDate: "2026-01-05" },
+    };
+    const api = createApiClient(createMockTransport(createMemoryStore({ recurring: [daily] })));
+    expect((await api.recurring.postDue(today)).posted).toEqual([]);
+
+    await api.recurring.update("r1", { paused: false });
+    const { posted } = await api.recurring.postDue(today);
+    expect(posted.map((t) => t.date)).toEqual([today]);
+  });
+
+  it("rejects an end date before the start", async () => {
+    const api = createApiClient(createMockTransport(createMemoryStore()));
+    await expect(
+      api.recurring.create({
+        type: "expense", title: "Rent", amount: 18000, category: "Housing",
+        schedule: { frequency: "monthly", interval: 1, startDate: "2026-05-01", endDate: "2026-04-01" },
+      })
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
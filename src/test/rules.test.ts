@@ -0,0 +1,76 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { ApiError, createApiClient } from "@/api/client";
+import { createMockTransport } from "@/api/mockBackend";
+import { applyRules, matchesRule } from "@/lib/rules";
+import type { Rule } from "@/types/Rule";
+
+const rule = (overrides: Partial<Rule>): Rule => ({
+  id: crypto.randomUUID(),
+  name: "Rule",
+  conditions: {},
+  actions: {},
+  priority: 0,
+  enabled: true,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const entry = { type: "expense" as const, title: "Swiggy order #123", amount: 450, date: "2026-03-01" };
+
+describe("matchesRule", () => {
+  it("requires every condition that is set", () => {
+    const swiggy = rule({ conditions: { titleContains: "SWIGGY", minAmount: 100, maxAmount: 500 } });
+    expect(matchesRule(swiggy, entry)).toBe(true);
+    expect(matchesRule(swiggy, { ...entry, amount: 900 })).toBe(false);
+    expect(matchesRule(rule({ conditions: { titleContains: "swiggy", type: "income" } }), entry)).toBe(false);
+    expect(matchesRule(rule({ conditions: { accountId: "a1" } }), { ...entry, accountId: "a1" })).toBe(true);
+  });
+});
+
+describe("applyRules", () => {
+  it("lets the first matching rule pick the category and collects tags", () => {
+    const rules = [
+      rule({ priority: 2, conditions: { titleContains: "order" }, actions: { category: "Shopping", tags: ["online"] } }),
+      rule({ priority: 1, conditions: { titleContains: "swiggy" }, actions: { category: "Food & Dining", note: "Delivery" } }),
+      rule({ priority: 0, enabled: false, conditions: { titleContains: "swiggy" }, actions: { category: "Others" } }),
+    ];
+
+    expect(applyRules(rules, entry)).toMatchObject({
+      category: "Food & Dining",
+      note: "Delivery",
+      tags: ["online"],
+    });
+    expect(applyRules(rules, { ...entry, category: "Entertainment" }).category).toBe("Entertainment");
+  });
+});
+
+describe("rule routes", () => {
+  const api = createApiClient(createMockTransport());
+
+  it("categorizes new transactions created without a category", async () => {
+    await api.rules.create({
+      name: "Uber",
+      conditions: { titleContains: "uber" },
+      actions: { category: "Transport", tags: ["cab"] },
+    });
+
+    const ride = await api.transactions.create({ type: "expense", title: "Uber to office", amount: 240, date: "2026-03-02" });
+    const other = await api.transactions.create({ type: "expense", title: "Misc", amount: 10, date: "2026-03-02" });
+
+    expect(ride).toMatchObject({ category: "Transport", tags: ["cab"] });
+    expect(other.category).toBe("Others");
+  });
+
+  it("reorders rules and rejects rules without conditions", async () => {
+    const second = await api.rules.create({ name: "Rent", conditions: { minAmount: 10000 }, actions: { category: "Housing" } });
+    const ids = (await api.rules.list()).map((r) => r.id);
+
+    const reordered = await api.rules.reorder([second.id, ...ids.filter((id) => id !== second.id)]);
+    expect(reordered[0]).toMatchObject({ id: second.id, priority: 0 });
+
+    const error = await api.rules.create({ name: "Empty", conditions: {}, actions: { category: "Others" } }).catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 400, code: "validation_error" });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { describeFilter, parseSearch, removeToken, searchTransactions } from "@/lib/search";
+import type { Transaction } from "@/types/Transaction";
+
+const tx = (id: string, changes: Partial<Transaction>): Transaction => ({
+  id, type: "expense", title: id, amount: 100, category: "Others", date: "2026-01-15",
+  createdAt: "", updatedAt: "", ...changes,
+});
+
+const ledger = [
+  tx("Dinner in Goa", { category: "Food & Dining", amount: 2400, date: "2026-02-03", tags: ["trip"] }),
+  tx("Cab to airport", { category: "Transport", amount: 800, date: "2026-02-01", tags: ["trip"] }),
+  tx("Groceries", { category: "Food & Dining", amount: 1500, date: "2025-12-28", note: "weekly veggies" }),
+  tx("Salary", { type: "income", category: "Salary", amount: 90000, date: "2026-01-31" }),
+];
+
+const titles = (query: string) => searchTransactions(ledger, query).map((t) => t.id);
+
+describe("parseSearch", () => {
+  it("separates free text, filters and unreadable tokens", () => {
+    const parsed = parseSearch('veggies category:food amount>=1,000 type:refund tag:"Road Trip"');
+
+    expect(parsed.text).toEqual(["veggies"]);
+    expect(parsed.filters).toEqual([
+      { kind: "category", value: "Food & Dining", exact: true, raw: "category:food" },
+      { kind: "amount", operator: ">=", value: 1000, raw: "amount>=1,000" },
+      { kind: "tag", value: "road trip", raw: 'tag:"Road Trip"' },
+    ]);
+    expect(parsed.invalid).toEqual(["type:refund"]);
+  });
+
+  it("rejects dates that do not exist", () => {
+    const parsed = parseSearch("after:2026-13 before:2026-02-30 after:2024-02-29");
+
+    expect(parsed.invalid).toEqual(["after:2026-13", "before:2026-02-30"]);
+    expect(parsed.filters.map(describeFilter)).toEqual(["From 29 Feb 2024"]);
+  });
+});
+
+describe("searchTransactions", () => {
+  it("matches free text against title and note", () => {
+    expect(titles("goa")).toEqual(["Dinner in Goa"]);
+    expect(titles("VEGGIES")).toEqual(["Groceries"]);
+  });
+
+  it("combines different fields and ORs repeated categories", () => {
+    expect(titles("category:Food amount>1000 type:expense after:2026-01-01 tag:trip")).toEqual(["Dinner in Goa"]);
+    expect(titles("category:food category:transport")).toEqual(["Dinner in Goa", "Cab to airport", "Groceries"]);
+    expect(titles("amount>1000 amount<3000")).toEqual(["Dinner in Goa", "Groceries"]);
+  });
+
+  it("treats after: as inclusive and before: as exclusive", () => {
+    expect(titles("after:2026-02-01")).toEqual(["Dinner in Goa", "Cab to airport"]);
+    expect(titles("before:2026-02")).toEqual(["Groceries", "Salary"]);
+  });
+
+  it("compares amounts in the base currency and returns the stored records", () => {
+    const hotel = tx("Hotel", { amount: 20, currency: "USD", date: "2026-02-02" });
+    const rates = [{ id: "r1", from: "USD", to: "INR", rate: 83, date: "2026-01-01", createdAt: "" }];
+    const found = searchTransactions([...ledger, hotel], "amount>1000 amount<2000", undefined, { base: "INR", rates });
+
+    expect(found.map((t) => t.id)).toEqual(["Groceries", "Hotel"]);
+    expect(found[1]).toBe(hotel);
+  });
+});
+
+describe("removeToken", () => {
+  it("drops a single filter from the query", () => {
+    expect(removeToken('tea category:"Food & Dining" tag:trip', 'category:"Food & Dining"')).toBe("tea tag:trip");
+  });
+});
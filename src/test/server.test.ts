@@ -0,0 +1,69 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createMemoryStore } from "@/api/backend/store";
+import { ApiError, createApiClient, createHttpTransport } from "@/api/client";
+import { createApiServer } from "../../server/app";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createApiServer(createMemoryStore());
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe("REST server", () => {
+  it("serves the API client end to end", async () => {
+    const api = createApiClient(createHttpTransport(baseUrl));
+    const account = await api.accounts.create({ name: "Wallet", type: "cash", openingBalance: 1000 });
+    await api.transactions.create({
+      type: "expense", title: "Chai", amount: 40, category: "Food & Dining",
+      date: new Date().toISOString().slice(0, 10), accountId: account.id,
+    });
+
+    expect(await api.accounts.list()).toEqual([account]);
+    expect(await api.summary.get()).toMatchObject({ balance: 960, expenses: 40 });
+  });
+
+  it("rejects invalid bodies with field details", async () => {
+    const api = createApiClient(createHttpTransport(baseUrl));
+    const error = await api.budgets.create({ category: "", limit: -5 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 400, code: "validation_error" });
+    expect(error.details.map((d) => d.path)).toEqual(["category", "limit"]);
+  });
+
+  it("reports malformed JSON and unknown routes", async () => {
+    const malformed = await fetch(`${baseUrl}/goals`, { method: "POST", body: "{oops" });
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toEqual({ error: { code: "bad_request", message: "Request body is not valid JSON" } });
+
+    const missing = await fetch(`${baseUrl}/nope`);
+    expect(missing.status).toBe(404);
+
+    const undecodable = await fetch(`${baseUrl}/transactions/%E0%A4%A`);
+    expect(undecodable.status).toBe(400);
+    expect(await undecodable.json()).toMatchObject({ error: { code: "bad_request" } });
+  });
+
+  it("rejects oversized bodies with 413", async () => {
+    const body = JSON.stringify({ padding: "x".repeat(2 * 1024 * 1024) });
+    const goals = await fetch(`${baseUrl}/goals`, { method: "POST", body });
+    expect(goals.status).toBe(413);
+    expect(await goals.json()).toMatchObject({ error: { code: "payload_too_large" } });
+  });
+
+  it("allows larger bodies where a whole ledger is sent", async () => {
+    const body = JSON.stringify({ transactions: [], padding: "x".repeat(2 * 1024 * 1024) });
+    const imported = await fetch(`${baseUrl}/transactions/import`, { method: "POST", body });
+    expect(imported.status).not.toBe(413);
+
+    const restored = await fetch(`${baseUrl}/backup/restore`, { method: "POST", body });
+    expect(restored.status).not.toBe(413);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { parseSms, parseSmsDate, parseSmsMessages, splitMessages } from "@/lib/import/sms";
+
+describe("parseSms", () => {
+  it("reads UPI debits with a VPA or a UPI narration path", () => {
+    expect(parseSms("Rs.350.00 debited from A/c XX1234 on 12-01-26 to VPA uber@axis UPI Ref 402112345678")).toEqual({
+      amount: 350,
+      type: "expense",
+      accountSuffix: "1234",
+      counterparty: "uber@axis",
+      reference: "402112345678",
+      date: "2026-01-12",
+    });
+    expect(parseSms("INR 1,200.00 debited from A/c no. XX4321 on 05-02-26. Info: UPI/P2A/402211112222/RAMESH KUMAR. Axis Bank")).toMatchObject({
+      amount: 1200,
+      counterparty: "RAMESH KUMAR",
+      reference: "402211112222",
+      bank: "Axis",
+    });
+  });
+
+  it("handles SBI's bare amounts and compact dates", () => {
+    expect(parseSms("Dear UPI user A/C X9876 debited by 500.0 on date 12Jan26 trf to ZOMATO Refno 401234567890. If not u? call 1800111109. -SBI")).toMatchObject({
+      amount: 500,
+      type: "expense",
+      accountSuffix: "9876",
+      counterparty: "ZOMATO",
+      reference: "401234567890",
+      date: "2026-01-12",
+      bank: "SBI",
+    });
+  });
+
+  it("reads credits and card spends without mistaking the limit for the amount", () => {
+    expect(parseSms("ICICI Bank Acct XX555 credited with Rs 25,000.00 on 01-Feb-26 from ACME PAYROLL. UPI:403312345678")).toMatchObject({
+      amount: 25000,
+      type: "income",
+      counterparty: "ACME PAYROLL",
+      date: "2026-02-01",
+    });
+    expect(parseSms("INR 2,499.00 spent using ICICI Bank Credit Card XX7788 on 03-Mar-26 at AMAZON PAY INDIA. Avl Limit: INR 1,20,000.00")).toMatchObject({
+      amount: 2499,
+      type: "expense",
+      accountSuffix: "7788",
+      counterparty: "AMAZON PAY INDIA",
+    });
+  });
+
+  it("ignores OTPs and messages without an amount and direction", () => {
+    expect(parseSms("123456 is your OTP for a transaction of Rs 999.00 at FLIPKART. Do not share.")).toBeNull();
+    expect(parseSms("Get 10% cashback on your next recharge!")).toBeNull();
+  });
+});
+
+describe("parseSmsDate", () => {
+  it("reads every date layout alerts use", () => {
+    expect(parseSmsDate("on 12/01/2026 at")).toBe("2026-01-12");
+    expect(parseSmsDate("on 2026-01-12")).toBe("2026-01-12");
+    expect(parseSmsDate("no date here")).toBeUndefined();
+  });
+});
+
+describe("parseSmsMessages", () => {
+  const pasted = [
+    "Rs.350.00 debited from A/c XX1234 on 12-01-26 to VPA uber@axis UPI Ref 402112345678",
+    "",
+    "Paid Rs.250 to Ramesh Kumar via PhonePe",
+    "",
+    "Your OTP is 4455 for Rs 10.00",
+  ].join("\n");
+
+  it("turns alerts into preview rows and lists the rest", () => {
+    const parsed = parseSmsMessages(pasted, "2026-01-15");
+    expect(parsed.account).toBe("1234");
+    expect(parsed.rows).toEqual([
+      { line: 1, date: "2026-01-12", description: "uber@axis", amount: 350, type: "expense", note: "Ref 402112345678", externalId: "sms:402112345678" },
+      { line: 2, date: "2026-01-15", description: "Ramesh Kumar", amount: 250, type: "expense" },
+    ]);
+    expect(parsed.errors).toHaveLength(1);
+    expect(parsed.errors[0].line).toBe(3);
+  });
+
+  it("splits at line breaks when every line is an alert", () => {
+    expect(splitMessages("Paid Rs.250 to Ramesh via PhonePe\nRs 80 debited from A/c XX1234 at CHAI POINT")).toHaveLength(2);
+    expect(splitMessages("Rs.350.00 debited from A/c XX1234\non 12-01-26 to VPA uber@axis")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { createApiClient } from "@/api/client";
+import { createMemoryStore } from "@/api/backend/store";
+import { createMockTransport } from "@/api/mockBackend";
+import { buildCategoryBreakdown } from "@/lib/analytics";
+import { withSpending } from "@/lib/budgets";
+import { generateInsights } from "@/lib/insights";
+import { expandSplits, splitsBalance, toSplits } from "@/lib/splits";
+import type { Category } from "@/types/Category";
+import type { Transaction } from "@/types/Transaction";
+
+const bill: Transaction = {
+  id: "t1", type: "expense", title: "DMart", amount: 1500, category: "Groceries", date: "2026-03-05",
+  splits: [
+    { category: "Groceries", amount: 900 },
+    { category: "Household", amount: 350, note: "Detergent" },
+    { category: "Gifts", amount: 250, note: "Birthday gift" },
+  ],
+  createdAt: "2026-03-05T10:00:00Z", updatedAt: "2026-03-05T10:00:00Z",
+};
+
+const tea: Transaction = {
+  id: "t2", type: "expense", title: "Tea", amount: 20, category: "Groceries", date: "2026-03-06",
+  createdAt: "2026-03-06T08:00:00Z", updatedAt: "2026-03-06T08:00:00Z",
+};
+
+describe("split helpers", () => {
+  it("counts each line under its own category", () => {
+    expect(expandSplits([bill, tea]).map((t) => [t.category, t.amount, t.note])).toEqual([
+      ["Groceries", 900, undefined],
+      ["Household", 350, "Detergent"],
+      ["Gifts", 250, "Birthday gift"],
+      ["Groceries", 20, undefined],
+    ]);
+    expect(buildCategoryBreakdown(expandSplits([bill, tea])).map((c) => [c.name, c.amount])).toEqual([
+      ["Groceries", 920], ["Household", 350], ["Gifts", 250],
+    ]);
+  });
+
+  it("charges budgets with the matching lines only", () => {
+    const budgets = [
+      { id: "b1", category: "Groceries", limit: 5000 },
+      { id: "b2", category: "Household", limit: 1000 },
+    ];
+    const spent = withSpending(budgets, [bill, tea], [], new Date(2026, 2, 15)).map((b) => b.spent);
+    expect(spent).toEqual([920, 350]);
+  });
+
+  it("points the unbudgeted tip at the lines' top-level categories", () => {
+    const category = (id: string, name: string, parentId?: string): Category => ({
+      id, name, type: "expense", emoji: "📦", color: "muted", parentId, archived: false, createdAt: "2026-01-01T00:00:00Z",
+    });
+    const catalog = [category("c1", "Groceries"), category("c2", "Home"), category("c3", "Household", "c2"), category("c4", "Gifts", "c2")];
+    const budgets = [{ id: "b1", category: "groceries", spent: 920, limit: 5000 }];
+
+    const [tip] = generateInsights([bill, tea], budgets, catalog, new Date(2026, 2, 15), "INR");
+    expect(tip).toMatchObject({ id: "tip-budget-Home", type: "tip" });
+  });
+
+  it("builds lines from form drafts and checks them against the total", () => {
+    expect(toSplits([{ category: "Groceries", amount: "900", note: "" }])).toBeNull();
+    expect(toSplits([
+      { category: "Groceries", amount: "900", note: "" },
+      { category: "", amount: "600", note: "" },
+    ])).toBeNull();
+    const lines = toSplits([
+      { category: "Groceries", amount: "0.1", note: " veg " },
+      { category: "Household", amount: "0.2", note: "" },
+    ]);
+    expect(lines).toEqual([
+      { category: "Groceries", amount: 0.1, note: "veg" },
+      { category: "Household", amount: 0.2, note: undefined },
+    ]);
+    expect(splitsBalance(lines, 0.3)).toBe(true);
+    expect(splitsBalance(lines, 0.31)).toBe(false);
+  });
+});
+
+describe("split transaction routes", () => {
+  const clientFor = () => createApiClient(createMockTransport(createMemoryStore()));
+  const { id: _id, createdAt: _c, updatedAt: _u, ...input } = bill;
+
+  it("files a split under its first line and rejects lines that do not add up", async () => {
+    const api = clientFor();
+    const created = await api.transactions.create({ ...input, category: undefined });
+    expect(created).toMatchObject({ category: "Groceries", splits: bill.splits });
+
+    await expect(api.transactions.create({ ...input, amount: 1600 })).rejects.toMatchObject({ status: 400 });
+    await expect(api.transactions.update(created.id, { amount: 1400 })).rejects.toMatchObject({ status: 400 });
+    await expect(
+      api.transactions.create({ ...input, splits: [{ category: "Groceries", amount: 1500 }] })
+    ).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("removes the split when the lines are cleared", async () => {
+    const api = clientFor();
+    const created = await api.transactions.create(input);
+    const updated = await api.transactions.update(created.id, { splits: [], category: "Household" });
+    expect(updated.splits).toBeUndefined();
+    expect(updated.category).toBe("Household");
+  });
+
+  it("renames split lines with their category", async () => {
+    const api = clientFor();
+    const household = await api.categories.create({ name: "Household", type: "expense", emoji: "🧺", color: "teal" });
+    const created = await api.transactions.create(input);
+    await api.categories.update(household.id, { name: "Home Supplies" });
+    const renamed = await api.transactions.get(created.id);
+    expect(renamed.splits.map((line) => line.category)).toEqual(["Groceries", "Home Supplies", "Gifts"]);
+  });
+});
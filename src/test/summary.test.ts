@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { computeSummary, percentChange } from "@/lib/summary";
+import type { Transaction } from "@/types/Transaction";
+
+const tx = (type: Transaction["type"], amount: number, date: string): Transaction => ({
+  id: `${type}-${amount}-${date}`, type, title: type, amount, category: "General", date,
+  createdAt: "", updatedAt: "",
+});
+
+const ledger = [
+  tx("income", 50000, "2026-02-01"),
+  tx("expense", 20000, "2026-02-10"),
+  tx("income", 60000, "2026-03-01"),
+  tx("expense", 30000, "2026-03-09"),  // Monday
+  tx("expense", 6000, "2026-03-12"),
+];
+
+describe("computeSummary", () => {
+  const now = new Date(2026, 2, 12);
+
+  it("totals the current month and compares it with the previous one", () => {
+    const summary = computeSummary(ledger, [], "month", now);
+
+    expect(summary).toMatchObject({
+      periodStart: "2026-03-01",
+      periodEnd: "2026-03-31",
+      balance: 54000,
+      income: 60000,
+      expenses: 36000,
+      savingsRate: 40,
+      previous: { income: 50000, expenses: 20000, savingsRate: 60 },
+      change: { income: 20, expenses: 80, savingsRate: -20 },
+    });
+  });
+
+  it("uses Monday-based weeks and includes opening balances", () => {
+    const accounts = [{ id: "a", name: "Cash", type: "cash" as const, openingBalance: 1000, createdAt: "" }];
+    const summary = computeSummary(ledger, accounts, "week", now);
+
+    expect(summary).toMatchObject({
+      periodStart: "2026-03-09",
+      periodEnd: "2026-03-15",
+      balance: 55000,
+      income: 0,
+      expenses: 36000,
+      change: { income: 0, expenses: null },
+    });
+  });
+});
+
+describe("percentChange", () => {
+  it("returns null without a baseline", () => {
+    expect(percentChange(10, 0)).toBeNull();
+    expect(percentChange(0, 0)).toBe(0);
+    expect(percentChange(75, 100)).toBe(-25);
+  });
+});
@@ -0,0 +1,78 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { createApiClient } from "@/api/client";
+import { createMemoryStore } from "@/api/backend/store";
+import { createMockTransport } from "@/api/mockBackend";
+import { accountBalances, runningBalances } from "@/lib/accounts";
+import { buildCategoryBreakdown, sumTotals } from "@/lib/analytics";
+import { toJournal } from "@/lib/export/journal";
+import { computeSummary } from "@/lib/summary";
+import { card, entry, hdfc } from "@/test/fixtures";
+
+const ledger = [
+  entry("salary", { type: "income", amount: 50000, accountId: "a1", date: "2026-03-01" }),
+  entry("dinner", { amount: 1500, accountId: "a2", category: "Food & Dining" }),
+  entry("card bill", { type: "transfer", amount: 3500, accountId: "a1", toAccountId: "a2", category: "Transfer", date: "2026-03-10" }),
+];
+
+describe("transfers", () => {
+  it("debits the source account and credits the destination", () => {
+    expect(accountBalances([hdfc, card], ledger)).toEqual({
+      accounts: [
+        { accountId: "a1", name: "HDFC Savings", type: "bank", currency: "INR", balance: 56500, baseBalance: 56500 },
+        { accountId: "a2", name: "Amex", type: "credit_card", currency: "INR", balance: 0, baseBalance: 0 },
+      ],
+      unassigned: 0,
+    });
+    expect(runningBalances(card, ledger).map(({ transaction, change, balance }) => [transaction.id, change, balance])).toEqual([
+      ["card bill", 3500, 0],
+      ["dinner", -1500, -3500],
+    ]);
+  });
+
+  it("is left out of income, spending and the savings rate", () => {
+    expect(sumTotals(ledger)).toEqual({ income: 50000, expense: 1500 });
+    expect(buildCategoryBreakdown(ledger).map((c) => c.name)).toEqual(["Food & Dining"]);
+    const summary = computeSummary(ledger, [hdfc, card], "month", new Date(2026, 2, 15));
+    expect(summary).toMatchObject({ income: 50000, expenses: 1500, balance: 56500 });
+  });
+
+  it("posts between the two money accounts in a journal", () => {
+    const data = { transactions: [ledger[2]], budgets: [], goals: [], accounts: [] };
+    const journal = toJournal(data, ["transactions"], [hdfc, card], [], "ledger");
+    expect(journal).toContain("Liabilities:CreditCard:Amex");
+    expect(journal).toContain("Assets:Bank:HDFC-Savings");
+    expect(journal).not.toMatch(/Expenses|Income/);
+  });
+});
+
+describe("transfer routes", () => {
+  const clientFor = () => createApiClient(createMockTransport(createMemoryStore({ accounts: [hdfc, card] })));
+  const input = { type: "transfer" as const, title: "Card bill", amount: 3500, date: "2026-03-10", accountId: "a1", toAccountId: "a2" };
+
+  it("files a transfer under its own category and ignores rules", async () => {
+    const api = clientFor();
+    await api.rules.create({ name: "Bills", conditions: { titleContains: "bill" }, actions: { category: "Bills & Utilities", tags: ["bills"] } });
+    const created = await api.transactions.create(input);
+    expect(created).toMatchObject({ category: "Transfer", toAccountId: "a2" });
+    expect(created.tags).toBeUndefined();
+
+    const changed = await api.transactions.update(created.id, { type: "expense", category: "Bills & Utilities" });
+    expect(changed.toAccountId).toBeUndefined();
+  });
+
+  it("leaves the transfer category behind when it becomes an expense", async () => {
+    const api = clientFor();
+    const created = await api.transactions.create(input);
+    expect(await api.transactions.update(created.id, { type: "expense" })).toMatchObject({ type: "expense", category: "Others" });
+  });
+
+  it("needs two different accounts and refuses to delete either while in use", async () => {
+    const api = clientFor();
+    await expect(api.transactions.create({ ...input, toAccountId: undefined })).rejects.toMatchObject({ status: 400 });
+    await expect(api.transactions.create({ ...input, toAccountId: "a1" })).rejects.toMatchObject({ status: 400 });
+
+    await api.transactions.create(input);
+    await expect(api.accounts.remove("a2")).rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { merchantCategory, parseUpiUri } from "@/lib/upi";
+
+describe("parseUpiUri", () => {
+  it("reads the payee, amount, note and merchant code", () => {
+    const payment = parseUpiUri("upi://pay?pa=chai.point@icici&pn=Chai%20Point&am=80.00&tn=Order+12&tr=ORD12&mc=5814&cu=inr");
+    expect(payment).toEqual({
+      payeeAddress: "chai.point@icici",
+      payeeName: "Chai Point",
+      amount: 80,
+      note: "Order 12",
+      reference: "ORD12",
+      merchantCode: "5814",
+      currency: "INR",
+    });
+    expect(merchantCategory(payment)).toBe("Food & Dining");
+  });
+
+  it("finds the link inside pasted text and leaves out what it does not set", () => {
+    expect(parseUpiUri("Pay me: UPI://pay?pa=ramesh@okaxis&pn=Ramesh&mc=0000 thanks")).toEqual({
+      payeeAddress: "ramesh@okaxis",
+      payeeName: "Ramesh",
+      merchantCode: "0000",
+    });
+    expect(merchantCategory({ payeeAddress: "ramesh@okaxis", merchantCode: "0000" })).toBeUndefined();
+  });
+
+  it("rejects other links and missing or malformed payee addresses", () => {
+    expect(parseUpiUri("https://example.com/pay?pa=a@b")).toBeNull();
+    expect(parseUpiUri("upi://pay?pn=Nobody&am=10")).toBeNull();
+    expect(parseUpiUri("upi://pay?pa=not-a-vpa")).toBeNull();
+    expect(parseUpiUri("upi://pay?pa=shop@ybl&am=abc")).toEqual({ payeeAddress: "shop@ybl" });
+  });
+});
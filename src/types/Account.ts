@@ -0,0 +1,74 @@
+/**
+ * ============================================================================
+ * ACCOUNT TYPES
+ * ============================================================================
+ * 
+ * Shared type definitions for the places money is held - bank accounts,
+ * cash, cards and wallets.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+/**
+ * Kind of account, used for grouping and icons
+ */
+export type AccountType = "bank" | "cash" | "credit_card" | "wallet";
+
+/**
+ * A money account that transactions can be recorded against
+ */
+export interface Account {
+  id: string;              // Unique account identifier
+  name: string;            // Display name (e.g., "HDFC Savings")
+  type: AccountType;       // Kind of account
+  currency?: string;       // ISO 4217 code the account is held in; INR when missing
+  openingBalance: number;  // Balance in the account currency before the first recorded transaction
+  lastReconciliation?: Reconciliation; // Most recent statement the account was reconciled against
+  createdAt: string;       // ISO timestamp when the account was added
+}
+
+/**
+ * A completed reconciliation of an account against a bank statement
+ */
+export interface Reconciliation {
+  statementDate: string;    // Closing date on the statement (YYYY-MM-DD)
+  statementBalance: number; // Closing balance on the statement in the account currency (negative = owed)
+  reconciledAt: string;     // ISO timestamp when it was completed
+}
+
+/**
+ * Body of a reconcile request: the statement and the entries it clears
+ */
+export interface ReconcileInput {
+  statementDate: string;    // Closing date on the statement (YYYY-MM-DD)
+  statementBalance: number; // Closing balance on the statement in the account currency
+  transactionIds: string[]; // Entries ticked off as cleared on the statement
+}
+
+/**
+ * Outcome of a reconciliation
+ */
+export interface ReconcileResult {
+  account: Account;         // The account with its new last reconciliation
+  reconciled: number;       // Entries locked by this reconciliation
+}
+
+/**
+ * An account with the balance of the transactions recorded against it
+ */
+export interface AccountBalance {
+  accountId: string;       // Account the balance belongs to
+  name: string;            // Account display name
+  type: AccountType;       // Kind of account
+  currency: string;        // Currency the account is held in
+  balance: number;         // Opening balance plus income minus expenses in `currency` (negative = owed)
+  baseBalance: number;     // The same balance in the base currency, each entry converted at its date
+}
+
+/**
+ * Fields supplied when adding an account; id and timestamp are assigned
+ * by the backend
+ */
+export type AccountInput = Omit<Account, "id" | "lastReconciliation" | "createdAt">;
@@ -0,0 +1,65 @@
+/**
+ * ============================================================================
+ * BACKUP TYPES
+ * ============================================================================
+ *
+ * Shared type definitions for full backups: the snapshot of every store in
+ * the on-device database, the encrypted file it is saved as, and how a
+ * restore treats the data already on the device.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { StoreName, StoreRecords } from "@/lib/db/schema";
+
+/**
+ * Records of each store, keyed by store name
+ */
+export type BackupStores = { [S in StoreName]?: StoreRecords[S][] };
+
+/**
+ * Everything on the device at one point in time
+ */
+export interface BackupSnapshot {
+  app: "FinGuide";           // Marks the document as a FinGuide backup
+  schemaVersion: number;     // Database schema version the records are in
+  createdAt: string;         // ISO timestamp when the backup was taken
+  stores: BackupStores;      // Every record of every store
+}
+
+/**
+ * How a restore treats existing data
+ * - replace: delete everything on the device, then write the backup
+ * - merge: keep existing records and add the backup's records that are missing
+ */
+export type RestoreMode = "replace" | "merge";
+
+/**
+ * Outcome of a restore
+ */
+export interface RestoreResult {
+  mode: RestoreMode;
+  restored: Partial<Record<StoreName, number>>;   // Records written per store
+}
+
+/**
+ * The backup file: a passphrase-encrypted snapshot plus what is needed to
+ * derive the key again. Only the ciphertext holds user data.
+ */
+export interface BackupEnvelope {
+  format: "finguide-backup";   // File type marker
+  version: 1;                  // Envelope layout version
+  kdf: {
+    name: "PBKDF2";
+    hash: "SHA-256";
+    iterations: number;
+    salt: string;              // Base64
+  };
+  cipher: {
+    name: "AES-GCM";
+    iv: string;                // Base64, 12 bytes
+  };
+  data: string;                // Base64 ciphertext of the snapshot JSON
+}
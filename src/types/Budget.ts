@@ -0,0 +1,31 @@
+/**
+ * ============================================================================
+ * BUDGET TYPES
+ * ============================================================================
+ * 
+ * Shared type definitions for category-wise monthly spending limits.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+/**
+ * Budget interface for category-wise spending limits
+ */
+export interface Budget {
+  id: string;         // Unique budget identifier
+  category: string;   // Expense category name the limit applies to (emoji and color come from the catalog)
+  spent: number;      // This month's expenses in the category and its subcategories, in the base currency (computed, read-only)
+  limit: number;      // Monthly spending limit in the base currency
+}
+
+/**
+ * A budget as persisted; `spent` is derived from the ledger on every read
+ */
+export type BudgetRecord = Omit<Budget, "spent">;
+
+/**
+ * Fields supplied when creating a budget; the id is assigned by the backend
+ */
+export type BudgetInput = Omit<Budget, "id" | "spent">;
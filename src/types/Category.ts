@@ -0,0 +1,56 @@
+/**
+ * ============================================================================
+ * CATEGORY TYPES
+ * ============================================================================
+ * 
+ * Shared type definitions for the user-managed category catalog.
+ * Transactions and budgets refer to categories by name, so renames and
+ * merges rewrite those names in place.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { CategoryType } from "./Transaction";
+
+/**
+ * Palette a category can be drawn in (see CATEGORY_COLORS)
+ */
+export type CategoryColor =
+  | "warning"
+  | "info"
+  | "emerald"
+  | "purple-accent"
+  | "destructive"
+  | "teal"
+  | "muted";
+
+/**
+ * A spending or income category
+ */
+export interface Category {
+  id: string;              // Unique category identifier
+  name: string;            // Display name, unique per type (e.g., "Food & Dining")
+  type: CategoryType;      // Whether it classifies income or expenses
+  emoji: string;           // Visual emoji representation
+  color: CategoryColor;    // Palette entry used for icons, bars and charts
+  parentId?: string;       // Parent category id when this is a subcategory
+  archived: boolean;       // Hidden from pickers but kept for existing entries
+  createdAt: string;       // ISO timestamp; the catalog is listed in this order
+}
+
+/**
+ * Fields supplied when creating a category
+ */
+export type CategoryInput = Omit<Category, "id" | "createdAt" | "archived"> & {
+  archived?: boolean;
+};
+
+/**
+ * Fields that can be changed on an existing category; the type is fixed
+ * and `parentId: null` turns a subcategory back into a top-level one
+ */
+export type CategoryChanges = Partial<Omit<CategoryInput, "type" | "parentId">> & {
+  parentId?: string | null;
+};
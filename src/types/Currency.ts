@@ -0,0 +1,46 @@
+/**
+ * ============================================================================
+ * CURRENCY TYPES
+ * ============================================================================
+ *
+ * Shared type definitions for multi-currency support - the base currency
+ * every total is shown in and the user's own table of exchange rates.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+/**
+ * A rate entered by the user: on `date`, 1 unit of `from` was worth `rate`
+ * units of `to`
+ */
+export interface ExchangeRate {
+  id: string;              // Unique rate identifier
+  from: string;            // ISO 4217 code converted from (e.g., "USD")
+  to: string;              // ISO 4217 code converted to (e.g., "INR")
+  rate: number;            // Units of `to` per unit of `from`
+  date: string;            // Date the rate applies from (YYYY-MM-DD)
+  createdAt: string;       // ISO timestamp when the rate was added
+}
+
+/**
+ * Fields supplied when adding a rate; id and timestamp are assigned by the
+ * backend
+ */
+export type ExchangeRateInput = Omit<ExchangeRate, "id" | "createdAt">;
+
+/**
+ * The base currency setting
+ */
+export interface BaseCurrency {
+  currency: string;        // ISO 4217 code totals and charts are shown in
+}
+
+/**
+ * Base currency and rates needed to convert amounts into it
+ */
+export interface CurrencyContext {
+  base: string;            // Currency to convert into
+  rates: ExchangeRate[];   // Every rate the user has entered
+}
@@ -0,0 +1,44 @@
+/**
+ * ============================================================================
+ * DUPLICATE TYPES
+ * ============================================================================
+ *
+ * Shared type definitions for the duplicate review queue: pairs of
+ * transactions that look like the same payment recorded twice, and the
+ * user's decision about each pair.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Transaction } from "./Transaction";
+
+/**
+ * Two transactions that look like the same payment
+ */
+export interface DuplicatePair {
+  id: string;                // "<originalId>:<duplicateId>"
+  original: Transaction;     // The entry recorded first
+  duplicate: Transaction;    // The later entry that repeats it
+  similarity: number;        // Description similarity (0-1)
+  daysApart: number;         // Days between the two dates
+}
+
+/**
+ * What to do with a pair:
+ * - merge: fold the duplicate's note, tags, account and bank id into the
+ *   original and delete the duplicate
+ * - keep_both: they are different payments; stop flagging the pair
+ * - discard: delete the duplicate as-is
+ */
+export type DuplicateAction = "merge" | "keep_both" | "discard";
+
+/**
+ * Decision sent for one pair
+ */
+export interface DuplicateResolution {
+  originalId: string;
+  duplicateId: string;
+  action: DuplicateAction;
+}
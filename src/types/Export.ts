@@ -0,0 +1,81 @@
+/**
+ * ============================================================================
+ * EXPORT TYPES
+ * ============================================================================
+ *
+ * Shared type definitions for data export: which records to include, the
+ * file format, and the tabular form every format is written from.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { Account } from "./Account";
+import type { Budget } from "./Budget";
+import type { Goal } from "./Goal";
+import type { Transaction } from "./Transaction";
+
+/**
+ * File formats offered for export
+ * - csv: one file per entity (several are bundled in a .zip)
+ * - json: a single document with every field of every record
+ * - xlsx: an Excel workbook with one sheet per entity
+ * - ledger, beancount: a double-entry journal of transactions and accounts
+ */
+export type ExportFormat = "csv" | "json" | "xlsx" | JournalFormat;
+
+/**
+ * Plain-text accounting syntaxes; "ledger" is also read by hledger
+ */
+export type JournalFormat = "ledger" | "beancount";
+
+/**
+ * Kinds of records that can be exported
+ */
+export type ExportEntity = "transactions" | "budgets" | "goals" | "accounts";
+
+/**
+ * Records to export
+ */
+export interface ExportData {
+  transactions: Transaction[];
+  budgets: Budget[];
+  goals: Goal[];
+  accounts: Account[];
+}
+
+/**
+ * What the user chose to export. Empty filters include everything.
+ */
+export interface ExportScope {
+  entities: ExportEntity[];  // Record kinds to include
+  from?: string;             // First transaction date (YYYY-MM-DD), inclusive
+  to?: string;               // Last transaction date (YYYY-MM-DD), inclusive
+  accountIds?: string[];     // Transactions and accounts to keep
+  categories?: string[];     // Transaction and budget categories to keep (subcategories included)
+}
+
+/**
+ * Value of one exported cell; amounts stay numbers so spreadsheets can sum them
+ */
+export type ExportCell = string | number | null;
+
+/**
+ * One entity laid out as rows and columns
+ */
+export interface ExportTable {
+  name: ExportEntity;        // Sheet or file name
+  columns: string[];         // Header row
+  amountColumns: number[];   // Indexes of amount columns, written with two decimals
+  rows: ExportCell[][];      // One row per record
+}
+
+/**
+ * A finished export ready to download
+ */
+export interface ExportFile {
+  name: string;              // Suggested file name (e.g., "finguide-2026-03-05.xlsx")
+  type: string;              // MIME type
+  data: string | Uint8Array<ArrayBuffer>; // File contents
+}
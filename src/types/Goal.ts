@@ -0,0 +1,28 @@
+/**
+ * ============================================================================
+ * GOAL TYPES
+ * ============================================================================
+ * 
+ * Shared type definitions for long-term savings goals.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+/**
+ * Goal interface for long-term savings targets
+ */
+export interface Goal {
+  id: string;         // Unique goal identifier
+  title: string;      // Goal name (e.g., "Emergency Fund")
+  emoji: string;      // Visual emoji representation
+  saved: number;      // Amount saved so far, in the base currency
+  target: number;     // Target amount in the base currency
+  deadline: string;   // Target date as entered by the user (e.g., "Dec 2026")
+}
+
+/**
+ * Fields supplied when creating a goal; the id is assigned by the backend
+ */
+export type GoalInput = Omit<Goal, "id">;
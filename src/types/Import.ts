@@ -0,0 +1,114 @@
+/**
+ * ============================================================================
+ * IMPORT TYPES
+ * ============================================================================
+ * 
+ * Shared type definitions for statement imports: rows parsed from a bank
+ * file or SMS alerts before they become transactions, and saved CSV
+ * column mappings.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { CategoryType, TransactionSplit, TransactionType } from "./Transaction";
+
+/**
+ * Date layouts understood by the CSV importer
+ */
+export type StatementDateFormat =
+  | "DD/MM/YYYY"
+  | "DD-MM-YYYY"
+  | "DD.MM.YYYY"
+  | "DD/MM/YY"
+  | "DD-MM-YY"
+  | "DD-MMM-YYYY"
+  | "DD MMM YYYY"
+  | "DD-MMM-YY"
+  | "YYYY-MM-DD"
+  | "MM/DD/YYYY";
+
+/**
+ * Which CSV column (zero-based index) holds each field
+ */
+export interface ColumnMapping {
+  date: number;          // Transaction or value date
+  description: number;   // Narration / particulars
+  debit?: number;        // Withdrawal amount (money out)
+  credit?: number;       // Deposit amount (money in)
+  balance?: number;      // Running balance, shown in the preview only
+}
+
+/**
+ * A saved CSV layout for one bank's statements
+ */
+export interface BankProfile {
+  id: string;                      // Unique profile identifier
+  name: string;                    // Display name (e.g., "HDFC Savings CSV")
+  headers: string[];               // Header row it was saved from; used to recognise the bank's files
+  headerRow: number;               // Zero-based row holding the headers (rows above are skipped)
+  mapping: ColumnMapping;
+  dateFormat: StatementDateFormat;
+  createdAt: string;               // ISO timestamp when the profile was saved
+}
+
+/**
+ * Fields supplied when saving a profile
+ */
+export type BankProfileInput = Omit<BankProfile, "id" | "createdAt">;
+
+/**
+ * One statement line, parsed and ready for the import preview
+ */
+export interface StatementRow {
+  line: number;            // Line or entry number in the source file (1-based)
+  date: string;            // ISO date (YYYY-MM-DD)
+  description: string;     // Becomes the transaction title
+  amount: number;          // Always positive
+  currency?: string;       // Currency code named in the file (journals); otherwise the account's
+  type: TransactionType;   // Credits are income, debits expenses; journals also hold transfers
+  balance?: number;        // Running balance after this line, if the file has one
+  note?: string;           // Memo, when the file has one separate from the payee
+  category?: string;       // Category named in the file (journals); otherwise the rules decide
+  splits?: TransactionSplit[]; // Category lines of a split entry (journals)
+  tags?: string[];         // Tags named in the file (journals)
+  account?: string;        // Account named on this row, when the file covers several accounts (a transfer's source)
+  toAccount?: string;      // Transfers only: account the money moved into
+  externalId?: string;     // Bank's transaction id (or a stable fingerprint), used to skip re-imports
+}
+
+/**
+ * A line that could not be read, shown in the preview
+ */
+export interface StatementError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of parsing a statement file
+ */
+export interface ParsedStatement {
+  rows: StatementRow[];
+  errors: StatementError[];
+  account?: string;        // Account number or name named in the file, if any
+}
+
+/**
+ * File formats the import wizard reads
+ */
+export type StatementFormat = "csv" | "ofx" | "qif" | "journal";
+
+/**
+ * Details read from one bank or UPI SMS alert
+ */
+export interface SmsAlert {
+  amount: number;          // Always positive
+  type: CategoryType;      // Debited/spent/sent is an expense, credited/received income
+  accountSuffix?: string;  // Last digits of the account or card (e.g., "1234")
+  counterparty?: string;   // Merchant, payee, payer or VPA
+  reference?: string;      // UPI reference, UTR or transaction number
+  date?: string;           // ISO date, when the message has one
+  bank?: string;           // Bank or app named in the message
+}
@@ -0,0 +1,30 @@
+/**
+ * ============================================================================
+ * INSIGHT TYPES
+ * ============================================================================
+ * 
+ * Shared type definitions for generated financial insights shown on the
+ * dashboard.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+/**
+ * Kind of insight, used for color coding
+ * - achievement: positive feedback on good financial behavior
+ * - warning: alerts about overspending or budget issues
+ * - tip: suggestions for saving money
+ */
+export type InsightType = "tip" | "warning" | "achievement";
+
+/**
+ * A single generated recommendation
+ */
+export interface Insight {
+  id: string;           // Stable identifier for the insight
+  type: InsightType;    // Insight category
+  title: string;        // Brief insight headline
+  description: string;  // Detailed insight message
+}
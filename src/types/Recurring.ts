@@ -0,0 +1,81 @@
+/**
+ * ============================================================================
+ * RECURRING TRANSACTION TYPES
+ * ============================================================================
+ *
+ * Shared type definitions for recurring templates (rent, salary, SIPs):
+ * the schedule they repeat on and the entries they post to the ledger.
+ *
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { CategoryType, Transaction } from "./Transaction";
+
+/**
+ * Unit a schedule repeats in
+ */
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+/**
+ * When a template repeats. Monthly and yearly schedules fall on the start
+ * date's day (the 31st becomes the month's last day in shorter months).
+ */
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  interval: number;          // Every N units (e.g., 2 with "weekly" is fortnightly)
+  startDate: string;         // First occurrence (YYYY-MM-DD)
+  endDate?: string;          // No occurrences after this date (inclusive)
+  lastWorkingDay?: boolean;  // Monthly/yearly: the month's last Monday-Friday instead of the start day
+}
+
+/**
+ * A template that posts a transaction on every occurrence of its schedule
+ */
+export interface RecurringTransaction {
+  id: string;              // Unique template identifier
+  type: CategoryType;      // Income or expense
+  title: string;           // Title of each posted entry
+  amount: number;          // Amount in `currency` (always positive)
+  currency?: string;       // ISO 4217 code of each posted entry; INR when missing
+  category: string;        // Category name of each posted entry
+  note?: string;           // Note copied to each posted entry
+  tags?: string[];         // Tags copied to each posted entry
+  accountId?: string;      // Account each entry is recorded against
+  schedule: RecurrenceSchedule;
+  lastPostedDate?: string; // Latest occurrence posted; posting resumes after it
+  paused: boolean;         // Paused templates post nothing; periods missed while paused are skipped
+  createdAt: string;       // ISO timestamp when the template was created
+  updatedAt: string;       // ISO timestamp of the last modification
+}
+
+/**
+ * Fields supplied when creating a template
+ */
+export type RecurringInput = Omit<
+  RecurringTransaction,
+  "id" | "lastPostedDate" | "paused" | "createdAt" | "updatedAt"
+> & {
+  paused?: boolean;
+};
+
+/**
+ * A future occurrence, for the forecast list
+ */
+export interface UpcomingOccurrence {
+  recurringId: string;
+  date: string;            // ISO date (YYYY-MM-DD)
+  title: string;
+  type: CategoryType;
+  amount: number;
+  currency?: string;
+  category: string;
+}
+
+/**
+ * Entries posted by a catch-up run
+ */
+export interface RecurringPostResult {
+  posted: Transaction[];
+}
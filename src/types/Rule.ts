@@ -0,0 +1,58 @@
+/**
+ * ============================================================================
+ * RULE TYPES
+ * ============================================================================
+ * 
+ * Shared type definitions for auto-categorization rules. Rules run in
+ * priority order whenever a transaction is created or imported.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { CategoryType } from "./Transaction";
+
+/**
+ * What a transaction must look like for a rule to apply.
+ * Every condition that is set must match; at least one is required.
+ */
+export interface RuleConditions {
+  titleContains?: string;    // Case-insensitive text the title must contain
+  noteContains?: string;     // Case-insensitive text the note must contain
+  minAmount?: number;        // Inclusive lower bound, in the transaction's currency
+  maxAmount?: number;        // Inclusive upper bound, in the transaction's currency
+  accountId?: string;        // Account the transaction was recorded against
+  type?: CategoryType;       // Only income or only expenses
+}
+
+/**
+ * What a matching rule does to the transaction
+ */
+export interface RuleActions {
+  category?: string;   // Category to assign when none was chosen
+  tags?: string[];     // Tags to add
+  note?: string;       // Note to set when the transaction has none
+}
+
+/**
+ * An auto-categorization rule
+ */
+export interface Rule {
+  id: string;                   // Unique rule identifier
+  name: string;                 // Label shown in the rules list
+  conditions: RuleConditions;
+  actions: RuleActions;
+  priority: number;             // Lower runs first
+  enabled: boolean;             // Disabled rules are skipped
+  createdAt: string;            // ISO timestamp when the rule was created
+}
+
+/**
+ * Fields supplied when creating a rule; new rules run last unless a
+ * priority is given
+ */
+export type RuleInput = Omit<Rule, "id" | "createdAt" | "priority" | "enabled"> & {
+  priority?: number;
+  enabled?: boolean;
+};
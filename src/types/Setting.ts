@@ -0,0 +1,19 @@
+/**
+ * ============================================================================
+ * SETTING TYPES
+ * ============================================================================
+ * 
+ * Key-value records for user preferences and app state stored on device.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+/**
+ * A single stored preference
+ */
+export interface Setting<T = unknown> {
+  key: string;   // Unique setting name (e.g., "currency")
+  value: T;      // JSON-serializable value
+}
@@ -0,0 +1,51 @@
+/**
+ * ============================================================================
+ * SUMMARY TYPES
+ * ============================================================================
+ * 
+ * Shared type definitions for the dashboard balance overview.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { AccountBalance } from "./Account";
+
+/**
+ * Calendar period the overview covers (weeks start on Monday)
+ */
+export type SummaryPeriod = "week" | "month" | "year";
+
+/**
+ * Income, expenses and savings for one period
+ */
+export interface PeriodTotals {
+  income: number;       // Income recorded in the period in the base currency
+  expenses: number;     // Expenses recorded in the period in the base currency
+  savingsRate: number;  // Share of the period's income not spent, to one decimal
+}
+
+/**
+ * Movement of each figure relative to the previous period
+ */
+export interface PeriodChange {
+  income: number | null;    // Percent change, null when the previous period had none
+  expenses: number | null;  // Percent change, null when the previous period had none
+  savingsRate: number;      // Difference in percentage points
+}
+
+/**
+ * Headline figures shown on the dashboard balance card
+ */
+export interface DashboardSummary extends PeriodTotals {
+  period: SummaryPeriod;    // Period the totals cover
+  periodStart: string;      // First day of the period (YYYY-MM-DD)
+  periodEnd: string;        // Last day of the period (YYYY-MM-DD)
+  currency: string;         // Base currency every figure is converted into
+  balance: number;          // Opening balances plus all income minus all expenses in the base currency
+  accounts: AccountBalance[]; // Per-account share of the balance, in account order
+  unassigned: number;       // Share of the balance from entries with no (known) account
+  previous: PeriodTotals;   // Totals for the period immediately before
+  change: PeriodChange;     // Current period compared with the previous one
+}
@@ -0,0 +1,63 @@
+/**
+ * ============================================================================
+ * TRANSACTION TYPES
+ * ============================================================================
+ * 
+ * Shared type definitions for ledger entries. Used by the transaction store,
+ * the add transaction form, and every dashboard widget that reads the ledger.
+ * 
+ * @author FinGuide Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+/**
+ * Transaction type - income, expense, or a transfer between two accounts
+ */
+export type TransactionType = "income" | "expense" | "transfer";
+
+/**
+ * Types that carry a category; a transfer only moves money between accounts
+ */
+export type CategoryType = Exclude<TransactionType, "transfer">;
+
+/**
+ * One line of a split transaction, with its own category
+ */
+export interface TransactionSplit {
+  category: string;        // Category name this part counts towards
+  amount: number;          // Part of the transaction amount, in its currency (positive)
+  note?: string;           // Optional note for this line (e.g., "Birthday gift")
+}
+
+/**
+ * A single recorded income or expense entry
+ */
+export interface Transaction {
+  id: string;              // Unique transaction identifier
+  type: TransactionType;   // Income, expense or transfer
+  title: string;           // Short description shown in lists
+  amount: number;          // Transaction amount in `currency` (always positive)
+  currency?: string;       // ISO 4217 code the amount is in; INR when missing
+  category: string;        // Category name (e.g., "Food & Dining"); the first line's for a split
+  splits?: TransactionSplit[]; // Lines sharing the amount across categories; they add up to `amount`
+  date: string;            // Transaction date as ISO string (YYYY-MM-DD)
+  note?: string;           // Optional free-form note
+  tags?: string[];         // Optional lowercase labels (e.g., ["trip", "goa"])
+  accountId?: string;      // Account the money moved through, if known (a transfer's source)
+  toAccountId?: string;    // Transfers only: account the money moved into
+  externalId?: string;     // Bank's id for an imported entry; re-imports skip ids already stored
+  notDuplicateOf?: string[]; // Ids the user marked "keep both" for in duplicate review
+  reconciledAt?: string;   // ISO timestamp when it was matched to a statement; locked until unlocked
+  createdAt: string;       // ISO timestamp when the entry was created
+  updatedAt: string;       // ISO timestamp of the last modification
+}
+
+/**
+ * Fields supplied by the user when creating a transaction.
+ * Identifiers and timestamps are assigned by the backend, and a missing
+ * category is filled in by the categorization rules (or "Others").
+ */
+export type TransactionInput = Omit<Transaction, "id" | "category" | "reconciledAt" | "createdAt" | "updatedAt"> & {
+  category?: string;
+};